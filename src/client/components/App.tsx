@@ -1,12 +1,25 @@
 import React, { useState, useRef, Suspense, lazy } from "react";
 
 import { ScoreCard } from "../../scoring-engine/types";
+import { PROFILES } from "../../scoring-engine/profiles";
     const ScoreCardDisplay = lazy(() => import("./ScoreCard"));
 import "../styles/styles.css";
 
+type InputTab = "file" | "url" | "paste";
+
+const INPUT_TABS: { id: InputTab; label: string }[] = [
+    { id: "file", label: "Upload file" },
+    { id: "url", label: "From URL" },
+    { id: "paste", label: "Paste spec" },
+];
+
 function App() {
     const [file, setFile] = useState<File | null>(null);
     const [url, setUrl] = useState("");
+    const [content, setContent] = useState("");
+    const [activeTab, setActiveTab] = useState<InputTab>("file");
+    // Empty means the profile configured on the server, if any
+    const [profile, setProfile] = useState("");
     const [loading, setLoading] = useState(false);
     const [report, setReport] = useState<ScoreCard | null>(null);
     const [error, setError] = useState<string | null>(null);
@@ -49,6 +62,11 @@ const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
     }
 };
 
+const hasInput =
+    (activeTab === "file" && !!file) ||
+    (activeTab === "url" && !!url) ||
+    (activeTab === "paste" && !!content.trim());
+
 const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     // Changed from HTMLDivElement
     e.preventDefault();
@@ -59,12 +77,17 @@ const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     try {
         const formData = new FormData();
 
-        if (file) {
+        if (activeTab === "file" && file) {
             formData.append("spec", file);
-        } else if (url) {
+        } else if (activeTab === "url" && url) {
             formData.append("url", url);
+        } else if (activeTab === "paste" && content.trim()) {
+            formData.append("content", content);
         } else {
-            throw new Error("Please provide a file or URL");
+            throw new Error("Please provide a file, URL or specification content");
+        }
+        if (profile) {
+            formData.append("profile", profile);
         }
 
         const response = await fetch("/api/analyze", {
@@ -94,9 +117,24 @@ return (
     <h1 className="main-heading">OpenAPI Scorecard</h1>
     <div className="upload-header">UPLOAD OPENAPI SPEC</div>
     <p className="upload-instructions">
-    Upload an OpenAPI (v3) specification in YAML or JSON format to evaluate it.
+    Upload an OpenAPI (3.0 or 3.1) or Swagger (2.0) specification in YAML or JSON format to evaluate it.
         </p>
     <form onSubmit={handleSubmit} className="form-container">
+    <div className="tabs-list" role="tablist">
+    {INPUT_TABS.map(tab => (
+        <button
+        key={tab.id}
+        type="button"
+        role="tab"
+        aria-selected={activeTab === tab.id}
+        className={`tab-trigger${activeTab === tab.id ? ' tab-trigger-active' : ''}`}
+        onClick={() => setActiveTab(tab.id)}
+        >
+        {tab.label}
+        </button>
+    ))}
+    </div>
+    {activeTab === "file" && (
     <div
     className={`upload-dropzone${file ? ' has-file' : ''}`}
     onClick={() => fileInputRef.current?.click()}
@@ -141,10 +179,51 @@ return (
     style={{ display: "none" }}
     />
     </div>
+    )}
+    {activeTab === "url" && (
+        <div className="tab-content">
+        <input
+        type="url"
+        className="input-field url-input"
+        placeholder="https://example.com/openapi.yaml"
+        value={url}
+        onChange={handleUrlChange}
+        aria-label="Specification URL"
+        />
+        </div>
+    )}
+    {activeTab === "paste" && (
+        <div className="tab-content">
+        <textarea
+        className="input-field paste-input"
+        placeholder="Paste an OpenAPI or Swagger document in YAML or JSON"
+        value={content}
+        onChange={e => setContent(e.target.value)}
+        spellCheck={false}
+        aria-label="Specification content"
+        />
+        </div>
+    )}
+    <div className="profile-select">
+    <label htmlFor="profile-select" className="profile-label">Scoring profile</label>
+    <select
+    id="profile-select"
+    className="input-field"
+    value={profile}
+    onChange={e => setProfile(e.target.value)}
+    >
+    <option value="">Default</option>
+    {Object.values(PROFILES).map(option => (
+        <option key={option.name} value={option.name} title={option.description}>
+        {option.name}
+        </option>
+    ))}
+    </select>
+    </div>
     <button
     type="submit"
     className="submit-button"
-    disabled={(!file && !url) || loading}
+    disabled={!hasInput || loading}
     >
     {loading ? "Analyzing..." : "UPLOAD"}
     </button>
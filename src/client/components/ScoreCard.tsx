@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import type { ScoreCard } from "../../scoring-engine/types";
+import type { ScoreCard, ScoreExplanation, SuppressedViolation } from "../../scoring-engine/types";
 import ViolationsList from "./ViolationsList";
 import "../styles/ScoreCard.css";
 import '../styles/ReportTable.css';
@@ -9,6 +9,32 @@ interface ScorecardDisplayProps {
         report: ScoreCard; // The main data for the report
 }
 
+// The arithmetic behind a category score, collapsed until asked for
+const ScoreExplanationPanel: React.FC<{ explanation: ScoreExplanation }> = ({ explanation }) => (
+    <details className="score-explanation">
+        <summary>How was this scored?</summary>
+        <p>{explanation.method}</p>
+        <ul>
+            {explanation.items.length > 0 && (
+                <li>
+                    Counted: {explanation.items.map(({ label, count }) => `${count} ${label}`).join(", ")}
+                </li>
+            )}
+            {explanation.subChecks.map(({ name, score, maxScore }) => (
+                <li key={`sub-check-${name}`}>Sub-check {name}: {score}/{maxScore}</li>
+            ))}
+            {explanation.penalties.map(({ reason, points }, index) => (
+                <li key={`penalty-${index}`} className="score-explanation-penalty">
+                    -{points} points: {reason}
+                </li>
+            ))}
+            {explanation.caps.map((cap, index) => (
+                <li key={`cap-${index}`} className="score-explanation-cap">Cap: {cap}</li>
+            ))}
+        </ul>
+    </details>
+);
+
 const ScorecardDisplay: React.FC<ScorecardDisplayProps> = ({
     percentage,
     report,
@@ -59,6 +85,17 @@ const ScorecardDisplay: React.FC<ScorecardDisplayProps> = ({
 
     const numberOfColumns = 3; // For colSpan in the table
 
+    // Operations with violations, worst first
+    const worstEndpoints = (report.operationScores || [])
+        .filter((operation) => operation.violationCount > 0)
+        .slice(0, 10);
+
+    // Tag and owner rollups, left out when the spec has no tags or owners
+    const groupRollups = [
+        { title: "Scores by Tag", column: "Tag", groups: report.tagScores || [] },
+        { title: `Scores by Owner (${report.ownerExtension})`, column: "Owner", groups: report.ownerScores || [] },
+    ].filter(({ groups }) => groups.length > 0);
+
         return (
             <div className="scorecard-display-wrapper"> {/* Outer wrapper for the whole component */}
                 {/* Top Scorecard Visual */}
@@ -102,6 +139,9 @@ const ScorecardDisplay: React.FC<ScorecardDisplayProps> = ({
               {report.grade} Tier
             </div>
             {/* <div className="score-label">{report.grade} Tier</div> */}
+            {report.profile && (
+                <div className="score-label">Profile: {report.profile}</div>
+            )}
             </div>
             </div>
             <div className="scorecard-right">
@@ -121,6 +161,17 @@ const ScorecardDisplay: React.FC<ScorecardDisplayProps> = ({
             {/* Detailed Report Section */}
             <div className="report-display-container">
 
+            {(report.notes || []).map((note, index) => (
+                <p key={`report-note-${index}`} className="report-note">
+                {note}
+                </p>
+            ))}
+            {(report.warnings || []).map((warning, index) => (
+                <p key={`report-warning-${index}`} className="report-warning">
+                Configuration warning: {warning}
+                </p>
+            ))}
+
             <h3 className="report-heading-h3">Category Scores</h3>
             <div className="table-container">
             <table className="report-table">
@@ -151,6 +202,9 @@ const ScorecardDisplay: React.FC<ScorecardDisplayProps> = ({
                 </svg>
                 </span>
                 <h3> {category.name} </h3>
+                {category.plugin && (
+                    <span className="category-plugin">plugin: {category.plugin}</span>
+                )}
                 </td>
 
                 <td>
@@ -193,6 +247,10 @@ const ScorecardDisplay: React.FC<ScorecardDisplayProps> = ({
                     "No description available."}
                 </h4>
 
+                {category?.ruleResult?.result?.explanation && (
+                    <ScoreExplanationPanel explanation={category.ruleResult.result.explanation} />
+                )}
+
                 <div style={{ marginBottom: "10px" }}>
                 <label htmlFor="severity-filter" style={{ marginRight: "8px" }}>
                 Filter by severity:
@@ -222,6 +280,22 @@ const ScorecardDisplay: React.FC<ScorecardDisplayProps> = ({
                 <p>No applicable violations for this rule.</p>
                 )}
             </div>
+            {(category?.ruleResult?.result?.suppressed || []).length > 0 && (
+                <div className="suppressed-violations">
+                <h5>Suppressed ({category.ruleResult.result.suppressed!.length})</h5>
+                <ul>
+                {category.ruleResult.result.suppressed!.map((violation: SuppressedViolation, sIndex: number) => (
+                    <li key={`suppressed-${index}-${sIndex}`}>
+                    <code className="violation-code">{violation.ruleId}</code>{" "}
+                    {violation.path || violation.location}: {violation.message}
+                    {violation.reason && (
+                        <span className="suppressed-reason"> &mdash; {violation.reason}</span>
+                    )}
+                    </li>
+                ))}
+                </ul>
+                </div>
+            )}
 
             </div>
             </div>
@@ -232,6 +306,120 @@ const ScorecardDisplay: React.FC<ScorecardDisplayProps> = ({
             </tbody>
             </table>
             </div>
+
+            {(report.policies || []).length > 0 && (
+                <>
+                <h3 className="report-heading-h3">Policy</h3>
+                <div className="table-container">
+                <table className="report-table policy-table">
+                <thead>
+                <tr>
+                <th><h4>Category</h4></th>
+                <th><h4>Minimum</h4></th>
+                <th><h4>Percentage</h4></th>
+                <th><h4>Result</h4></th>
+                </tr>
+                </thead>
+                <tbody>
+                {report.policies.map((policy) => (
+                    <tr key={`policy-${policy.category}`}>
+                    <td>
+                    {policy.category}
+                    {policy.reason && <div className="policy-reason">{policy.reason}</div>}
+                    </td>
+                    <td>{policy.minimum}%</td>
+                    <td>{policy.percentage}%</td>
+                    <td>
+                    <span className={policy.passed ? "badge badge-green" : "badge badge-red"}>
+                    {policy.passed ? "PASS" : "FAIL"}
+                    </span>
+                    </td>
+                    </tr>
+                ))}
+                </tbody>
+                </table>
+                </div>
+                </>
+            )}
+
+            {worstEndpoints.length > 0 && (
+                <>
+                <h3 className="report-heading-h3">Worst Endpoints</h3>
+                <div className="table-container">
+                <table className="report-table worst-endpoints-table">
+                <thead>
+                <tr>
+                <th><h4>Operation</h4></th>
+                <th><h4>Score</h4></th>
+                <th><h4>Violations</h4></th>
+                </tr>
+                </thead>
+                <tbody>
+                {worstEndpoints.map((operation) => (
+                    <tr key={`operation-${operation.method}-${operation.path}`}>
+                    <td>
+                    <code className="operation-method">{operation.method}</code> {operation.path}
+                    </td>
+                    <td>
+                    <span className={getBadgeClass("percentage", operation.score)}>
+                    {operation.score} ({operation.grade})
+                    </span>
+                    </td>
+                    <td>
+                    {Object.entries(operation.categoryViolations)
+                        .map(([category, count]) => `${category}: ${count}`)
+                        .join(", ")}
+                    </td>
+                    </tr>
+                ))}
+                </tbody>
+                </table>
+                </div>
+                </>
+            )}
+
+            {groupRollups.map(({ title, column, groups }) => (
+                <React.Fragment key={`group-rollup-${column}`}>
+                <h3 className="report-heading-h3">{title}</h3>
+                <div className="table-container">
+                <table className="report-table group-scores-table">
+                <thead>
+                <tr>
+                <th><h4>{column}</h4></th>
+                <th><h4>Score</h4></th>
+                <th><h4>Violations</h4></th>
+                <th><h4>Top checks</h4></th>
+                </tr>
+                </thead>
+                <tbody>
+                {groups.map((group) => (
+                    <tr key={`group-${column}-${group.name}`}>
+                    <td>
+                    {group.name}
+                    <span className="group-operation-count">
+                    {group.operationCount} {group.operationCount === 1 ? "operation" : "operations"}
+                    </span>
+                    </td>
+                    <td>
+                    <span className={getBadgeClass("percentage", group.score)}>
+                    {group.score} ({group.grade})
+                    </span>
+                    </td>
+                    <td>{group.violationCount}</td>
+                    <td>
+                    {group.topChecks.map(({ ruleId, count }) => (
+                        <div key={`${group.name}-${ruleId}`}>
+                        <code className="violation-code">{ruleId}</code> ({count})
+                        </div>
+                    ))}
+                    </td>
+                    </tr>
+                ))}
+                </tbody>
+                </table>
+                </div>
+                </React.Fragment>
+            ))}
             </div>
             </div>
             </div>
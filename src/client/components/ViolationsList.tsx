@@ -46,9 +46,19 @@ const ViolationsList: React.FC<ViolationsListProps> = ({
                     <code className="violation-code">
                     {violation?.location || "No location"}
                     </code>
+                    {violation?.range ? (
+                        <span className="violation-file">
+                        {" "}at {violation.range.file}:{violation.range.start.line}:{violation.range.start.column}
+                        </span>
+                    ) : violation?.file && (
+                        <span className="violation-file"> in {violation.file}</span>
+                    )}
                     </p>
                     <p className="violation-message">
                     {violation?.message || "No message"}
+                    {violation?.ruleId && (
+                        <code className="violation-rule-id">{violation.ruleId}</code>
+                    )}
                     </p>
                     {violation?.suggestion && (
                         <p className="violation-suggestion">
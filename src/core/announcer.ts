@@ -1,40 +1,124 @@
-import { ScoreCard } from '../scoring-engine/types';
+import { ApiChange, BreakingChangeReport, CategoryDelta, Changelog, ChangelogEntry, CategoryScore, GroupScore, OperationScore, RuleViolation, ScoreCard, ScoreExplanation, SpecComparison } from '../scoring-engine/types';
 import chalk from 'chalk';
 
+// How many operations the worst endpoints ranking lists
+const WORST_ENDPOINTS_LIMIT = 10;
+
+export interface ReportOptions {
+    // List only violations that are not in the baseline the report was compared against
+    onlyNew?: boolean;
+    // Show how each category score was computed
+    explain?: boolean;
+}
+
 // announcer class to generate console reports of the findings.
 export class Announcer {
-    generateConsoleReport(report: ScoreCard): void {
+    generateConsoleReport(report: ScoreCard, options: ReportOptions = {}): void {
+        const violations = this.selectViolations(report, options);
         console.log(chalk.bold('\nOUR JUDGES SCORED YOUR OPENAPI SPECIFICATION\n'));
-        console.log(chalk.bold(`Overall Score: ${report.overallScore}/100 (Grade: ${report.grade})\n`));
+        console.log(chalk.bold(`Overall Score: ${report.overallScore}/100 (Grade: ${report.grade})${report.profile ? `, profile: ${report.profile}` : ''}\n`));
+
+        if (report.notes.length > 0) {
+            console.log(chalk.bold('Notes:'));
+            report.notes.forEach(note => console.log(chalk.cyan(`  ${note}`)));
+            console.log('');
+        }
+
+        if (report.warnings.length > 0) {
+            console.log(chalk.bold('Configuration warnings:'));
+            report.warnings.forEach(warning => console.log(chalk.yellow(`  ${warning}`)));
+            console.log('');
+        }
+
+        if (report.baseline) {
+            console.log(chalk.bold('Baseline:'));
+            console.log(`  ${this.formatBaselineSummary(report)}\n`);
+        }
 
         console.log(chalk.bold('Category Scores:'));
         report.categoryScores.forEach(category => {
             const color = category.percentage >= 70 ? 'green' : category.percentage >= 50 ? 'yellow' : 'red';
-            console.log(chalk[color](`  ${category.name}: ${category.score}/${category.maxScore} (${category.percentage}%)`));
+            console.log(chalk[color](`  ${this.formatCategoryName(category)}: ${category.score}/${category.maxScore} (${category.percentage}%)`));
         });
 
-        console.log(chalk.bold('\nViolations:'));
-        if (report.violations.length === 0) {
-            console.log(chalk.green('  No violations found!'));
+        if (options.explain) {
+            console.log(chalk.bold('\nHow was this scored?'));
+            report.categoryScores.forEach(category => {
+                console.log(`  ${chalk.bold(this.formatCategoryName(category))}: ${category.score}/${category.maxScore}`);
+                this.formatExplanation(category.ruleResult.result.explanation).forEach(line => console.log(chalk.gray(`    ${line}`)));
+            });
+        }
+
+        if (report.policies.length > 0) {
+            console.log(chalk.bold(`\nPolicy: ${this.formatPolicySummary(report)}`));
+            report.policies.forEach(policy => {
+                const line = `  [${policy.passed ? 'PASS' : 'FAIL'}] ${policy.category}: ${policy.percentage}% (minimum ${policy.minimum}%)`;
+                console.log(policy.passed ? chalk.green(line) : chalk.red(line));
+            });
+        }
+
+        if (report.breakingChanges) {
+            console.log('');
+            this.generateBreakingChangesConsoleReport(report.breakingChanges);
+        }
+
+        const worstEndpoints = this.selectWorstEndpoints(report);
+        if (worstEndpoints.length > 0) {
+            console.log(chalk.bold('\nWorst Endpoints:'));
+            worstEndpoints.forEach(operation => {
+                const color = operation.score >= 70 ? 'green' : operation.score >= 50 ? 'yellow' : 'red';
+                console.log(chalk[color](`  ${operation.method} ${operation.path}: ${operation.score}/100 (Grade: ${operation.grade})`));
+                console.log(chalk.gray(`    ${this.formatCategoryViolations(operation)}`));
+            });
+        }
+
+        console.log(chalk.bold(options.onlyNew ? '\nNew Violations:' : '\nViolations:'));
+        if (violations.length === 0) {
+            console.log(chalk.green(options.onlyNew ? '  No new violations found!' : '  No violations found!'));
         } else {
-            report.violations.forEach(violation => {
+            violations.forEach(violation => {
                 if (!(violation.severity === 'info')) {
                     const color = violation.severity === 'error' ? 'red' : violation.severity === 'warning' ? 'yellow' : 'blue';
-                    console.log(chalk[color](`  [${violation.severity.toUpperCase()}] ${violation.path}${violation.operation ? ` (${violation.operation})` : ''} → ${violation.location}`));
-                    console.log(`    ${violation.message}`);
+                    console.log(chalk[color](`  [${violation.severity.toUpperCase()}] ${this.formatLocation(violation)}`));
+                    console.log(`    ${violation.message} ${chalk.gray(`[${violation.ruleId}]`)}`);
                     console.log(chalk.green(`    Suggestion: ${violation.suggestion}\n`));
                 };
             });
         }
+
+        if (report.suppressed.length > 0) {
+            console.log(chalk.bold('\nSuppressed:'));
+            report.suppressed.forEach(violation => {
+                console.log(chalk.gray(`  [${violation.ruleId}] ${this.formatLocation(violation)}`));
+                console.log(chalk.gray(`    ${violation.message}`));
+                console.log(chalk.gray(`    Ignored at ${violation.suppressedBy || '/'}${violation.reason ? `: ${violation.reason}` : ''}\n`));
+            });
+        }
     }
 
-    generateMarkdownReport(report: ScoreCard): string {
+    generateMarkdownReport(report: ScoreCard, options: ReportOptions = {}): string {
+        const violations = this.selectViolations(report, options);
         let markdown = `# OpenAPI Specification Evaluation Report\n\n`;
         
         // Overall score and grade
         markdown += `## Summary\n\n`;
         markdown += `**Overall Score:** ${report.overallScore}/100\n\n`;
         markdown += `**Grade:** ${report.grade}\n\n`;
+        if (report.profile) {
+            markdown += `**Profile:** ${report.profile}\n\n`;
+        }
+        report.notes.forEach(note => {
+            markdown += `> **Note:** ${note}\n\n`;
+        });
+        report.warnings.forEach(warning => {
+            markdown += `> **Configuration warning:** ${warning}\n\n`;
+        });
+        if (report.policies.length > 0) {
+            markdown += `**Policy:** ${this.formatPolicySummary(report)}\n\n`;
+        }
+        if (report.baseline) {
+            markdown += `**Baseline:** ${this.formatBaselineSummary(report)}\n\n`;
+        }
         
         // Category scores
         markdown += `## Category Scores\n\n`;
@@ -42,28 +126,82 @@ export class Announcer {
         markdown += `|----------|-------|---------|------------|\n`;
         
         report.categoryScores.forEach(category => {
-            markdown += `| ${category.name} | ${category.score} | ${category.maxScore} | ${category.percentage}% |\n`;
+            markdown += `| ${this.formatCategoryName(category)} | ${category.score} | ${category.maxScore} | ${category.percentage}% |\n`;
         });
         
         markdown += `\n`;
+
+        if (options.explain) {
+            markdown += `## How was this scored?\n\n`;
+            report.categoryScores.forEach(category => {
+                markdown += `### ${this.formatCategoryName(category)}: ${category.score}/${category.maxScore}\n\n`;
+                markdown += this.formatExplanation(category.ruleResult.result.explanation).map(line => `- ${line}\n`).join('');
+                markdown += `\n`;
+            });
+        }
+
+        if (report.policies.length > 0) {
+            markdown += `## Policy\n\n`;
+            markdown += `| Category | Minimum | Percentage | Result |\n`;
+            markdown += `|----------|---------|------------|--------|\n`;
+            report.policies.forEach(policy => {
+                markdown += `| ${policy.category} | ${policy.minimum}% | ${policy.percentage}% | ${policy.passed ? 'Pass' : '**Fail**'} |\n`;
+            });
+            markdown += `\n`;
+        }
+
+        if (report.breakingChanges) {
+            markdown += `## Breaking Changes\n\n`;
+            markdown += `${this.formatBreakingChangesSummary(report.breakingChanges)}\n\n`;
+            if (report.breakingChanges.changes.length > 0) {
+                markdown += `| Classification | Operation | Change | Location |\n`;
+                markdown += `|----------------|-----------|--------|----------|\n`;
+                report.breakingChanges.changes.forEach(change => {
+                    markdown += `| ${change.classification} | ${this.formatChangeOperation(change)} | ${change.message} | \`${change.currentPointer ?? change.previousPointer}\` |\n`;
+                });
+                markdown += `\n`;
+            }
+        }
+
+        const worstEndpoints = this.selectWorstEndpoints(report);
+        if (worstEndpoints.length > 0) {
+            markdown += `## Worst Endpoints\n\n`;
+            markdown += `| Operation | Score | Grade | Violations |\n`;
+            markdown += `|-----------|-------|-------|------------|\n`;
+            worstEndpoints.forEach(operation => {
+                markdown += `| \`${operation.method} ${operation.path}\` | ${operation.score} | ${operation.grade} | ${this.formatCategoryViolations(operation)} |\n`;
+            });
+            markdown += `\n`;
+        }
+
+        this.selectGroupRollups(report).forEach(({ title, column, groups }) => {
+            markdown += `## ${title}\n\n`;
+            markdown += `| ${column} | Operations | Score | Grade | Violations | Top checks |\n`;
+            markdown += `|${'-'.repeat(column.length + 2)}|------------|-------|-------|------------|------------|\n`;
+            groups.forEach(group => {
+                const topChecks = group.topChecks.map(({ ruleId, count }) => `\`${ruleId}\` (${count})`).join(', ');
+                markdown += `| ${group.name} | ${group.operationCount} | ${group.score} | ${group.grade} | ${group.violationCount} | ${topChecks} |\n`;
+            });
+            markdown += `\n`;
+        });
         
         // Violations
-        markdown += `## Violations\n\n`;
+        markdown += options.onlyNew ? `## New Violations\n\n` : `## Violations\n\n`;
         
-        if (report.violations.length === 0) {
-            markdown += `No violations found! 🎉\n`;
+        if (violations.length === 0) {
+            markdown += options.onlyNew ? `No new violations found! 🎉\n` : `No violations found! 🎉\n`;
         } else {
             // Group violations by severity
-            const errorViolations = report.violations.filter(v => v.severity === 'error');
-            const warningViolations = report.violations.filter(v => v.severity === 'warning');
-            const infoViolations = report.violations.filter(v => v.severity === 'info');
+            const errorViolations = violations.filter(v => v.severity === 'error');
+            const warningViolations = violations.filter(v => v.severity === 'warning');
+            const infoViolations = violations.filter(v => v.severity === 'info');
             
             // Errors
             if (errorViolations.length > 0) {
                 markdown += `### Errors\n\n`;
                 errorViolations.forEach(violation => {
-                    markdown += `#### ${violation.path}${violation.operation ? ` (${violation.operation})` : ''} → ${violation.location}\n\n`;
-                    markdown += `**Issue:** ${violation.message}\n\n`;
+                    markdown += `#### ${this.formatLocation(violation)}\n\n`;
+                    markdown += `**Issue:** ${violation.message} (\`${violation.ruleId}\`)\n\n`;
                     markdown += `**Suggestion:** ${violation.suggestion}\n\n`;
                     markdown += `---\n\n`;
                 });
@@ -73,8 +211,8 @@ export class Announcer {
             if (warningViolations.length > 0) {
                 markdown += `### Warnings\n\n`;
                 warningViolations.forEach(violation => {
-                    markdown += `#### ${violation.path}${violation.operation ? ` (${violation.operation})` : ''} → ${violation.location}\n\n`;
-                    markdown += `**Issue:** ${violation.message}\n\n`;
+                    markdown += `#### ${this.formatLocation(violation)}\n\n`;
+                    markdown += `**Issue:** ${violation.message} (\`${violation.ruleId}\`)\n\n`;
                     markdown += `**Suggestion:** ${violation.suggestion}\n\n`;
                     markdown += `---\n\n`;
                 });
@@ -84,21 +222,33 @@ export class Announcer {
             if (infoViolations.length > 0) {
                 markdown += `### Informational\n\n`;
                 infoViolations.forEach(violation => {
-                    markdown += `#### ${violation.path}${violation.operation ? ` (${violation.operation})` : ''} → ${violation.location}\n\n`;
-                    markdown += `**Note:** ${violation.message}\n\n`;
+                    markdown += `#### ${this.formatLocation(violation)}\n\n`;
+                    markdown += `**Note:** ${violation.message} (\`${violation.ruleId}\`)\n\n`;
                     markdown += `**Suggestion:** ${violation.suggestion}\n\n`;
                     markdown += `---\n\n`;
                 });
             }
         }
         
+        // Suppressed violations stay visible for review
+        if (report.suppressed.length > 0) {
+            markdown += `## Suppressed\n\n`;
+            markdown += `| Rule | Location | Issue | Ignored at | Reason |\n`;
+            markdown += `|------|----------|-------|------------|--------|\n`;
+            report.suppressed.forEach(violation => {
+                markdown += `| \`${violation.ruleId}\` | ${this.formatLocation(violation)} | ${violation.message} | \`${violation.suppressedBy || '/'}\` | ${violation.reason || ''} |\n`;
+            });
+            markdown += `\n`;
+        }
+
         // Footer
         markdown += `\n\n*Generated by OpenAPI Evaluator App on ${new Date().toLocaleString()}*`;
         
         return markdown;
     }
 
-    generateHtmlReport(report: ScoreCard): string {
+    generateHtmlReport(report: ScoreCard, options: ReportOptions = {}): string {
+        const violations = this.selectViolations(report, options);
         // Helper function to get color based on percentage
         const getColorClass = (percentage: number): string => {
             return percentage >= 70 ? 'success' : percentage >= 50 ? 'warning' : 'danger';
@@ -112,28 +262,6 @@ export class Announcer {
         };
 
         let html = `
-<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>OpenAPI Specification Evaluation Report</title>
-    <link href="https://cdn.jsdelivr.net/npm/bootstrap@5.1.3/dist/css/bootstrap.min.css" rel="stylesheet">
-    <style>
-        body { padding: 20px; }
-        .header { margin-bottom: 30px; }
-        .score-card { margin-bottom: 30px; }
-        .violations { margin-top: 30px; }
-        .violation-item { margin-bottom: 20px; padding: 15px; border-radius: 5px; }
-        .footer { margin-top: 50px; text-align: center; font-size: 0.8em; color: #6c757d; }
-    </style>
-</head>
-<body>
-    <div class="container">
-        <div class="header">
-            <h1>OpenAPI Specification Evaluation Report</h1>
-            <p class="lead">Evaluation completed on ${new Date().toLocaleString()}</p>
-        </div>
 
         <div class="score-card">
             <div class="card">
@@ -142,7 +270,12 @@ export class Announcer {
                 </div>
                 <div class="card-body">
                     <h3>Overall Score: <span class="badge bg-${getColorClass(report.overallScore)}">${report.overallScore}/100</span></h3>
-                    <h4>Grade: ${report.grade}</h4>
+                    <h4>Grade: ${report.grade}</h4>${report.profile ? `
+                    <p class="mb-0">Profile: ${this.escapeHtml(report.profile)}</p>` : ''}${report.notes.map(note => `
+                    <div class="alert alert-info mt-3 mb-0">${this.escapeHtml(note)}</div>`).join('')}${report.warnings.map(warning => `
+                    <div class="alert alert-warning mt-3 mb-0"><strong>Configuration warning:</strong> ${this.escapeHtml(warning)}</div>`).join('')}${report.policies.length > 0 ? `
+                    <p class="mt-3 mb-0"><strong>Policy:</strong> ${this.escapeHtml(this.formatPolicySummary(report))}</p>` : ''}${report.baseline ? `
+                    <p class="mt-3 mb-0"><strong>Baseline:</strong> ${this.escapeHtml(this.formatBaselineSummary(report))}</p>` : ''}
                 </div>
             </div>
         </div>
@@ -163,7 +296,7 @@ export class Announcer {
         report.categoryScores.forEach(category => {
             html += `
                     <tr>
-                        <td>${category.name}</td>
+                        <td>${this.escapeHtml(this.formatCategoryName(category))}</td>
                         <td>${category.score}</td>
                         <td>${category.maxScore}</td>
                         <td><span class="badge bg-${getColorClass(category.percentage)}">${category.percentage}%</span></td>
@@ -173,22 +306,164 @@ export class Announcer {
         html += `
                 </tbody>
             </table>
-        </div>
+        </div>`;
+
+        if (options.explain) {
+            html += `
+
+        <div class="score-breakdown">
+            <h2>How was this scored?</h2>`;
+            report.categoryScores.forEach(category => {
+                html += `
+            <h4 class="mt-3">${this.escapeHtml(this.formatCategoryName(category))}: ${category.score}/${category.maxScore}</h4>
+            <ul>${this.formatExplanation(category.ruleResult.result.explanation).map(line => `
+                <li>${this.escapeHtml(line)}</li>`).join('')}
+            </ul>`;
+            });
+            html += `
+        </div>`;
+        }
+
+        if (report.policies.length > 0) {
+            html += `
+
+        <div class="policy">
+            <h2>Policy</h2>
+            <table class="table table-striped">
+                <thead>
+                    <tr>
+                        <th>Category</th>
+                        <th>Minimum</th>
+                        <th>Percentage</th>
+                        <th>Result</th>
+                    </tr>
+                </thead>
+                <tbody>`;
+            report.policies.forEach(policy => {
+                html += `
+                    <tr>
+                        <td>${this.escapeHtml(policy.category)}</td>
+                        <td>${policy.minimum}%</td>
+                        <td>${policy.percentage}%</td>
+                        <td><span class="badge bg-${policy.passed ? 'success' : 'danger'}">${policy.passed ? 'PASS' : 'FAIL'}</span></td>
+                    </tr>`;
+            });
+            html += `
+                </tbody>
+            </table>
+        </div>`;
+        }
+
+        if (report.breakingChanges) {
+            const getChangeClass = (change: ApiChange): string =>
+                change.classification === 'breaking' ? 'danger' : change.classification === 'potentially-breaking' ? 'warning' : 'secondary';
+            html += `
+
+        <div class="breaking-changes">
+            <h2>Breaking Changes</h2>
+            <p>${this.escapeHtml(this.formatBreakingChangesSummary(report.breakingChanges))}</p>${report.breakingChanges.changes.length > 0 ? `
+            <table class="table table-striped">
+                <thead>
+                    <tr>
+                        <th>Classification</th>
+                        <th>Operation</th>
+                        <th>Change</th>
+                        <th>Location</th>
+                    </tr>
+                </thead>
+                <tbody>${report.breakingChanges.changes.map(change => `
+                    <tr>
+                        <td><span class="badge bg-${getChangeClass(change)}">${change.classification}</span></td>
+                        <td>${this.escapeHtml(this.formatChangeOperation(change))}</td>
+                        <td>${this.escapeHtml(change.message)}</td>
+                        <td><code>${this.escapeHtml(change.currentPointer ?? change.previousPointer ?? '')}</code></td>
+                    </tr>`).join('')}
+                </tbody>
+            </table>` : ''}
+        </div>`;
+        }
+
+        const worstEndpoints = this.selectWorstEndpoints(report);
+        if (worstEndpoints.length > 0) {
+            html += `
+
+        <div class="worst-endpoints">
+            <h2>Worst Endpoints</h2>
+            <table class="table table-striped">
+                <thead>
+                    <tr>
+                        <th>Operation</th>
+                        <th>Score</th>
+                        <th>Grade</th>
+                        <th>Violations</th>
+                    </tr>
+                </thead>
+                <tbody>`;
+            worstEndpoints.forEach(operation => {
+                html += `
+                    <tr>
+                        <td><code>${operation.method} ${this.escapeHtml(operation.path)}</code></td>
+                        <td><span class="badge bg-${getColorClass(operation.score)}">${operation.score}/100</span></td>
+                        <td>${operation.grade}</td>
+                        <td>${this.escapeHtml(this.formatCategoryViolations(operation))}</td>
+                    </tr>`;
+            });
+            html += `
+                </tbody>
+            </table>
+        </div>`;
+        }
+
+        this.selectGroupRollups(report).forEach(({ title, column, groups }) => {
+            html += `
+
+        <div class="group-scores">
+            <h2>${this.escapeHtml(title)}</h2>
+            <table class="table table-striped">
+                <thead>
+                    <tr>
+                        <th>${column}</th>
+                        <th>Operations</th>
+                        <th>Score</th>
+                        <th>Grade</th>
+                        <th>Violations</th>
+                        <th>Top checks</th>
+                    </tr>
+                </thead>
+                <tbody>`;
+            groups.forEach(group => {
+                html += `
+                    <tr>
+                        <td>${this.escapeHtml(group.name)}</td>
+                        <td>${group.operationCount}</td>
+                        <td><span class="badge bg-${getColorClass(group.score)}">${group.score}/100</span></td>
+                        <td>${group.grade}</td>
+                        <td>${group.violationCount}</td>
+                        <td>${group.topChecks.map(({ ruleId, count }) => `<code>${this.escapeHtml(ruleId)}</code> (${count})`).join(', ')}</td>
+                    </tr>`;
+            });
+            html += `
+                </tbody>
+            </table>
+        </div>`;
+        });
+
+        html += `
 
         <div class="violations">
-            <h2>Violations</h2>`;
+            <h2>${options.onlyNew ? 'New Violations' : 'Violations'}</h2>`;
         
-        if (report.violations.length === 0) {
+        if (violations.length === 0) {
             html += `
             <div class="alert alert-success">
-                <h4>No violations found! 🎉</h4>
+                <h4>${options.onlyNew ? 'No new violations found! 🎉' : 'No violations found! 🎉'}</h4>
                 <p>Your OpenAPI specification looks great!</p>
             </div>`;
         } else {
             // Group violations by severity
-            const errorViolations = report.violations.filter(v => v.severity === 'error');
-            const warningViolations = report.violations.filter(v => v.severity === 'warning');
-            const infoViolations = report.violations.filter(v => v.severity === 'info');
+            const errorViolations = violations.filter(v => v.severity === 'error');
+            const warningViolations = violations.filter(v => v.severity === 'warning');
+            const infoViolations = violations.filter(v => v.severity === 'info');
             
             // Errors
             if (errorViolations.length > 0) {
@@ -199,9 +474,9 @@ export class Announcer {
                 errorViolations.forEach(violation => {
                     html += `
                     <div class="list-group-item list-group-item-danger">
-                        <h5 class="mb-1">${violation.path}${violation.operation ? ` (${violation.operation})` : ''} → ${violation.location}</h5>
-                        <p class="mb-1"><strong>Issue:</strong> ${violation.message}</p>
-                        <p class="mb-1"><strong>Suggestion:</strong> ${violation.suggestion}</p>
+                        <h5 class="mb-1">${this.escapeHtml(this.formatLocation(violation))}</h5>
+                        <p class="mb-1"><strong>Issue:</strong> ${this.escapeHtml(violation.message)} <code>${this.escapeHtml(violation.ruleId)}</code></p>
+                        <p class="mb-1"><strong>Suggestion:</strong> ${this.escapeHtml(violation.suggestion)}</p>
                     </div>`;
                 });
                 
@@ -218,9 +493,9 @@ export class Announcer {
                 warningViolations.forEach(violation => {
                     html += `
                     <div class="list-group-item list-group-item-warning">
-                        <h5 class="mb-1">${violation.path}${violation.operation ? ` (${violation.operation})` : ''} → ${violation.location}</h5>
-                        <p class="mb-1"><strong>Issue:</strong> ${violation.message}</p>
-                        <p class="mb-1"><strong>Suggestion:</strong> ${violation.suggestion}</p>
+                        <h5 class="mb-1">${this.escapeHtml(this.formatLocation(violation))}</h5>
+                        <p class="mb-1"><strong>Issue:</strong> ${this.escapeHtml(violation.message)} <code>${this.escapeHtml(violation.ruleId)}</code></p>
+                        <p class="mb-1"><strong>Suggestion:</strong> ${this.escapeHtml(violation.suggestion)}</p>
                     </div>`;
                 });
                 
@@ -237,9 +512,9 @@ export class Announcer {
                 infoViolations.forEach(violation => {
                     html += `
                     <div class="list-group-item list-group-item-info">
-                        <h5 class="mb-1">${violation.path}${violation.operation ? ` (${violation.operation})` : ''} → ${violation.location}</h5>
-                        <p class="mb-1"><strong>Note:</strong> ${violation.message}</p>
-                        <p class="mb-1"><strong>Suggestion:</strong> ${violation.suggestion}</p>
+                        <h5 class="mb-1">${this.escapeHtml(this.formatLocation(violation))}</h5>
+                        <p class="mb-1"><strong>Note:</strong> ${this.escapeHtml(violation.message)} <code>${this.escapeHtml(violation.ruleId)}</code></p>
+                        <p class="mb-1"><strong>Suggestion:</strong> ${this.escapeHtml(violation.suggestion)}</p>
                     </div>`;
                 });
                 
@@ -248,8 +523,285 @@ export class Announcer {
             }
         }
         
+        if (report.suppressed.length > 0) {
+            html += `
+            <h3 class="mt-4">Suppressed</h3>
+            <div class="list-group">`;
+
+            report.suppressed.forEach(violation => {
+                html += `
+                <div class="list-group-item list-group-item-secondary">
+                    <h5 class="mb-1">${this.escapeHtml(this.formatLocation(violation))}</h5>
+                    <p class="mb-1">${this.escapeHtml(violation.message)} <code>${this.escapeHtml(violation.ruleId)}</code></p>
+                    <p class="mb-1"><strong>Ignored at:</strong> <code>${this.escapeHtml(violation.suppressedBy || '/')}</code>${violation.reason ? ` &mdash; ${this.escapeHtml(violation.reason)}` : ''}</p>
+                </div>`;
+            });
+
+            html += `
+            </div>`;
+        }
+
         html += `
+        </div>`;
+
+        return this.renderHtmlPage('OpenAPI Specification Evaluation Report', `Evaluation completed on ${new Date().toLocaleString()}`, html);
+    }
+
+    generateComparisonConsoleReport(comparison: SpecComparison): void {
+        const { previous, current } = comparison;
+        const deltaColor = (delta?: number) => delta === undefined || delta === 0 ? 'gray' : delta > 0 ? 'green' : 'red';
+
+        console.log(chalk.bold('\nOUR JUDGES COMPARED YOUR OPENAPI SPECIFICATIONS\n'));
+        console.log(chalk.bold(`Overall Score: ${previous.overallScore} → ${current.overallScore} `) +
+            chalk[deltaColor(comparison.scoreDelta)](`(${this.formatDelta(comparison.scoreDelta)})`) +
+            chalk.bold(`, Grade: ${previous.grade} → ${current.grade}`));
+        console.log(chalk.gray(`  ${previous.label} → ${current.label}\n`));
+
+        console.log(chalk.bold('Category Scores:'));
+        comparison.categoryDeltas.forEach(category => {
+            console.log(`  ${category.name}: ${this.formatCategoryChange(category)} ` +
+                chalk[deltaColor(category.delta)](`(${this.formatDelta(category.delta)})`));
+        });
+
+        [
+            { title: 'Introduced Violations', violations: comparison.introduced, color: 'red' as const },
+            { title: 'Resolved Violations', violations: comparison.resolved, color: 'green' as const },
+        ].forEach(({ title, violations, color }) => {
+            console.log(chalk.bold(`\n${title} (${violations.length}):`));
+            if (violations.length === 0) {
+                console.log(chalk.gray('  None'));
+            }
+            violations.forEach(violation => {
+                console.log(chalk[color](`  [${violation.severity.toUpperCase()}] ${this.formatLocation(violation)}`));
+                console.log(`    ${violation.message} ${chalk.gray(`[${violation.ruleId}]`)}`);
+            });
+        });
+
+        console.log(chalk.bold(`\nUnchanged Violations: ${comparison.unchanged.length}`));
+    }
+
+    // Kept short enough to be posted as a pull request comment; unchanged violations are collapsed
+    generateComparisonMarkdownReport(comparison: SpecComparison): string {
+        const { previous, current } = comparison;
+        const violationTable = (violations: RuleViolation[]) => violations.length === 0 ? `None\n\n` :
+            `| Severity | Location | Issue |\n|----------|----------|-------|\n` +
+            violations.map(violation =>
+                `| ${violation.severity} | ${this.formatLocation(violation)} | ${violation.message} (\`${violation.ruleId}\`) |\n`).join('') + `\n`;
+
+        let markdown = `## OpenAPI Score: ${previous.overallScore} → ${current.overallScore} (${this.formatDelta(comparison.scoreDelta)})\n\n`;
+        markdown += `**Grade:** ${previous.grade} → ${current.grade}\n\n`;
+        markdown += `**Compared:** \`${previous.label}\` → \`${current.label}\`\n\n`;
+        markdown += `**Violations:** ${comparison.introduced.length} introduced, ${comparison.resolved.length} resolved, ${comparison.unchanged.length} unchanged\n\n`;
+
+        markdown += `### Category Scores\n\n`;
+        markdown += `| Category | Before | After | Change |\n`;
+        markdown += `|----------|--------|-------|--------|\n`;
+        comparison.categoryDeltas.forEach(category => {
+            markdown += `| ${category.name} | ${this.formatPercentage(category.previous)} | ${this.formatPercentage(category.current)} | ${this.formatDelta(category.delta)} |\n`;
+        });
+        markdown += `\n`;
+
+        markdown += `### Introduced Violations\n\n${violationTable(comparison.introduced)}`;
+        markdown += `### Resolved Violations\n\n${violationTable(comparison.resolved)}`;
+        if (comparison.unchanged.length > 0) {
+            markdown += `<details>\n<summary>Unchanged violations (${comparison.unchanged.length})</summary>\n\n${violationTable(comparison.unchanged)}</details>\n\n`;
+        }
+
+        markdown += `*Generated by OpenAPI Evaluator App on ${new Date().toLocaleString()}*`;
+        return markdown;
+    }
+
+    generateComparisonHtmlReport(comparison: SpecComparison): string {
+        const { previous, current } = comparison;
+        const getDeltaClass = (delta?: number): string => delta === undefined || delta === 0 ? 'secondary' : delta > 0 ? 'success' : 'danger';
+        const violationList = (violations: RuleViolation[], itemClass: string) => violations.length === 0 ? `
+            <p class="text-muted">None</p>` : `
+            <div class="list-group">${violations.map(violation => `
+                <div class="list-group-item list-group-item-${itemClass}">
+                    <h5 class="mb-1">${this.escapeHtml(this.formatLocation(violation))}</h5>
+                    <p class="mb-1"><strong>${violation.severity.toUpperCase()}:</strong> ${this.escapeHtml(violation.message)} <code>${this.escapeHtml(violation.ruleId)}</code></p>
+                </div>`).join('')}
+            </div>`;
+
+        return this.renderHtmlPage('OpenAPI Specification Comparison', `${previous.label} → ${current.label}`, `
+
+        <div class="score-card">
+            <div class="card">
+                <div class="card-header">
+                    <h2>Summary</h2>
+                </div>
+                <div class="card-body">
+                    <h3>Overall Score: ${previous.overallScore} → ${current.overallScore} <span class="badge bg-${getDeltaClass(comparison.scoreDelta)}">${this.formatDelta(comparison.scoreDelta)}</span></h3>
+                    <h4>Grade: ${previous.grade} → ${current.grade}</h4>
+                    <p class="mb-0">${comparison.introduced.length} introduced, ${comparison.resolved.length} resolved, ${comparison.unchanged.length} unchanged violations</p>
+                </div>
+            </div>
+        </div>
+
+        <div class="category-scores">
+            <h2>Category Scores</h2>
+            <table class="table table-striped">
+                <thead>
+                    <tr>
+                        <th>Category</th>
+                        <th>Before</th>
+                        <th>After</th>
+                        <th>Change</th>
+                    </tr>
+                </thead>
+                <tbody>${comparison.categoryDeltas.map(category => `
+                    <tr>
+                        <td>${this.escapeHtml(category.name)}</td>
+                        <td>${this.formatPercentage(category.previous)}</td>
+                        <td>${this.formatPercentage(category.current)}</td>
+                        <td><span class="badge bg-${getDeltaClass(category.delta)}">${this.formatDelta(category.delta)}</span></td>
+                    </tr>`).join('')}
+                </tbody>
+            </table>
+        </div>
+
+        <div class="violations">
+            <h2>Violations</h2>
+            <h3 class="mt-4">Introduced (${comparison.introduced.length})</h3>${violationList(comparison.introduced, 'danger')}
+            <h3 class="mt-4">Resolved (${comparison.resolved.length})</h3>${violationList(comparison.resolved, 'success')}
+            <details class="mt-4">
+                <summary>Unchanged (${comparison.unchanged.length})</summary>${violationList(comparison.unchanged, 'secondary')}
+            </details>
+        </div>`);
+    }
+
+    generateBreakingChangesConsoleReport(breakingChanges: BreakingChangeReport): void {
+        console.log(chalk.bold(`Breaking Changes: ${this.formatBreakingChangesSummary(breakingChanges)}`));
+        breakingChanges.changes.forEach(change => {
+            const color = change.classification === 'breaking' ? 'red' : change.classification === 'potentially-breaking' ? 'yellow' : 'gray';
+            console.log(chalk[color](`  [${change.classification.toUpperCase()}] ${this.formatChangeOperation(change)}: ${change.message}`));
+            console.log(chalk.gray(`    ${change.currentPointer ?? change.previousPointer} [${change.id}]`));
+        });
+    }
+
+    generateChangelogMarkdown(changelog: Changelog): string {
+        const { previous, current } = changelog;
+        const formatChange = (change: ApiChange) => `${change.classification === 'breaking' ? '**Breaking:** ' : ''}${change.message}`;
+
+        let markdown = `# API Changelog: ${previous.version} → ${current.version}\n\n`;
+        markdown += `\`${previous.label}\` → \`${current.label}\`\n\n`;
+        if (changelog.breakingCount > 0) {
+            markdown += `> **${changelog.breakingCount} breaking change(s)**, marked below.\n\n`;
+        }
+        if (changelog.sections.length === 0 && changelog.components.length === 0) {
+            markdown += `No changes to the API.\n\n`;
+        }
+
+        changelog.sections.forEach(section => {
+            markdown += `## ${section.tag}\n\n`;
+            if (section.description) {
+                markdown += `${section.description}\n\n`;
+            }
+            this.groupChangelogEntries(section.entries).forEach(({ title, entries }) => {
+                markdown += `### ${title}\n\n`;
+                entries.forEach(entry => {
+                    markdown += `- ${entry.breaking ? '**Breaking:** ' : ''}\`${entry.method} ${entry.path}\`${entry.summary ? ` ${entry.summary}` : ''}\n`;
+                    if (entry.description && entry.kind === 'added') {
+                        markdown += `  ${entry.description.trim().replace(/\n/g, '\n  ')}\n`;
+                    }
+                    entry.changes.forEach(change => {
+                        markdown += `  - ${formatChange(change)}\n`;
+                    });
+                });
+                markdown += `\n`;
+            });
+        });
+
+        if (changelog.components.length > 0) {
+            markdown += `## Components\n\n`;
+            changelog.components.forEach(({ name, changes }) => {
+                markdown += `### ${name}\n\n`;
+                changes.forEach(change => {
+                    markdown += `- ${formatChange(change)}\n`;
+                });
+                markdown += `\n`;
+            });
+        }
+
+        markdown += `*Generated by OpenAPI Evaluator App on ${new Date().toLocaleString()}*`;
+        return markdown;
+    }
+
+    generateChangelogHtml(changelog: Changelog): string {
+        const { previous, current } = changelog;
+        const breakingBadge = '<span class="badge bg-danger">Breaking</span> ';
+        const changeList = (changes: ApiChange[]) => changes.length === 0 ? '' : `
+                    <ul class="mb-0">${changes.map(change => `
+                        <li>${change.classification === 'breaking' ? breakingBadge : ''}${this.escapeHtml(change.message)}</li>`).join('')}
+                    </ul>`;
+
+        let html = changelog.breakingCount > 0 ? `
+
+        <div class="alert alert-danger">${changelog.breakingCount} breaking change(s), marked below.</div>` : '';
+        if (changelog.sections.length === 0 && changelog.components.length === 0) {
+            html += `
+
+        <div class="alert alert-success">No changes to the API.</div>`;
+        }
+
+        changelog.sections.forEach(section => {
+            html += `
+
+        <div class="changelog-section mt-4">
+            <h2>${this.escapeHtml(section.tag)}</h2>${section.description ? `
+            <p>${this.escapeHtml(section.description)}</p>` : ''}`;
+            this.groupChangelogEntries(section.entries).forEach(({ title, entries }) => {
+                html += `
+            <h3 class="mt-3">${title}</h3>
+            <div class="list-group">${entries.map(entry => `
+                <div class="list-group-item">
+                    <h5 class="mb-1">${entry.breaking ? breakingBadge : ''}<code>${entry.method} ${this.escapeHtml(entry.path)}</code>${entry.summary ? ` ${this.escapeHtml(entry.summary)}` : ''}</h5>${entry.description && entry.kind === 'added' ? `
+                    <p class="mb-1">${this.escapeHtml(entry.description)}</p>` : ''}${changeList(entry.changes)}
+                </div>`).join('')}
+            </div>`;
+            });
+            html += `
+        </div>`;
+        });
+
+        if (changelog.components.length > 0) {
+            html += `
+
+        <div class="changelog-components mt-4">
+            <h2>Components</h2>${changelog.components.map(({ name, changes }) => `
+            <h4 class="mt-3">${this.escapeHtml(name)}</h4>${changeList(changes)}`).join('')}
+        </div>`;
+        }
+
+        return this.renderHtmlPage(`API Changelog: ${previous.version} → ${current.version}`, `${previous.label} → ${current.label}`, html);
+    }
+
+    // Shared page of the HTML exports: Bootstrap, the report styles, a header and the footer
+    private renderHtmlPage(title: string, lead: string, body: string): string {
+        return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>${this.escapeHtml(title)}</title>
+    <link href="https://cdn.jsdelivr.net/npm/bootstrap@5.1.3/dist/css/bootstrap.min.css" rel="stylesheet">
+    <style>
+        body { padding: 20px; }
+        .header { margin-bottom: 30px; }
+        .score-card { margin-bottom: 30px; }
+        .violations { margin-top: 30px; }
+        .violation-item { margin-bottom: 20px; padding: 15px; border-radius: 5px; }
+        .footer { margin-top: 50px; text-align: center; font-size: 0.8em; color: #6c757d; }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="header">
+            <h1>${this.escapeHtml(title)}</h1>
+            <p class="lead">${this.escapeHtml(lead)}</p>
         </div>
+${body}
 
         <div class="footer">
             <p>Generated by OpenAPI Evaluator App on ${new Date().toLocaleString()}</p>
@@ -259,8 +811,113 @@ export class Announcer {
     <script src="https://cdn.jsdelivr.net/npm/bootstrap@5.1.3/dist/js/bootstrap.bundle.min.js"></script>
 </body>
 </html>`;
-        
-        return html;
     }
-}
 
+    private selectViolations(report: ScoreCard, options: ReportOptions): RuleViolation[] {
+        return options.onlyNew ? report.violations.filter(v => v.baselineStatus !== 'existing') : report.violations;
+    }
+
+    // Operations with violations, worst first
+    private selectWorstEndpoints(report: ScoreCard): OperationScore[] {
+        return report.operationScores.filter(operation => operation.violationCount > 0).slice(0, WORST_ENDPOINTS_LIMIT);
+    }
+
+    // The tag and owner rollups that have groups, each with its heading and the name of its group column
+    private selectGroupRollups(report: ScoreCard): { title: string; column: string; groups: GroupScore[] }[] {
+        return [
+            { title: 'Scores by Tag', column: 'Tag', groups: report.tagScores },
+            { title: `Scores by Owner (${report.ownerExtension})`, column: 'Owner', groups: report.ownerScores },
+        ].filter(({ groups }) => groups.length > 0);
+    }
+
+    private formatCategoryViolations(operation: OperationScore): string {
+        return Object.entries(operation.categoryViolations).map(([category, count]) => `${category}: ${count}`).join(', ');
+    }
+
+    // One line per part of the explanation: the method, the counts, sub-checks, penalties and caps
+    private formatExplanation(explanation?: ScoreExplanation): string[] {
+        if (!explanation) return ['No explanation available for this category.'];
+        return [
+            explanation.method,
+            ...(explanation.items.length > 0
+                ? [`Counted: ${explanation.items.map(({ label, count }) => `${count} ${label}`).join(', ')}`]
+                : []),
+            ...explanation.subChecks.map(({ name, score, maxScore }) => `Sub-check ${name}: ${score}/${maxScore}`),
+            ...explanation.penalties.map(({ reason, points }) => `-${points} points: ${reason}`),
+            ...explanation.caps.map(cap => `Cap: ${cap}`),
+        ];
+    }
+
+    private formatPolicySummary(report: ScoreCard): string {
+        const failed = report.policies.filter(policy => !policy.passed);
+        return failed.length === 0
+            ? 'passed, every category meets its minimum'
+            : `failed: ${failed.map(policy => policy.reason).join('; ')}`;
+    }
+
+    // Entries of a changelog section under the headings of their kind, leaving out kinds without entries
+    private groupChangelogEntries(entries: ChangelogEntry[]): { title: string; entries: ChangelogEntry[] }[] {
+        return [
+            { title: 'Added', entries: entries.filter(entry => entry.kind === 'added') },
+            { title: 'Changed', entries: entries.filter(entry => entry.kind === 'changed') },
+            { title: 'Deprecated', entries: entries.filter(entry => entry.kind === 'deprecated') },
+            { title: 'Removed', entries: entries.filter(entry => entry.kind === 'removed') },
+        ].filter(group => group.entries.length > 0);
+    }
+
+    private formatBreakingChangesSummary(breakingChanges: BreakingChangeReport): string {
+        const { changes, breakingCount, potentiallyBreakingCount, previous } = breakingChanges;
+        const nonBreakingCount = changes.length - breakingCount - potentiallyBreakingCount;
+        return `${breakingCount} breaking, ${potentiallyBreakingCount} potentially breaking, ${nonBreakingCount} non-breaking (compared with ${previous})`;
+    }
+
+    private formatChangeOperation(change: ApiChange): string {
+        return change.operation ? `${change.operation} ${change.path}` : '–';
+    }
+
+    private formatBaselineSummary(report: ScoreCard): string {
+        const { newCount, existingCount, fixed, file } = report.baseline!;
+        return `${newCount} new, ${existingCount} existing, ${fixed.length} fixed (compared with ${file})`;
+    }
+
+    // '+3', '-2' or '±0', and '–' when there is nothing to compare with
+    private formatDelta(delta?: number): string {
+        if (delta === undefined) return '–';
+        return delta > 0 ? `+${delta}` : delta < 0 ? `${delta}` : '±0';
+    }
+
+    private formatPercentage(percentage?: number): string {
+        return percentage === undefined ? '–' : `${percentage}%`;
+    }
+
+    private formatCategoryChange(category: CategoryDelta): string {
+        return `${this.formatPercentage(category.previous)} → ${this.formatPercentage(category.current)}`;
+    }
+
+    private formatCategoryName(category: CategoryScore): string {
+        return category.plugin ? `${category.name} (plugin: ${category.plugin})` : category.name;
+    }
+
+    // Shared violation heading, ending in file:line:col when the source text is known
+    private formatLocation(violation: RuleViolation): string {
+        const operation = violation.operation ? ` (${violation.operation})` : '';
+        let source = '';
+        if (violation.range) {
+            const { file, start } = violation.range;
+            source = ` (${file}:${start.line}:${start.column})`;
+        } else if (violation.file) {
+            source = ` [${violation.file}]`;
+        }
+        return `${violation.path}${operation} → ${violation.location}${source}`;
+    }
+
+    // Spec content, rule messages and file names are text, never markup
+    private escapeHtml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#39;');
+    }
+}
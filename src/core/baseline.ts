@@ -0,0 +1,104 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { BaselineComparison, BaselineEntry, OpenAPIDocument, RuleViolation, ScoreCard } from '../scoring-engine/types';
+
+const BASELINE_VERSION = 1;
+
+// Identifies a violation independently of where it is written: rule, normalized pointer and normalized message.
+// Line numbers are not part of it, and array items with a name (parameters, tags, servers) are addressed by it,
+// so the fingerprint survives reformatting and reordering of the document.
+export function fingerprintViolation(violation: RuleViolation, document: OpenAPIDocument): string {
+    const key = [
+        violation.ruleId,
+        normalizePointer(violation.pointer || '', document),
+        violation.message.trim().replace(/\s+/g, ' ').toLowerCase(),
+    ].join('\n');
+    return crypto.createHash('sha1').update(key).digest('hex').substring(0, 16);
+}
+
+function normalizePointer(pointer: string, document: OpenAPIDocument): string {
+    let node: unknown = document;
+    return pointer.split('/').slice(1).map(segment => {
+        const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+        if (Array.isArray(node)) {
+            const item = node[Number(key)];
+            node = item;
+            const identity = item && typeof item === 'object'
+                ? (item as { name?: unknown; url?: unknown; $ref?: unknown })
+                : undefined;
+            const label = identity && [identity.name, identity.url, identity.$ref].find(value => typeof value === 'string');
+            // Parameters are unique by name and location, not by name alone
+            const location = identity && typeof (item as { in?: unknown }).in === 'string' ? `@${(item as { in: string }).in}` : '';
+            return label ? `[${label}${location}]` : segment;
+        }
+        node = node && typeof node === 'object' ? (node as Record<string, unknown>)[key] : undefined;
+        return segment;
+    }).map(segment => `/${segment}`).join('');
+}
+
+// Snapshot of known violations, so a run can tell new violations from existing and fixed ones
+export class Baseline {
+    constructor(private entries: BaselineEntry[]) {}
+
+    static fromReport(report: ScoreCard): Baseline {
+        return new Baseline(getAllViolations(report).map(violation => ({
+            fingerprint: violation.fingerprint || '',
+            ruleId: violation.ruleId,
+            pointer: violation.pointer || '',
+            message: violation.message,
+            severity: violation.severity,
+        })));
+    }
+
+    static load(file: string): Baseline {
+        let content: { version?: unknown; violations?: unknown };
+        try {
+            content = JSON.parse(fs.readFileSync(file, 'utf8'));
+        } catch (error: any) {
+            throw new Error(`Failed to read baseline '${file}': ${error.message}`);
+        }
+        if (content.version !== BASELINE_VERSION || !Array.isArray(content.violations)) {
+            throw new Error(`'${file}' is not a baseline file of version ${BASELINE_VERSION}`);
+        }
+        return new Baseline(content.violations as BaselineEntry[]);
+    }
+
+    save(file: string): void {
+        fs.mkdirSync(path.dirname(path.resolve(file)), { recursive: true });
+        const violations = [...this.entries].sort((a, b) =>
+            a.ruleId.localeCompare(b.ruleId) || a.pointer.localeCompare(b.pointer) || a.fingerprint.localeCompare(b.fingerprint));
+        fs.writeFileSync(file, JSON.stringify({ version: BASELINE_VERSION, violations }, null, 2) + '\n');
+    }
+
+    // Marks every violation of the report as new or existing and records the comparison on the report.
+    // A fingerprint occurring more often than in the baseline counts as new for the extra occurrences.
+    compare(report: ScoreCard, file: string): BaselineComparison {
+        const remaining = new Map<string, BaselineEntry[]>();
+        this.entries.forEach(entry => {
+            remaining.set(entry.fingerprint, [...(remaining.get(entry.fingerprint) || []), entry]);
+        });
+
+        let newCount = 0;
+        let existingCount = 0;
+        getAllViolations(report).forEach(violation => {
+            const known = remaining.get(violation.fingerprint || '');
+            if (known && known.length > 0) {
+                known.pop();
+                violation.baselineStatus = 'existing';
+                existingCount++;
+            } else {
+                violation.baselineStatus = 'new';
+                newCount++;
+            }
+        });
+
+        const comparison = { file, newCount, existingCount, fixed: [...remaining.values()].flat() };
+        report.baseline = comparison;
+        return comparison;
+    }
+}
+
+function getAllViolations(report: ScoreCard): RuleViolation[] {
+    return report.ruleResults.flatMap(({ result }) => result.violations);
+}
@@ -0,0 +1,382 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { ApiChange, BreakingChangeReport, ChangeClassification, OpenAPIDocument } from '../scoring-engine/types';
+import { resolveParameter, resolveRequestBody, resolveResponse, resolveSchema } from '../scoring-engine/helper-functions';
+import { getOperationMethods, getPathItems, getSchemaTypes, getTargetPointer, toPointer } from '../scoring-engine/spec-utils';
+
+const CLASSIFICATIONS: ChangeClassification[] = ['breaking', 'potentially-breaking', 'non-breaking'];
+
+// Requests are sent by clients, so narrowing what a request accepts breaks them; responses are read by clients,
+// so widening what a response may contain does
+type Direction = 'request' | 'response';
+
+interface OperationEntry {
+    method: string;
+    path: string;
+    pointer: string;
+    pathItem: OpenAPIV3.PathItemObject;
+    operation: OpenAPIV3.OperationObject;
+}
+
+// A schema with the pointer of where it is defined, following $refs
+interface LocatedSchema {
+    schema: OpenAPIV3.SchemaObject;
+    pointer: string;
+}
+
+// Finds the differences of the contract between two versions of a document: operations, parameters, request
+// bodies, responses, their schemas and security requirements. Composed schemas (allOf, oneOf, anyOf) are not
+// looked into, and webhooks are called by the API rather than by its clients, so they are not compared either.
+export class BreakingChangeAnalyzer {
+    private previous!: OpenAPIDocument;
+    private current!: OpenAPIDocument;
+    private changes: ApiChange[] = [];
+    private operation: { operation?: string; path?: string } = {};
+    // Schema pairs already compared per direction, which also ends cycles of $refs
+    private compared = new Set<string>();
+
+    analyze(previous: OpenAPIDocument, current: OpenAPIDocument, previousLabel: string): BreakingChangeReport {
+        this.previous = previous;
+        this.current = current;
+        this.changes = [];
+        this.compared = new Set();
+
+        const currentOperations = this.listOperations(current);
+        this.listOperations(previous).forEach((before, key) => {
+            this.operation = { operation: before.method.toUpperCase(), path: before.path };
+            const after = currentOperations.get(key);
+            if (!after) {
+                this.report('change.operation-removed', 'breaking', `Operation ${before.method.toUpperCase()} ${before.path} was removed`, before.pointer);
+                return;
+            }
+            currentOperations.delete(key);
+            this.operation = { operation: after.method.toUpperCase(), path: after.path };
+            this.compareOperation(before, after);
+        });
+        currentOperations.forEach(after => {
+            this.operation = { operation: after.method.toUpperCase(), path: after.path };
+            this.report('change.operation-added', 'non-breaking', `Operation ${after.method.toUpperCase()} ${after.path} was added`, undefined, after.pointer);
+        });
+
+        // A change of a component is found through every operation using it, and is reported once
+        const seen = new Set<string>();
+        const changes = this.changes.filter(change => {
+            const shared = [change.previousPointer, change.currentPointer].some(pointer => pointer?.startsWith('/components/'));
+            const key = [change.id, change.message, change.previousPointer, change.currentPointer, ...(shared ? [] : [change.operation, change.path])].join('\n');
+            return !seen.has(key) && !!seen.add(key);
+        }).sort((a, b) => CLASSIFICATIONS.indexOf(a.classification) - CLASSIFICATIONS.indexOf(b.classification));
+
+        return {
+            previous: previousLabel,
+            changes,
+            breakingCount: changes.filter(change => change.classification === 'breaking').length,
+            potentiallyBreakingCount: changes.filter(change => change.classification === 'potentially-breaking').length,
+        };
+    }
+
+    // Keyed by method and path with the names of path parameters left out, so renaming {id} to {petId} is no change
+    private listOperations(spec: OpenAPIDocument): Map<string, OperationEntry> {
+        const operations = new Map<string, OperationEntry>();
+        getPathItems(spec, false).forEach(({ path, pointer, pathItem }) => {
+            getOperationMethods(pathItem).forEach(method => {
+                operations.set(`${method} ${path.replace(/\{[^}]*\}/g, '{}')}`, {
+                    method, path, pointer: pointer + toPointer(method), pathItem,
+                    operation: pathItem[method as OpenAPIV3.HttpMethods] as OpenAPIV3.OperationObject,
+                });
+            });
+        });
+        return operations;
+    }
+
+    private compareOperation(before: OperationEntry, after: OperationEntry): void {
+        if (!before.operation.deprecated && after.operation.deprecated) {
+            this.report('change.operation-deprecated', 'non-breaking', 'The operation was deprecated', before.pointer, after.pointer);
+        }
+        this.compareParameters(before, after);
+        this.compareRequestBodies(before, after);
+        this.compareResponses(before, after);
+        this.compareSecurity(before, after);
+    }
+
+    private compareParameters(before: OperationEntry, after: OperationEntry): void {
+        const currentParameters = this.listParameters(after, this.current);
+        this.listParameters(before, this.previous).forEach(({ parameter: old, pointer, location }, key) => {
+            const subject = `the ${old.in} parameter '${old.name}'`;
+            const match = currentParameters.get(key);
+            if (!match) {
+                this.report('change.parameter-removed', 'potentially-breaking', `${capitalize(subject)} was removed`, location);
+                return;
+            }
+            currentParameters.delete(key);
+
+            const { parameter, pointer: currentPointer } = match;
+            if (!old.required && parameter.required) {
+                this.report('change.parameter-required', 'breaking', `${capitalize(subject)} became required`, pointer, currentPointer);
+            } else if (old.required && !parameter.required) {
+                this.report('change.parameter-optional', 'non-breaking', `${capitalize(subject)} is no longer required`, pointer, currentPointer);
+            }
+            if (old.schema && parameter.schema) {
+                this.compareSchemas(old.schema, pointer + toPointer('schema'), parameter.schema, currentPointer + toPointer('schema'), 'request', subject, []);
+            }
+        });
+        currentParameters.forEach(({ parameter, location }) => {
+            if (parameter.required) {
+                this.report('change.required-parameter-added', 'breaking', `Required ${parameter.in} parameter '${parameter.name}' was added`, undefined, location);
+            } else {
+                this.report('change.parameter-added', 'non-breaking', `Optional ${parameter.in} parameter '${parameter.name}' was added`, undefined, location);
+            }
+        });
+    }
+
+    // Parameters of the path item and the operation keyed by location and name, those of the operation taking precedence.
+    // `pointer` is where the parameter is defined, `location` where the operation lists it.
+    private listParameters(entry: OperationEntry, spec: OpenAPIDocument): Map<string, { parameter: OpenAPIV3.ParameterObject; pointer: string; location: string }> {
+        const parameters = new Map<string, { parameter: OpenAPIV3.ParameterObject; pointer: string; location: string }>();
+        const pathItemPointer = entry.pointer.substring(0, entry.pointer.lastIndexOf('/'));
+        const templates = (entry.path.match(/\{[^}]*\}/g) || []).map(template => template.slice(1, -1));
+        [
+            { list: entry.pathItem.parameters || [], pointer: pathItemPointer + toPointer('parameters') },
+            { list: entry.operation.parameters || [], pointer: entry.pointer + toPointer('parameters') },
+        ].forEach(({ list, pointer }) => list.forEach((item, index) => {
+            const parameter = resolveParameter(item, spec);
+            if (!parameter) return;
+            // Path parameters are matched by their position in the path, as their names may differ between versions
+            const key = parameter.in === 'path' ? `path ${templates.indexOf(parameter.name)}` : `${parameter.in} ${parameter.name}`;
+            parameters.set(key, { parameter, pointer: getTargetPointer(item, pointer + toPointer(index)), location: pointer + toPointer(index) });
+        }));
+        return parameters;
+    }
+
+    private compareRequestBodies(before: OperationEntry, after: OperationEntry): void {
+        const beforePointer = before.operation.requestBody ? getTargetPointer(before.operation.requestBody, before.pointer + toPointer('requestBody')) : before.pointer;
+        const afterPointer = after.operation.requestBody ? getTargetPointer(after.operation.requestBody, after.pointer + toPointer('requestBody')) : after.pointer;
+        const old = before.operation.requestBody && resolveRequestBody(before.operation.requestBody, this.previous);
+        const body = after.operation.requestBody && resolveRequestBody(after.operation.requestBody, this.current);
+
+        if (!old && body) {
+            // Additions and removals are reported where the operation lists the request body, even when it is a $ref
+            this.report(body.required ? 'change.required-request-body-added' : 'change.request-body-added',
+                body.required ? 'breaking' : 'non-breaking', `A${body.required ? ' required' : 'n optional'} request body was added`, undefined,
+                after.pointer + toPointer('requestBody'));
+        } else if (old && !body) {
+            this.report('change.request-body-removed', 'potentially-breaking', 'The request body was removed', before.pointer + toPointer('requestBody'));
+        } else if (old && body) {
+            if (!old.required && body.required) {
+                this.report('change.request-body-required', 'breaking', 'The request body became required', beforePointer, afterPointer);
+            }
+            this.compareContent(old.content, beforePointer, body.content, afterPointer, 'request', 'the request body');
+        }
+    }
+
+    private compareResponses(before: OperationEntry, after: OperationEntry): void {
+        const responses = after.operation.responses || {};
+        Object.entries(before.operation.responses || {}).forEach(([code, item]) => {
+            const beforePointer = getTargetPointer(item, before.pointer + toPointer('responses', code));
+            if (!(code in responses)) {
+                // Clients are built around the success responses, the others usually end in generic error handling
+                this.report('change.response-removed', code.startsWith('2') ? 'breaking' : 'potentially-breaking',
+                    `The ${code} response was removed`, before.pointer + toPointer('responses', code));
+                return;
+            }
+            const afterPointer = getTargetPointer(responses[code], after.pointer + toPointer('responses', code));
+            const old = resolveResponse(item, this.previous);
+            const response = resolveResponse(responses[code], this.current);
+            if (old && response) {
+                this.compareContent(old.content, beforePointer, response.content, afterPointer, 'response', `the ${code} response`);
+            }
+        });
+        Object.keys(responses).filter(code => !(code in (before.operation.responses || {}))).forEach(code => {
+            this.report('change.response-added', 'non-breaking', `The ${code} response was added`, undefined, after.pointer + toPointer('responses', code));
+        });
+    }
+
+    private compareContent(
+        before: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+        beforePointer: string,
+        after: Record<string, OpenAPIV3.MediaTypeObject> | undefined,
+        afterPointer: string,
+        direction: Direction,
+        subject: string
+    ): void {
+        const content = after || {};
+        Object.entries(before || {}).forEach(([mediaType, old]) => {
+            const oldPointer = beforePointer + toPointer('content', mediaType);
+            if (!content[mediaType]) {
+                this.report('change.media-type-removed', 'breaking', `${capitalize(subject)} no longer supports ${mediaType}`, oldPointer);
+                return;
+            }
+            if (old.schema && content[mediaType].schema) {
+                this.compareSchemas(old.schema, oldPointer + toPointer('schema'), content[mediaType].schema!,
+                    afterPointer + toPointer('content', mediaType, 'schema'), direction, `${subject} (${mediaType})`, []);
+            }
+        });
+        Object.keys(content).filter(mediaType => !(before || {})[mediaType]).forEach(mediaType => {
+            this.report('change.media-type-added', 'non-breaking', `${capitalize(subject)} supports ${mediaType}`, undefined,
+                afterPointer + toPointer('content', mediaType));
+        });
+    }
+
+    private compareSchemas(
+        beforeItem: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+        beforePointer: string,
+        afterItem: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject,
+        afterPointer: string,
+        direction: Direction,
+        subject: string,
+        propertyPath: string[]
+    ): void {
+        const before = this.locateSchema(beforeItem, beforePointer, this.previous);
+        const after = this.locateSchema(afterItem, afterPointer, this.current);
+        if (!before || !after) return;
+        const key = `${direction} ${before.pointer} ${after.pointer}`;
+        if (this.compared.has(key)) return;
+        this.compared.add(key);
+
+        const pointers: [string, string] = [before.pointer, after.pointer];
+        const described = propertyPath.length > 0 ? `property '${propertyPath.join('.')}' of ${subject}` : subject;
+        const isRequest = direction === 'request';
+
+        const oldTypes = getSchemaTypes(before.schema);
+        const newTypes = getSchemaTypes(after.schema);
+        if (oldTypes.length > 0 && newTypes.length > 0) {
+            const narrowed = oldTypes.some(type => !allowsType(newTypes, type));
+            const widened = newTypes.some(type => !allowsType(oldTypes, type));
+            if (narrowed || widened) {
+                const breaking = isRequest ? narrowed : widened;
+                this.report('change.type-changed', breaking ? 'breaking' : 'non-breaking',
+                    `The type of ${described} changed from ${oldTypes.join(' | ')} to ${newTypes.join(' | ')}`, ...pointers);
+            }
+        }
+
+        this.compareEnums(before.schema, after.schema, direction, described, pointers);
+
+        if (before.schema.format !== after.schema.format) {
+            this.report('change.format-changed', 'potentially-breaking',
+                `The format of ${described} changed from ${before.schema.format || 'none'} to ${after.schema.format || 'none'}`, ...pointers);
+        }
+
+        this.compareProperties(before, after, direction, subject, propertyPath);
+
+        const beforeItems = (before.schema as { items?: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject }).items;
+        const afterItems = (after.schema as { items?: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject }).items;
+        if (beforeItems && afterItems) {
+            this.compareSchemas(beforeItems, before.pointer + toPointer('items'), afterItems, after.pointer + toPointer('items'),
+                direction, `the items of ${described}`, []);
+        }
+    }
+
+    // A missing enum allows any value, so adding one narrows the schema and dropping it widens it
+    private compareEnums(
+        before: OpenAPIV3.SchemaObject,
+        after: OpenAPIV3.SchemaObject,
+        direction: Direction,
+        described: string,
+        pointers: [string, string]
+    ): void {
+        if (!before.enum && !after.enum) return;
+        const oldValues = (before.enum || []).map(value => JSON.stringify(value));
+        const newValues = (after.enum || []).map(value => JSON.stringify(value));
+        const removed = before.enum ? oldValues.filter(value => !newValues.includes(value)) : [];
+        const added = after.enum ? newValues.filter(value => !oldValues.includes(value)) : [];
+
+        if (!before.enum || removed.length > 0) {
+            const message = before.enum
+                ? `${capitalize(described)} no longer allows ${removed.join(', ')}`
+                : `${capitalize(described)} is restricted to ${newValues.join(', ')}`;
+            this.report('change.enum-narrowed', direction === 'request' ? 'breaking' : 'non-breaking', message, ...pointers);
+        }
+        if (!after.enum || added.length > 0) {
+            const message = after.enum
+                ? `${capitalize(described)} allows the new values ${added.join(', ')}`
+                : `${capitalize(described)} is no longer restricted to ${oldValues.join(', ')}`;
+            // Clients that switch over the values may not handle new ones
+            this.report('change.enum-widened', direction === 'request' ? 'non-breaking' : 'potentially-breaking', message, ...pointers);
+        }
+    }
+
+    private compareProperties(before: LocatedSchema, after: LocatedSchema, direction: Direction, subject: string, propertyPath: string[]): void {
+        const isRequest = direction === 'request';
+        const described = propertyPath.length > 0 ? `property '${propertyPath.join('.')}' of ${subject}` : subject;
+        const oldProperties = before.schema.properties || {};
+        const newProperties = after.schema.properties || {};
+        const oldRequired = before.schema.required || [];
+        const newRequired = after.schema.required || [];
+
+        Object.entries(oldProperties).forEach(([name, property]) => {
+            const beforePointer = before.pointer + toPointer('properties', name);
+            if (!newProperties[name]) {
+                // Clients reading a response miss the property, while a request property the API dropped may just be ignored
+                this.report('change.property-removed', isRequest ? 'potentially-breaking' : 'breaking',
+                    `Property '${name}' was removed from ${described}`, beforePointer);
+                return;
+            }
+            const afterPointer = after.pointer + toPointer('properties', name);
+            if (isRequest && !oldRequired.includes(name) && newRequired.includes(name)) {
+                this.report('change.property-required', 'breaking', `Property '${name}' of ${described} became required`, beforePointer, afterPointer);
+            } else if (!isRequest && oldRequired.includes(name) && !newRequired.includes(name)) {
+                this.report('change.property-optional', 'potentially-breaking', `Property '${name}' of ${described} is no longer always present`, beforePointer, afterPointer);
+            }
+            this.compareSchemas(property, beforePointer, newProperties[name], afterPointer, direction, subject, [...propertyPath, name]);
+        });
+
+        Object.keys(newProperties).filter(name => !oldProperties[name]).forEach(name => {
+            const required = isRequest && newRequired.includes(name);
+            this.report(required ? 'change.required-property-added' : 'change.property-added', required ? 'breaking' : 'non-breaking',
+                `${required ? 'Required property' : 'Property'} '${name}' was added to ${described}`, undefined, after.pointer + toPointer('properties', name));
+        });
+    }
+
+    // OpenAPI 3.1 allows boolean schemas, which have nothing to compare
+    private locateSchema(item: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, pointer: string, spec: OpenAPIDocument): LocatedSchema | undefined {
+        if (!item || typeof item !== 'object') return undefined;
+        const schema = resolveSchema(item, spec);
+        return schema && typeof schema === 'object' ? { schema, pointer: getTargetPointer(item, pointer) } : undefined;
+    }
+
+    // An operation without `security` uses that of the document; each requirement is an alternative
+    private compareSecurity(before: OperationEntry, after: OperationEntry): void {
+        const requirements = (entry: OperationEntry, spec: OpenAPIDocument) => {
+            const list = entry.operation.security ?? spec.security ?? [];
+            return {
+                alternatives: list.map(requirement => Object.keys(requirement).sort().join(' + ') || 'anonymous'),
+                pointer: entry.operation.security ? entry.pointer + toPointer('security') : toPointer('security'),
+            };
+        };
+        const old = requirements(before, this.previous);
+        const current = requirements(after, this.current);
+        const pointers: [string, string] = [old.pointer, current.pointer];
+
+        if (old.alternatives.length === 0 || old.alternatives.includes('anonymous')) {
+            if (current.alternatives.length > 0 && !current.alternatives.includes('anonymous')) {
+                this.report('change.security-added', 'breaking', `The operation now requires ${current.alternatives.join(' or ')}`, ...pointers);
+            }
+            return;
+        }
+        if (current.alternatives.length === 0) {
+            this.report('change.security-removed', 'non-breaking', 'The operation no longer requires authentication', ...pointers);
+            return;
+        }
+        old.alternatives.filter(alternative => !current.alternatives.includes(alternative)).forEach(alternative => {
+            this.report('change.security-alternative-removed', 'breaking', `The operation no longer accepts ${alternative}`, ...pointers);
+        });
+        current.alternatives.filter(alternative => !old.alternatives.includes(alternative)).forEach(alternative => {
+            this.report('change.security-alternative-added', 'non-breaking', `The operation also accepts ${alternative}`, ...pointers);
+        });
+    }
+
+    private report(id: string, classification: ChangeClassification, message: string, previousPointer?: string, currentPointer?: string): void {
+        this.changes.push({
+            id, classification, message, ...this.operation,
+            ...(previousPointer !== undefined ? { previousPointer } : {}),
+            ...(currentPointer !== undefined ? { currentPointer } : {}),
+        });
+    }
+}
+
+// Every integer is a number, so `number` allows what `integer` does
+function allowsType(types: string[], type: string): boolean {
+    return types.includes(type) || (type === 'integer' && types.includes('number'));
+}
+
+function capitalize(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
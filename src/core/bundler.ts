@@ -0,0 +1,228 @@
+import fs from 'fs';
+import path from 'path';
+import YAML from 'yaml';
+import { ComponentSource } from '../scoring-engine/types';
+
+// Keys whose values are schemas, so a $ref directly below them points at a schema
+const SCHEMA_PARENT_KEYS = ['schema', 'items', 'additionalProperties', 'not', 'contains', 'if', 'then', 'else', 'propertyNames', 'unevaluatedItems', 'unevaluatedProperties'];
+const SCHEMA_MAP_KEYS = ['properties', 'patternProperties', '$defs', 'definitions', 'dependentSchemas'];
+const SCHEMA_LIST_KEYS = ['allOf', 'oneOf', 'anyOf', 'prefixItems'];
+
+// Component section a $ref is moved to, keyed by the map that holds the referencing object
+const SECTION_BY_PARENT: Record<string, string> = {
+    parameters: 'parameters',
+    responses: 'responses',
+    headers: 'headers',
+    examples: 'examples',
+    links: 'links',
+    callbacks: 'callbacks',
+    securitySchemes: 'securitySchemes',
+    requestBodies: 'requestBodies',
+    schemas: 'schemas',
+};
+
+export interface BundleResult<T> {
+    document: T;
+    componentSources: Record<string, ComponentSource>;
+}
+
+// Objects and arrays of the parsed JSON or YAML
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+// Pulls relative-file $refs of a multi-file specification into a single in-memory document.
+// Referenced fragments become components (or are inlined where no component type exists, e.g. path items)
+// and every one of them is recorded with the file it came from. Only files inside the directory of the root
+// document are read.
+export class SpecBundler {
+    private rootFile = '';
+    private isSwagger2 = false;
+    private files = new Map<string, unknown>();
+    private targets = new Map<string, string>();
+    private added: Record<string, Record<string, unknown>> = {};
+    private existingNames: Record<string, Set<string>> = {};
+    private componentSources: Record<string, ComponentSource> = {};
+    // Refs being inlined on the current walk path, as `file#fragment`
+    private inlining = new Set<string>();
+
+    bundle<T extends object>(rootFile: string, document: T): BundleResult<T> {
+        this.rootFile = path.resolve(rootFile);
+        this.isSwagger2 = isObject(document) && typeof document.swagger === 'string';
+        this.files.set(this.rootFile, document);
+
+        const bundled = this.walk(document, this.rootFile, []);
+
+        for (const [section, components] of Object.entries(this.added)) {
+            const container = this.getSectionContainer(bundled, section, true)!;
+            Object.assign(container, components);
+        }
+
+        // Bundling only replaces references, so the document keeps its shape
+        return { document: bundled as T, componentSources: this.componentSources };
+    }
+
+    private walk(node: unknown, file: string, keyPath: string[]): unknown {
+        if (Array.isArray(node)) {
+            return node.map((item, index) => this.walk(item, file, [...keyPath, String(index)]));
+        }
+        if (!isObject(node)) return node;
+
+        if (typeof node.$ref === 'string') {
+            const replacement = this.resolveRef(node.$ref, node, file, keyPath);
+            if (replacement !== undefined) return replacement;
+        }
+
+        const result: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(node)) {
+            result[key] = this.walk(value, file, [...keyPath, key]);
+        }
+        return result;
+    }
+
+    private resolveRef(ref: string, node: Record<string, unknown>, file: string, keyPath: string[]): unknown {
+        const hashIndex = ref.indexOf('#');
+        const filePart = hashIndex === -1 ? ref : ref.substring(0, hashIndex);
+        const fragment = hashIndex === -1 ? '' : ref.substring(hashIndex + 1);
+
+        // Internal refs of the root document already point inside the bundle
+        if (!filePart && file === this.rootFile) return undefined;
+        // Only local files are bundled, remote refs are left to the rules to report
+        if (/^[a-z][a-z0-9+.-]*:/i.test(filePart)) return undefined;
+
+        if (path.isAbsolute(filePart)) {
+            throw new Error(`Referenced file '${filePart}' must be given relative to the specification`);
+        }
+        const targetFile = filePart ? path.resolve(path.dirname(file), filePart) : file;
+        const relative = path.relative(path.dirname(this.rootFile), targetFile);
+        if (relative.startsWith('..') || path.isAbsolute(relative)) {
+            throw new Error(`Referenced file '${filePart}' is outside the directory of the specification`);
+        }
+        const content = this.getFragment(this.loadFile(targetFile), fragment);
+        if (content === undefined) return undefined;
+
+        const { $ref, ...siblings } = node;
+        const source: ComponentSource = {
+            file: path.relative(path.dirname(this.rootFile), targetFile) || path.basename(targetFile),
+            pointer: fragment,
+        };
+        const sectionKeys = this.getSectionKeys(this.getSection(keyPath));
+        const targetKey = `${targetFile}#${fragment}`;
+
+        if (!sectionKeys) {
+            // A ref that is already being inlined would inline itself forever, so it stays a reference
+            if (this.inlining.has(targetKey)) return undefined;
+
+            // No reusable component type for this location, so the content replaces the reference
+            this.componentSources[this.toPointer(keyPath)] = source;
+            this.inlining.add(targetKey);
+            const inlined = this.walk(content, targetFile, keyPath);
+            this.inlining.delete(targetKey);
+            return isObject(inlined) && !Array.isArray(inlined)
+                ? { ...inlined, ...siblings }
+                : inlined;
+        }
+
+        let targetRef = this.targets.get(targetKey);
+        if (!targetRef) {
+            const section = sectionKeys.join('/');
+            const name = this.getUniqueName(section, this.getComponentName(targetFile, fragment));
+            targetRef = `#/${section}/${name}`;
+            // Registered before walking so recursive references end up pointing at the same component
+            this.targets.set(targetKey, targetRef);
+            this.added[section] = this.added[section] || {};
+            this.added[section][name] = this.walk(content, targetFile, [...sectionKeys, name]);
+            this.componentSources[this.toPointer([...sectionKeys, name])] = source;
+        }
+
+        return { ...siblings, $ref: targetRef };
+    }
+
+    private getSection(keyPath: string[]): string | undefined {
+        const parent = keyPath[keyPath.length - 1];
+        const grandParent = keyPath[keyPath.length - 2];
+
+        if (SCHEMA_PARENT_KEYS.includes(parent)) return 'schemas';
+        if (grandParent && (SCHEMA_MAP_KEYS.includes(grandParent) || SCHEMA_LIST_KEYS.includes(grandParent))) return 'schemas';
+        if (parent === 'requestBody') return 'requestBodies';
+        if (grandParent && SECTION_BY_PARENT[grandParent]) return SECTION_BY_PARENT[grandParent];
+        return undefined;
+    }
+
+    // Location of a component section in the bundled document, undefined where the content must be inlined
+    private getSectionKeys(section: string | undefined): string[] | undefined {
+        if (!section) return undefined;
+        if (!this.isSwagger2) return ['components', section];
+
+        const swagger2Sections: Record<string, string> = {
+            schemas: 'definitions',
+            parameters: 'parameters',
+            responses: 'responses',
+        };
+        return swagger2Sections[section] ? [swagger2Sections[section]] : undefined;
+    }
+
+    private getSectionContainer(document: unknown, section: string, create: boolean): Record<string, unknown> | undefined {
+        let current = document;
+        for (const key of section.split('/')) {
+            if (!isObject(current)) return undefined;
+            if (!current[key]) {
+                if (!create) return undefined;
+                current[key] = {};
+            }
+            current = current[key];
+        }
+        return isObject(current) ? current : undefined;
+    }
+
+    private getComponentName(file: string, fragment: string): string {
+        const segments = fragment.split('/').filter(Boolean);
+        const base = segments.length > 0
+            ? this.unescapePointerSegment(segments[segments.length - 1])
+            : path.basename(file, path.extname(file));
+        return base.replace(/[^a-zA-Z0-9.\-_]/g, '_');
+    }
+
+    private getUniqueName(section: string, name: string): string {
+        if (!this.existingNames[section]) {
+            const root = this.files.get(this.rootFile);
+            this.existingNames[section] = new Set(Object.keys(this.getSectionContainer(root, section, false) || {}));
+        }
+
+        const names = this.existingNames[section];
+        let unique = name;
+        for (let i = 2; names.has(unique); i++) {
+            unique = `${name}${i}`;
+        }
+        names.add(unique);
+        return unique;
+    }
+
+    private loadFile(file: string): unknown {
+        if (!this.files.has(file)) {
+            let content;
+            try {
+                content = YAML.parse(fs.readFileSync(file, 'utf8'));
+            } catch (error: any) {
+                throw new Error(`Could not load referenced file '${file}': ${error.message}`);
+            }
+            this.files.set(file, content);
+        }
+        return this.files.get(file);
+    }
+
+    private getFragment(content: unknown, fragment: string): unknown {
+        let current = content;
+        for (const segment of fragment.split('/').filter(Boolean)) {
+            if (!isObject(current)) return undefined;
+            current = current[this.unescapePointerSegment(decodeURIComponent(segment))];
+        }
+        return current;
+    }
+
+    private toPointer(keyPath: string[]): string {
+        return keyPath.map(key => '/' + key.replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+    }
+
+    private unescapePointerSegment(segment: string): string {
+        return segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    }
+}
@@ -0,0 +1,100 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { ApiChange, Changelog, ChangelogEntry, ChangelogSection, OpenAPIDocument } from '../scoring-engine/types';
+import { BreakingChangeAnalyzer } from './breaking-changes';
+
+const UNTAGGED = '(untagged)';
+// Order of the entries of a tag, as in Keep a Changelog
+const KINDS: ChangelogEntry['kind'][] = ['added', 'changed', 'deprecated', 'removed'];
+// Changes that make up the kind of an entry rather than being listed in it
+const KIND_CHANGES: Record<string, ChangelogEntry['kind']> = {
+    'change.operation-added': 'added',
+    'change.operation-removed': 'removed',
+    'change.operation-deprecated': 'deprecated',
+};
+
+// Turns the changes between two versions into release notes grouped by tag. Operations are described by their
+// summary and description, and changes of shared components are listed once, apart from the operations.
+export function buildChangelog(
+    previous: { label: string; document: OpenAPIDocument },
+    current: { label: string; document: OpenAPIDocument }
+): Changelog {
+    const report = new BreakingChangeAnalyzer().analyze(previous.document, current.document, previous.label);
+    const entries = new Map<string, ChangelogEntry>();
+    const components = new Map<string, ApiChange[]>();
+
+    report.changes.forEach(change => {
+        const component = getComponent(change);
+        if (component) {
+            components.set(component, [...(components.get(component) || []), change]);
+            return;
+        }
+        if (!change.operation || change.path === undefined) return;
+
+        const key = `${change.operation} ${change.path}`;
+        const entry = entries.get(key) || createEntry(change, change.id === 'change.operation-removed' ? previous.document : current.document);
+        entries.set(key, entry);
+        if (KIND_CHANGES[change.id]) {
+            // A deprecated operation that changed otherwise too is listed as deprecated
+            entry.kind = KIND_CHANGES[change.id];
+        } else {
+            entry.changes.push(change);
+        }
+        entry.breaking = entry.breaking || change.classification === 'breaking';
+    });
+
+    return {
+        previous: { label: previous.label, version: previous.document.info?.version || '' },
+        current: { label: current.label, version: current.document.info?.version || '' },
+        sections: groupByTag([...entries.values()], current.document, previous.document),
+        components: [...components].map(([name, changes]) => ({ name, changes })),
+        breakingCount: report.breakingCount,
+    };
+}
+
+function createEntry(change: ApiChange, document: OpenAPIDocument): ChangelogEntry {
+    const operation = getOperation(document, change.path!, change.operation!);
+    return {
+        method: change.operation!,
+        path: change.path!,
+        ...(operation?.summary ? { summary: operation.summary } : {}),
+        ...(operation?.description ? { description: operation.description } : {}),
+        kind: 'changed',
+        changes: [],
+        breaking: false,
+    };
+}
+
+// Sections follow the order of the root `tags` of the current version, then that of the previous one; an operation
+// with several tags is listed under each of them
+function groupByTag(entries: ChangelogEntry[], current: OpenAPIDocument, previous: OpenAPIDocument): ChangelogSection[] {
+    const sections = new Map<string, ChangelogSection>();
+    [...(current.tags || []), ...(previous.tags || [])].forEach(({ name, description }) => {
+        if (!sections.has(name)) sections.set(name, { tag: name, ...(description ? { description } : {}), entries: [] });
+    });
+
+    entries.forEach(entry => {
+        const operation = getOperation(current, entry.path, entry.method) || getOperation(previous, entry.path, entry.method);
+        const tags = (operation?.tags || []).filter(tag => typeof tag === 'string');
+        (tags.length > 0 ? [...new Set(tags)] : [UNTAGGED]).forEach(tag => {
+            if (!sections.has(tag)) sections.set(tag, { tag, entries: [] });
+            sections.get(tag)!.entries.push(entry);
+        });
+    });
+
+    const untagged = sections.get(UNTAGGED);
+    sections.delete(UNTAGGED);
+    return [...sections.values(), ...(untagged ? [untagged] : [])]
+        .filter(section => section.entries.length > 0)
+        .map(section => ({ ...section, entries: section.entries.sort((a, b) => KINDS.indexOf(a.kind) - KINDS.indexOf(b.kind)) }));
+}
+
+function getOperation(document: OpenAPIDocument, path: string, method: string): OpenAPIV3.OperationObject | undefined {
+    const pathItem = (document.paths || {})[path] as OpenAPIV3.PathItemObject | undefined;
+    return pathItem?.[method.toLowerCase() as OpenAPIV3.HttpMethods] as OpenAPIV3.OperationObject | undefined;
+}
+
+// '/components/schemas/Pet/properties/name' -> 'schemas/Pet'
+function getComponent(change: ApiChange): string | undefined {
+    const [, section, type, name] = (change.currentPointer ?? change.previousPointer ?? '').split('/');
+    return section === 'components' && type && name ? `${type}/${name.replace(/~1/g, '/').replace(/~0/g, '~')}` : undefined;
+}
@@ -0,0 +1,55 @@
+import { CategoryDelta, RuleViolation, ScoreCard, SpecComparison } from '../scoring-engine/types';
+
+// Compares the reports of two versions of a document, previous first. Categories are matched by name and
+// violations by fingerprint, so moving or reformatting parts of the document doesn't count as a change.
+// A fingerprint occurring more often in one version counts as introduced or resolved for the extra occurrences.
+export function compareReports(
+    previous: { label: string; report: ScoreCard },
+    current: { label: string; report: ScoreCard }
+): SpecComparison {
+    const remaining = new Map<string, RuleViolation[]>();
+    getAllViolations(previous.report).forEach(violation => {
+        const key = violation.fingerprint || '';
+        remaining.set(key, [...(remaining.get(key) || []), violation]);
+    });
+
+    const introduced: RuleViolation[] = [];
+    const unchanged: RuleViolation[] = [];
+    getAllViolations(current.report).forEach(violation => {
+        const known = remaining.get(violation.fingerprint || '');
+        if (known && known.length > 0) {
+            known.shift();
+            unchanged.push(violation);
+        } else {
+            introduced.push(violation);
+        }
+    });
+
+    return {
+        previous: { label: previous.label, overallScore: previous.report.overallScore, grade: previous.report.grade },
+        current: { label: current.label, overallScore: current.report.overallScore, grade: current.report.grade },
+        scoreDelta: current.report.overallScore - previous.report.overallScore,
+        categoryDeltas: compareCategories(previous.report, current.report),
+        introduced,
+        resolved: [...remaining.values()].flat(),
+        unchanged,
+    };
+}
+
+// Categories of the current version in report order, followed by those only the previous version had
+function compareCategories(previous: ScoreCard, current: ScoreCard): CategoryDelta[] {
+    const previousPercentages = new Map(previous.categoryScores.map(({ name, percentage }) => [name, percentage]));
+    const deltas = current.categoryScores.map(({ name, percentage }): CategoryDelta => {
+        const before = previousPercentages.get(name);
+        previousPercentages.delete(name);
+        return before === undefined
+            ? { name, current: percentage }
+            : { name, previous: before, current: percentage, delta: percentage - before };
+    });
+    previousPercentages.forEach((percentage, name) => deltas.push({ name, previous: percentage }));
+    return deltas;
+}
+
+function getAllViolations(report: ScoreCard): RuleViolation[] {
+    return report.ruleResults.flatMap(({ result }) => result.violations);
+}
@@ -0,0 +1,280 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { RULE_CATEGORIES } from '../scoring-engine';
+import { getDeclarativeCategories, validateRuleDefinition } from '../scoring-engine/declarative-rules';
+import { SPECTRAL_CATEGORY_NAME } from '../scoring-engine/constants';
+import { GRADES, PROFILE_NAMES } from '../scoring-engine/profiles';
+import { PAGINATION_STYLES } from '../scoring-engine/rules/pagination-rule';
+import { NAMING_CASINGS } from '../scoring-engine/rules/naming-rule';
+import { ScorecardConfig } from '../scoring-engine/types';
+import { SpectralRulesetLoader } from './spectral';
+
+export const CONFIG_FILE_NAMES = ['.openapi-scorecard.yml', '.openapi-scorecard.yaml', '.openapi-scorecard.json'];
+
+const SEVERITIES = ['error', 'warning', 'info'];
+
+export interface LoadedConfig {
+    config: ScorecardConfig;
+    // File the configuration was read from, unset when none was found
+    file?: string;
+    // Spectral ruleset the rules were imported from
+    ruleset?: string;
+    // Parts of the ruleset that could not be imported
+    warnings?: string[];
+}
+
+// Finds, reads and validates .openapi-scorecard.yml/.json project configuration files
+export class ConfigLoader {
+    // An explicit file wins, otherwise the nearest config file above `startPath` is used.
+    // The same goes for the Spectral ruleset: an explicit one replaces the `ruleset` setting.
+    resolve(startPath: string | undefined, explicitFile?: string, explicitRuleset?: string): LoadedConfig {
+        const file = explicitFile ? path.resolve(explicitFile) : startPath ? this.find(startPath) : undefined;
+        const loaded: LoadedConfig = file ? { config: this.load(file), file } : { config: {} };
+
+        const ruleset = explicitRuleset
+            ? path.resolve(explicitRuleset)
+            : loaded.config.ruleset && path.resolve(path.dirname(file!), loaded.config.ruleset);
+        return ruleset ? { ...loaded, ...this.importRuleset(loaded.config, ruleset) } : loaded;
+    }
+
+    // Adds the rules of a Spectral ruleset to the declarative rules; rules of the config take precedence
+    importRuleset(config: ScorecardConfig, file: string): Required<Pick<LoadedConfig, 'config' | 'ruleset' | 'warnings'>> {
+        const imported = new SpectralRulesetLoader().load(file);
+        const warnings = [...imported.warnings];
+        Object.keys(config.rules || {}).filter(id => imported.rules[id]).forEach(id =>
+            warnings.push(`Rule '${id}' of the ruleset is replaced by the rule with the same ID in the config`));
+
+        return {
+            config: { ...config, rules: { ...imported.rules, ...config.rules } },
+            ruleset: file,
+            warnings,
+        };
+    }
+
+    // Walks up from a spec file or directory to the filesystem root
+    find(startPath: string): string | undefined {
+        let directory = path.resolve(startPath);
+        if (fs.existsSync(directory) && !fs.statSync(directory).isDirectory()) {
+            directory = path.dirname(directory);
+        }
+
+        while (true) {
+            for (const name of CONFIG_FILE_NAMES) {
+                const candidate = path.join(directory, name);
+                if (fs.existsSync(candidate)) return candidate;
+            }
+            const parent = path.dirname(directory);
+            if (parent === directory) return undefined;
+            directory = parent;
+        }
+    }
+
+    load(file: string): ScorecardConfig {
+        let content: unknown;
+        try {
+            const text = fs.readFileSync(file, 'utf8');
+            content = file.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+        } catch (error: any) {
+            throw new Error(`Failed to read config file '${file}': ${error.message}`);
+        }
+
+        const errors = this.validate(content ?? {});
+        if (errors.length > 0) {
+            throw new Error(`Invalid config file '${file}': ${errors.join('; ')}`);
+        }
+        return (content ?? {}) as ScorecardConfig;
+    }
+
+    private validate(content: unknown): string[] {
+        if (!this.isObject(content)) return ['the configuration must be an object'];
+
+        const errors: string[] = [];
+        const known = ['profile', 'categories', 'severityWeights', 'checks', 'validityGate', 'plugins', 'rules', 'ruleset', 'ownerExtension', 'grades', 'policy', 'pagination', 'errorFormat', 'naming'];
+        Object.keys(content).filter(key => !known.includes(key))
+            .forEach(key => errors.push(`unknown setting '${key}'`));
+
+        if (content.profile !== undefined && !PROFILE_NAMES.includes(content.profile)) {
+            errors.push(`unknown profile '${content.profile}', expected one of ${PROFILE_NAMES.join(', ')}`);
+        }
+
+        if (content.categories !== undefined) {
+            if (!this.isObject(content.categories)) {
+                errors.push("'categories' must be an object");
+            } else {
+                // Categories of declarative rules can be configured by their name
+                const customCategories = [
+                    ...this.isObject(content.rules) ? getDeclarativeCategories(content.rules).keys() : [],
+                    ...content.ruleset !== undefined ? [SPECTRAL_CATEGORY_NAME] : [],
+                ];
+                for (const [category, value] of Object.entries(content.categories)) {
+                    if (!RULE_CATEGORIES.includes(category as never) && !customCategories.includes(category)) {
+                        errors.push(`unknown category '${category}', expected one of ${[...RULE_CATEGORIES, ...customCategories].join(', ')}`);
+                    } else if (this.isObject(value)) {
+                        if (value.enabled !== undefined && typeof value.enabled !== 'boolean') {
+                            errors.push(`'categories.${category}.enabled' must be true or false`);
+                        }
+                        if (value.weight !== undefined && !this.isPositiveNumber(value.weight)) {
+                            errors.push(`'categories.${category}.weight' must be a positive number`);
+                        }
+                    } else if (typeof value !== 'boolean') {
+                        errors.push(`'categories.${category}' must be true, false or an object`);
+                    }
+                }
+            }
+        }
+
+        if (content.severityWeights !== undefined) {
+            if (!this.isObject(content.severityWeights)) {
+                errors.push("'severityWeights' must be an object");
+            } else {
+                for (const [severity, value] of Object.entries(content.severityWeights)) {
+                    if (!SEVERITIES.includes(severity)) {
+                        errors.push(`unknown severity '${severity}'`);
+                    } else if (typeof value !== 'number' || value < 0) {
+                        errors.push(`'severityWeights.${severity}' must be a number of at least 0`);
+                    }
+                }
+            }
+        }
+
+        if (content.checks !== undefined) {
+            if (!this.isObject(content.checks)) {
+                errors.push("'checks' must be an object");
+            } else {
+                for (const [check, severity] of Object.entries(content.checks)) {
+                    if (typeof severity !== 'string' || ![...SEVERITIES, 'off'].includes(severity)) {
+                        errors.push(`check '${check}' must be set to error, warning, info or off`);
+                    }
+                }
+            }
+        }
+
+        if (content.validityGate !== undefined && typeof content.validityGate !== 'boolean') {
+            errors.push("'validityGate' must be true or false");
+        }
+
+        if (content.rules !== undefined) {
+            if (!this.isObject(content.rules)) {
+                errors.push("'rules' must be an object keyed by rule ID");
+            } else {
+                for (const [id, definition] of Object.entries(content.rules)) {
+                    errors.push(...validateRuleDefinition(id, definition));
+                }
+            }
+        }
+
+        if (content.ruleset !== undefined && typeof content.ruleset !== 'string') {
+            errors.push("'ruleset' must be the path of a Spectral ruleset");
+        }
+
+        if (content.grades !== undefined) {
+            if (!this.isObject(content.grades)) {
+                errors.push("'grades' must be an object");
+            } else {
+                for (const [grade, value] of Object.entries(content.grades)) {
+                    if (!GRADES.slice(0, -1).includes(grade as never)) {
+                        errors.push(`unknown grade '${grade}', expected one of ${GRADES.slice(0, -1).join(', ')}`);
+                    } else if (!this.isPercentage(value)) {
+                        errors.push(`'grades.${grade}' must be a number from 0 to 100`);
+                    }
+                }
+            }
+        }
+
+        if (content.policy !== undefined) {
+            if (!this.isObject(content.policy)) {
+                errors.push("'policy' must be an object");
+            } else {
+                Object.keys(content.policy).filter(key => !['minimums', 'gradeCap'].includes(key))
+                    .forEach(key => errors.push(`unknown setting 'policy.${key}'`));
+                if (content.policy.minimums !== undefined) {
+                    if (!this.isObject(content.policy.minimums)) {
+                        errors.push("'policy.minimums' must be an object keyed by category");
+                    } else {
+                        for (const [category, value] of Object.entries(content.policy.minimums)) {
+                            if (!this.isPercentage(value)) {
+                                errors.push(`'policy.minimums.${category}' must be a percentage from 0 to 100`);
+                            }
+                        }
+                    }
+                }
+                if (content.policy.gradeCap !== undefined && !GRADES.includes(content.policy.gradeCap)) {
+                    errors.push(`'policy.gradeCap' must be one of ${GRADES.join(', ')}`);
+                }
+            }
+        }
+
+        if (content.ownerExtension !== undefined &&
+            (typeof content.ownerExtension !== 'string' || !content.ownerExtension.startsWith('x-'))) {
+            errors.push("'ownerExtension' must be the name of a specification extension, e.g. 'x-owner'");
+        }
+
+        if (content.pagination !== undefined) {
+            if (!this.isObject(content.pagination)) {
+                errors.push("'pagination' must be an object");
+            } else {
+                Object.keys(content.pagination).filter(key => key !== 'style')
+                    .forEach(key => errors.push(`unknown setting 'pagination.${key}'`));
+                if (content.pagination.style !== undefined && !PAGINATION_STYLES.includes(content.pagination.style)) {
+                    errors.push(`'pagination.style' must be one of ${PAGINATION_STYLES.join(', ')}`);
+                }
+            }
+        }
+
+        if (content.errorFormat !== undefined) {
+            if (!this.isObject(content.errorFormat)) {
+                errors.push("'errorFormat' must be an object");
+            } else {
+                Object.keys(content.errorFormat).filter(key => key !== 'problemDetails')
+                    .forEach(key => errors.push(`unknown setting 'errorFormat.${key}'`));
+                if (content.errorFormat.problemDetails !== undefined && typeof content.errorFormat.problemDetails !== 'boolean') {
+                    errors.push("'errorFormat.problemDetails' must be true or false");
+                }
+            }
+        }
+
+        if (content.naming !== undefined) {
+            if (!this.isObject(content.naming)) {
+                errors.push("'naming' must be an object");
+            } else {
+                for (const [target, casing] of Object.entries(content.naming)) {
+                    if (!['properties', 'queryParameters', 'headers', 'components'].includes(target)) {
+                        errors.push(`unknown setting 'naming.${target}'`);
+                    } else if (!NAMING_CASINGS.includes(casing as never)) {
+                        errors.push(`'naming.${target}' must be one of ${NAMING_CASINGS.join(', ')}`);
+                    }
+                }
+            }
+        }
+
+        if (content.plugins !== undefined) {
+            if (!Array.isArray(content.plugins)) {
+                errors.push("'plugins' must be a list");
+            } else {
+                content.plugins.forEach((plugin: unknown, index: number) => {
+                    if (typeof plugin === 'string') return;
+                    if (!this.isObject(plugin) || typeof plugin.module !== 'string') {
+                        errors.push(`'plugins[${index}]' must be a module name or an object with a 'module'`);
+                    } else if (plugin.options !== undefined && !this.isObject(plugin.options)) {
+                        errors.push(`'plugins[${index}].options' must be an object`);
+                    }
+                });
+            }
+        }
+
+        return errors;
+    }
+
+    private isObject(value: unknown): value is Record<string, any> {
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+
+    private isPositiveNumber(value: unknown): boolean {
+        return typeof value === 'number' && value > 0;
+    }
+
+    private isPercentage(value: unknown): boolean {
+        return typeof value === 'number' && value >= 0 && value <= 100;
+    }
+}
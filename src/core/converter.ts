@@ -0,0 +1,371 @@
+import { OpenAPIV2, OpenAPIV3 } from "openapi-types";
+
+const HTTP_METHODS: string[] = Object.values(OpenAPIV2.HttpMethods);
+const DEFAULT_MEDIA_TYPE = 'application/json';
+
+// Keywords a Swagger 2.0 non-body parameter carries that belong in the OpenAPI 3 parameter schema
+const PARAMETER_SCHEMA_KEYWORDS = [
+    'type', 'format', 'items', 'default', 'maximum', 'exclusiveMaximum', 'minimum', 'exclusiveMinimum',
+    'maxLength', 'minLength', 'pattern', 'maxItems', 'minItems', 'uniqueItems', 'enum', 'multipleOf',
+];
+
+const COLLECTION_FORMAT_STYLES: Record<string, { style: string; explode: boolean }> = {
+    csv: { style: 'form', explode: false },
+    ssv: { style: 'spaceDelimited', explode: false },
+    pipes: { style: 'pipeDelimited', explode: false },
+    multi: { style: 'form', explode: true },
+};
+
+// Converts a Swagger 2.0 document into an equivalent OpenAPI 3.0 document so the rules
+// only ever have to understand one shape of specification.
+export class SwaggerConverter {
+    private source!: OpenAPIV2.Document;
+
+    convert(source: OpenAPIV2.Document): OpenAPIV3.Document {
+        this.source = source;
+
+        const components: OpenAPIV3.ComponentsObject = {};
+        const document: OpenAPIV3.Document = {
+            openapi: '3.0.3',
+            info: source.info as OpenAPIV3.InfoObject,
+            paths: {},
+        };
+
+        const servers = this.convertServers();
+        if (servers.length > 0) document.servers = servers;
+        if (source.tags) document.tags = source.tags as OpenAPIV3.TagObject[];
+        if (source.externalDocs) document.externalDocs = source.externalDocs;
+        if (source.security) document.security = source.security;
+        this.copyExtensions(source, document);
+
+        if (source.definitions) {
+            components.schemas = {};
+            for (const [name, schema] of Object.entries(source.definitions)) {
+                components.schemas[name] = this.convertSchema(schema);
+            }
+        }
+
+        if (source.parameters) {
+            for (const [name, parameter] of Object.entries(source.parameters)) {
+                const param = parameter as OpenAPIV2.Parameter;
+                if (param.in === 'body') {
+                    components.requestBodies = components.requestBodies || {};
+                    components.requestBodies[name] = this.convertBodyParameter(param, source.consumes);
+                } else if (param.in === 'formData') {
+                    components.requestBodies = components.requestBodies || {};
+                    components.requestBodies[name] = this.convertFormDataParameters([param], source.consumes);
+                } else {
+                    components.parameters = components.parameters || {};
+                    components.parameters[name] = this.convertParameter(param);
+                }
+            }
+        }
+
+        if (source.responses) {
+            components.responses = {};
+            for (const [name, response] of Object.entries(source.responses)) {
+                components.responses[name] = this.convertResponse(response as OpenAPIV2.ResponseObject, source.produces);
+            }
+        }
+
+        if (source.securityDefinitions) {
+            components.securitySchemes = {};
+            for (const [name, scheme] of Object.entries(source.securityDefinitions)) {
+                components.securitySchemes[name] = this.convertSecurityScheme(scheme);
+            }
+        }
+
+        if (Object.keys(components).length > 0) document.components = components;
+
+        for (const [pathName, pathItem] of Object.entries(source.paths || {})) {
+            if (!pathItem) continue;
+            document.paths[pathName] = this.convertPathItem(pathItem);
+        }
+
+        return document;
+    }
+
+    private convertServers(): OpenAPIV3.ServerObject[] {
+        const { host, basePath, schemes } = this.source;
+        if (!host && !basePath) return [];
+
+        const path = basePath || '';
+        if (!host) return [{ url: path || '/' }];
+
+        return (schemes && schemes.length > 0 ? schemes : ['https']).map(scheme => ({
+            url: `${scheme}://${host}${path}`,
+        }));
+    }
+
+    private convertPathItem(pathItem: OpenAPIV2.PathItemObject): OpenAPIV3.PathItemObject {
+        const converted: OpenAPIV3.PathItemObject = {};
+        const sharedFormData: OpenAPIV2.Parameter[] = [];
+        let sharedBody: OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject | undefined;
+
+        if (pathItem.parameters) {
+            const parameters: (OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject)[] = [];
+            for (const parameter of pathItem.parameters) {
+                const kind = this.getParameterKind(parameter);
+                if (kind === 'body') sharedBody = parameter;
+                else if (kind === 'formData') sharedFormData.push(this.resolveParameter(parameter)!);
+                else parameters.push(this.convertParameterOrRef(parameter));
+            }
+            if (parameters.length > 0) converted.parameters = parameters;
+        }
+
+        for (const key of Object.keys(pathItem).filter(key => HTTP_METHODS.includes(key))) {
+            const operation = pathItem[key as OpenAPIV2.HttpMethods];
+            if (operation) converted[key as OpenAPIV3.HttpMethods] = this.convertOperation(operation, sharedBody, sharedFormData);
+        }
+        if (pathItem.$ref) converted.$ref = pathItem.$ref;
+        this.copyExtensions(pathItem, converted);
+
+        return converted;
+    }
+
+    private convertOperation(
+        operation: OpenAPIV2.OperationObject,
+        sharedBody: OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject | undefined,
+        sharedFormData: OpenAPIV2.Parameter[]
+    ): OpenAPIV3.OperationObject {
+        const { parameters, consumes, produces, schemes, responses, ...rest } = operation;
+        const converted: OpenAPIV3.OperationObject = { ...rest, responses: {} };
+        const requestMediaTypes = consumes || this.source.consumes;
+        const responseMediaTypes = produces || this.source.produces;
+
+        let body = sharedBody;
+        const formData = [...sharedFormData];
+        const convertedParameters: (OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject)[] = [];
+
+        for (const parameter of parameters || []) {
+            const kind = this.getParameterKind(parameter);
+            if (kind === 'body') body = parameter;
+            else if (kind === 'formData') formData.push(this.resolveParameter(parameter)!);
+            else convertedParameters.push(this.convertParameterOrRef(parameter));
+        }
+
+        if (convertedParameters.length > 0) converted.parameters = convertedParameters;
+
+        if (body) {
+            converted.requestBody = '$ref' in body
+                ? { $ref: this.convertRef(body.$ref) }
+                : this.convertBodyParameter(body, requestMediaTypes);
+        } else if (formData.length > 0) {
+            converted.requestBody = this.convertFormDataParameters(formData, requestMediaTypes);
+        }
+
+        for (const [statusCode, response] of Object.entries(responses || {})) {
+            if (!response) continue;
+            converted.responses[statusCode] = '$ref' in response
+                ? { $ref: this.convertRef(response.$ref) }
+                : this.convertResponse(response as OpenAPIV2.ResponseObject, responseMediaTypes);
+        }
+
+        return converted;
+    }
+
+    private convertParameterOrRef(
+        parameter: OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject
+    ): OpenAPIV3.ParameterObject | OpenAPIV3.ReferenceObject {
+        if ('$ref' in parameter) return { $ref: this.convertRef(parameter.$ref) };
+        return this.convertParameter(parameter);
+    }
+
+    private convertParameter(parameter: OpenAPIV2.Parameter): OpenAPIV3.ParameterObject {
+        const converted: OpenAPIV3.ParameterObject = {
+            name: parameter.name,
+            in: parameter.in,
+        };
+        if (parameter.description) converted.description = parameter.description;
+        if (parameter.required !== undefined) converted.required = parameter.required;
+        if (parameter.allowEmptyValue !== undefined) converted.allowEmptyValue = parameter.allowEmptyValue;
+        if (parameter['x-example'] !== undefined) converted.example = parameter['x-example'];
+
+        const collectionFormat = COLLECTION_FORMAT_STYLES[parameter.collectionFormat];
+        // Path and header arrays keep the default `simple` style, the only one OpenAPI 3 allows for them
+        if (parameter.type === 'array' && collectionFormat && parameter.in === 'query') {
+            converted.style = collectionFormat.style;
+            converted.explode = collectionFormat.explode;
+        }
+
+        converted.schema = this.buildParameterSchema(parameter);
+        this.copyExtensions(parameter, converted);
+        return converted;
+    }
+
+    // Converted like any other schema, so `file` becomes a binary string and items are rewritten too
+    private buildParameterSchema(parameter: OpenAPIV2.Parameter | OpenAPIV2.HeaderObject): OpenAPIV3.SchemaObject {
+        return this.convertSchema(Object.fromEntries(Object.entries(parameter)
+            .filter(([keyword, value]) => PARAMETER_SCHEMA_KEYWORDS.includes(keyword) && value !== undefined)));
+    }
+
+    private convertBodyParameter(parameter: OpenAPIV2.Parameter, mediaTypes?: string[]): OpenAPIV3.RequestBodyObject {
+        const schema = this.convertSchema(parameter.schema || {});
+        const content: Record<string, OpenAPIV3.MediaTypeObject> = {};
+        for (const mediaType of this.withDefaultMediaType(mediaTypes)) {
+            content[mediaType] = { schema };
+        }
+
+        const requestBody: OpenAPIV3.RequestBodyObject = { content };
+        if (parameter.description) requestBody.description = parameter.description;
+        if (parameter.required) requestBody.required = true;
+        this.copyExtensions(parameter, requestBody);
+        return requestBody;
+    }
+
+    private convertFormDataParameters(parameters: OpenAPIV2.Parameter[], mediaTypes?: string[]): OpenAPIV3.RequestBodyObject {
+        const schema: OpenAPIV3.SchemaObject = { type: 'object', properties: {} };
+        const required: string[] = [];
+
+        for (const parameter of parameters) {
+            const property = this.buildParameterSchema(parameter);
+            if (parameter.description) property.description = parameter.description;
+            schema.properties![parameter.name] = property;
+            if (parameter.required) required.push(parameter.name);
+        }
+        if (required.length > 0) schema.required = required;
+
+        const hasFile = parameters.some(p => p.type === 'file');
+        const formMediaTypes = (mediaTypes || []).filter(m =>
+            m === 'multipart/form-data' || m === 'application/x-www-form-urlencoded'
+        );
+        if (formMediaTypes.length === 0) {
+            formMediaTypes.push(hasFile ? 'multipart/form-data' : 'application/x-www-form-urlencoded');
+        }
+
+        const content: Record<string, OpenAPIV3.MediaTypeObject> = {};
+        for (const mediaType of formMediaTypes) {
+            content[mediaType] = { schema };
+        }
+
+        const requestBody: OpenAPIV3.RequestBodyObject = { content };
+        if (required.length > 0) requestBody.required = true;
+        return requestBody;
+    }
+
+    private convertResponse(response: OpenAPIV2.ResponseObject, mediaTypes?: string[]): OpenAPIV3.ResponseObject {
+        const converted: OpenAPIV3.ResponseObject = { description: response.description };
+        const examples = response.examples || {};
+
+        if (response.schema) {
+            const schema = this.convertSchema(response.schema);
+            converted.content = {};
+            for (const mediaType of this.withDefaultMediaType(mediaTypes)) {
+                const mediaTypeObject: OpenAPIV3.MediaTypeObject = { schema };
+                if (examples[mediaType] !== undefined) mediaTypeObject.example = examples[mediaType];
+                converted.content[mediaType] = mediaTypeObject;
+            }
+        }
+
+        if (response.headers) {
+            converted.headers = {};
+            for (const [name, header] of Object.entries(response.headers)) {
+                const convertedHeader: OpenAPIV3.HeaderObject = { schema: this.buildParameterSchema(header) };
+                if (header.description) convertedHeader.description = header.description;
+                converted.headers[name] = convertedHeader;
+            }
+        }
+
+        this.copyExtensions(response, converted);
+        return converted;
+    }
+
+    private convertSecurityScheme(scheme: OpenAPIV2.SecuritySchemeObject): OpenAPIV3.SecuritySchemeObject {
+        const description = scheme.description ? { description: scheme.description } : {};
+
+        if (scheme.type === 'basic') {
+            return { type: 'http', scheme: 'basic', ...description };
+        }
+        if (scheme.type === 'apiKey') {
+            return { type: 'apiKey', name: scheme.name, in: scheme.in, ...description };
+        }
+
+        const scopes = scheme.scopes || {};
+        const flows: OpenAPIV3.OAuth2SecurityScheme['flows'] = {};
+        switch (scheme.flow) {
+            case 'implicit':
+                flows.implicit = { authorizationUrl: scheme.authorizationUrl, scopes };
+                break;
+            case 'password':
+                flows.password = { tokenUrl: scheme.tokenUrl, scopes };
+                break;
+            case 'application':
+                flows.clientCredentials = { tokenUrl: scheme.tokenUrl, scopes };
+                break;
+            case 'accessCode':
+                flows.authorizationCode = { authorizationUrl: scheme.authorizationUrl, tokenUrl: scheme.tokenUrl, scopes };
+                break;
+        }
+        return { type: 'oauth2', flows, ...description };
+    }
+
+    // Rewrites a schema tree: updates $refs, turns x-nullable into nullable and file into binary strings.
+    private convertSchema(schema: OpenAPIV2.SchemaObject | OpenAPIV2.ReferenceObject | Record<string, unknown>): OpenAPIV3.SchemaObject {
+        return this.convertSchemaNode(schema) as OpenAPIV3.SchemaObject;
+    }
+
+    private convertSchemaNode(node: unknown): unknown {
+        if (Array.isArray(node)) return node.map(item => this.convertSchemaNode(item));
+        if (!node || typeof node !== 'object') return node;
+
+        const converted: Record<string, unknown> = {};
+        for (const [key, value] of Object.entries(node)) {
+            if (key === '$ref' && typeof value === 'string') {
+                converted.$ref = this.convertRef(value);
+            } else if (key === 'x-nullable') {
+                converted.nullable = value;
+            } else if (key === 'discriminator' && typeof value === 'string') {
+                converted.discriminator = { propertyName: value };
+            } else if (key === 'example' || key === 'enum' || key === 'default' || key === 'required') {
+                converted[key] = value;
+            } else if (key === 'properties' && value && typeof value === 'object') {
+                converted.properties = Object.fromEntries(Object.entries(value)
+                    .map(([propName, propSchema]) => [propName, this.convertSchemaNode(propSchema)]));
+            } else {
+                converted[key] = this.convertSchemaNode(value);
+            }
+        }
+
+        if (converted.type === 'file') {
+            converted.type = 'string';
+            converted.format = 'binary';
+        }
+        return converted;
+    }
+
+    // Also used to carry component sources of a bundled Swagger document over to their new location
+    convertRef(ref: string): string {
+        if (ref.startsWith('#/definitions/')) {
+            return ref.replace('#/definitions/', '#/components/schemas/');
+        }
+        if (ref.startsWith('#/responses/')) {
+            return ref.replace('#/responses/', '#/components/responses/');
+        }
+        if (ref.startsWith('#/parameters/')) {
+            const name = ref.substring('#/parameters/'.length);
+            const parameter = this.source.parameters?.[name] as OpenAPIV2.Parameter | undefined;
+            const isBody = parameter?.in === 'body' || parameter?.in === 'formData';
+            return `#/components/${isBody ? 'requestBodies' : 'parameters'}/${name}`;
+        }
+        return ref;
+    }
+
+    private getParameterKind(parameter: OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject): string | undefined {
+        return this.resolveParameter(parameter)?.in;
+    }
+
+    private resolveParameter(parameter: OpenAPIV2.Parameter | OpenAPIV2.ReferenceObject): OpenAPIV2.Parameter | undefined {
+        if (!('$ref' in parameter)) return parameter;
+        if (!parameter.$ref.startsWith('#/parameters/')) return undefined;
+        return this.source.parameters?.[parameter.$ref.substring('#/parameters/'.length)] as OpenAPIV2.Parameter | undefined;
+    }
+
+    private withDefaultMediaType(mediaTypes?: string[]): string[] {
+        return mediaTypes && mediaTypes.length > 0 ? mediaTypes : [DEFAULT_MEDIA_TYPE];
+    }
+
+    private copyExtensions(from: object, to: object): void {
+        Object.assign(to, Object.fromEntries(Object.entries(from)
+            .filter(([key]) => key.startsWith('x-') && key !== 'x-nullable' && key !== 'x-example')));
+    }
+}
@@ -0,0 +1,185 @@
+import YAML, { Document, isMap, isScalar, isSeq } from 'yaml';
+import { JsonPatchOperation, ParsedSpec, RuleViolation, ScoreCard } from '../scoring-engine/types';
+import { toPointer } from '../scoring-engine/spec-utils';
+
+export interface AppliedFix {
+    ruleId: string;
+    description: string;
+    patch: JsonPatchOperation[];
+}
+
+export interface SkippedFix {
+    ruleId: string;
+    description: string;
+    reason: string;
+}
+
+export interface FixResult {
+    // The corrected document, unchanged when no fix applied
+    content: string;
+    applied: AppliedFix[];
+    skipped: SkippedFix[];
+}
+
+// Applies the safe fixes that rules attached to their violations to the text of the root document. YAML is edited
+// in place, so comments, key order and quoting survive; JSON is written from the same nodes and keeps its key order
+// and indentation.
+export class SpecFixer {
+    fix(source: string, parsed: ParsedSpec, report: ScoreCard): FixResult {
+        if (!parsed.sourceVersion.startsWith('3.')) {
+            throw new Error(`Fixes can only be applied to OpenAPI 3 documents, the input is Swagger ${parsed.sourceVersion}`);
+        }
+
+        const isJson = source.trimStart().startsWith('{');
+        let document: Document = YAML.parseDocument(source);
+        if (document.errors.length > 0) {
+            throw new Error(`Failed to read the document: ${document.errors[0].message}`);
+        }
+
+        const applied: AppliedFix[] = [];
+        const skipped: SkippedFix[] = [];
+        const seen = new Set<string>();
+        // Bundled content lives in other files, which are left alone
+        const bundled = Object.entries(parsed.componentSources || {});
+
+        getFixableViolations(report).forEach(({ ruleId, fix }) => {
+            const { description, patch, safe } = fix;
+            const key = JSON.stringify(patch);
+            if (seen.has(key)) return;
+            seen.add(key);
+
+            if (!safe) {
+                skipped.push({ ruleId, description, reason: 'the fix changes the API and has to be made by hand' });
+                return;
+            }
+            const external = bundled.find(([prefix]) => patch.some(({ path }) => path === prefix || path.startsWith(`${prefix}/`)));
+            if (external) {
+                skipped.push({ ruleId, description, reason: `the target is defined in the referenced file ${external[1].file}` });
+                return;
+            }
+
+            // A fix is applied entirely or not at all
+            const candidate = document.clone();
+            try {
+                patch.forEach(operation => applyOperation(candidate, operation));
+            } catch (error: any) {
+                skipped.push({ ruleId, description, reason: error.message });
+                return;
+            }
+            document = candidate;
+            applied.push({ ruleId, description, patch });
+        });
+
+        if (applied.length === 0) {
+            return { content: source, applied, skipped };
+        }
+        const indent = detectIndent(source);
+        const content = isJson
+            ? toJson(document.contents, indent) + (source.endsWith('\n') ? '\n' : '')
+            : document.toString({
+                indent,
+                // Whether sequences are indented below their key, and `[a]` or `[ a ]`, follow the source
+                indentSeq: !/^( *)[^\s-][^\n]*:[ \t]*\r?\n\1-[ \t]/m.test(source),
+                flowCollectionPadding: /^[^#\n]*:[ \t]*[[{] /m.test(source),
+                lineWidth: 0,
+            });
+        return { content, applied, skipped };
+    }
+}
+
+function getFixableViolations(report: ScoreCard): (RuleViolation & Required<Pick<RuleViolation, 'fix'>>)[] {
+    return report.ruleResults
+        .flatMap(({ result }) => result.violations)
+        // Plugin rules may attach fixes too, so their shape is not taken for granted
+        .filter((violation): violation is RuleViolation & Required<Pick<RuleViolation, 'fix'>> =>
+            !!violation.fix && Array.isArray(violation.fix.patch));
+}
+
+// Follows RFC 6902, except that the document root itself can't be replaced
+function applyOperation(document: Document, { op, path, value }: JsonPatchOperation): void {
+    const segments = path.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+    const name = segments.pop();
+    if (name === undefined) {
+        throw new Error('the document root can not be patched');
+    }
+
+    let parent: unknown = document.contents;
+    segments.forEach((segment, index) => {
+        parent = getChild(parent, segment);
+        if (parent === undefined) {
+            throw new Error(`${toPointer(...segments.slice(0, index + 1))} does not exist`);
+        }
+    });
+
+    if (isMap(parent)) {
+        const pair = parent.items.find(item => keyOf(item.key) === name);
+        if (!pair && op !== 'add') {
+            throw new Error(`${path} does not exist`);
+        }
+        if (op === 'remove') {
+            parent.items.splice(parent.items.indexOf(pair!), 1);
+        } else if (pair) {
+            pair.value = document.createNode(value);
+        } else {
+            // Status codes stay numbers next to numeric siblings, as in `200:`, and are quoted like their siblings otherwise
+            const siblings = parent.items.map(item => item.key).filter(isScalar);
+            const numeric = /^\d+$/.test(name) && siblings.some(key => typeof key.value === 'number');
+            const key = document.createNode(numeric ? Number(name) : name);
+            key.type = siblings.find(sibling => typeof sibling.value === 'string' && /^\d+$/.test(sibling.value) === /^\d+$/.test(name))?.type;
+            parent.add(document.createPair(key, value));
+        }
+    } else if (isSeq(parent)) {
+        // '-' appends, and adding may also insert right after the last item
+        const index = name === '-' ? parent.items.length : /^\d+$/.test(name) ? Number(name) : NaN;
+        const last = op === 'add' ? parent.items.length : parent.items.length - 1;
+        if (!(index <= last) || (name === '-' && op !== 'add')) {
+            throw new Error(`${path} does not exist`);
+        }
+        if (op === 'remove') {
+            parent.items.splice(index, 1);
+        } else {
+            parent.items.splice(index, op === 'replace' ? 1 : 0, document.createNode(value));
+        }
+    } else {
+        throw new Error(`${toPointer(...segments)} is not an object or array`);
+    }
+}
+
+function getChild(node: unknown, segment: string): unknown {
+    if (isMap(node)) {
+        return node.items.find(item => keyOf(item.key) === segment)?.value ?? undefined;
+    }
+    if (isSeq(node) && /^\d+$/.test(segment)) {
+        return node.items[Number(segment)];
+    }
+    return undefined;
+}
+
+// Keys are compared as text, YAML reads `200:` as a number
+function keyOf(key: unknown): string {
+    return String(isScalar(key) ? key.value : key);
+}
+
+// Formats like JSON.stringify, which would list integer-like keys first, e.g. '200' before 'default'; this keeps
+// every key where the source has it
+function toJson(node: unknown, indent: number, depth = 0): string {
+    const padding = ' '.repeat(indent * (depth + 1));
+    const closing = ' '.repeat(indent * depth);
+    if (isMap(node)) {
+        if (node.items.length === 0) return '{}';
+        const members = node.items.map(({ key, value }) => `${padding}${JSON.stringify(keyOf(key))}: ${toJson(value, indent, depth + 1)}`);
+        return `{\n${members.join(',\n')}\n${closing}}`;
+    }
+    if (isSeq(node)) {
+        if (node.items.length === 0) return '[]';
+        const items = node.items.map(item => `${padding}${toJson(item, indent, depth + 1)}`);
+        return `[\n${items.join(',\n')}\n${closing}]`;
+    }
+    return JSON.stringify(isScalar(node) ? node.value : null) ?? 'null';
+}
+
+// Indentation of the first indented line, two spaces when nothing is indented
+function detectIndent(source: string): number {
+    const match = /^( +)\S/m.exec(source.replace(/^\s*#.*$/gm, ''));
+    return match ? match[1].length : 2;
+}
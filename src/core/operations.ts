@@ -0,0 +1,200 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { GradeThresholds, GroupScore, OpenAPIDocument, OperationScore, Rule, RuleResult, RuleViolation, Severity } from '../scoring-engine/types';
+import { calculateScore } from '../scoring-engine/helper-functions';
+import { calculateGrade } from '../scoring-engine/profiles';
+import { getOperationMethods, getPathItems, HTTP_METHODS } from '../scoring-engine/spec-utils';
+
+const UNTAGGED = '(untagged)';
+const UNOWNED = '(unowned)';
+// How many checks a group lists as its top offenders
+const TOP_CHECKS_LIMIT = 3;
+
+export interface OperationRef {
+    // Upper case HTTP method
+    method: string;
+    // URL path, or `webhooks.<name>` for webhooks
+    path: string;
+}
+
+// Operations of the document keyed by operationKey, in document order
+export function listOperations(document: OpenAPIDocument): Map<string, OperationRef> {
+    const operations = new Map<string, OperationRef>();
+    getPathItems(document).forEach(({ path, pathItem }) => {
+        getOperationMethods(pathItem).forEach(method => {
+            const operation = { method: method.toUpperCase(), path };
+            operations.set(operationKey(operation), operation);
+        });
+    });
+    return operations;
+}
+
+export function operationKey({ method, path }: OperationRef): string {
+    return `${method.toUpperCase()} ${path}`;
+}
+
+// Ties a violation to the operation it belongs to. The pointer decides when it points into an operation;
+// otherwise the operation and path the rule reported are kept if they name an operation of the document.
+// Rules report the method in varying case, so it is upper-cased, and `operation` is cleared when none applies.
+export function normalizeOperation(violation: RuleViolation, operations: Map<string, OperationRef>): void {
+    const reported = violation.operation && HTTP_METHODS.includes(violation.operation.toLowerCase())
+        ? operations.get(operationKey({ method: violation.operation, path: violation.path }))
+        : undefined;
+    const operation = fromPointer(violation.pointer, operations) || reported;
+
+    if (operation) {
+        violation.operation = operation.method;
+        violation.path = operation.path;
+    } else {
+        delete violation.operation;
+    }
+}
+
+// Scores every operation of the document, worst first. Each category contributes its weight as it does to the
+// overall score, computed from the violations tied to the operation; failed rules are left out.
+export function scoreOperations(
+    document: OpenAPIDocument,
+    ruleResults: { rule: Rule; result: RuleResult }[],
+    grades: GradeThresholds,
+    severityWeights: Partial<Record<Severity, number>> = {}
+): OperationScore[] {
+    const categories = getCategories(ruleResults);
+
+    const scores = [...listOperations(document)].map(([key, { method, path }]): OperationScore => {
+        const { score, violations } = scoreOperationSet([key], categories, severityWeights);
+        const categoryViolations: Record<string, number> = {};
+        violations.forEach(({ category }) => categoryViolations[category] = (categoryViolations[category] || 0) + 1);
+        return { method, path, score, grade: calculateGrade(score, grades), violationCount: violations.length, categoryViolations };
+    });
+
+    return sortWorstFirst(scores);
+}
+
+// Rolls the operations up by tag, worst first. Operations without tags are grouped as '(untagged)'.
+export function scoreTags(
+    document: OpenAPIDocument,
+    ruleResults: { rule: Rule; result: RuleResult }[],
+    grades: GradeThresholds,
+    severityWeights: Partial<Record<Severity, number>> = {}
+): GroupScore[] {
+    return scoreGroups(document, ruleResults, grades, severityWeights, UNTAGGED, operation =>
+        (operation.tags || []).filter(tag => typeof tag === 'string'));
+}
+
+// Rolls the operations up by owner, worst first. The owner is read from `extension` on the operation, else on its
+// path item, else on the definitions of its tags; operations without one are grouped as '(unowned)'.
+export function scoreOwners(
+    document: OpenAPIDocument,
+    ruleResults: { rule: Rule; result: RuleResult }[],
+    extension: string,
+    grades: GradeThresholds,
+    severityWeights: Partial<Record<Severity, number>> = {}
+): GroupScore[] {
+    const tagOwners = new Map<string, string[]>();
+    (document.tags || []).forEach(tag => tagOwners.set(tag.name, getOwners(tag, extension)));
+
+    return scoreGroups(document, ruleResults, grades, severityWeights, UNOWNED, (operation, pathItem) => {
+        const owners = getOwners(operation, extension);
+        if (owners.length > 0) return owners;
+        const pathOwners = getOwners(pathItem, extension);
+        if (pathOwners.length > 0) return pathOwners;
+        return [...new Set((operation.tags || []).flatMap(tag => tagOwners.get(tag) || []))];
+    });
+}
+
+interface Category {
+    name: string;
+    maxScore: number;
+    byOperation: Map<string, RuleViolation[]>;
+}
+
+function getCategories(ruleResults: { rule: Rule; result: RuleResult }[]): Category[] {
+    return ruleResults
+        .filter(({ result }) => !result.error && result.maxScore > 0)
+        .map(({ rule, result }) => ({ name: rule.name, maxScore: result.maxScore, byOperation: groupByOperation(result.violations) }));
+}
+
+// Scores a set of operations as the items of every category
+function scoreOperationSet(
+    keys: string[],
+    categories: Category[],
+    severityWeights: Partial<Record<Severity, number>>
+): { score: number; violations: { category: string; violation: RuleViolation }[] } {
+    let score = 0;
+    let maxScore = 0;
+    const violations: { category: string; violation: RuleViolation }[] = [];
+
+    categories.forEach(category => {
+        const categoryViolations = keys.flatMap(key => category.byOperation.get(key) || []);
+        score += calculateScore(categoryViolations, keys.length, category.maxScore, severityWeights);
+        maxScore += category.maxScore;
+        categoryViolations.forEach(violation => violations.push({ category: category.name, violation }));
+    });
+
+    return { score: maxScore > 0 ? Math.round((score / maxScore) * 100) : 100, violations };
+}
+
+// Groups are left out entirely when no operation belongs to a named group, so specs without tags or owners
+// don't get a single catch-all group
+function scoreGroups(
+    document: OpenAPIDocument,
+    ruleResults: { rule: Rule; result: RuleResult }[],
+    grades: GradeThresholds,
+    severityWeights: Partial<Record<Severity, number>>,
+    fallback: string,
+    groupsOf: (operation: OpenAPIV3.OperationObject, pathItem: OpenAPIV3.PathItemObject) => string[]
+): GroupScore[] {
+    const members = new Map<string, string[]>();
+    getPathItems(document).forEach(({ path, pathItem }) => {
+        getOperationMethods(pathItem).forEach(method => {
+            const operation = pathItem[method as OpenAPIV3.HttpMethods] as OpenAPIV3.OperationObject;
+            const groups = groupsOf(operation, pathItem);
+            (groups.length > 0 ? [...new Set(groups)] : [fallback]).forEach(group =>
+                members.set(group, [...(members.get(group) || []), operationKey({ method, path })]));
+        });
+    });
+    if ([...members.keys()].every(group => group === fallback)) return [];
+
+    const categories = getCategories(ruleResults);
+    const scores = [...members].map(([name, keys]): GroupScore => {
+        const { score, violations } = scoreOperationSet(keys, categories, severityWeights);
+        const counts = new Map<string, number>();
+        violations.forEach(({ violation }) => counts.set(violation.ruleId, (counts.get(violation.ruleId) || 0) + 1));
+        const topChecks = [...counts]
+            .sort(([, a], [, b]) => b - a)
+            .slice(0, TOP_CHECKS_LIMIT)
+            .map(([ruleId, count]) => ({ ruleId, count }));
+
+        return { name, operationCount: keys.length, score, grade: calculateGrade(score, grades), violationCount: violations.length, topChecks };
+    });
+
+    return sortWorstFirst(scores);
+}
+
+// Owners are a single name or a list of names
+function getOwners(node: object, extension: string): string[] {
+    const value = (node as Record<string, unknown>)[extension];
+    const owners = Array.isArray(value) ? value : [value];
+    return owners.filter((owner): owner is string => typeof owner === 'string' && owner.trim() !== '');
+}
+
+// Sorting is stable, so entries with the same score keep their document order
+function sortWorstFirst<T extends { score: number; violationCount: number }>(scores: T[]): T[] {
+    return scores.sort((a, b) => a.score - b.score || b.violationCount - a.violationCount);
+}
+
+function groupByOperation(violations: RuleViolation[]): Map<string, RuleViolation[]> {
+    const groups = new Map<string, RuleViolation[]>();
+    violations.forEach(violation => {
+        if (!violation.operation) return;
+        const key = operationKey({ method: violation.operation, path: violation.path });
+        groups.set(key, [...(groups.get(key) || []), violation]);
+    });
+    return groups;
+}
+
+// '/paths/~1pets~1{id}/get/responses' -> GET /pets/{id}, '/webhooks/newPet/post' -> POST webhooks.newPet
+function fromPointer(pointer: string | undefined, operations: Map<string, OperationRef>): OperationRef | undefined {
+    const [, section, name, method] = (pointer || '').split('/').map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~'));
+    if ((section !== 'paths' && section !== 'webhooks') || name === undefined || method === undefined) return undefined;
+    return operations.get(operationKey({ method, path: section === 'paths' ? name : `webhooks.${name}` }));
+}
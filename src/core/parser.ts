@@ -1,13 +1,29 @@
 import SwaggerParser from "@apidevtools/swagger-parser";
-import { OpenAPIV3 } from "openapi-types";
+import { OpenAPI, OpenAPIV2, OpenAPIV3 } from "openapi-types";
 import fs from 'fs';
+import YAML from 'yaml';
+import { ComponentSource, ParsedSpec } from "../scoring-engine/types";
+import { SwaggerConverter } from "./converter";
+import { SpecBundler } from "./bundler";
+import { SourceMap } from "./source-map";
+
+export type SpecFormat = 'json' | 'yaml';
+
+export interface ParseOptions {
+    // Pull files referenced by the specification into the document, on by default. Off for files from untrusted
+    // sources, whose references would otherwise read arbitrary files next to them.
+    bundle?: boolean;
+}
+
+// Pasted content has no file name, so its locations are reported against this label
+const CONTENT_SOURCE_NAME = 'input';
 
 // Parser class that validates the specification sintactically
 export class OpenAPIParser {
-    async parse(input: string): Promise<OpenAPIV3.Document> {
+    // displayName replaces the file path in reported locations, e.g. for uploads stored under a temporary name
+    async parse(input: string, displayName?: string, options: ParseOptions = {}): Promise<ParsedSpec> {
         try {
             const isUrl = input.startsWith("http://") || input.startsWith("https://");
-            console.log("In parse input is: ", input);
 
             let spec;
             if (isUrl || fs.existsSync(input)) {
@@ -16,9 +32,89 @@ export class OpenAPIParser {
                 throw new Error("Input must be a valid URL or file path");
             }
 
-            return spec as OpenAPIV3.Document;
+            if (isUrl) {
+                return this.normalize(spec);
+            }
+            if (options.bundle === false) {
+                return this.normalize(spec, {}, SourceMap.build(displayName || input, fs.readFileSync(input, 'utf8')));
+            }
+            // Local files may reference sibling files, which are pulled into the document before scoring
+            const { document, componentSources } = new SpecBundler().bundle(input, spec);
+            const sourceMap = SourceMap.build(displayName || input, fs.readFileSync(input, 'utf8'), componentSources, input);
+            return this.normalize(document, componentSources, sourceMap);
+        } catch (error: any) {
+            throw new Error(`Failed to parse OpenAPI spec: ${error.message}`);
+        }
+    }
+
+    // Parses a specification held in memory, e.g. pasted into the web UI
+    async parseContent(text: string, format?: SpecFormat): Promise<ParsedSpec> {
+        try {
+            if (!text || text.trim() === '') {
+                throw new Error("Specification content is empty");
+            }
+
+            const detectedFormat = format || this.detectFormat(text);
+            const content = detectedFormat === 'json' ? JSON.parse(text) : YAML.parse(text);
+            if (!content || typeof content !== 'object' || Array.isArray(content)) {
+                throw new Error(`Content is not a ${detectedFormat.toUpperCase()} object`);
+            }
+
+            const spec = await SwaggerParser.parse(content);
+            return this.normalize(spec, {}, SourceMap.build(CONTENT_SOURCE_NAME, text));
         } catch (error: any) {
             throw new Error(`Failed to parse OpenAPI spec: ${error.message}`);
         }
     }
+
+    private detectFormat(text: string): SpecFormat {
+        const trimmed = text.trimStart();
+        return trimmed.startsWith('{') ? 'json' : 'yaml';
+    }
+
+    // Brings every supported input version to the OpenAPI 3 shape the rules expect
+    private normalize(
+        spec: OpenAPI.Document,
+        componentSources: Record<string, ComponentSource> = {},
+        sourceMap?: SourceMap
+    ): ParsedSpec {
+        if ('swagger' in spec && spec.swagger) {
+            if (!String(spec.swagger).startsWith('2.')) {
+                throw new Error(`Unsupported Swagger version: ${spec.swagger}`);
+            }
+            const converter = new SwaggerConverter();
+            const document = converter.convert(spec as OpenAPIV2.Document);
+            this.aliasSwaggerLocations(sourceMap);
+            return {
+                document,
+                sourceVersion: String(spec.swagger),
+                notes: [`Input was a Swagger ${spec.swagger} document and was converted to OpenAPI 3.0 before scoring.`],
+                componentSources: Object.fromEntries(Object.entries(componentSources)
+                    .map(([pointer, source]) => [converter.convertRef(`#${pointer}`).substring(1), source])),
+                sourceMap,
+            };
+        }
+
+        const document = spec as OpenAPIV3.Document;
+        if (!document.openapi) {
+            throw new Error("Document does not declare an 'openapi' or 'swagger' version");
+        }
+        return {
+            document,
+            sourceVersion: document.openapi,
+            notes: [],
+            componentSources,
+            sourceMap,
+        };
+    }
+
+    // Converted components live under different pointers than in the Swagger 2.0 source text
+    private aliasSwaggerLocations(sourceMap?: SourceMap): void {
+        if (!sourceMap) return;
+        sourceMap.alias('/components/schemas', '/definitions');
+        sourceMap.alias('/components/parameters', '/parameters');
+        sourceMap.alias('/components/requestBodies', '/parameters');
+        sourceMap.alias('/components/responses', '/responses');
+        sourceMap.alias('/components/securitySchemes', '/securityDefinitions');
+    }
 }
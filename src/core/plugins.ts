@@ -0,0 +1,57 @@
+import path from 'path';
+import { LoadedPlugin, PluginConfig, ScorecardPlugin } from '../scoring-engine/types';
+
+// Loads the plugin modules listed in the `plugins` setting of a config file
+export class PluginLoader {
+    // Local paths are resolved against `baseDirectory`, usually the directory of the config file;
+    // packages are looked up from there and from the working directory. A plugin that cannot be loaded is
+    // returned with its error, so it is reported like a plugin failing at runtime instead of ending the run.
+    load(entries: (string | PluginConfig)[] = [], baseDirectory: string = process.cwd()): LoadedPlugin[] {
+        return entries.map(entry => {
+            const { module: specifier, options = {} } = typeof entry === 'string' ? { module: entry } : entry;
+            try {
+                const source = this.resolve(specifier, baseDirectory);
+                return { plugin: this.import(specifier, source), options, source };
+            } catch (error: any) {
+                return { plugin: { name: specifier, rules: () => [] }, options, error: error.message };
+            }
+        });
+    }
+
+    private resolve(specifier: string, baseDirectory: string): string {
+        try {
+            const isPath = specifier.startsWith('.') || path.isAbsolute(specifier);
+            return require.resolve(isPath ? path.resolve(baseDirectory, specifier) : specifier, {
+                paths: [baseDirectory, process.cwd()],
+            });
+        } catch (error: any) {
+            throw new Error(`Failed to load plugin '${specifier}': ${error.message.split('\n')[0]}`);
+        }
+    }
+
+    private import(specifier: string, source: string): ScorecardPlugin {
+        let exported: any;
+        try {
+            this.enableTypeScript(source);
+            exported = require(source);
+        } catch (error: any) {
+            throw new Error(`Failed to load plugin '${specifier}': ${error.message}`);
+        }
+
+        const plugin = exported?.default ?? exported;
+        if (!plugin || typeof plugin.name !== 'string' || typeof plugin.rules !== 'function') {
+            throw new Error(`Plugin '${specifier}' must export an object with a name and a rules(context) function`);
+        }
+        return plugin;
+    }
+
+    // TypeScript plugins work out of the box under ts-node; the compiled CLI registers ts-node for them
+    private enableTypeScript(source: string): void {
+        if (!/\.[cm]?ts$/.test(source) || require.extensions['.ts']) return;
+        try {
+            require('ts-node').register({ transpileOnly: true });
+        } catch {
+            throw new Error('TypeScript plugins need ts-node to be installed, or compile the plugin to JavaScript');
+        }
+    }
+}
@@ -0,0 +1,34 @@
+import { CategoryScore, PolicyResult, RuleCategory } from '../scoring-engine/types';
+import { RULE_NAMES } from '../scoring-engine/constants';
+
+// Checks the category scores against the configured minimum percentages. Minimums are keyed like the
+// `categories` setting, or by the name of a category; those matching no scored category become warnings.
+export function evaluatePolicy(
+    categoryScores: CategoryScore[],
+    minimums: Record<string, number> = {}
+): { policies: PolicyResult[]; warnings: string[] } {
+    const policies: PolicyResult[] = [];
+    const warnings: string[] = [];
+
+    for (const [key, minimum] of Object.entries(minimums)) {
+        const name = RULE_NAMES[key as RuleCategory] ?? key;
+        const categories = categoryScores.filter(category => category.name === name);
+        if (categories.length === 0) {
+            warnings.push(`The policy minimum for '${key}' was ignored because no category of that name was scored`);
+            continue;
+        }
+
+        categories.forEach(({ name, percentage }) => {
+            const passed = percentage >= minimum;
+            policies.push({
+                category: name,
+                minimum,
+                percentage,
+                passed,
+                ...(passed ? {} : { reason: `${name} scored ${percentage}%, below its minimum of ${minimum}%` }),
+            });
+        });
+    }
+
+    return { policies, warnings };
+}
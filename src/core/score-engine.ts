@@ -1,47 +1,140 @@
 import { OpenAPIV3 } from "openapi-types";
-import { Rule, RuleResult, ScoreCard } from "../scoring-engine/types";
+import { CategoryScore, GradeThresholds, LoadedPlugin, ParsedSpec, Rule, RuleResult, RuleViolation, ScoreCard, ScorecardConfig, ScoringProfile } from "../scoring-engine/types";
 import { getRules } from "../scoring-engine/";
+import { DEFAULT_OWNER_EXTENSION, RULE_NAMES } from "../scoring-engine/constants";
+import { applyProfile, calculateGrade, capGrade, DEFAULT_GRADE_THRESHOLDS, getProfile, resolveGradeThresholds } from "../scoring-engine/profiles";
+import { fingerprintViolation } from "./baseline";
+import { evaluatePolicy } from "./policy";
+import { listOperations, normalizeOperation, OperationRef, scoreOperations, scoreOwners, scoreTags } from "./operations";
+
+export interface JudgeOptions {
+    // Cap the grade at F when the document fails structural validation, overrides the config setting
+    validityGate?: boolean;
+    // Project configuration: enabled categories, weights and check severities
+    config?: ScorecardConfig;
+    // Scoring profile, overrides the profile setting of the config
+    profile?: string;
+    // Plugins adding rules, see PluginLoader
+    plugins?: LoadedPlugin[];
+    // Configuration warnings to show in the report, see ConfigLoader
+    warnings?: string[];
+}
 
 export class Judge {
     private rules: Rule[];
+    private options: JudgeOptions;
+    private profile?: ScoringProfile;
+    // The config with the profile applied
+    private config: ScorecardConfig;
+    private grades: GradeThresholds;
 
-    constructor() {
-        this.rules = getRules();
+    constructor(options: JudgeOptions = {}) {
+        const profile = options.profile ?? options.config?.profile;
+        this.profile = profile ? getProfile(profile) : undefined;
+        this.config = this.profile ? applyProfile(this.profile, options.config) : options.config || {};
+        this.grades = resolveGradeThresholds(this.profile?.grades ?? DEFAULT_GRADE_THRESHOLDS, this.config.grades);
+        this.rules = getRules(this.config, options.plugins);
+        this.options = options;
     }
 
-    evaluate(spec: OpenAPIV3.Document): ScoreCard {
+    evaluate(input: OpenAPIV3.Document | ParsedSpec): ScoreCard {
+        const parsed: ParsedSpec = 'document' in input
+            ? input
+            : { document: input, sourceVersion: input.openapi, notes: [] };
+        const spec = parsed.document;
+
         const ruleResults: { rule: Rule; result: RuleResult }[] = this.rules.map(rule => ({
             rule,
             result: rule.evaluate(spec)
         }));
 
-        const totalScore = ruleResults.reduce((sum, { result }) => sum + result.score, 0);
-        const maxPossibleScore = ruleResults.reduce((sum, { result }) => sum + result.maxScore, 0);
-        const overallScore = Math.round((totalScore / maxPossibleScore) * 100);
+        const operations = listOperations(spec);
+        ruleResults.forEach(({ result }) => {
+            this.locateViolations(result.violations, parsed, operations);
+            this.locateViolations(result.suppressed || [], parsed, operations);
+        });
+
+        // Failed plugin rules are reported as notes and left out of scoring
+        const failed = ruleResults.filter(({ result }) => result.error);
+        const scored = ruleResults.filter(({ result }) => !result.error);
+
+        const totalScore = scored.reduce((sum, { result }) => sum + result.score, 0);
+        const maxPossibleScore = scored.reduce((sum, { result }) => sum + result.maxScore, 0);
+        const overallScore = maxPossibleScore > 0 ? Math.round((totalScore / maxPossibleScore) * 100) : 100;
         let vviolations = ruleResults.flatMap(({ result }) => result.violations);
         vviolations = vviolations.filter((violation) => { return violation.severity !== 'info' });
+
+        const grades = this.grades;
+        const ownerExtension = this.config.ownerExtension || DEFAULT_OWNER_EXTENSION;
+        const categoryScores: CategoryScore[] = scored.map(({ rule, result }) => ({
+            name: rule.name,
+            plugin: rule.plugin,
+            score: result.score,
+            maxScore: result.maxScore,
+            percentage: result.maxScore > 0 ? Math.round((result.score / result.maxScore) * 100) : 100,
+
+            ruleResult: { rule, result },
+        }));
+
+        let grade = calculateGrade(overallScore, grades);
+        const notes = [...parsed.notes, ...failed.map(({ result }) => `${result.error}; it was left out of the score.`)];
+        const validityGate = this.options.validityGate ?? this.config.validityGate;
+        if (validityGate && this.isInvalid(ruleResults)) {
+            grade = 'F';
+            notes.push('Grade capped at F because the document is not structurally valid.');
+        }
+
+        // A category under its minimum caps the grade, however well the others do
+        const { policies, warnings: policyWarnings } = evaluatePolicy(categoryScores, this.config.policy?.minimums);
+        const failedPolicies = policies.filter(policy => !policy.passed).length;
+        const gradeCap = this.config.policy?.gradeCap ?? 'F';
+        if (failedPolicies > 0 && capGrade(grade, gradeCap) !== grade) {
+            grade = capGrade(grade, gradeCap);
+            notes.push(`Grade capped at ${gradeCap} because ${failedPolicies === 1 ? 'a category is' : `${failedPolicies} categories are`} below the policy minimum.`);
+        }
+
         return {
             overallScore,
-            grade: this.calculateGrade(overallScore),
-            categoryScores: ruleResults.map(({ rule, result }) => ({
-                name: rule.name,
-                score: result.score,
-                maxScore: result.maxScore,
-                percentage: Math.round((result.score / result.maxScore) * 100),
-
-                ruleResult: { rule, result },
-            })),
+            grade,
+            profile: this.profile?.name,
+            specVersion: parsed.sourceVersion,
+            notes,
+            warnings: [...(this.options.warnings || []), ...policyWarnings],
+            categoryScores,
+            policies,
+            operationScores: scoreOperations(spec, scored, grades, this.config.severityWeights),
+            tagScores: scoreTags(spec, scored, grades, this.config.severityWeights),
+            ownerScores: scoreOwners(spec, scored, ownerExtension, grades, this.config.severityWeights),
+            ownerExtension,
             violations: vviolations,
+            suppressed: ruleResults.flatMap(({ result }) => result.suppressed || []),
             ruleResults: ruleResults,
         };
     }
 
-    private calculateGrade(score: number): string {
-        if (score >= 90) return 'S';
-        if (score >= 80) return 'A';
-        if (score >= 70) return 'B';
-        if (score >= 60) return 'C';
-        if (score >= 50) return 'D';
-        return 'F';
+    // Ties violations to their operation and their source text: the bundled file they came from and their line and column.
+    // Also fingerprints them, so they can be recognized in later runs.
+    private locateViolations(violations: RuleViolation[], parsed: ParsedSpec, operations: Map<string, OperationRef>): void {
+        // Longest pointers first, so content inlined inside another bundled part is attributed to its own file
+        const sources = Object.entries(parsed.componentSources || {})
+            .sort(([a], [b]) => b.length - a.length);
+
+        violations.forEach(violation => {
+            violation.fingerprint = fingerprintViolation(violation, parsed.document);
+            normalizeOperation(violation, operations);
+            if (violation.pointer === undefined) return;
+            const pointer = violation.pointer;
+
+            const source = sources.find(([prefix]) => pointer === prefix || pointer.startsWith(`${prefix}/`));
+            if (source) violation.file = source[1].file;
+
+            const range = parsed.sourceMap?.locate(pointer);
+            if (range) violation.range = range;
+        });
+    }
+
+    private isInvalid(ruleResults: { rule: Rule; result: RuleResult }[]): boolean {
+        return ruleResults.some(({ rule, result }) =>
+            rule.name === RULE_NAMES.validity && result.violations.some(v => v.severity === 'error'));
     }
 }
@@ -0,0 +1,140 @@
+import fs from 'fs';
+import path from 'path';
+import { isMap, isScalar, isSeq, LineCounter, parseDocument } from 'yaml';
+import { ComponentSource, SourceLocator, SourceRange } from '../scoring-engine/types';
+
+// Maps JSON pointers of the evaluated document to file, line and column, built from the YAML/JSON AST.
+// Content bundled from other files is registered under the pointer it was moved to.
+export class SourceMap implements SourceLocator {
+    private ranges = new Map<string, SourceRange>();
+    private aliases: [string, string][] = [];
+
+    // `file` labels the reported locations, `rootPath` is where bundled files are read relative to
+    static build(
+        file: string,
+        text: string,
+        componentSources: Record<string, ComponentSource> = {},
+        rootPath: string = file
+    ): SourceMap {
+        const sourceMap = new SourceMap();
+        sourceMap.addText(file, text, '', '');
+
+        const fileTexts = new Map<string, string | undefined>();
+        // Shallow mounts first, so content inlined inside another bundled part wins
+        Object.entries(componentSources)
+            .sort(([a], [b]) => a.length - b.length)
+            .forEach(([pointer, source]) => {
+                const sourcePath = path.join(path.dirname(rootPath), source.file);
+                if (!fileTexts.has(sourcePath)) {
+                    fileTexts.set(sourcePath, sourceMap.readFile(sourcePath));
+                }
+                const sourceText = fileTexts.get(sourcePath);
+                if (sourceText !== undefined) {
+                    sourceMap.addText(path.join(path.dirname(file), source.file), sourceText, pointer, source.pointer);
+                }
+            });
+
+        return sourceMap;
+    }
+
+    // Pointers under `prefix` are also looked up under `target`, e.g. for documents converted from Swagger 2.0
+    alias(prefix: string, target: string): void {
+        this.aliases.push([prefix, target]);
+    }
+
+    // Range of the node at the pointer, or of its closest ancestor that was written in a source file
+    locate(pointer: string): SourceRange | undefined {
+        const candidates = [
+            ...this.aliases
+                .filter(([prefix]) => pointer === prefix || pointer.startsWith(`${prefix}/`))
+                .map(([prefix, target]) => target + pointer.substring(prefix.length)),
+            pointer,
+        ];
+
+        for (const candidate of candidates) {
+            let current = candidate;
+            while (current !== '') {
+                const range = this.ranges.get(current);
+                if (range) return range;
+                current = current.substring(0, current.lastIndexOf('/'));
+            }
+        }
+        return this.ranges.get('');
+    }
+
+    private addText(file: string, text: string, mountPointer: string, innerPointer: string): void {
+        const lineCounter = new LineCounter();
+        const document = parseDocument(text, { lineCounter, uniqueKeys: false });
+
+        let node: unknown = document.contents;
+        for (const segment of innerPointer.split('/').filter(Boolean)) {
+            const key = decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~');
+            if (isMap(node)) {
+                node = node.items.find(pair => this.getKey(pair.key) === key)?.value;
+            } else if (isSeq(node)) {
+                node = node.items[Number(key)];
+            } else {
+                return;
+            }
+        }
+
+        const range = this.getNodeRange(node);
+        if (!range) return;
+        this.setRange(mountPointer, file, range[0], range[1], lineCounter);
+        this.walk(node, mountPointer, file, lineCounter);
+    }
+
+    private walk(node: unknown, pointer: string, file: string, lineCounter: LineCounter): void {
+        if (isMap(node)) {
+            for (const pair of node.items) {
+                const childPointer = `${pointer}/${this.escape(this.getKey(pair.key))}`;
+                const keyRange = this.getNodeRange(pair.key);
+                const valueRange = this.getNodeRange(pair.value);
+                const start = keyRange?.[0] ?? valueRange?.[0];
+                const end = valueRange?.[1] ?? keyRange?.[1];
+                if (start === undefined || end === undefined) continue;
+
+                this.setRange(childPointer, file, start, end, lineCounter);
+                this.walk(pair.value, childPointer, file, lineCounter);
+            }
+        } else if (isSeq(node)) {
+            node.items.forEach((item, index) => {
+                const itemRange = this.getNodeRange(item);
+                if (!itemRange) return;
+                this.setRange(`${pointer}/${index}`, file, itemRange[0], itemRange[1], lineCounter);
+                this.walk(item, `${pointer}/${index}`, file, lineCounter);
+            });
+        }
+    }
+
+    private setRange(pointer: string, file: string, start: number, end: number, lineCounter: LineCounter): void {
+        const startPos = lineCounter.linePos(start);
+        const endPos = lineCounter.linePos(end);
+        this.ranges.set(pointer, {
+            file,
+            start: { line: startPos.line, column: startPos.col },
+            end: { line: endPos.line, column: endPos.col },
+        });
+    }
+
+    private getNodeRange(node: unknown): [number, number] | undefined {
+        const range = (node as { range?: [number, number, number] } | null)?.range;
+        return range ? [range[0], range[1]] : undefined;
+    }
+
+    private getKey(key: unknown): string {
+        return isScalar(key) ? String(key.value) : String(key);
+    }
+
+    private escape(key: string): string {
+        return key.replace(/~/g, '~0').replace(/\//g, '~1');
+    }
+
+    private readFile(file: string): string | undefined {
+        try {
+            return fs.readFileSync(file, 'utf8');
+        } catch {
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,206 @@
+import fs from 'fs';
+import path from 'path';
+import { parse as parseYaml } from 'yaml';
+import { DeclarativeRuleDefinition, ImportedRuleset, RuleCondition, RuleFunctionName, Severity } from '../scoring-engine/types';
+import { SPECTRAL_CATEGORY_NAME } from '../scoring-engine/constants';
+import { validateRuleDefinition } from '../scoring-engine/declarative-rules';
+
+type RulesetSeverity = Severity | 'off';
+
+// Spectral core functions that have a declarative counterpart, with the options each one understands
+const FUNCTIONS: Record<string, { name: RuleFunctionName; options: string[] }> = {
+    truthy: { name: 'truthy', options: [] },
+    falsy: { name: 'falsy', options: [] },
+    defined: { name: 'defined', options: [] },
+    undefined: { name: 'undefined', options: [] },
+    pattern: { name: 'pattern', options: ['match', 'notMatch'] },
+    casing: { name: 'casing', options: ['type', 'disallowDigits'] },
+    schema: { name: 'schema', options: ['schema', 'dialect', 'allErrors'] },
+    enumeration: { name: 'enum', options: ['values'] },
+    length: { name: 'length', options: ['min', 'max'] },
+    alphabetical: { name: 'alphabetical', options: ['keyedBy'] },
+};
+
+const SEVERITIES: Record<string, RulesetSeverity> = {
+    error: 'error', warn: 'warning', info: 'info', hint: 'info', off: 'off',
+    '0': 'error', '1': 'warning', '2': 'info', '3': 'info', '-1': 'off',
+};
+
+interface RulesetEntry {
+    // Unset when the rule could not be translated, it is then left out with a warning
+    rule?: DeclarativeRuleDefinition;
+    severity: RulesetSeverity;
+    defaultSeverity: RulesetSeverity;
+}
+
+// How rules of an extended ruleset are enabled, as in Spectral: 'recommended' skips rules marked `recommended: false`
+type ExtendMode = 'recommended' | 'all' | 'off';
+
+// Reads Spectral rulesets (.spectral.yaml/.json) and translates their rules into declarative rules.
+// Anything that can't be translated, like custom functions or `extends` of packages, becomes a warning.
+export class SpectralRulesetLoader {
+    load(file: string): ImportedRuleset {
+        const warnings: string[] = [];
+        const entries = this.loadRuleset(path.resolve(file), 'all', warnings, []);
+
+        const rules: Record<string, DeclarativeRuleDefinition> = {};
+        for (const [name, entry] of entries) {
+            if (entry.rule && entry.severity !== 'off') {
+                rules[name] = { ...entry.rule, severity: entry.severity, category: SPECTRAL_CATEGORY_NAME };
+            }
+        }
+        return { file, rules, warnings };
+    }
+
+    private loadRuleset(file: string, mode: ExtendMode, warnings: string[], chain: string[]): Map<string, RulesetEntry> {
+        const ruleset = this.read(file);
+        const entries = new Map<string, RulesetEntry>();
+        const directory = path.dirname(file);
+        const source = path.basename(file);
+
+        const extended = ruleset.extends === undefined ? [] : Array.isArray(ruleset.extends) ? ruleset.extends : [ruleset.extends];
+        for (const item of extended) {
+            const [target, extendMode] = Array.isArray(item) ? item : [item, 'recommended'];
+            if (typeof target !== 'string' || !['recommended', 'all', 'off'].includes(extendMode)) {
+                warnings.push(`${source}: invalid 'extends' entry ${JSON.stringify(item)} was ignored`);
+            } else if (!target.startsWith('.') && !path.isAbsolute(target)) {
+                warnings.push(`${source}: extending '${target}' is not supported, only local ruleset files can be extended`);
+            } else {
+                const extendedFile = path.resolve(directory, target);
+                if (chain.includes(extendedFile) || extendedFile === file) {
+                    warnings.push(`${source}: 'extends' of '${target}' is circular and was ignored`);
+                    continue;
+                }
+                const inherited = this.loadRuleset(extendedFile, extendMode as ExtendMode, warnings, [...chain, file]);
+                inherited.forEach((entry, name) => entries.set(name, entry));
+            }
+        }
+
+        if (ruleset.overrides !== undefined) {
+            warnings.push(`${source}: 'overrides' are not supported and were ignored`);
+        }
+
+        const aliases = this.isObject(ruleset.aliases) ? ruleset.aliases : {};
+        for (const [name, value] of Object.entries(this.isObject(ruleset.rules) ? ruleset.rules : {})) {
+            if (this.isObject(value)) {
+                const severity = this.toSeverity(value.severity ?? 'warn', `${source}: rule '${name}'`, warnings);
+                const enabled = mode === 'all' || (mode === 'recommended' && value.recommended !== false);
+                entries.set(name, {
+                    rule: this.convertRule(name, value, aliases, source, warnings),
+                    severity: enabled ? severity : 'off',
+                    defaultSeverity: severity,
+                });
+                continue;
+            }
+
+            // A plain value changes the severity of an inherited rule
+            const existing = entries.get(name);
+            if (!existing) {
+                warnings.push(`${source}: rule '${name}' is not defined by an extended ruleset and was ignored`);
+            } else {
+                existing.severity = value === true ? existing.defaultSeverity : this.toSeverity(value, `${source}: rule '${name}'`, warnings);
+            }
+        }
+
+        return entries;
+    }
+
+    private convertRule(name: string, rule: Record<string, any>, aliases: Record<string, unknown>, source: string, warnings: string[]): DeclarativeRuleDefinition | undefined {
+        const prefix = `${source}: rule '${name}'`;
+
+        // Rules for other formats, e.g. only oas2 or asyncapi, don't apply to the OpenAPI 3 documents that are scored
+        if (Array.isArray(rule.formats) && !rule.formats.some((format: unknown) => typeof format === 'string' && format.startsWith('oas3'))) {
+            return undefined;
+        }
+
+        const givens: string[] = [];
+        for (const given of Array.isArray(rule.given) ? rule.given : [rule.given]) {
+            const expanded = this.expandAlias(given, aliases);
+            if (!expanded) {
+                warnings.push(`${prefix} uses the unknown alias '${given}' and was skipped`);
+                return undefined;
+            }
+            givens.push(...expanded);
+        }
+
+        const conditions: RuleCondition[] = [];
+        for (const then of Array.isArray(rule.then) ? rule.then : [rule.then]) {
+            const fn = this.isObject(then) ? FUNCTIONS[then.function] : undefined;
+            if (!fn) {
+                warnings.push(`${prefix} uses the unsupported function '${this.isObject(then) ? then.function : then}' and was skipped`);
+                return undefined;
+            }
+
+            const options: Record<string, unknown> = this.isObject(then.functionOptions) ? { ...then.functionOptions } : {};
+            const unsupported = Object.keys(options).filter(option => !fn.options.includes(option));
+            if (unsupported.length > 0) {
+                warnings.push(`${prefix}: option ${unsupported.map(option => `'${option}'`).join(', ')} of '${then.function}' is not supported and was ignored`);
+            }
+            delete options.dialect;
+            delete options.allErrors;
+            unsupported.forEach(option => delete options[option]);
+
+            conditions.push({
+                ...(then.field !== undefined ? { field: then.field } : {}),
+                function: fn.name,
+                ...(Object.keys(options).length > 0 ? { functionOptions: options } : {}),
+            });
+        }
+
+        const definition: DeclarativeRuleDefinition = {
+            ...(typeof rule.description === 'string' ? { description: rule.description } : {}),
+            ...(typeof rule.message === 'string' ? { message: rule.message } : {}),
+            given: givens,
+            then: conditions,
+        };
+
+        const errors = validateRuleDefinition(name, definition);
+        if (errors.length > 0) {
+            warnings.push(`${prefix} could not be imported: ${errors.join('; ')}`);
+            return undefined;
+        }
+        return definition;
+    }
+
+    // Aliases let `given` start with #Name, which stands for one or more JSONPaths
+    private expandAlias(given: unknown, aliases: Record<string, unknown>): string[] | undefined {
+        if (typeof given !== 'string' || !given.startsWith('#')) return [given as string];
+
+        const [, name, rest] = /^#([A-Za-z0-9_-]+)(.*)$/.exec(given) || [];
+        const alias = name ? aliases[name] : undefined;
+        const targets = Array.isArray(alias) ? alias : this.isObject(alias) && Array.isArray(alias.targets)
+            ? alias.targets.flatMap((target: { given?: unknown }) => target.given)
+            : undefined;
+        if (!targets || targets.some(target => typeof target !== 'string')) return undefined;
+        return targets.map(target => `${target}${rest}`);
+    }
+
+    private toSeverity(value: unknown, context: string, warnings: string[]): RulesetSeverity {
+        const severity = value === false ? 'off' : SEVERITIES[String(value)];
+        if (!severity) {
+            warnings.push(`${context} has the unknown severity '${value}', 'warn' is used instead`);
+            return 'warning';
+        }
+        return severity;
+    }
+
+    private read(file: string): Record<string, any> {
+        let content: unknown;
+        try {
+            if (/\.[cm]?js$/.test(file)) {
+                throw new Error('JavaScript rulesets are not supported, use YAML or JSON');
+            }
+            content = parseYaml(fs.readFileSync(file, 'utf8'));
+        } catch (error: any) {
+            throw new Error(`Failed to read ruleset '${file}': ${error.message}`);
+        }
+        if (!this.isObject(content)) {
+            throw new Error(`Ruleset '${file}' must be an object`);
+        }
+        return content;
+    }
+
+    private isObject(value: unknown): value is Record<string, any> {
+        return !!value && typeof value === 'object' && !Array.isArray(value);
+    }
+}
@@ -2,6 +2,17 @@ import { Command } from 'commander';
 import { OpenAPIParser } from './core/parser';
 import { Judge } from './core/score-engine';
 import { Announcer } from './core/announcer';
+import { ConfigLoader } from './core/config';
+import { Baseline } from './core/baseline';
+import { SpecFixer } from './core/fixer';
+import { compareReports } from './core/compare';
+import { BreakingChangeAnalyzer } from './core/breaking-changes';
+import { buildChangelog } from './core/changelog';
+import { PluginLoader } from './core/plugins';
+import { RULE_REGISTRY } from './scoring-engine/rule-registry';
+import { SandboxedRule, getPluginRules } from './scoring-engine/plugin-rules';
+import { CUSTOM_CATEGORY_NAME } from './scoring-engine/constants';
+import { PROFILE_NAMES } from './scoring-engine/profiles';
 import fs from 'fs';
 import path from 'path';
 
@@ -10,6 +21,8 @@ program
   .name("openapi-evaluator-app")
   .description("Test if your OpenAPI specification is keeping up with the industry's best practices!")
   .version("1.0.0")
+  // Lets subcommands like `fix` have options of the same name as the report options
+  .enablePositionalOptions()
   .argument("[spec]", "Path or URL pointing to OpenAPI specification.")
   .option('-d, --debug', 'Print the parsed OpenAPI spec to console')
   .option('--sample', 'Run the evaluation on a sample OpenAPI specification')
@@ -18,36 +31,103 @@ program
   .option('--html', 'Export the report in HTML format')
   .option('-o, --output <filename>', 'Specify output filename (without extension)')
   .option('--output-dir <directory>', 'Specify output directory for reports (default: ./reports)')
+  .option('--validity-gate', 'Cap the grade at F when the specification is not structurally valid')
+  .option('-p, --profile <name>', `Score with a built-in profile: ${PROFILE_NAMES.join(', ')}`)
+  .option('-c, --config <file>', 'Use this config file instead of the nearest .openapi-scorecard.yml/.json')
+  .option('--ruleset <file>', 'Import the rules of a Spectral ruleset, replacing the ruleset setting of the config')
+  .option('--list-rules', 'List the ID, category, default severity and description of every check')
+  .option('--baseline <file>', 'Compare violations with a baseline file, which is created when it does not exist')
+  .option('--update-baseline', 'Rewrite the baseline file with the current violations')
+  .option('--only-new', 'Only report violations that are not in the baseline')
+  .option('--fail-on-new', 'Exit with code 1 when errors or warnings not in the baseline are found')
+  .option('--explain', 'Show how each category score was computed')
+  .option('--breaking-changes <spec>', 'Add the breaking changes since this previous version of the specification to the report')
   .action(async (spec: string | undefined, options: any) => {
     try {
+      if (options.listRules) {
+        const printCheck = (id: string, category: string, severity: string, description: string) =>
+          console.log(`${id.padEnd(40)} ${category.padEnd(18)} ${severity.padEnd(8)} ${description}`);
+        RULE_REGISTRY.forEach(check => printCheck(check.id, check.category, check.severity, check.description));
+
+        // Declarative rules and checks of the plugins configured for the working directory
+        const { config, file } = new ConfigLoader().resolve(process.cwd(), options.config, options.ruleset);
+        Object.entries(config.rules || {}).forEach(([id, rule]) =>
+          printCheck(id, rule.category || CUSTOM_CATEGORY_NAME, rule.severity || 'warning', rule.description || ''));
+        const plugins = new PluginLoader().load(config.plugins, file ? path.dirname(file) : process.cwd());
+        getPluginRules(plugins, config)
+          .filter((rule): rule is SandboxedRule => rule instanceof SandboxedRule)
+          .forEach(rule => rule.checks.forEach(check => printCheck(check.id, rule.id, check.severity, check.description)));
+        return;
+      }
+
+      if ((options.onlyNew || options.failOnNew || options.updateBaseline) && !options.baseline) {
+        console.error('Error: --only-new, --fail-on-new and --update-baseline require --baseline <file>');
+        process.exit(1);
+      }
+
       const parser = new OpenAPIParser();
       let apiSpec;
+      let specPath: string;
 
       // Handle --sample option
       if (options.sample) {
         const samplePath = path.join(__dirname, '../samples/onepassword.yaml');
         console.log(`Using sample OpenAPI specification: ${samplePath}`);
         apiSpec = await parser.parse(samplePath);
+        specPath = samplePath;
       } else if (!spec) {
         console.error('Error: Please provide a specification file path/URL or use --sample option');
         process.exit(1);
       } else {
         apiSpec = await parser.parse(spec);
+        specPath = spec;
       }
 
+      // The config is looked up next to local specs, and in the working directory for URLs
+      const { config, file: configFile, ruleset, warnings } = new ConfigLoader().resolve(
+        fs.existsSync(specPath) ? specPath : process.cwd(),
+        options.config,
+        options.ruleset
+      );
+      if (configFile) {
+        console.log(`Using config file: ${configFile}`);
+      }
+      if (ruleset) {
+        console.log(`Using ruleset: ${ruleset}`);
+      }
+      const plugins = new PluginLoader().load(config.plugins, configFile ? path.dirname(configFile) : process.cwd());
+      plugins.filter(({ error }) => !error)
+        .forEach(({ plugin }) => console.log(`Using plugin: ${plugin.name}${plugin.version ? ` ${plugin.version}` : ''}`));
+
       if (options.debug) {
         console.log('Parsed OpenAPI Specification:');
-        console.log(JSON.stringify(apiSpec, null, 2));
+        console.log(JSON.stringify(apiSpec.document, null, 2));
         console.log('\n---\n');
       }
 
-      const judge = new Judge();
+      const judge = new Judge({ validityGate: options.validityGate, config, plugins, warnings, profile: options.profile });
       const report = judge.evaluate(apiSpec);
 
+      // The first run records the baseline, later runs are compared against it
+      if (options.baseline) {
+        if (fs.existsSync(options.baseline) && !options.updateBaseline) {
+          Baseline.load(options.baseline).compare(report, options.baseline);
+        } else {
+          Baseline.fromReport(report).save(options.baseline);
+          console.log(`Baseline written to ${options.baseline}`);
+        }
+      }
+
+      if (options.breakingChanges) {
+        const previousSpec = await parser.parse(options.breakingChanges);
+        report.breakingChanges = new BreakingChangeAnalyzer().analyze(previousSpec.document, apiSpec.document, options.breakingChanges);
+      }
+
       const announcer = new Announcer();
+      const reportOptions = { onlyNew: !!options.onlyNew, explain: !!options.explain };
       
       // Always show console report
-      announcer.generateConsoleReport(report);
+      announcer.generateConsoleReport(report, reportOptions);
 
       // Handle export options
       if (options.markdown || options.json || options.html) {
@@ -61,7 +141,7 @@ program
         const fullOutputPath = path.join(outputDir, outputFilename);
         
         if (options.markdown) {
-          const markdownReport = announcer.generateMarkdownReport(report);
+          const markdownReport = announcer.generateMarkdownReport(report, reportOptions);
           fs.writeFileSync(`${fullOutputPath}.md`, markdownReport);
           console.log(`\nMarkdown report saved to ${fullOutputPath}.md`);
         }
@@ -72,16 +152,171 @@ program
         }
         
         if (options.html) {
-          const htmlReport = announcer.generateHtmlReport(report);
+          const htmlReport = announcer.generateHtmlReport(report, reportOptions);
           fs.writeFileSync(`${fullOutputPath}.html`, htmlReport);
           console.log(`\nHTML report saved to ${fullOutputPath}.html`);
         }
       }
+
+      if (options.failOnNew) {
+        const newViolations = report.violations.filter(v => v.baselineStatus === 'new');
+        if (newViolations.length > 0) {
+          console.error(`\n${newViolations.length} new violation(s) compared with the baseline`);
+          process.exit(1);
+        }
+      }
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('fix')
+  .description('Apply the safe fixes proposed by the checks and write the corrected specification')
+  .argument('<spec>', 'Path to the OpenAPI 3 specification to fix')
+  .option('--dry-run', 'Print the fixes as a JSON Patch instead of writing the specification')
+  .option('-o, --output <file>', 'Write the corrected specification to this file instead of overwriting the input')
+  .option('-p, --profile <name>', `Score with a built-in profile: ${PROFILE_NAMES.join(', ')}`)
+  .option('-c, --config <file>', 'Use this config file instead of the nearest .openapi-scorecard.yml/.json')
+  .action(async (spec: string, options: any) => {
+    try {
+      // Stdout is kept for the patch, so everything else goes to stderr
+      const { parsed: apiSpec, report } = await evaluateSpec(spec, options);
+      const result = new SpecFixer().fix(fs.readFileSync(spec, 'utf8'), apiSpec, report);
+      result.applied.forEach(fix => console.error(`Fixed: ${fix.description} (${fix.ruleId})`));
+      result.skipped.forEach(fix => console.error(`Skipped: ${fix.description} (${fix.ruleId}), ${fix.reason}`));
+      console.error(`${result.applied.length} fix(es) applied, ${result.skipped.length} skipped`);
+
+      if (options.dryRun) {
+        console.log(JSON.stringify(result.applied.flatMap(fix => fix.patch), null, 2));
+      } else if (result.applied.length > 0) {
+        const output = options.output || spec;
+        fs.writeFileSync(output, result.content);
+        console.error(`Corrected specification written to ${output}`);
+      }
     } catch (error: any) {
       console.error(`Error: ${error.message}`);
       process.exit(1);
     }
   });
 
+program
+  .command('compare')
+  .description('Compare the scores and violations of two versions of a specification')
+  .argument('<old>', 'Path or URL of the previous version')
+  .argument('<new>', 'Path or URL of the current version')
+  .option('--markdown', 'Export the comparison in Markdown format, e.g. for a pull request comment')
+  .option('--json', 'Export the comparison in JSON format')
+  .option('--html', 'Export the comparison in HTML format')
+  .option('-o, --output <filename>', 'Specify output filename (without extension)')
+  .option('--output-dir <directory>', 'Specify output directory for reports (default: ./reports)')
+  .option('-p, --profile <name>', `Score with a built-in profile: ${PROFILE_NAMES.join(', ')}`)
+  .option('-c, --config <file>', 'Use this config file instead of the nearest .openapi-scorecard.yml/.json')
+  .action(async (oldSpec: string, newSpec: string, options: any) => {
+    try {
+      // Both versions are scored with the config of the current one, so config changes don't show up as score changes
+      const configOptions = { ...options, config: options.config || findConfig(newSpec) };
+      const comparison = compareReports(
+        { label: oldSpec, report: (await evaluateSpec(oldSpec, configOptions)).report },
+        { label: newSpec, report: (await evaluateSpec(newSpec, configOptions)).report }
+      );
+
+      const announcer = new Announcer();
+      announcer.generateComparisonConsoleReport(comparison);
+
+      if (options.markdown || options.json || options.html) {
+        const outputDir = options.outputDir || path.join(process.cwd(), 'reports');
+        fs.mkdirSync(outputDir, { recursive: true });
+        const fullOutputPath = path.join(outputDir, options.output || 'openapi-comparison-report');
+
+        if (options.markdown) {
+          fs.writeFileSync(`${fullOutputPath}.md`, announcer.generateComparisonMarkdownReport(comparison));
+          console.log(`\nMarkdown comparison saved to ${fullOutputPath}.md`);
+        }
+        if (options.json) {
+          fs.writeFileSync(`${fullOutputPath}.json`, JSON.stringify(comparison, null, 2));
+          console.log(`\nJSON comparison saved to ${fullOutputPath}.json`);
+        }
+        if (options.html) {
+          fs.writeFileSync(`${fullOutputPath}.html`, announcer.generateComparisonHtmlReport(comparison));
+          console.log(`\nHTML comparison saved to ${fullOutputPath}.html`);
+        }
+      }
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('breaking-changes')
+  .description('List the contract changes between two versions of a specification, exiting with code 1 when one is breaking')
+  .argument('<old>', 'Path or URL of the previous version')
+  .argument('<new>', 'Path or URL of the current version')
+  .option('--json', 'Print the changes as JSON')
+  .option('--fail-on-potential', 'Also exit with code 1 when a change is potentially breaking')
+  .action(async (oldSpec: string, newSpec: string, options: any) => {
+    try {
+      const parser = new OpenAPIParser();
+      const previous = await parser.parse(oldSpec);
+      const current = await parser.parse(newSpec);
+      const breakingChanges = new BreakingChangeAnalyzer().analyze(previous.document, current.document, oldSpec);
+
+      if (options.json) {
+        console.log(JSON.stringify(breakingChanges, null, 2));
+      } else {
+        new Announcer().generateBreakingChangesConsoleReport(breakingChanges);
+      }
+      if (breakingChanges.breakingCount > 0 || (options.failOnPotential && breakingChanges.potentiallyBreakingCount > 0)) {
+        process.exit(1);
+      }
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('changelog')
+  .description('Write release notes of the changes between two versions of a specification, grouped by tag')
+  .argument('<old>', 'Path or URL of the previous version')
+  .argument('<new>', 'Path or URL of the current version')
+  .option('--html', 'Write the changelog as HTML instead of Markdown')
+  .option('-o, --output <file>', 'Write the changelog to this file instead of printing it')
+  .action(async (oldSpec: string, newSpec: string, options: any) => {
+    try {
+      const parser = new OpenAPIParser();
+      const changelog = buildChangelog(
+        { label: oldSpec, document: (await parser.parse(oldSpec)).document },
+        { label: newSpec, document: (await parser.parse(newSpec)).document }
+      );
+
+      const announcer = new Announcer();
+      const content = options.html ? announcer.generateChangelogHtml(changelog) : announcer.generateChangelogMarkdown(changelog);
+      if (options.output) {
+        fs.writeFileSync(options.output, content);
+        console.log(`Changelog saved to ${options.output}`);
+      } else {
+        console.log(content);
+      }
+    } catch (error: any) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+  });
+
+// Scores a specification for the subcommands, with the config found next to it unless one is given
+async function evaluateSpec(spec: string, options: { config?: string; profile?: string }) {
+  const parsed = await new OpenAPIParser().parse(spec);
+  const { config, file: configFile, warnings } = new ConfigLoader().resolve(fs.existsSync(spec) ? spec : process.cwd(), options.config);
+  const plugins = new PluginLoader().load(config.plugins, configFile ? path.dirname(configFile) : process.cwd());
+  return { parsed, report: new Judge({ config, plugins, warnings, profile: options.profile }).evaluate(parsed) };
+}
+
+function findConfig(spec: string): string | undefined {
+  return new ConfigLoader().resolve(fs.existsSync(spec) ? spec : process.cwd()).file;
+}
+
 program.parseAsync();
 
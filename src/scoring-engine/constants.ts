@@ -12,8 +12,19 @@ export const CRITERIA_WEIGHTS = {
     examples: 10,
     security: 10,
     miscellaneous: 10, 
+    validity: 10,
+    pagination: 10,
+    naming: 10,
 };
 
+// Weight and name of a category of declarative rules unless configured otherwise
+export const CUSTOM_CATEGORY_WEIGHT = 10;
+export const CUSTOM_CATEGORY_NAME = 'Custom Rules';
+// Category the rules of an imported Spectral ruleset are scored in
+export const SPECTRAL_CATEGORY_NAME = 'Spectral Ruleset';
+// Extension naming the owning team of an operation, path item or tag unless configured otherwise
+export const DEFAULT_OWNER_EXTENSION = 'x-owner';
+
 export const RULE_NAMES = {
     schema_types: 'Schema & Types',
     description_docs: 'Description & Documentation',
@@ -22,6 +33,9 @@ export const RULE_NAMES = {
     examples: 'Examples & Samples',
     security: 'Security',
     miscellaneous: 'Miscellaneous', 
+    validity: 'Validity',
+    pagination: 'Pagination',
+    naming: 'Naming Conventions',
 };
 
 export const RULE_DESCRIPTIONS = {
@@ -32,4 +46,7 @@ export const RULE_DESCRIPTIONS = {
     examples: 'Presence of request/response examples for major endpoints.',
     security: 'Defined and referenced security schemes where needed.',
     miscellaneous: 'Miscellaneous best practices: versioning, servers array, tags, components reuse and more.', 
+    validity: 'The document conforms to the OpenAPI meta-schema and every $ref resolves.',
+    pagination: 'Collection endpoints paginate in one consistent style, with bounded page sizes and a way to reach the next page.',
+    naming: 'Properties, query parameters, headers and components are each named in one casing.',
 };
@@ -0,0 +1,310 @@
+import Ajv, { ValidateFunction } from 'ajv';
+import { DeclarativeRuleDefinition, OpenAPIDocument, Rule, RuleCondition, RuleFunctionName, RuleResult, RuleSettings, RuleViolation, Severity } from './types';
+import { CUSTOM_CATEGORY_NAME, CUSTOM_CATEGORY_WEIGHT } from './constants';
+import { calculateScore } from './helper-functions';
+import { scoreBySeverity } from './explanation';
+import { compileJsonPath, JsonPathMatch } from './jsonpath';
+import { finalizeViolations, HTTP_METHODS, toPointer } from './spec-utils';
+
+const SEVERITIES = ['error', 'warning', 'info'];
+
+export const RULE_FUNCTIONS: RuleFunctionName[] = ['truthy', 'falsy', 'defined', 'undefined', 'pattern', 'enum', 'length', 'schema', 'casing', 'alphabetical'];
+
+const CASING_PATTERNS: Record<string, { pattern: RegExp; digits: RegExp }> = {
+    flat: { pattern: /^[a-z][a-z0-9]*$/, digits: /^[a-z]+$/ },
+    camel: { pattern: /^[a-z][a-z0-9]*(?:[A-Z][a-z0-9]*)*$/, digits: /^[a-z]+(?:[A-Z][a-z]*)*$/ },
+    pascal: { pattern: /^[A-Z][a-z0-9]*(?:[A-Z][a-z0-9]*)*$/, digits: /^[A-Z][a-z]*(?:[A-Z][a-z]*)*$/ },
+    kebab: { pattern: /^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/, digits: /^[a-z]+(?:-[a-z]+)*$/ },
+    cobol: { pattern: /^[A-Z][A-Z0-9]*(?:-[A-Z0-9]+)*$/, digits: /^[A-Z]+(?:-[A-Z]+)*$/ },
+    snake: { pattern: /^[a-z][a-z0-9]*(?:_[a-z0-9]+)*$/, digits: /^[a-z]+(?:_[a-z]+)*$/ },
+    macro: { pattern: /^[A-Z][A-Z0-9]*(?:_[A-Z0-9]+)*$/, digits: /^[A-Z]+(?:_[A-Z]+)*$/ },
+};
+
+// The value a condition checks and where it is in the document
+interface Target {
+    value: unknown;
+    pointer: string;
+    label: string;
+}
+
+// Returns why the target fails the condition, or undefined when it passes
+type ConditionCheck = (target: Target) => string | undefined;
+
+interface CompiledRule {
+    id: string;
+    definition: DeclarativeRuleDefinition;
+    selectors: ((document: unknown) => JsonPathMatch[])[];
+    conditions: { condition: RuleCondition; check: ConditionCheck }[];
+}
+
+const ajv = new Ajv({ strict: false, allErrors: false });
+
+// Groups declarative rules by the category they are scored in
+export function getDeclarativeCategories(rules: Record<string, DeclarativeRuleDefinition> = {}): Map<string, Record<string, DeclarativeRuleDefinition>> {
+    const categories = new Map<string, Record<string, DeclarativeRuleDefinition>>();
+    for (const [id, definition] of Object.entries(rules)) {
+        const category = definition.category || CUSTOM_CATEGORY_NAME;
+        categories.set(category, { ...categories.get(category), [id]: definition });
+    }
+    return categories;
+}
+
+// Lists what is wrong with a rule definition, empty when it compiles
+export function validateRuleDefinition(id: string, definition: unknown): string[] {
+    const errors: string[] = [];
+    if (!/^[A-Za-z0-9][\w.-]*$/.test(id)) {
+        errors.push(`rule ID '${id}' may only contain letters, digits, '.', '-' and '_'`);
+    }
+    if (!definition || typeof definition !== 'object' || Array.isArray(definition)) {
+        return [...errors, `rule '${id}' must be an object`];
+    }
+
+    const rule = definition as Record<string, unknown>;
+    const givens = Array.isArray(rule.given) ? rule.given : [rule.given];
+    if (givens.length === 0 || givens.some(given => typeof given !== 'string')) {
+        errors.push(`rule '${id}': 'given' must be a JSONPath or a list of them`);
+    } else {
+        givens.forEach(given => {
+            try {
+                compileJsonPath(given as string);
+            } catch (error: any) {
+                errors.push(`rule '${id}': ${error.message}`);
+            }
+        });
+    }
+
+    const conditions = Array.isArray(rule.then) ? rule.then : [rule.then];
+    if (conditions.length === 0 || conditions.some(condition => !condition || typeof condition !== 'object')) {
+        errors.push(`rule '${id}': 'then' must be a condition or a list of them`);
+    } else {
+        conditions.forEach(condition => {
+            try {
+                compileCondition(condition as RuleCondition);
+            } catch (error: any) {
+                errors.push(`rule '${id}': ${error.message}`);
+            }
+        });
+    }
+
+    if (rule.severity !== undefined && !SEVERITIES.includes(rule.severity as string)) {
+        errors.push(`rule '${id}': 'severity' must be error, warning or info`);
+    }
+    for (const key of ['description', 'message', 'suggestion', 'category']) {
+        if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+            errors.push(`rule '${id}': '${key}' must be a string`);
+        }
+    }
+    return errors;
+}
+
+// Scores the declarative rules of one category the way the built-in rules are scored:
+// each selected node is an item, and violations are weighted by severity
+export class DeclarativeRule implements Rule {
+    name: string;
+    description: string;
+    weight: number;
+    private rules: CompiledRule[];
+
+    constructor(category: string, definitions: Record<string, DeclarativeRuleDefinition>, private settings: RuleSettings = {}) {
+        this.name = category;
+        this.description = `Declarative rules: ${Object.keys(definitions).join(', ')}`;
+        this.weight = settings.weight ?? CUSTOM_CATEGORY_WEIGHT;
+        this.rules = Object.entries(definitions).map(([id, definition]) => ({
+            id,
+            definition,
+            selectors: (Array.isArray(definition.given) ? definition.given : [definition.given]).map(compileJsonPath),
+            conditions: (Array.isArray(definition.then) ? definition.then : [definition.then])
+                .map(condition => ({ condition, check: compileCondition(condition) })),
+        }));
+    }
+
+    evaluate(spec: OpenAPIDocument): RuleResult {
+        let totalItems = 0;
+        const found: RuleViolation[] = [];
+
+        for (const rule of this.rules) {
+            const matches = rule.selectors.flatMap(select => select(spec));
+            totalItems += matches.length;
+            for (const match of matches) {
+                for (const { condition, check } of rule.conditions) {
+                    for (const target of getTargets(match, condition.field)) {
+                        const error = check(target);
+                        if (error) found.push(this.createViolation(rule, match, target, error));
+                    }
+                }
+            }
+        }
+
+        const { violations, suppressed } = finalizeViolations(found, spec, this.settings.checks);
+        return {
+            score: calculateScore(violations, totalItems, this.weight, this.settings.severityWeights),
+            explanation: scoreBySeverity(violations, totalItems, this.weight, this.settings.severityWeights, 'selected nodes').explanation,
+            maxScore: this.weight,
+            violations,
+            suppressed
+        };
+    }
+
+    private createViolation(rule: CompiledRule, match: JsonPathMatch, target: Target, error: string): RuleViolation {
+        const [section, pathName, method] = match.path;
+        const isOperation = section === 'paths' && typeof method === 'string' && HTTP_METHODS.includes(method);
+        const variables: Record<string, string> = {
+            property: String(match.path[match.path.length - 1] ?? ''),
+            path: match.path.join('.'),
+            value: typeof target.value === 'object' ? JSON.stringify(target.value) : String(target.value),
+            description: rule.definition.description || '',
+            error,
+        };
+
+        return {
+            ruleId: rule.id,
+            path: section === 'paths' && pathName !== undefined ? String(pathName) : '',
+            operation: isOperation ? method.toUpperCase() : undefined,
+            location: match.path.join('.') || 'document',
+            pointer: target.pointer,
+            message: (rule.definition.message || '{{error}}').replace(/\{\{(\w+)\}\}/g, (text, name) => variables[name] ?? text),
+            severity: (rule.definition.severity || 'warning') as Severity,
+            suggestion: rule.definition.suggestion || rule.definition.description || `Follow the '${rule.id}' rule`,
+        };
+    }
+}
+
+// The values a condition applies to: the node, its key, or properties below it
+function getTargets(match: JsonPathMatch, field?: string): Target[] {
+    if (!field) {
+        const key = match.path[match.path.length - 1];
+        return [{ value: match.value, pointer: match.pointer, label: typeof key === 'string' ? `'${key}'` : 'value' }];
+    }
+
+    if (field === '@key') {
+        return [{ value: match.path[match.path.length - 1], pointer: match.pointer, label: 'key' }];
+    }
+
+    if (field.startsWith('$')) {
+        return compileJsonPath(field)(match.value).map(({ value, path }) => ({
+            value,
+            pointer: match.pointer + toPointer(...path),
+            label: `'${path.join('.')}'`,
+        }));
+    }
+
+    const keys = field.split('.');
+    let value: unknown = match.value;
+    for (const key of keys) {
+        value = value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined;
+    }
+    return [{ value, pointer: match.pointer + toPointer(...keys), label: `'${field}'` }];
+}
+
+function compileCondition(condition: RuleCondition): ConditionCheck {
+    if (condition.field !== undefined && typeof condition.field !== 'string') {
+        throw new Error("'field' must be a string");
+    }
+    if (condition.field?.startsWith('$')) compileJsonPath(condition.field);
+    const options = condition.functionOptions || {};
+
+    switch (condition.function) {
+        case 'truthy':
+            return ({ value, label }) => isTruthy(value) ? undefined : `${label} is missing or empty`;
+        case 'falsy':
+            return ({ value, label }) => isTruthy(value) ? `${label} must not be set` : undefined;
+        case 'defined':
+            return ({ value, label }) => value === undefined ? `${label} is missing` : undefined;
+        case 'undefined':
+            return ({ value, label }) => value === undefined ? undefined : `${label} must not be defined`;
+        case 'pattern': {
+            if (options.match === undefined && options.notMatch === undefined) {
+                throw new Error("the pattern function needs a 'match' or 'notMatch' option");
+            }
+            const match = options.match !== undefined ? toRegExp(options.match) : undefined;
+            const notMatch = options.notMatch !== undefined ? toRegExp(options.notMatch) : undefined;
+            return ({ value, label }) => {
+                if (typeof value !== 'string') return undefined;
+                if (match && !match.test(value)) return `${label} must match ${match}`;
+                if (notMatch && notMatch.test(value)) return `${label} must not match ${notMatch}`;
+                return undefined;
+            };
+        }
+        case 'enum': {
+            if (!Array.isArray(options.values)) throw new Error("the enum function needs a 'values' list");
+            const values = options.values as unknown[];
+            return ({ value, label }) => value === undefined || values.includes(value)
+                ? undefined
+                : `${label} must be one of ${values.join(', ')}`;
+        }
+        case 'length': {
+            const { min, max } = options as { min?: unknown; max?: unknown };
+            if ((min === undefined && max === undefined) ||
+                [min, max].some(bound => bound !== undefined && typeof bound !== 'number')) {
+                throw new Error("the length function needs a numeric 'min' or 'max' option");
+            }
+            return ({ value, label }) => {
+                const length = getLength(value);
+                if (length === undefined) return undefined;
+                if (typeof min === 'number' && length < min) return `${label} must have a length of at least ${min}`;
+                if (typeof max === 'number' && length > max) return `${label} must have a length of at most ${max}`;
+                return undefined;
+            };
+        }
+        case 'schema': {
+            if (!options.schema || typeof options.schema !== 'object') throw new Error("the schema function needs a 'schema' option");
+            let validate: ValidateFunction;
+            try {
+                validate = ajv.compile(options.schema as object);
+            } catch (error: any) {
+                throw new Error(`invalid schema: ${error.message}`);
+            }
+            return ({ value, label }) => {
+                if (value === undefined || validate(value)) return undefined;
+                const [error] = validate.errors || [];
+                return `${label}${error?.instancePath ? ` at ${error.instancePath}` : ''} ${error?.message || 'does not match the schema'}`;
+            };
+        }
+        case 'casing': {
+            const casing = CASING_PATTERNS[options.type as string];
+            if (!casing) throw new Error(`the casing function needs a 'type' of ${Object.keys(CASING_PATTERNS).join(', ')}`);
+            const pattern = options.disallowDigits ? casing.digits : casing.pattern;
+            return ({ value, label }) => typeof value !== 'string' || pattern.test(value)
+                ? undefined
+                : `${label} must be ${options.type} case`;
+        }
+        case 'alphabetical': {
+            const keyedBy = options.keyedBy;
+            if (keyedBy !== undefined && typeof keyedBy !== 'string') throw new Error("the alphabetical option 'keyedBy' must be a string");
+            return ({ value, label }) => {
+                const keys = Array.isArray(value)
+                    ? value.map(item => keyedBy ? (item as Record<string, unknown>)?.[keyedBy] : item)
+                    : value && typeof value === 'object' ? Object.keys(value) : undefined;
+                if (!keys) return undefined;
+                const unsorted = keys.findIndex((key, index) => index > 0 && String(keys[index - 1]).localeCompare(String(key)) > 0);
+                return unsorted === -1 ? undefined : `${label} must be sorted alphabetically, '${keys[unsorted]}' comes before '${keys[unsorted - 1]}'`;
+            };
+        }
+        default:
+            throw new Error(`unknown function '${condition.function}', expected ${RULE_FUNCTIONS.join(', ')}`);
+    }
+}
+
+function isTruthy(value: unknown): boolean {
+    if (Array.isArray(value)) return value.length > 0;
+    if (value && typeof value === 'object') return Object.keys(value).length > 0;
+    return !!value;
+}
+
+function getLength(value: unknown): number | undefined {
+    if (typeof value === 'string' || Array.isArray(value)) return value.length;
+    if (typeof value === 'number') return value;
+    if (value && typeof value === 'object') return Object.keys(value).length;
+    return undefined;
+}
+
+// Accepts a plain pattern or the /pattern/flags notation
+function toRegExp(value: unknown): RegExp {
+    if (typeof value !== 'string') throw new Error('patterns must be strings');
+    const literal = /^\/(.+)\/([imsu]*)$/.exec(value);
+    try {
+        return literal ? new RegExp(literal[1], literal[2]) : new RegExp(value);
+    } catch (error: any) {
+        throw new Error(`invalid pattern ${value}: ${error.message}`);
+    }
+}
@@ -0,0 +1,63 @@
+import { SEVERITY_SCORE_WEIGHTS } from './constants';
+import { RuleViolation, ScoreExplanation, Severity } from './types';
+
+const SEVERITIES: Severity[] = ['error', 'warning', 'info'];
+
+export function createExplanation(method: string, details: Partial<Omit<ScoreExplanation, 'method'>> = {}): ScoreExplanation {
+    return { method, items: [], subChecks: [], penalties: [], caps: [], ...details };
+}
+
+// Rounds points for display, the score itself is rounded once at the end
+export function toPoints(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+export function countBySeverity(violations: RuleViolation[]): Record<Severity, number> {
+    return {
+        error: violations.filter(v => v.severity === 'error').length,
+        warning: violations.filter(v => v.severity === 'warning').length,
+        info: violations.filter(v => v.severity === 'info').length,
+    };
+}
+
+// The default scoring: every violation costs its severity weight, spread over the items checked, as a share
+// of the category weight. Errors keep the score at least 2 below the weight.
+export function scoreBySeverity(
+    violations: RuleViolation[],
+    totalItems: number,
+    weight: number,
+    severityWeightOverrides: Partial<Record<Severity, number>> = {},
+    itemLabel = 'items'
+): { score: number; explanation: ScoreExplanation } {
+    const severityWeights = { ...SEVERITY_SCORE_WEIGHTS, ...severityWeightOverrides };
+    const counts = countBySeverity(violations);
+    const caps: string[] = [];
+    if (totalItems < 1) {
+        caps.push(`No ${itemLabel} were counted, so penalties are divided by 1`);
+    }
+    const items = Math.max(1, totalItems);
+
+    const penalties = SEVERITIES.filter(severity => counts[severity] > 0).map(severity => ({
+        reason: `${counts[severity]} ${severity}${counts[severity] === 1 || severity === 'info' ? '' : 's'} × ${severityWeights[severity]} per ${items} ${itemLabel}`,
+        points: toPoints(weight * counts[severity] * severityWeights[severity] / items),
+    }));
+    const weightedViolationPercentage = SEVERITIES
+        .reduce((sum, severity) => sum + counts[severity] * severityWeights[severity], 0) / items;
+
+    let score = Math.round(weight * (1 - weightedViolationPercentage));
+    if (counts.error > 0 && score > weight - 2) {
+        score = weight - 2;
+        caps.push(`Errors keep the score at most ${weight - 2}, 2 below the weight`);
+    }
+    if (score < 0) {
+        caps.push('The penalties exceed the weight, so the score is 0');
+    }
+
+    return {
+        score: Math.max(0, score),
+        explanation: createExplanation(
+            `Each violation costs its severity weight (error ${severityWeights.error}, warning ${severityWeights.warning}, info ${severityWeights.info}) divided by the ${itemLabel} checked, as a share of the weight of ${weight}`,
+            { items: [{ label: itemLabel, count: totalItems }], penalties, caps }
+        ),
+    };
+}
@@ -1,35 +1,19 @@
 import { OpenAPIV3 } from 'openapi-types';
-import { SEVERITY_SCORE_WEIGHTS } from './constants';
-import { RuleViolation } from './types';
+import { scoreBySeverity } from './explanation';
+import { OpenAPIDocument, RuleViolation, Severity } from './types';
 
 export function calculateScore(
     violations: RuleViolation[],
     totalItems: number,
-    weight: number
+    weight: number,
+    severityWeightOverrides: Partial<Record<Severity, number>> = {}
 ): number {
-    totalItems = Math.max(1, totalItems);
-    const errorViolations = violations.filter((v) => v.severity === 'error').length;
-    const warningViolations = violations.filter((v) => v.severity === 'warning').length;
-    const infoViolations = violations.filter((v) => v.severity === 'info').length;
-
-    const weightedViolationPercentage =
-        (errorViolations * SEVERITY_SCORE_WEIGHTS.error + 
-         warningViolations * SEVERITY_SCORE_WEIGHTS.warning + 
-         infoViolations * SEVERITY_SCORE_WEIGHTS.info) /
-         totalItems;
-
-    let score = Math.round(weight * (1 - weightedViolationPercentage));
-
-    if (errorViolations > 0 && score > weight - 2) {
-        score = weight - 2;
-    }
-
-    return Math.max(0, score);
+    return scoreBySeverity(violations, totalItems, weight, severityWeightOverrides).score;
 }
 
 export function resolveHeader(
     header: OpenAPIV3.HeaderObject | OpenAPIV3.ReferenceObject,
-    spec: OpenAPIV3.Document
+    spec: OpenAPIDocument
 ): OpenAPIV3.HeaderObject | undefined {
     if ('$ref' in header) {
         return resolveReference<OpenAPIV3.HeaderObject>(header.$ref, spec);
@@ -39,7 +23,7 @@ export function resolveHeader(
 
 export function resolveSchema(
     schema: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject,
-    spec: OpenAPIV3.Document
+    spec: OpenAPIDocument
 ): OpenAPIV3.SchemaObject | undefined {
     if ('$ref' in schema) {
         return resolveReference<OpenAPIV3.SchemaObject>(schema.$ref, spec);
@@ -49,7 +33,7 @@ export function resolveSchema(
 
 export function resolveRequestBody(
     requestBody: OpenAPIV3.ReferenceObject | OpenAPIV3.RequestBodyObject,
-    spec: OpenAPIV3.Document
+    spec: OpenAPIDocument
 ): OpenAPIV3.RequestBodyObject | undefined {
     if ('$ref' in requestBody) {
         return resolveReference<OpenAPIV3.RequestBodyObject>(requestBody.$ref, spec);
@@ -59,7 +43,7 @@ export function resolveRequestBody(
 
 export function resolveResponse(
     response: OpenAPIV3.ReferenceObject | OpenAPIV3.ResponseObject,
-    spec: OpenAPIV3.Document
+    spec: OpenAPIDocument
 ): OpenAPIV3.ResponseObject | undefined {
     if ('$ref' in response) {
         return resolveReference<OpenAPIV3.ResponseObject>(response.$ref, spec);
@@ -69,7 +53,7 @@ export function resolveResponse(
 
 export function resolveParameter(
     parameter: OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject,
-    spec: OpenAPIV3.Document
+    spec: OpenAPIDocument
 ): OpenAPIV3.ParameterObject | undefined {
     if ('$ref' in parameter) {
         return resolveReference<OpenAPIV3.ParameterObject>(parameter.$ref, spec);
@@ -77,15 +61,16 @@ export function resolveParameter(
     return parameter;
 }
 
-export function resolveReference<T>(ref: string, spec: OpenAPIV3.Document): T | undefined {
+export function resolveReference<T>(ref: string, spec: OpenAPIDocument): T | undefined {
     if (!ref.startsWith('#/')) return undefined;
 
     const parts = ref.substring(2).split('/');
     let current: any = spec;
 
     for (const part of parts) {
-        if (!current[part]) return undefined;
-        current = current[part];
+        const key = decodeURIComponent(part).replace(/~1/g, '/').replace(/~0/g, '~');
+        if (!current[key]) return undefined;
+        current = current[key];
     }
 
     return current as T;
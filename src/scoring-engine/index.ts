@@ -1,4 +1,4 @@
-import { Rule } from './types';
+import { CategoryConfig, LoadedPlugin, Rule, RuleCategory, RuleSettings, ScorecardConfig } from './types';
 import { SchemaTypesRule } from './rules/schema-rule';
 import { DescriptionDocsRule } from './rules/docs-rule';
 import { PathsOperationsRule } from './rules/path-rule';
@@ -6,15 +6,53 @@ import { ResponseCodesRule } from './rules/response-code-rule';
 import { ExamplesSamplesRule } from './rules/examples-rule';
 import { SecurityRule } from './rules/security-rule';
 import { MiscellaneousBestPracticesRule } from './rules/misc-rule';
+import { ValidityRule } from './rules/validity-rule';
+import { PaginationRule } from './rules/pagination-rule';
+import { NamingConventionRule } from './rules/naming-rule';
+import { getPluginRules } from './plugin-rules';
+import { DeclarativeRule, getDeclarativeCategories } from './declarative-rules';
 
-export function getRules(): Rule[] {
-    return [
-        new SchemaTypesRule(),
-        new DescriptionDocsRule(),
-        new PathsOperationsRule(),
-        new ResponseCodesRule(),
-        new ExamplesSamplesRule(),
-        new SecurityRule(),
-        new MiscellaneousBestPracticesRule(),
-    ];
+// Built-in rules by config key, in report order
+const RULES: Record<RuleCategory, new (settings?: RuleSettings) => Rule> = {
+    schema_types: SchemaTypesRule,
+    description_docs: DescriptionDocsRule,
+    paths_operations: PathsOperationsRule,
+    response_codes: ResponseCodesRule,
+    examples: ExamplesSamplesRule,
+    security: SecurityRule,
+    miscellaneous: MiscellaneousBestPracticesRule,
+    validity: ValidityRule,
+    pagination: PaginationRule,
+    naming: NamingConventionRule,
+};
+
+export const RULE_CATEGORIES = Object.keys(RULES) as RuleCategory[];
+
+// Built-in rules in report order, followed by a rule per category of declarative rules and the rules of the plugins
+export function getRules(config: ScorecardConfig = {}, plugins: LoadedPlugin[] = []): Rule[] {
+    const builtIn = RULE_CATEGORIES
+        .map(category => ({ category, categoryConfig: getCategoryConfig(config, category) }))
+        .filter(({ categoryConfig }) => categoryConfig.enabled !== false)
+        .map(({ category, categoryConfig }) => new RULES[category]({
+            weight: categoryConfig.weight,
+            severityWeights: config.severityWeights,
+            checks: config.checks,
+            pagination: config.pagination,
+            errorFormat: config.errorFormat,
+            naming: config.naming,
+        }));
+    const declarative = [...getDeclarativeCategories(config.rules)]
+        .map(([category, definitions]) => ({ category, definitions, categoryConfig: getCategoryConfig(config, category) }))
+        .filter(({ categoryConfig }) => categoryConfig.enabled !== false)
+        .map(({ category, definitions, categoryConfig }) => new DeclarativeRule(category, definitions, {
+            weight: categoryConfig.weight,
+            severityWeights: config.severityWeights,
+            checks: config.checks,
+        }));
+    return [...builtIn, ...declarative, ...getPluginRules(plugins, config)];
+}
+
+function getCategoryConfig(config: ScorecardConfig, category: string): CategoryConfig {
+    const value = config.categories?.[category];
+    return typeof value === 'boolean' ? { enabled: value } : value || {};
 }
@@ -0,0 +1,396 @@
+import { toPointer } from './spec-utils';
+
+// A node selected by a JSONPath expression
+export interface JsonPathMatch {
+    value: unknown;
+    // Keys from the document root to the node
+    path: (string | number)[];
+    pointer: string;
+}
+
+type Node = { value: unknown; path: (string | number)[] };
+type Selector = (node: Node) => Node[];
+// Evaluates a filter expression for the current node (@) and its key (@property)
+type Expression = (current: unknown, property: string | number) => unknown;
+
+const FILTER_METHODS = ['match', 'test', 'startsWith', 'endsWith', 'includes'];
+
+// Supports the JSONPath subset rulesets use: $, .name, ['name'], [0], [*], .*, .., unions like [get,post],
+// slices and filters such as [?(@.type == 'object')] or [?(@property.match(/^\/admin/))].
+// Filters are parsed, not evaluated as JavaScript.
+export function compileJsonPath(expression: string): (document: unknown) => JsonPathMatch[] {
+    const selectors = new PathParser(expression).parse();
+
+    return document => {
+        let nodes: Node[] = [{ value: document, path: [] }];
+        for (const select of selectors) {
+            nodes = nodes.flatMap(select);
+        }
+        return nodes.map(({ value, path }) => ({ value, path, pointer: toPointer(...path) }));
+    };
+}
+
+export function queryJsonPath(document: unknown, expression: string): JsonPathMatch[] {
+    return compileJsonPath(expression)(document);
+}
+
+function children(node: Node): Node[] {
+    const { value, path } = node;
+    if (Array.isArray(value)) return value.map((item, index) => ({ value: item, path: [...path, index] }));
+    if (value && typeof value === 'object') {
+        return Object.entries(value).map(([key, item]) => ({ value: item, path: [...path, key] }));
+    }
+    return [];
+}
+
+function child(node: Node, key: string | number): Node[] {
+    const { value, path } = node;
+    if (Array.isArray(value)) {
+        const index = typeof key === 'number' ? key : /^-?\d+$/.test(key) ? Number(key) : NaN;
+        const position = index < 0 ? value.length + index : index;
+        return position >= 0 && position < value.length ? [{ value: value[position], path: [...path, position] }] : [];
+    }
+    if (value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)) {
+        return [{ value: (value as Record<string, unknown>)[key], path: [...path, String(key)] }];
+    }
+    return [];
+}
+
+// The node itself and everything below it, guarding against cyclic documents
+function descendants(node: Node, seen = new Set<unknown>()): Node[] {
+    if (node.value && typeof node.value === 'object') {
+        if (seen.has(node.value)) return [];
+        seen.add(node.value);
+    }
+    const result = [node, ...children(node).flatMap(item => descendants(item, seen))];
+    if (node.value && typeof node.value === 'object') seen.delete(node.value);
+    return result;
+}
+
+class PathParser {
+    private position = 0;
+
+    constructor(private expression: string) {}
+
+    parse(): Selector[] {
+        const text = this.expression.trim();
+        this.expression = text;
+        if (!text.startsWith('$')) this.fail("it must start with '$'");
+        this.position = 1;
+
+        const selectors: Selector[] = [];
+        while (this.position < text.length) {
+            if (text.startsWith('..', this.position)) {
+                this.position += 2;
+                const select = text[this.position] === '[' ? this.parseBracket() : this.parseName();
+                selectors.push(node => descendants(node).flatMap(select));
+            } else if (text[this.position] === '.') {
+                this.position++;
+                selectors.push(this.parseName());
+            } else if (text[this.position] === '[') {
+                selectors.push(this.parseBracket());
+            } else {
+                this.fail(`unexpected '${text[this.position]}' at position ${this.position}`);
+            }
+        }
+        return selectors;
+    }
+
+    private parseName(): Selector {
+        const match = /^(\*|[^.[\]\s]+)/.exec(this.expression.substring(this.position));
+        if (!match) this.fail(`expected a property name at position ${this.position}`);
+        this.position += match![0].length;
+        const name = match![0];
+        return name === '*' ? children : node => child(node, name);
+    }
+
+    private parseBracket(): Selector {
+        const end = this.findClosingBracket(this.position);
+        const content = this.expression.substring(this.position + 1, end).trim();
+        this.position = end + 1;
+
+        if (content === '*') return children;
+        if (content.startsWith('?')) {
+            const filter = content.substring(1).trim();
+            const test = new FilterParser(filter.startsWith('(') && filter.endsWith(')') ? filter.slice(1, -1) : filter,
+                this.expression).parse();
+            return node => children(node).filter(item => !!test(item.value, item.path[item.path.length - 1]));
+        }
+
+        const slice = /^(-?\d*):(-?\d*)$/.exec(content);
+        if (slice) {
+            return node => {
+                if (!Array.isArray(node.value)) return [];
+                const length = node.value.length;
+                const bound = (text: string, fallback: number) =>
+                    text === '' ? fallback : Number(text) < 0 ? Math.max(0, length + Number(text)) : Math.min(length, Number(text));
+                const items: Node[] = [];
+                for (let index = bound(slice[1], 0); index < bound(slice[2], length); index++) {
+                    items.push({ value: node.value[index], path: [...node.path, index] });
+                }
+                return items;
+            };
+        }
+
+        const keys = this.splitUnion(content).map(part => {
+            const quoted = /^(['"])(.*)\1$/.exec(part);
+            if (quoted) return quoted[2].replace(/\\(.)/g, '$1');
+            if (/^-?\d+$/.test(part)) return Number(part);
+            if (!part) this.fail('empty selector');
+            return part;
+        });
+        return node => keys.flatMap(key => child(node, key));
+    }
+
+    private findClosingBracket(start: number): number {
+        let depth = 0;
+        let quote: string | undefined;
+        for (let index = start; index < this.expression.length; index++) {
+            const char = this.expression[index];
+            if (quote) {
+                if (char === '\\') index++;
+                else if (char === quote) quote = undefined;
+            } else if (char === '"' || char === "'") {
+                quote = char;
+            } else if (char === '[') {
+                depth++;
+            } else if (char === ']' && --depth === 0) {
+                return index;
+            }
+        }
+        return this.fail(`unclosed '[' at position ${start}`);
+    }
+
+    private splitUnion(content: string): string[] {
+        const parts: string[] = [];
+        let current = '';
+        let quote: string | undefined;
+        for (const char of content) {
+            if (quote) {
+                if (char === quote) quote = undefined;
+            } else if (char === '"' || char === "'") {
+                quote = char;
+            } else if (char === ',') {
+                parts.push(current.trim());
+                current = '';
+                continue;
+            }
+            current += char;
+        }
+        parts.push(current.trim());
+        return parts;
+    }
+
+    private fail(reason: string): never {
+        throw new Error(`Invalid JSONPath '${this.expression}': ${reason}`);
+    }
+}
+
+// Recursive descent parser for filter expressions: comparisons, &&, ||, !, parentheses, literals,
+// @ and @property references with member access, and the string methods match, test, startsWith, endsWith and includes
+class FilterParser {
+    private position = 0;
+
+    constructor(private text: string, private expression: string) {}
+
+    parse(): Expression {
+        const result = this.parseOr();
+        this.skipSpace();
+        if (this.position < this.text.length) this.fail(`unexpected '${this.text.substring(this.position)}'`);
+        return result;
+    }
+
+    private parseOr(): Expression {
+        let left = this.parseAnd();
+        while (this.consume('||')) {
+            const first = left;
+            const right = this.parseAnd();
+            left = (current, property) => first(current, property) || right(current, property);
+        }
+        return left;
+    }
+
+    private parseAnd(): Expression {
+        let left = this.parseUnary();
+        while (this.consume('&&')) {
+            const first = left;
+            const right = this.parseUnary();
+            left = (current, property) => first(current, property) && right(current, property);
+        }
+        return left;
+    }
+
+    private parseUnary(): Expression {
+        if (this.peek('!') && !this.peek('!=')) {
+            this.position++;
+            const operand = this.parseUnary();
+            return (current, property) => !operand(current, property);
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): Expression {
+        const left = this.parsePrimary();
+        const operator = ['===', '!==', '==', '!=', '<=', '>=', '=~', '<', '>'].find(candidate => this.consume(candidate));
+        if (!operator) return left;
+
+        const right = this.parsePrimary();
+        return (current, property) => {
+            const a = left(current, property) as any;
+            const b = right(current, property) as any;
+            switch (operator) {
+                case '===': case '==': return a === b;
+                case '!==': case '!=': return a !== b;
+                case '<': return a < b;
+                case '<=': return a <= b;
+                case '>': return a > b;
+                case '>=': return a >= b;
+                default: return typeof a === 'string' && b instanceof RegExp && b.test(a);
+            }
+        };
+    }
+
+    private parsePrimary(): Expression {
+        this.skipSpace();
+        if (this.consume('(')) {
+            const inner = this.parseOr();
+            if (!this.consume(')')) this.fail("missing ')'");
+            return this.parsePostfix(inner);
+        }
+
+        const char = this.text[this.position];
+        if (char === '"' || char === "'") {
+            const value = this.readString();
+            return this.parsePostfix(() => value);
+        }
+        if (char === '/') {
+            const value = this.readRegex();
+            return this.parsePostfix(() => value);
+        }
+
+        const number = /^-?\d+(\.\d+)?/.exec(this.text.substring(this.position));
+        if (number) {
+            this.position += number[0].length;
+            const value = Number(number[0]);
+            return () => value;
+        }
+
+        const word = /^(@property|@|true|false|null|undefined)/.exec(this.text.substring(this.position));
+        if (!word) return this.fail(`unexpected '${this.text.substring(this.position)}'`);
+        this.position += word[0].length;
+        const literals: Record<string, unknown> = { true: true, false: false, null: null, undefined: undefined };
+        if (word[0] === '@') return this.parsePostfix(current => current);
+        if (word[0] === '@property') return this.parsePostfix((_, property) => property);
+        const value = literals[word[0]];
+        return () => value;
+    }
+
+    // Member access (.name, ['name'], [0], .length) and method calls following a value
+    private parsePostfix(target: Expression): Expression {
+        while (true) {
+            if (this.text.startsWith('.', this.position) && /^\.[A-Za-z_$]/.test(this.text.substring(this.position))) {
+                this.position++;
+                const name = /^[A-Za-z_$][\w$-]*/.exec(this.text.substring(this.position))![0];
+                this.position += name.length;
+                const object = target;
+
+                if (this.text[this.position] === '(') {
+                    if (!FILTER_METHODS.includes(name)) this.fail(`unsupported method '${name}'`);
+                    this.position++;
+                    const args: Expression[] = [];
+                    this.skipSpace();
+                    while (!this.consume(')')) {
+                        args.push(this.parseOr());
+                        this.consume(',');
+                        if (this.position >= this.text.length) this.fail("missing ')'");
+                    }
+                    target = (current, property) => callMethod(object(current, property), name, args.map(arg => arg(current, property)));
+                } else {
+                    target = (current, property) => getMember(object(current, property), name);
+                }
+            } else if (this.text[this.position] === '[') {
+                this.position++;
+                this.skipSpace();
+                const key = this.text[this.position] === '"' || this.text[this.position] === "'" ? this.readString() : this.readNumber();
+                this.skipSpace();
+                if (!this.consume(']')) this.fail("missing ']'");
+                const object = target;
+                target = (current, property) => getMember(object(current, property), key);
+            } else {
+                return target;
+            }
+        }
+    }
+
+    private readString(): string {
+        const quote = this.text[this.position++];
+        let value = '';
+        while (this.position < this.text.length && this.text[this.position] !== quote) {
+            if (this.text[this.position] === '\\') this.position++;
+            value += this.text[this.position++];
+        }
+        if (this.position >= this.text.length) this.fail('unterminated string');
+        this.position++;
+        return value;
+    }
+
+    private readRegex(): RegExp {
+        const match = /^\/((?:\\.|[^/\\])+)\/([gimsuy]*)/.exec(this.text.substring(this.position));
+        if (!match) return this.fail('invalid regular expression');
+        this.position += match[0].length;
+        try {
+            return new RegExp(match[1], match[2].replace('g', ''));
+        } catch (error: any) {
+            return this.fail(error.message);
+        }
+    }
+
+    private readNumber(): number {
+        const match = /^-?\d+/.exec(this.text.substring(this.position));
+        if (!match) return this.fail('expected a quoted key or an index');
+        this.position += match[0].length;
+        return Number(match[0]);
+    }
+
+    private skipSpace(): void {
+        while (/\s/.test(this.text[this.position] || '')) this.position++;
+    }
+
+    private peek(token: string): boolean {
+        this.skipSpace();
+        return this.text.startsWith(token, this.position);
+    }
+
+    private consume(token: string): boolean {
+        if (!this.peek(token)) return false;
+        this.position += token.length;
+        return true;
+    }
+
+    private fail(reason: string): never {
+        throw new Error(`Invalid JSONPath '${this.expression}': ${reason} in filter`);
+    }
+}
+
+function getMember(value: unknown, key: string | number): unknown {
+    if (key === 'length' && (typeof value === 'string' || Array.isArray(value))) return value.length;
+    if (value && typeof value === 'object' && Object.prototype.hasOwnProperty.call(value, key)) {
+        return (value as Record<string, unknown>)[key];
+    }
+    return undefined;
+}
+
+function callMethod(value: unknown, name: string, args: unknown[]): unknown {
+    const [argument] = args;
+    switch (name) {
+        case 'match':
+            return typeof value === 'string' && (argument instanceof RegExp ? argument.test(value) : value.includes(String(argument)));
+        case 'test':
+            return value instanceof RegExp && typeof argument === 'string' && value.test(argument);
+        case 'startsWith':
+        case 'endsWith':
+            return typeof value === 'string' && value[name](String(argument));
+        default:
+            return (typeof value === 'string' || Array.isArray(value)) && value.includes(argument as never);
+    }
+}
@@ -0,0 +1,143 @@
+import { LoadedPlugin, OpenAPIDocument, PluginCheck, PluginContext, PluginRule, Rule, RuleResult, RuleSettings, ScorecardConfig } from './types';
+import { calculateScore } from './helper-functions';
+import { finalizeViolations } from './spec-utils';
+
+const SEVERITIES: unknown[] = ['error', 'warning', 'info'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+
+// The fields reporters, baselines and suppressions read from every violation; the rule ID defaults to the rule's
+function isViolation(value: unknown): boolean {
+    return isObject(value) &&
+        ['message', 'suggestion', 'path', 'location'].every(key => typeof value[key] === 'string') &&
+        SEVERITIES.includes(value.severity) &&
+        ['ruleId', 'operation', 'pointer', 'file'].every(key => isOptionalString(value[key]));
+}
+
+function isSuppressedViolation(value: unknown): boolean {
+    return isViolation(value) && isObject(value) && typeof value.suppressedBy === 'string' && isOptionalString(value.reason);
+}
+
+function isExplanation(value: unknown): boolean {
+    return isObject(value) && typeof value.method === 'string' &&
+        Array.isArray(value.items) && value.items.every((item: unknown) =>
+            isObject(item) && typeof item.label === 'string' && Number.isFinite(item.count)) &&
+        Array.isArray(value.subChecks) && value.subChecks.every((check: unknown) =>
+            isObject(check) && typeof check.name === 'string' && Number.isFinite(check.score) && Number.isFinite(check.maxScore)) &&
+        Array.isArray(value.penalties) && value.penalties.every((penalty: unknown) =>
+            isObject(penalty) && typeof penalty.reason === 'string' && Number.isFinite(penalty.points)) &&
+        Array.isArray(value.caps) && value.caps.every((cap: unknown) => typeof cap === 'string');
+}
+
+// Runs a plugin rule so that it can't take the evaluation down with it: errors and malformed results
+// turn into a failed result, and the rule works on its own copy of the document.
+export class SandboxedRule implements Rule {
+    id: string;
+    name: string;
+    description: string;
+    weight: number;
+    checks: PluginCheck[];
+
+    constructor(public plugin: string, private rule: PluginRule, private settings: RuleSettings) {
+        this.id = rule.id;
+        this.name = rule.name;
+        this.description = rule.description;
+        this.weight = rule.weight;
+        this.checks = rule.checks || [];
+    }
+
+    evaluate(spec: OpenAPIDocument): RuleResult {
+        let result: RuleResult;
+        try {
+            result = this.rule.evaluate(structuredClone(spec));
+        } catch (error: any) {
+            return this.fail(`threw an error: ${error?.message || error}`);
+        }
+
+        if (typeof (result as any)?.then === 'function') {
+            // Nothing waits for the Promise, and left alone its rejection would end the process
+            Promise.resolve(result).catch(() => {});
+            return this.fail('returned a Promise, but evaluate must be synchronous');
+        }
+
+        if (!result || !Array.isArray(result.violations) || !Number.isFinite(result.score) ||
+            !Number.isFinite(result.maxScore) || result.score < 0 || result.score > result.maxScore ||
+            !result.violations.every(isViolation) ||
+            (result.suppressed !== undefined && !(Array.isArray(result.suppressed) && result.suppressed.every(isSuppressedViolation))) ||
+            (result.explanation !== undefined && !isExplanation(result.explanation))) {
+            return this.fail('returned an invalid result');
+        }
+
+        // Finalizing is idempotent, so this is safe for rules that already did it
+        const { violations, suppressed } = finalizeViolations(
+            result.violations.map(violation => ({ ...violation, ruleId: violation.ruleId || this.id })),
+            spec,
+            this.settings.checks
+        );
+        return {
+            score: result.score,
+            maxScore: result.maxScore,
+            violations,
+            suppressed: [...(result.suppressed || []), ...suppressed],
+            ...(result.explanation ? { explanation: result.explanation } : {}),
+        };
+    }
+
+    private fail(reason: string): RuleResult {
+        return {
+            score: 0,
+            maxScore: 0,
+            violations: [],
+            error: `Rule '${this.id}' of plugin '${this.plugin}' ${reason}`,
+        };
+    }
+}
+
+// Stands in for a plugin whose rules could not be created, so the failure is reported instead of thrown
+class FailedPlugin implements Rule {
+    name: string;
+    description = '';
+    weight = 0;
+
+    constructor(public plugin: string, private error: string) {
+        this.name = plugin;
+    }
+
+    evaluate(): RuleResult {
+        return { score: 0, maxScore: 0, violations: [], error: this.error };
+    }
+}
+
+export function getPluginRules(plugins: LoadedPlugin[], config: ScorecardConfig = {}): Rule[] {
+    const settings: RuleSettings = { severityWeights: config.severityWeights, checks: config.checks };
+
+    return plugins.flatMap(({ plugin, options, error }): Rule[] => {
+        if (error) return [new FailedPlugin(plugin.name, error)];
+
+        const context: PluginContext = {
+            options,
+            settings,
+            finalizeViolations: (violations, spec) => finalizeViolations(violations, spec, settings.checks),
+            calculateScore: (violations, totalItems, weight) =>
+                calculateScore(violations, totalItems, weight, settings.severityWeights),
+        };
+
+        try {
+            const rules = plugin.rules(context);
+            if (!Array.isArray(rules)) {
+                throw new Error('rules() must return an array');
+            }
+            rules.forEach((rule, index) => {
+                if (!rule || typeof rule.id !== 'string' || typeof rule.name !== 'string' ||
+                    typeof rule.evaluate !== 'function' || !(typeof rule.weight === 'number' && rule.weight >= 0)) {
+                    throw new Error(`rule ${index} must have an id, a name, a weight and an evaluate function`);
+                }
+            });
+            return rules.map(rule => new SandboxedRule(plugin.name, rule, settings));
+        } catch (error: any) {
+            return [new FailedPlugin(plugin.name, `Plugin '${plugin.name}' failed to create its rules: ${error?.message || error}`)];
+        }
+    });
+}
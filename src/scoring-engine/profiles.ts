@@ -0,0 +1,136 @@
+import { CategoryConfig, CheckSeverities, Grade, GradeThresholds, ScorecardConfig, ScoringProfile } from './types';
+
+export const DEFAULT_GRADE_THRESHOLDS: GradeThresholds = { S: 90, A: 80, B: 70, C: 60, D: 50 };
+
+// Built-in profiles by name. Each one adjusts the default scoring to an audience; checks not listed keep their severity.
+export const PROFILES: Record<string, ScoringProfile> = {
+    public: {
+        name: 'public',
+        description: 'Partner-facing APIs: documentation, examples and security weigh more and the document must be valid.',
+        config: {
+            categories: {
+                description_docs: { weight: 25 },
+                examples: { weight: 15 },
+                security: { weight: 15 },
+            },
+            checks: {
+                'docs.property-description': 'warning',
+                'examples.parameter': 'warning',
+                'misc.contact-missing': 'warning',
+                'misc.license-missing': 'warning',
+            },
+            validityGate: true,
+        },
+        grades: DEFAULT_GRADE_THRESHOLDS,
+    },
+    internal: {
+        name: 'internal',
+        description: 'Service-to-service APIs: examples and publishing metadata such as contact and license matter less.',
+        config: {
+            categories: {
+                description_docs: { weight: 15 },
+                examples: { weight: 5 },
+            },
+            checks: {
+                'docs.property-description': 'off',
+                'examples.parameter': 'off',
+                'misc.contact-missing': 'off',
+                'misc.license-missing': 'off',
+                'misc.external-docs-missing': 'off',
+            },
+        },
+        grades: DEFAULT_GRADE_THRESHOLDS,
+    },
+    prototype: {
+        name: 'prototype',
+        description: 'Early drafts: examples are not required, documentation and housekeeping findings are informational and grading is lenient.',
+        config: {
+            categories: { examples: false },
+            severityWeights: { warning: 0.1, info: 0 },
+            checks: {
+                'docs.*': 'info',
+                'misc.*': 'info',
+            },
+        },
+        grades: { S: 80, A: 70, B: 60, C: 50, D: 40 },
+    },
+    strict: {
+        name: 'strict',
+        description: 'Release gates: every violation weighs more, the document must be valid and grades are harder to reach.',
+        config: {
+            severityWeights: { error: 1, warning: 0.4, info: 0.2 },
+            checks: {
+                'docs.property-description': 'warning',
+                'schema.property-description': 'warning',
+                'examples.parameter': 'warning',
+            },
+            validityGate: true,
+        },
+        grades: { S: 95, A: 90, B: 80, C: 70, D: 60 },
+    },
+};
+
+export const PROFILE_NAMES = Object.keys(PROFILES);
+
+export function getProfile(name: string): ScoringProfile {
+    const profile = PROFILES[name];
+    if (!profile) {
+        throw new Error(`Unknown profile '${name}', expected one of ${PROFILE_NAMES.join(', ')}`);
+    }
+    return profile;
+}
+
+// The profile's settings refined by the config: config values win, and config checks are matched before the profile's
+export function applyProfile(profile: ScoringProfile, config: ScorecardConfig = {}): ScorecardConfig {
+    const categories: Record<string, boolean | CategoryConfig> = { ...profile.config.categories };
+    for (const [category, value] of Object.entries(config.categories || {})) {
+        const base = categories[category];
+        categories[category] = typeof value === 'boolean' || base === undefined
+            ? value
+            : { ...(typeof base === 'boolean' ? { enabled: base } : base), ...value };
+    }
+
+    // Check patterns are matched in order, so those of the config come first
+    const checks: CheckSeverities = { ...config.checks };
+    for (const [check, severity] of Object.entries(profile.config.checks || {})) {
+        if (!(check in checks)) checks[check] = severity;
+    }
+
+    return {
+        ...profile.config,
+        ...config,
+        profile: profile.name,
+        categories,
+        severityWeights: { ...profile.config.severityWeights, ...config.severityWeights },
+        checks,
+    };
+}
+
+// Grades from best to worst
+export const GRADES: Grade[] = ['S', 'A', 'B', 'C', 'D', 'F'];
+
+// Grade bands of a profile, or the default ones, with the configured overrides
+export function resolveGradeThresholds(base: GradeThresholds, overrides: Partial<GradeThresholds> = {}): GradeThresholds {
+    const thresholds = { ...base, ...overrides };
+    const bands = GRADES.slice(0, -1) as (keyof GradeThresholds)[];
+    bands.slice(1).forEach((grade, index) => {
+        if (thresholds[grade] > thresholds[bands[index]]) {
+            throw new Error(`Grade thresholds must not increase from S to D, but ${grade} needs ${thresholds[grade]} and ${bands[index]} ${thresholds[bands[index]]}`);
+        }
+    });
+    return thresholds;
+}
+
+// The lower of the two grades
+export function capGrade(grade: Grade, cap: Grade): Grade {
+    return GRADES.indexOf(grade) < GRADES.indexOf(cap) ? cap : grade;
+}
+
+export function calculateGrade(score: number, thresholds: GradeThresholds = DEFAULT_GRADE_THRESHOLDS): Grade {
+    if (score >= thresholds.S) return 'S';
+    if (score >= thresholds.A) return 'A';
+    if (score >= thresholds.B) return 'B';
+    if (score >= thresholds.C) return 'C';
+    if (score >= thresholds.D) return 'D';
+    return 'F';
+}
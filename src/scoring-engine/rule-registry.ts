@@ -0,0 +1,145 @@
+import { RuleCategory, Severity } from './types';
+
+// Documentation of a single check; `severity` is the one it reports with unless configured otherwise
+export interface CheckDefinition {
+    id: string;
+    category: RuleCategory;
+    severity: Severity;
+    description: string;
+}
+
+type CheckList = [id: string, severity: Severity, description: string][];
+
+const checks = (category: RuleCategory, list: CheckList): CheckDefinition[] =>
+    list.map(([id, severity, description]) => ({ id, category, severity, description }));
+
+// Every check of the built-in rules. IDs are stable: reports, configs and tools key off them instead of messages.
+export const RULE_REGISTRY: CheckDefinition[] = [
+    ...checks('schema_types', [
+        ['schema.unresolved-reference', 'error', 'A schema $ref points at a component that does not exist.'],
+        ['schema.missing-type', 'error', 'A schema declares neither a type nor allOf/oneOf/anyOf.'],
+        ['schema.invalid-type', 'error', 'A schema uses a type that is not a JSON Schema primitive type.'],
+        ['schema.nullable-in-3-1', 'warning', "An OpenAPI 3.1 schema uses 'nullable' instead of a 'null' type."],
+        ['schema.object-without-properties', 'warning', 'An object schema defines no properties, additionalProperties or composition.'],
+        ['schema.no-required-properties', 'info', 'An object schema has properties but marks none of them as required.'],
+        ['schema.array-missing-items', 'error', 'An array schema does not define its items.'],
+        ['schema.string-format', 'info', 'A string schema uses a format that is not defined by OpenAPI or JSON Schema.'],
+        ['schema.number-format', 'info', 'A number or integer schema uses a non-standard format.'],
+        ['schema.free-form-object', 'warning', 'A schema describes a completely free-form object.'],
+        ['schema.empty-enum', 'error', 'A schema has an enum without values.'],
+        ['schema.enum-null-not-nullable', 'warning', 'An enum lists null but the schema does not allow null.'],
+        ['schema.const-and-enum', 'info', 'A schema defines both const and enum.'],
+        ['schema.property-description', 'info', 'A schema property has no description.'],
+    ]),
+    ...checks('description_docs', [
+        ['docs.info-description', 'error', 'The info object has no meaningful description.'],
+        ['docs.path-description', 'warning', 'A path item has no meaningful description.'],
+        ['docs.operation-description', 'error', 'An operation has neither a meaningful description nor a summary.'],
+        ['docs.schema-description', 'warning', 'A component schema has no meaningful description.'],
+        ['docs.property-description', 'info', 'A component schema property has no meaningful description.'],
+        ['docs.parameter-description', 'warning', 'A parameter has no meaningful description.'],
+        ['docs.request-body-description', 'warning', 'A request body has no meaningful description.'],
+        ['docs.response-description', 'error', 'A response has no meaningful description.'],
+    ]),
+    ...checks('paths_operations', [
+        ['paths.no-paths', 'error', 'The document defines no paths.'],
+        ['paths.trailing-slash', 'warning', 'Some paths end with a slash and others do not.'],
+        ['paths.kebab-case', 'warning', 'Path segments do not follow kebab-case.'],
+        ['paths.verb-in-path', 'warning', 'A path segment is a verb instead of a resource name.'],
+        ['paths.plural-collection', 'info', 'A collection endpoint is not named with a plural noun.'],
+        ['paths.duplicate-path', 'error', 'The same path is defined more than once.'],
+        ['paths.path-conflict', 'warning', 'Two templated paths can match the same request for a method.'],
+        ['paths.nested-resource-duplicate', 'info', 'A resource is exposed both at the top level and nested under another resource.'],
+        ['paths.collection-missing-get', 'info', 'A collection endpoint has no GET operation for listing.'],
+        ['paths.collection-missing-post', 'info', 'A collection endpoint has no POST operation for creation.'],
+        ['paths.collection-put', 'warning', 'A collection endpoint defines PUT.'],
+        ['paths.collection-delete', 'info', 'A collection endpoint defines DELETE.'],
+        ['paths.resource-missing-get', 'info', 'A resource endpoint has no GET operation for retrieval.'],
+        ['paths.resource-missing-update', 'info', 'A resource endpoint has neither PUT nor PATCH.'],
+        ['paths.resource-missing-delete', 'info', 'A resource endpoint has no DELETE operation.'],
+        ['paths.resource-post', 'info', 'A resource endpoint defines POST.'],
+        ['paths.id-parameter-inconsistent', 'error', 'A path parameter is not declared by every operation of the path.'],
+        ['paths.unexpected-request-body', 'warning', 'An operation whose method carries no body, such as GET, defines a request body.'],
+        ['paths.missing-request-body', 'warning', 'A POST or PUT operation has no request body.'],
+        ['paths.missing-success-response', 'warning', 'An operation defines no success response.'],
+        ['paths.post-201', 'info', 'A creating POST operation does not return 201 Created.'],
+        ['paths.update-status', 'info', 'A PUT or PATCH operation returns neither 200 OK nor 204 No Content.'],
+        ['paths.delete-204', 'info', 'A DELETE operation does not return 204 No Content.'],
+        ['paths.id-naming', 'warning', 'ID path parameters are named inconsistently across the API.'],
+        ['paths.path-parameter-undefined', 'error', 'A templated path segment has no matching path parameter.'],
+    ]),
+    ...checks('response_codes', [
+        ['responses.no-paths', 'error', 'The document defines no operations to check response codes on.'],
+        ['responses.missing-responses', 'error', 'An operation defines no responses.'],
+        ['responses.missing-2xx', 'error', 'An operation defines no 2xx response.'],
+        ['responses.unusual-2xx', 'warning', 'An operation uses success codes that are unusual for its method.'],
+        ['responses.missing-4xx', 'warning', 'An operation defines no 4xx response.'],
+        ['responses.missing-auth-errors', 'warning', 'A secured operation defines neither 401 nor 403.'],
+        ['responses.missing-404', 'warning', 'An operation on a single resource does not define 404.'],
+        ['responses.missing-validation-error', 'warning', 'An operation with a request body defines neither 400 nor 422.'],
+        ['responses.missing-5xx', 'warning', 'An operation defines no 5xx response.'],
+        ['responses.missing-default', 'info', 'An operation defines no default response.'],
+        ['responses.unresolved-reference', 'error', 'A response $ref cannot be resolved.'],
+        ['responses.description', 'warning', 'A response has no description.'],
+        ['responses.success-content', 'warning', 'A success response describes no content.'],
+        ['responses.error-content', 'info', 'An error response describes no content.'],
+        ['responses.content-schema', 'warning', 'A response media type has no schema.'],
+        ['responses.error-schema-inconsistent', 'warning', 'An error response uses another schema than most error responses.'],
+        ['responses.problem-details', 'warning', 'An error response is not problem details as application/problem+json, checked when errorFormat.problemDetails is set.'],
+        ['responses.inline-error-schema', 'info', 'An error response defines its schema inline instead of referencing a shared component.'],
+        ['responses.invalid-status-code', 'error', 'A response key is not a valid HTTP status code.'],
+        ['responses.informational-status', 'info', 'An operation documents a 1xx informational response.'],
+        ['responses.uncommon-status', 'info', 'An operation uses an uncommon HTTP status code.'],
+    ]),
+    ...checks('examples', [
+        ['examples.request-body', 'warning', 'A request body media type has no example.'],
+        ['examples.response-body', 'warning', 'A response media type has no example.'],
+        ['examples.parameter', 'info', 'A parameter has no example.'],
+    ]),
+    ...checks('security', [
+        ['security.mutating-security-disabled', 'warning', 'A mutating operation disables security with `security: []`.'],
+        ['security.mutating-unsecured', 'warning', 'A mutating operation is not secured although security schemes exist.'],
+        ['security.undefined-scheme', 'error', 'A security requirement names a scheme that is not defined.'],
+        ['security.unused-scheme', 'info', 'A security scheme is defined but never required.'],
+        ['security.no-schemes', 'error', 'The API has mutating operations but defines no security schemes.'],
+    ]),
+    ...checks('miscellaneous', [
+        ['misc.version-format', 'info', 'info.version is not a semantic version.'],
+        ['misc.version-missing', 'warning', 'info.version is missing.'],
+        ['misc.server-url', 'warning', 'A server URL is missing or invalid.'],
+        ['misc.server-description', 'info', 'A server has no description.'],
+        ['misc.servers-missing', 'warning', 'The servers array is missing or empty.'],
+        ['misc.tag-undefined', 'warning', 'An operation uses a tag that is not declared in the root tags.'],
+        ['misc.tags-unused', 'info', 'Tags are declared but no operation uses them.'],
+        ['misc.tags-missing', 'info', 'Operations exist but no tags are used.'],
+        ['misc.components-unused', 'info', 'Components are defined but nothing references them.'],
+        ['misc.components-missing', 'info', 'An API with several paths defines no reusable components.'],
+        ['misc.contact-missing', 'info', 'info.contact is missing or empty.'],
+        ['misc.license-identifier-and-url', 'warning', 'An OpenAPI 3.1 license defines both identifier and url.'],
+        ['misc.license-missing', 'info', 'info.license.name is missing.'],
+        ['misc.operation-id-duplicate', 'error', 'An operationId is used by more than one operation.'],
+        ['misc.operation-id-missing', 'warning', 'An operation has no operationId.'],
+        ['misc.external-docs-url', 'info', 'An externalDocs object has no valid url.'],
+        ['misc.external-docs-missing', 'info', 'The API links no external documentation.'],
+    ]),
+    ...checks('validity', [
+        ['validity.schema', 'error', 'The document does not match the OpenAPI 3.0/3.1 meta-schema.'],
+        ['validity.unresolved-reference', 'error', 'A $ref anywhere in the document cannot be resolved.'],
+    ]),
+    ...checks('pagination', [
+        ['pagination.missing-parameters', 'warning', 'A collection GET operation has no pagination parameters.'],
+        ['pagination.mixed-styles', 'warning', 'A collection GET operation paginates in another style than the preferred or most common one.'],
+        ['pagination.limit-bounds', 'warning', 'A page size parameter has no minimum or maximum.'],
+        ['pagination.missing-next-link', 'warning', 'A paginated response signals the next page neither by a Link header nor by a next field.'],
+    ]),
+    ...checks('naming', [
+        ['naming.property-casing', 'warning', 'A schema property is not named in the configured or most common casing.'],
+        ['naming.query-parameter-casing', 'warning', 'A query parameter is not named in the configured or most common casing.'],
+        ['naming.header-casing', 'info', 'A header is not named in the configured or most common casing.'],
+        ['naming.component-casing', 'warning', 'A component is not named in the configured casing, or the one most components of its section use.'],
+    ]),
+];
+
+export function getCheck(id: string): CheckDefinition | undefined {
+    return RULE_REGISTRY.find(check => check.id === id);
+}
@@ -1,21 +1,27 @@
 import { OpenAPIV3 } from 'openapi-types';
-import { Rule, RuleResult, RuleViolation } from '../types';
+import { OpenAPIDocument, Rule, RuleResult, RuleSettings, RuleViolation } from '../types';
 import {
   RULE_NAMES,
   RULE_DESCRIPTIONS,
   CRITERIA_WEIGHTS,
 } from '../constants';
 import { resolveReference, calculateScore } from '../helper-functions';
+import { scoreBySeverity } from '../explanation';
+import { finalizeViolations, getPathItems, getTargetPointer, hasSchemaType, isOpenAPI31, toPointer } from '../spec-utils';
 
 export class DescriptionDocsRule implements Rule {
   name = RULE_NAMES.description_docs;
   description = RULE_DESCRIPTIONS.description_docs;
-  weight = CRITERIA_WEIGHTS.description_docs;
+  weight: number;
 
   private MIN_DESCRIPTION_LENGTH = 5;
 
-  evaluate(spec: OpenAPIV3.Document): RuleResult {
-    const violations: RuleViolation[] = [];
+  constructor(private settings: RuleSettings = {}) {
+    this.weight = settings.weight ?? CRITERIA_WEIGHTS.description_docs;
+  }
+
+  evaluate(spec: OpenAPIDocument): RuleResult {
+    let violations: RuleViolation[] = [];
     let totalItems = 0;
     let itemsWithViolations = 0;
 
@@ -35,6 +41,19 @@ export class DescriptionDocsRule implements Rule {
       itemsWithViolations
     ));
 
+    // Webhooks (OpenAPI 3.1)
+    for (const { path: webhookName, pointer, pathItem } of getPathItems(spec).filter(entry => entry.isWebhook)) {
+      ({ totalItems, itemsWithViolations } = this.checkOperations(
+        pathItem,
+        webhookName,
+        pointer,
+        spec,
+        violations,
+        totalItems,
+        itemsWithViolations
+      ));
+    }
+
     // Components
     ({ totalItems, itemsWithViolations } = this.checkComponentSchemas(
       spec,
@@ -44,22 +63,29 @@ export class DescriptionDocsRule implements Rule {
     ));
 
     // Scoring
+    const finalized = finalizeViolations(violations, spec, this.settings.checks);
+    violations = finalized.violations;
     const score = calculateScore(
       violations,
       totalItems,
-      this.weight
+      this.weight,
+      this.settings.severityWeights
     );
 
     return {
       score,
       maxScore: this.weight,
       violations,
+      suppressed: finalized.suppressed,
+      explanation: scoreBySeverity(
+        violations, totalItems, this.weight, this.settings.severityWeights, 'documented elements'
+      ).explanation,
     };
   }
 
 
   private checkInfoDescription(
-    spec: OpenAPIV3.Document,
+    spec: OpenAPIDocument,
     violations: RuleViolation[],
     totalItems: number,
     itemsWithViolations: number
@@ -69,6 +95,8 @@ export class DescriptionDocsRule implements Rule {
       violations.push({
         path: 'info',
         location: 'description',
+        pointer: toPointer('info'),
+        ruleId: 'docs.info-description',
         message: 'API info is missing a meaningful description',
         severity: 'error',
         suggestion:
@@ -80,7 +108,7 @@ export class DescriptionDocsRule implements Rule {
   }
 
   private checkPaths(
-    spec: OpenAPIV3.Document,
+    spec: OpenAPIDocument,
     violations: RuleViolation[],
     totalItems: number,
     itemsWithViolations: number
@@ -89,6 +117,7 @@ export class DescriptionDocsRule implements Rule {
 
     for (const [pathName, pathItem] of Object.entries(spec.paths)) {
       if (!pathItem) continue;
+      const pathPointer = toPointer('paths', pathName);
 
       // Path description
       totalItems++;
@@ -96,6 +125,8 @@ export class DescriptionDocsRule implements Rule {
         violations.push({
           path: pathName,
           location: 'description',
+          pointer: pathPointer,
+          ruleId: 'docs.path-description',
           message: 'Path is missing a meaningful description',
           severity: 'warning',
           suggestion: 'Add a description explaining the purpose of this path',
@@ -109,6 +140,7 @@ export class DescriptionDocsRule implements Rule {
           pathItem.parameters,
           pathName,
           undefined,
+          pathPointer,
           spec,
           violations,
           totalItems,
@@ -120,6 +152,7 @@ export class DescriptionDocsRule implements Rule {
       ({ totalItems, itemsWithViolations } = this.checkOperations(
         pathItem,
         pathName,
+        pathPointer,
         spec,
         violations,
         totalItems,
@@ -132,7 +165,8 @@ export class DescriptionDocsRule implements Rule {
   private checkOperations(
     pathItem: OpenAPIV3.PathItemObject,
     pathName: string,
-    spec: OpenAPIV3.Document,
+    pathPointer: string,
+    spec: OpenAPIDocument,
     violations: RuleViolation[],
     totalItems: number,
     itemsWithViolations: number
@@ -153,6 +187,7 @@ export class DescriptionDocsRule implements Rule {
         | OpenAPIV3.OperationObject
         | undefined;
       if (!operation) continue;
+      const operationPointer = pathPointer + toPointer(method);
 
       // Operation description/summary
       totalItems++;
@@ -164,6 +199,8 @@ export class DescriptionDocsRule implements Rule {
           path: pathName,
           operation: method.toUpperCase(),
           location: 'description/summary',
+          pointer: operationPointer,
+          ruleId: 'docs.operation-description',
           message:
             'Operation is missing both a meaningful description and summary',
           severity: 'error',
@@ -179,6 +216,7 @@ export class DescriptionDocsRule implements Rule {
           operation.parameters,
           pathName,
           method.toUpperCase(),
+          operationPointer,
           spec,
           violations,
           totalItems,
@@ -192,6 +230,7 @@ export class DescriptionDocsRule implements Rule {
           operation.requestBody,
           pathName,
           method.toUpperCase(),
+          operationPointer,
           spec,
           violations,
           totalItems,
@@ -205,6 +244,7 @@ export class DescriptionDocsRule implements Rule {
           operation.responses,
           pathName,
           method.toUpperCase(),
+          operationPointer,
           spec,
           violations,
           totalItems,
@@ -216,7 +256,7 @@ export class DescriptionDocsRule implements Rule {
   }
 
   private checkComponentSchemas(
-    spec: OpenAPIV3.Document,
+    spec: OpenAPIDocument,
     violations: RuleViolation[],
     totalItems: number,
     itemsWithViolations: number
@@ -233,6 +273,8 @@ export class DescriptionDocsRule implements Rule {
         violations.push({
           path: 'components',
           location: `schemas.${schemaName}`,
+          pointer: toPointer('components', 'schemas', schemaName),
+          ruleId: 'docs.schema-description',
           message: 'Schema is missing a meaningful description',
           severity: 'warning',
           suggestion:
@@ -242,7 +284,7 @@ export class DescriptionDocsRule implements Rule {
       }
 
       // Properties
-      if (schema.type === 'object' && schema.properties) {
+      if (hasSchemaType(schema, 'object') && schema.properties) {
         for (const [propName, property] of Object.entries(schema.properties)) {
           if (!this.isSchemaObject(property)) continue;
           totalItems++;
@@ -250,6 +292,8 @@ export class DescriptionDocsRule implements Rule {
             violations.push({
               path: 'components',
               location: `schemas.${schemaName}.properties.${propName}`,
+              pointer: toPointer('components', 'schemas', schemaName, 'properties', propName),
+              ruleId: 'docs.property-description',
               message: 'Property is missing a meaningful description',
               severity: 'info',
               suggestion:
@@ -267,6 +311,19 @@ export class DescriptionDocsRule implements Rule {
     return !!description && description.trim().length >= this.MIN_DESCRIPTION_LENGTH;
   }
 
+  // OpenAPI 3.1 lets a $ref carry its own description, which overrides the referenced one
+  private withReferenceDescription<T extends { description?: string }>(
+    resolved: T | undefined,
+    reference: OpenAPIV3.ReferenceObject,
+    spec: OpenAPIDocument
+  ): T | undefined {
+    const description = (reference as { description?: string }).description;
+    if (!resolved || !isOpenAPI31(spec) || !this.hasValidDescription(description)) {
+      return resolved;
+    }
+    return { ...resolved, description };
+  }
+
   private isSchemaObject(schema: any): schema is OpenAPIV3.SchemaObject {
     return typeof schema === 'object' && !('$ref' in schema);
   }
@@ -275,7 +332,8 @@ export class DescriptionDocsRule implements Rule {
     parameters: (OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject)[],
     pathName: string,
     method: string | undefined,
-    spec: OpenAPIV3.Document,
+    parentPointer: string,
+    spec: OpenAPIDocument,
     violations: RuleViolation[],
     totalItems: number,
     itemsWithViolations: number
@@ -283,16 +341,22 @@ export class DescriptionDocsRule implements Rule {
     let newTotalItems = totalItems;
     let newItemsWithViolations = itemsWithViolations;
 
-    parameters.forEach((param) => {
+    parameters.forEach((param, index) => {
       newTotalItems++;
 
       let paramObj: OpenAPIV3.ParameterObject | undefined;
       let paramName: string;
+      // Referenced parameters are reported where they are defined
+      const pointer = getTargetPointer(param, parentPointer + toPointer('parameters', index));
 
       if ('$ref' in param) {
         const refParts = param.$ref.split('/');
         paramName = refParts[refParts.length - 1];
-        paramObj = resolveReference<OpenAPIV3.ParameterObject>(param.$ref, spec);
+        paramObj = this.withReferenceDescription(
+          resolveReference<OpenAPIV3.ParameterObject>(param.$ref, spec),
+          param,
+          spec
+        );
       } else {
         paramObj = param;
         paramName = param.name;
@@ -303,6 +367,8 @@ export class DescriptionDocsRule implements Rule {
           path: pathName,
           operation: method,
           location: `parameters.${paramName}`,
+          pointer,
+          ruleId: 'docs.parameter-description',
           message: `Parameter '${paramName}' is missing a meaningful description`,
           severity: 'warning',
           suggestion:
@@ -319,7 +385,8 @@ export class DescriptionDocsRule implements Rule {
     requestBody: OpenAPIV3.ReferenceObject | OpenAPIV3.RequestBodyObject,
     pathName: string,
     method: string,
-    spec: OpenAPIV3.Document,
+    operationPointer: string,
+    spec: OpenAPIDocument,
     violations: RuleViolation[],
     totalItems: number,
     itemsWithViolations: number
@@ -328,6 +395,7 @@ export class DescriptionDocsRule implements Rule {
     let newItemsWithViolations = itemsWithViolations;
 
     let requestBodyObj: OpenAPIV3.RequestBodyObject | undefined;
+    const pointer = getTargetPointer(requestBody, operationPointer + toPointer('requestBody'));
 
     if ('$ref' in requestBody) {
       requestBodyObj = resolveReference<OpenAPIV3.RequestBodyObject>(
@@ -345,6 +413,8 @@ export class DescriptionDocsRule implements Rule {
           path: pathName,
           operation: method,
           location: 'requestBody',
+          pointer,
+          ruleId: 'docs.request-body-description',
           message: 'Request body is missing a meaningful description',
           severity: 'warning',
           suggestion:
@@ -361,7 +431,8 @@ export class DescriptionDocsRule implements Rule {
     responses: OpenAPIV3.ResponsesObject,
     pathName: string,
     method: string,
-    spec: OpenAPIV3.Document,
+    operationPointer: string,
+    spec: OpenAPIDocument,
     violations: RuleViolation[],
     totalItems: number,
     itemsWithViolations: number
@@ -371,10 +442,12 @@ export class DescriptionDocsRule implements Rule {
 
     Object.entries(responses).forEach(([statusCode, response]) => {
       let responseObj: OpenAPIV3.ResponseObject | undefined;
+      const pointer = getTargetPointer(response, operationPointer + toPointer('responses', statusCode));
 
       if ('$ref' in response) {
-        responseObj = resolveReference<OpenAPIV3.ResponseObject>(
-          response.$ref,
+        responseObj = this.withReferenceDescription(
+          resolveReference<OpenAPIV3.ResponseObject>(response.$ref, spec),
+          response,
           spec
         );
       } else {
@@ -388,6 +461,8 @@ export class DescriptionDocsRule implements Rule {
             path: pathName,
             operation: method,
             location: `responses.${statusCode}`,
+            pointer,
+            ruleId: 'docs.response-description',
             message: `Response ${statusCode} is missing a meaningful description`,
             severity: 'error',
             suggestion:
@@ -1,31 +1,42 @@
 import { OpenAPIV3 } from 'openapi-types';
-import { Rule, RuleResult, RuleViolation } from '../types';
+import { OpenAPIDocument, Rule, RuleResult, RuleSettings, RuleViolation } from '../types';
 import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../constants";
 import { resolveParameter, resolveRequestBody, resolveResponse } from "../helper-functions";
+import { createExplanation, toPoints } from "../explanation";
+import { finalizeViolations, getPathItems, getTargetPointer, toPointer } from "../spec-utils";
 
 
 export class ExamplesSamplesRule implements Rule {
     name = RULE_NAMES.examples;
     description = RULE_DESCRIPTIONS.examples;
-    weight = CRITERIA_WEIGHTS.examples;
+    weight: number;
 
-evaluate(spec: OpenAPIV3.Document): RuleResult {
+    constructor(private settings: RuleSettings = {}) {
+        this.weight = settings.weight ?? CRITERIA_WEIGHTS.examples;
+    }
+
+evaluate(spec: OpenAPIDocument): RuleResult {
     const violations: RuleViolation[] = [];
     let elementsChecked = 0;
     let elementsWithExamples = 0;
 
-    if (!spec.paths) {
-        // No paths, nothing to check
-        return { score: this.weight, maxScore: this.weight, violations };
+    const pathItems = getPathItems(spec);
+    if (pathItems.length === 0) {
+        // No paths or webhooks, nothing to check
+        return {
+            score: this.weight,
+            maxScore: this.weight,
+            violations,
+            explanation: createExplanation('The document has no operations to give examples for, so the category scores full marks')
+        };
     }
 
-    for (const [path, pathItem] of Object.entries(spec.paths)) {
-        if (!pathItem) continue;
-
+    for (const { path, pointer, pathItem } of pathItems) {
         const operations = this.getOperations(pathItem);
 
         for (const { method, operation } of operations) {
             const operationLocation = `${path}.${method}`;
+            const operationPointer = pointer + toPointer(method);
 
             // 1. Check Request Body Examples (POST, PUT, PATCH)
             if (
@@ -36,6 +47,7 @@ evaluate(spec: OpenAPIV3.Document): RuleResult {
                     operation,
                     spec,
                     operationLocation,
+                    operationPointer,
                     path,
                     violations,
                     (hasExample) => {
@@ -50,6 +62,7 @@ evaluate(spec: OpenAPIV3.Document): RuleResult {
                     operation,
                     spec,
                     operationLocation,
+                    operationPointer,
                     path,
                     violations,
                     (hasExample) => {
@@ -64,6 +77,7 @@ evaluate(spec: OpenAPIV3.Document): RuleResult {
                     operation,
                     spec,
                     operationLocation,
+                    operationPointer,
                     path,
                     violations,
                     (hasExample) => {
@@ -76,7 +90,6 @@ evaluate(spec: OpenAPIV3.Document): RuleResult {
 
     // Calculate score
     let score = this.weight;
-    console.log("elements with examples/wighout: ", elementsWithExamples, elementsChecked);
     if (elementsChecked > 0) {
         score = Math.round(
             (elementsWithExamples / elementsChecked) * this.weight
@@ -87,7 +100,20 @@ evaluate(spec: OpenAPIV3.Document): RuleResult {
     return {
         score,
         maxScore: this.weight,
-        violations,
+        ...finalizeViolations(violations, spec, this.settings.checks),
+        explanation: createExplanation(
+            'The share of request bodies, responses and parameters that have an example, scaled to the weight; violations only list the gaps',
+            {
+                items: [
+                    { label: 'elements checked', count: elementsChecked },
+                    { label: 'elements with examples', count: elementsWithExamples },
+                ],
+                penalties: elementsChecked > elementsWithExamples ? [{
+                    reason: `${elementsChecked - elementsWithExamples} of ${elementsChecked} elements have no example`,
+                    points: toPoints(this.weight * (1 - elementsWithExamples / elementsChecked)),
+                }] : [],
+            }
+        ),
     };
 }
 
@@ -113,14 +139,16 @@ private getOperations(pathItem: OpenAPIV3.PathItemObject) {
 
 private checkRequestBodyExamples(
     operation: OpenAPIV3.OperationObject,
-    spec: OpenAPIV3.Document,
+    spec: OpenAPIDocument,
     operationLocation: string,
+    operationPointer: string,
     path: string,
     violations: RuleViolation[],
     onExampleChecked: (hasExample: boolean) => void
 ): number {
     let checked = 0;
     const requestBody = resolveRequestBody(operation.requestBody!, spec);
+    const requestBodyPointer = getTargetPointer(operation.requestBody!, operationPointer + toPointer('requestBody'));
     if (requestBody?.content) {
         for (const [mediaType, mediaTypeObject] of Object.entries(
             requestBody.content
@@ -133,6 +161,8 @@ private checkRequestBodyExamples(
                 violations.push({
                     path,
                     location: exampleLocation,
+                    pointer: requestBodyPointer + toPointer('content', mediaType),
+                    ruleId: 'examples.request-body',
                     message: `Request body for ${mediaType} is missing an example.`,
                     severity: 'warning',
                     suggestion:
@@ -146,8 +176,9 @@ private checkRequestBodyExamples(
 
 private checkResponseExamples(
     operation: OpenAPIV3.OperationObject,
-    spec: OpenAPIV3.Document,
+    spec: OpenAPIDocument,
     operationLocation: string,
+    operationPointer: string,
     path: string,
     violations: RuleViolation[],
     onExampleChecked: (hasExample: boolean) => void
@@ -158,6 +189,7 @@ private checkResponseExamples(
     )) {
         if (!statusCode.startsWith('2')) continue; // Only 2xx
         const response = resolveResponse(responseOrRef, spec);
+        const responsePointer = getTargetPointer(responseOrRef, operationPointer + toPointer('responses', statusCode));
         if (response?.content) {
             for (const [mediaType, mediaTypeObject] of Object.entries(
                 response.content
@@ -170,6 +202,8 @@ private checkResponseExamples(
                     violations.push({
                         path,
                         location: exampleLocation,
+                        pointer: responsePointer + toPointer('content', mediaType),
+                        ruleId: 'examples.response-body',
                         message: `Response body for status ${statusCode} (${mediaType}) is missing an example.`,
                         severity: 'warning',
                         suggestion:
@@ -184,8 +218,9 @@ private checkResponseExamples(
 
 private checkParameterExamples(
     operation: OpenAPIV3.OperationObject,
-    spec: OpenAPIV3.Document,
+    spec: OpenAPIDocument,
     operationLocation: string,
+    operationPointer: string,
     path: string,
     violations: RuleViolation[],
     onExampleChecked: (hasExample: boolean) => void
@@ -203,6 +238,8 @@ private checkParameterExamples(
             violations.push({
                 path,
                 location: exampleLocation,
+                pointer: getTargetPointer(paramOrRef, operationPointer + toPointer('parameters', index)),
+                ruleId: 'examples.parameter',
                 message: `Parameter '${paramName}' is missing an example.`,
                 severity: 'info',
                 suggestion:
@@ -215,7 +252,15 @@ private checkParameterExamples(
 
     private hasExample(mediaTypeObject: OpenAPIV3.MediaTypeObject): boolean {
         return (mediaTypeObject.example !== undefined) || 
-               (mediaTypeObject.examples !== undefined && Object.keys(mediaTypeObject.examples).length > 0);
+               (mediaTypeObject.examples !== undefined && Object.keys(mediaTypeObject.examples).length > 0) ||
+               this.hasSchemaExamples(mediaTypeObject.schema);
+    }
+
+    // OpenAPI 3.1 schemas carry JSON Schema `examples` arrays, which tools render like media type examples
+    private hasSchemaExamples(schema: OpenAPIV3.MediaTypeObject['schema']): boolean {
+        if (!schema || '$ref' in schema) return false;
+        const examples = (schema as { examples?: unknown }).examples;
+        return Array.isArray(examples) && examples.length > 0;
     }
 
     private hasParameterExample(parameterObject: OpenAPIV3.ParameterObject): boolean {
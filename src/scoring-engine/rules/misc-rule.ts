@@ -1,6 +1,8 @@
 import { OpenAPIV3 } from 'openapi-types';
-import { Rule, RuleResult, RuleViolation } from '../types';
+import { OpenAPIDocument, Rule, RuleResult, RuleSettings, RuleViolation } from '../types';
 import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../constants";
+import { createExplanation, toPoints } from "../explanation";
+import { finalizeViolations, getPathItems, isOpenAPI31, toPointer } from "../spec-utils";
 
 // Basic check for semantic versioning (allows for common variations)
 const SEMVER_REGEX = /^(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-((?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*)(?:\.(?:0|[1-9]\d*|\d*[a-zA-Z-][0-9a-zA-Z-]*))*))?(?:\+([0-9a-zA-Z-]+(?:\.[0-9a-zA-Z-]+)*))?$/;
@@ -9,11 +11,15 @@ const URL_REGEX = /^(https?:\/\/|urn:)[^\s/$.?#].[^\s]*$|^\/[^\s]*$/i; // Basic
 export class MiscellaneousBestPracticesRule implements Rule {
     name = RULE_NAMES.miscellaneous;
     description = RULE_DESCRIPTIONS.miscellaneous;
-    weight = CRITERIA_WEIGHTS.miscellaneous;
+    weight: number;
 
     private readonly MIN_PATHS_FOR_COMPONENT_EXPECTATION = 5; // Heuristic
 
-    evaluate(spec: OpenAPIV3.Document): RuleResult {
+    constructor(private settings: RuleSettings = {}) {
+        this.weight = settings.weight ?? CRITERIA_WEIGHTS.miscellaneous;
+    }
+
+    evaluate(spec: OpenAPIDocument): RuleResult {
         const violations: RuleViolation[] = [];
         let achievedInternalScore = 0;
         let maxInternalScore = 0;
@@ -53,6 +59,16 @@ export class MiscellaneousBestPracticesRule implements Rule {
         achievedInternalScore += externalDocsResult.score;
         maxInternalScore += externalDocsResult.maxScore;
 
+        const subChecks = Object.entries({
+            Versioning: versioningResult,
+            Servers: serversResult,
+            Tags: tagsResult,
+            'Components reuse': componentsResult,
+            'Info completeness': infoCompletenessResult,
+            'Operation IDs': operationIdsResult,
+            'External docs': externalDocsResult,
+        }).map(([name, result]) => ({ name, ...result }));
+
         let finalScore = 0;
         if (maxInternalScore > 0) {
             finalScore = Math.round((achievedInternalScore / maxInternalScore) * this.weight);
@@ -66,11 +82,21 @@ export class MiscellaneousBestPracticesRule implements Rule {
         return {
             score: finalScore,
             maxScore: this.weight,
-            violations
+            ...finalizeViolations(violations, spec, this.settings.checks),
+            explanation: createExplanation(
+                `The points of the sub-checks, ${achievedInternalScore} of ${maxInternalScore}, scaled to the weight; configured check severities don't change them`,
+                {
+                    subChecks,
+                    penalties: subChecks.filter(check => check.score < check.maxScore).map(check => ({
+                        reason: `${check.name}: ${check.maxScore - check.score} of ${check.maxScore} points missed`,
+                        points: toPoints(maxInternalScore > 0 ? this.weight * (check.maxScore - check.score) / maxInternalScore : 0),
+                    })),
+                }
+            )
         };
     }
 
-    private checkVersioning(spec: OpenAPIV3.Document, violations: RuleViolation[]): { score: number, maxScore: number } {
+    private checkVersioning(spec: OpenAPIDocument, violations: RuleViolation[]): { score: number, maxScore: number } {
         let score = 0;
         const maxScore = 2; 
 
@@ -80,7 +106,8 @@ export class MiscellaneousBestPracticesRule implements Rule {
                 score++; // Point for semantic-like format
             } else {
                 violations.push({
-                    path: '', location: 'info.version',
+                    path: '', location: 'info.version', pointer: toPointer('info', 'version'),
+                    ruleId: 'misc.version-format',
                     message: `API version '${spec.info.version}' is not in a standard semantic version format.`,
                     severity: 'info',
                     suggestion: 'Use semantic versioning (e.g., 1.0.0, 2.1.0-beta).'
@@ -88,7 +115,8 @@ export class MiscellaneousBestPracticesRule implements Rule {
             }
         } else {
             violations.push({
-                path: '', location: 'info.version',
+                path: '', location: 'info.version', pointer: toPointer('info'),
+                ruleId: 'misc.version-missing',
                 message: 'API version (`info.version`) is missing.',
                 severity: 'warning',
                 suggestion: 'Define the API version in `info.version`.'
@@ -97,7 +125,7 @@ export class MiscellaneousBestPracticesRule implements Rule {
         return { score, maxScore };
     }
 
-    private checkServers(spec: OpenAPIV3.Document, violations: RuleViolation[]): { score: number, maxScore: number } {
+    private checkServers(spec: OpenAPIDocument, violations: RuleViolation[]): { score: number, maxScore: number } {
         let score = 0;
         const maxScore = 2;
 
@@ -108,7 +136,8 @@ export class MiscellaneousBestPracticesRule implements Rule {
                 if (!server.url || !URL_REGEX.test(server.url)) {
                     allUrlsValidAndDescribed = false;
                     violations.push({
-                        path: '', location: `servers[${index}].url`,
+                        path: '', location: `servers[${index}].url`, pointer: toPointer('servers', index, 'url'),
+                        ruleId: 'misc.server-url',
                         message: `Server URL '${server.url || ''}' is invalid or missing.`,
                         severity: 'warning',
                         suggestion: 'Ensure server URLs are valid (e.g., https://api.example.com/v1, /api/v1).'
@@ -118,7 +147,8 @@ export class MiscellaneousBestPracticesRule implements Rule {
                     // This is a minor issue for this rule, as Descriptions rule might cover it.
                     // allUrlsValidAndDescribed = false; // Don't penalize score heavily here for description
                     violations.push({
-                        path: '', location: `servers[${index}]`,
+                        path: '', location: `servers[${index}]`, pointer: toPointer('servers', index),
+                        ruleId: 'misc.server-description',
                         message: `Server at URL '${server.url}' is missing a description.`,
                         severity: 'info',
                         suggestion: 'Add a description for each server (e.g., "Production", "Staging").'
@@ -131,7 +161,8 @@ export class MiscellaneousBestPracticesRule implements Rule {
             }
         } else {
             violations.push({
-                path: '', location: 'servers',
+                path: '', location: 'servers', pointer: toPointer('servers'),
+                ruleId: 'misc.servers-missing',
                 message: 'The `servers` array is missing or empty.',
                 severity: 'warning',
                 suggestion: 'Define at least one server URL for the API.'
@@ -140,7 +171,7 @@ export class MiscellaneousBestPracticesRule implements Rule {
         return { score, maxScore };
     }
 
-    private checkTags(spec: OpenAPIV3.Document, violations: RuleViolation[]): { score: number, maxScore: number } {
+    private checkTags(spec: OpenAPIDocument, violations: RuleViolation[]): { score: number, maxScore: number } {
         let score = 0;
         const maxScore = 3; 
 
@@ -157,41 +188,51 @@ export class MiscellaneousBestPracticesRule implements Rule {
 
         const usedTagsInOps = new Set<string>();
         let operationsExist = false;
-        if (spec.paths) {
-            Object.values(spec.paths).forEach(pathItem => {
-                if (!pathItem) return;
-                Object.values(pathItem).forEach(op => {
-                    const operation = op as OpenAPIV3.OperationObject;
-                    if (operation && operation.tags && Array.isArray(operation.tags)) {
-                        operationsExist = true;
-                        operation.tags.forEach(tag => usedTagsInOps.add(tag));
-                    }
-                });
+        getPathItems(spec).forEach(({ pathItem }) => {
+            Object.values(pathItem).forEach(op => {
+                const operation = op as OpenAPIV3.OperationObject;
+                if (operation && operation.tags && Array.isArray(operation.tags)) {
+                    operationsExist = true;
+                    operation.tags.forEach(tag => usedTagsInOps.add(tag));
+                }
             });
-        }
+        });
 
         if (operationsExist && usedTagsInOps.size > 0) {
             score++; // Point for using tags
+            // Without a root `tags` array the first fix creates it, and the others append to it
+            let hasTagsArray = Array.isArray(spec.tags);
             usedTagsInOps.forEach(usedTag => {
                 if (!definedTags.has(usedTag)) {
                     violations.push({
-                        path: '', location: 'operation.tags / spec.tags',
+                        path: '', location: 'operation.tags / spec.tags', pointer: toPointer('tags'),
+                        ruleId: 'misc.tag-undefined',
                         message: `Tag '${usedTag}' is used in an operation but not defined in the root \`tags\` array.`,
                         severity: 'warning',
-                        suggestion: `Define tag '${usedTag}' in the root \`tags\` array.`
+                        suggestion: `Define tag '${usedTag}' in the root \`tags\` array.`,
+                        fix: {
+                            description: `Declare tag '${usedTag}' in the root \`tags\` array`,
+                            patch: [hasTagsArray
+                                ? { op: 'add', path: toPointer('tags', '-'), value: { name: usedTag } }
+                                : { op: 'add', path: toPointer('tags'), value: [{ name: usedTag }] }],
+                            safe: true,
+                        }
                     });
+                    hasTagsArray = true;
                 }
             });
         } else if (operationsExist && definedTags.size > 0 && usedTagsInOps.size === 0) {
             violations.push({
-                path: '', location: 'operations',
+                path: '', location: 'operations', pointer: toPointer('paths'),
+                ruleId: 'misc.tags-unused',
                 message: 'Tags are defined, but no operations use them.',
                 severity: 'info',
                 suggestion: 'Assign defined tags to operations for organization.'
             });
         } else if (operationsExist && definedTags.size === 0) {
             violations.push({
-                path: '', location: 'spec.tags / operations',
+                path: '', location: 'spec.tags / operations', pointer: toPointer('paths'),
+                ruleId: 'misc.tags-missing',
                 message: 'Operations exist but no tags are defined or used. Consider using tags.',
                 severity: 'info',
                 suggestion: 'Define and use tags for better API organization.'
@@ -200,7 +241,7 @@ export class MiscellaneousBestPracticesRule implements Rule {
         return { score: Math.max(0, Math.min(score, maxScore)), maxScore };
     }
 
-    private checkComponentsReuse(spec: OpenAPIV3.Document, violations: RuleViolation[]): { score: number, maxScore: number } {
+    private checkComponentsReuse(spec: OpenAPIDocument, violations: RuleViolation[]): { score: number, maxScore: number } {
         let score = 0;
         const maxScore = 2;
 
@@ -221,14 +262,16 @@ export class MiscellaneousBestPracticesRule implements Rule {
             if (numPaths >= this.MIN_PATHS_FOR_COMPONENT_EXPECTATION) {
                 if (componentsDefined) {
                     violations.push({
-                        path: '', location: 'components / various',
+                        path: '', location: 'components / various', pointer: toPointer('components'),
+                        ruleId: 'misc.components-unused',
                         message: 'Components are defined, but no `$ref` keywords were found, suggesting they might not be reused.',
                         severity: 'info',
                         suggestion: 'Use `$ref` to reference items from `components` for reusability.'
                     });
                 } else {
                      violations.push({
-                        path: '', location: 'components',
+                        path: '', location: 'components', pointer: toPointer('components'),
+                        ruleId: 'misc.components-missing',
                         message: 'API has several paths but does not define or use reusable components.',
                         severity: 'info',
                         suggestion: 'Define reusable schemas, responses, parameters, etc., in the `components` section.'
@@ -239,7 +282,7 @@ export class MiscellaneousBestPracticesRule implements Rule {
         return { score, maxScore };
     }
 
-    private checkInfoCompleteness(spec: OpenAPIV3.Document, violations: RuleViolation[]): { score: number, maxScore: number } {
+    private checkInfoCompleteness(spec: OpenAPIDocument, violations: RuleViolation[]): { score: number, maxScore: number } {
         let score = 0;
         const maxScore = 2;
 
@@ -247,7 +290,8 @@ export class MiscellaneousBestPracticesRule implements Rule {
             score++;
         } else {
             violations.push({
-                path: '', location: 'info.contact',
+                path: '', location: 'info.contact', pointer: toPointer('info', 'contact'),
+                ruleId: 'misc.contact-missing',
                 message: 'Contact information (`info.contact`) is missing or empty.',
                 severity: 'info',
                 suggestion: 'Add contact details (name, email, or URL) to `info.contact`.'
@@ -256,9 +300,20 @@ export class MiscellaneousBestPracticesRule implements Rule {
 
         if (spec.info?.license && spec.info.license.name) {
             score++;
+            const license = spec.info.license as { identifier?: string; url?: string };
+            if (isOpenAPI31(spec) && license.identifier && license.url) {
+                violations.push({
+                    path: '', location: 'info.license', pointer: toPointer('info', 'license'),
+                    ruleId: 'misc.license-identifier-and-url',
+                    message: 'License defines both `identifier` and `url`, which are mutually exclusive in OpenAPI 3.1.',
+                    severity: 'warning',
+                    suggestion: 'Keep the SPDX `identifier` and remove `url`, or the other way round.'
+                });
+            }
         } else {
             violations.push({
-                path: '', location: 'info.license',
+                path: '', location: 'info.license', pointer: toPointer('info', 'license'),
+                ruleId: 'misc.license-missing',
                 message: 'License information (`info.license.name`) is missing.',
                 severity: 'info',
                 suggestion: 'Add license details (at least `name`) to `info.license`.'
@@ -267,47 +322,54 @@ export class MiscellaneousBestPracticesRule implements Rule {
         return { score, maxScore };
     }
 
-    private checkOperationIds(spec: OpenAPIV3.Document, violations: RuleViolation[]): { score: number, maxScore: number } {
+    private checkOperationIds(spec: OpenAPIDocument, violations: RuleViolation[]): { score: number, maxScore: number } {
         let score = 0;
         const maxScore = 2;
 
         const opIds = new Set<string>();
+        // Every id of the document, so generated ids don't collide with ids declared later on
+        const takenIds = new Set<string>();
+        getPathItems(spec).forEach(({ pathItem }) => Object.values(pathItem).forEach(op => {
+            const operationId = (op as OpenAPIV3.OperationObject | undefined)?.operationId;
+            if (typeof operationId === 'string') takenIds.add(operationId);
+        }));
         let allOpsHaveId = true;
         let duplicateFound = false;
         let opCount = 0;
 
-        if (spec.paths) {
-            Object.entries(spec.paths).forEach(([path, pathItem]) => {
-                if (!pathItem) return;
-                Object.entries(pathItem).forEach(([method, op]) => {
-                    if (['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'].includes(method.toLowerCase())) {
-                        opCount++;
-                        const operation = op as OpenAPIV3.OperationObject;
-                        if (operation.operationId && operation.operationId.trim() !== "") {
-                            if (opIds.has(operation.operationId)) {
-                                duplicateFound = true;
-                                violations.push({
-                                    path, location: `${path}.${method}.operationId`,
-                                    message: `Duplicate operationId '${operation.operationId}'. Must be unique.`,
-                                    severity: 'error',
-                                    suggestion: 'Ensure all operationIds are unique.'
-                                });
-                            } else {
-                                opIds.add(operation.operationId);
-                            }
-                        } else {
-                            allOpsHaveId = false;
+        // operationIds must be unique across paths and webhooks alike
+        getPathItems(spec).forEach(({ path, pointer, pathItem }) => {
+            Object.entries(pathItem).forEach(([method, op]) => {
+                if (['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'].includes(method.toLowerCase())) {
+                    opCount++;
+                    const operation = op as OpenAPIV3.OperationObject;
+                    if (operation.operationId && operation.operationId.trim() !== "") {
+                        if (opIds.has(operation.operationId)) {
+                            duplicateFound = true;
                             violations.push({
-                                path, location: `${path}.${method}`,
-                                message: `Operation ${method.toUpperCase()} ${path} is missing an \`operationId\`.`,
-                                severity: 'warning',
-                                suggestion: 'Add a unique `operationId` to each operation.'
+                                path, location: `${path}.${method}.operationId`, pointer: pointer + toPointer(method, 'operationId'),
+                                ruleId: 'misc.operation-id-duplicate',
+                                message: `Duplicate operationId '${operation.operationId}'. Must be unique.`,
+                                severity: 'error',
+                                suggestion: 'Ensure all operationIds are unique.'
                             });
+                        } else {
+                            opIds.add(operation.operationId);
                         }
+                    } else {
+                        allOpsHaveId = false;
+                        violations.push({
+                            path, location: `${path}.${method}`, pointer: pointer + toPointer(method),
+                            ruleId: 'misc.operation-id-missing',
+                            message: `Operation ${method.toUpperCase()} ${path} is missing an \`operationId\`.`,
+                            severity: 'warning',
+                            suggestion: 'Add a unique `operationId` to each operation.',
+                            fix: this.createOperationIdFix(method, path, pointer + toPointer(method, 'operationId'), takenIds)
+                        });
                     }
-                });
+                }
             });
-        }
+        });
 
         if (opCount > 0) {
             if (allOpsHaveId) score++;
@@ -318,17 +380,39 @@ export class MiscellaneousBestPracticesRule implements Rule {
         return { score, maxScore };
     }
     
-    private checkExternalDocs(spec: OpenAPIV3.Document, violations: RuleViolation[]): { score: number, maxScore: number } {
+    // Derives the id from the method and path, e.g. GET /pets/{id} -> getPetsById, with a number appended when taken
+    private createOperationIdFix(method: string, path: string, pointer: string, takenIds: Set<string>): RuleViolation['fix'] {
+        const words = path.replace(/^webhooks\./, '').split(/[^A-Za-z0-9{}]+/).filter(Boolean).map(segment => {
+            const parameter = /^\{(.+)\}$/.exec(segment);
+            const word = (parameter ? parameter[1] : segment).replace(/[{}]/g, '');
+            return (parameter ? 'By' : '') + word.charAt(0).toUpperCase() + word.slice(1);
+        });
+        const base = method.toLowerCase() + words.join('');
+        let operationId = base;
+        for (let suffix = 2; takenIds.has(operationId); suffix++) {
+            operationId = `${base}${suffix}`;
+        }
+        takenIds.add(operationId);
+
+        return {
+            description: `Set the operationId of ${method.toUpperCase()} ${path} to '${operationId}'`,
+            patch: [{ op: 'add', path: pointer, value: operationId }],
+            safe: true,
+        };
+    }
+
+    private checkExternalDocs(spec: OpenAPIDocument, violations: RuleViolation[]): { score: number, maxScore: number } {
         let score = 0;
         const maxScore = 1;
 
-        const hasValidExternalDoc = (doc: OpenAPIV3.ExternalDocumentationObject | undefined, loc: string): boolean => {
+        const hasValidExternalDoc = (doc: OpenAPIV3.ExternalDocumentationObject | undefined, loc: string, pointer: string): boolean => {
             if (doc) {
                 if (doc.url && URL_REGEX.test(doc.url)) {
                     return true;
                 } else {
                     violations.push({
-                        path: '', location: loc,
+                        path: '', location: loc, pointer,
+                        ruleId: 'misc.external-docs-url',
                         message: `ExternalDocumentation object at '${loc}' is missing a valid 'url'.`,
                         severity: 'info', // Not critical, but good to have URL if object exists
                         suggestion: "Provide a valid 'url' for the external documentation."
@@ -338,21 +422,20 @@ export class MiscellaneousBestPracticesRule implements Rule {
             return false;
         };
 
-        if (hasValidExternalDoc(spec.externalDocs, 'externalDocs')) {
+        if (hasValidExternalDoc(spec.externalDocs, 'externalDocs', toPointer('externalDocs'))) {
             score = 1;
         } else {
             let usedElsewhereCorrectly = false;
             if (spec.tags) {
                 spec.tags.forEach((tag, i) => {
-                    if (hasValidExternalDoc(tag.externalDocs, `tags[${i}].externalDocs`)) usedElsewhereCorrectly = true;
+                    if (hasValidExternalDoc(tag.externalDocs, `tags[${i}].externalDocs`, toPointer('tags', i, 'externalDocs'))) usedElsewhereCorrectly = true;
                 });
             }
-            if (spec.paths && !usedElsewhereCorrectly) {
-                Object.entries(spec.paths).forEach(([path, pi]) => {
-                    if (!pi) return;
+            if (!usedElsewhereCorrectly) {
+                getPathItems(spec).forEach(({ path, pointer, pathItem: pi }) => {
                     Object.entries(pi).forEach(([method, op]) => {
                         const operation = op as OpenAPIV3.OperationObject;
-                        if (operation && hasValidExternalDoc(operation.externalDocs, `${path}.${method}.externalDocs`)) {
+                        if (operation && hasValidExternalDoc(operation.externalDocs, `${path}.${method}.externalDocs`, pointer + toPointer(method, 'externalDocs'))) {
                             usedElsewhereCorrectly = true;
                         }
                     });
@@ -362,7 +445,8 @@ export class MiscellaneousBestPracticesRule implements Rule {
                 score = 1;
             } else if (!spec.externalDocs && !(spec.tags?.some(t=>t.externalDocs)) /* etc */) {
                  violations.push({
-                    path: '', location: 'spec',
+                    path: '', location: 'spec', pointer: '',
+                    ruleId: 'misc.external-docs-missing',
                     message: 'Consider using `externalDocs` for links to additional documentation.',
                     severity: 'info',
                     suggestion: 'Use `externalDocs` at the root, tag, or operation level.'
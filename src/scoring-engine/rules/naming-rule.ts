@@ -0,0 +1,236 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { NamingCasing, NamingConfig, OpenAPIDocument, Rule, RuleResult, RuleSettings, RuleViolation } from '../types';
+import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../constants";
+import { createExplanation, scoreBySeverity } from '../explanation';
+import { finalizeViolations, getOperationMethods, getPathItems, toPointer } from '../spec-utils';
+
+type NamingTarget = keyof NamingConfig;
+
+interface Casing {
+    pattern: RegExp;
+    format(words: string[]): string;
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const CASINGS: Record<NamingCasing, Casing> = {
+    camelCase: { pattern: /^[a-z][a-zA-Z0-9]*$/, format: words => words.map((word, index) => index === 0 ? word : capitalize(word)).join('') },
+    PascalCase: { pattern: /^[A-Z][a-zA-Z0-9]*$/, format: words => words.map(capitalize).join('') },
+    snake_case: { pattern: /^[a-z][a-z0-9]*(_[a-z0-9]+)*$/, format: words => words.join('_') },
+    'kebab-case': { pattern: /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/, format: words => words.join('-') },
+    'Train-Case': { pattern: /^[A-Z][a-zA-Z0-9]*(-[A-Z0-9][a-zA-Z0-9]*)*$/, format: words => words.map(capitalize).join('-') },
+};
+
+export const NAMING_CASINGS = Object.keys(CASINGS) as NamingCasing[];
+
+// Casings in the order a tie is broken in when the casing is inferred, the most common convention first
+const INFERENCE_ORDER: Record<NamingTarget, NamingCasing[]> = {
+    properties: ['camelCase', 'snake_case', 'PascalCase', 'kebab-case', 'Train-Case'],
+    queryParameters: ['camelCase', 'snake_case', 'kebab-case', 'PascalCase', 'Train-Case'],
+    headers: ['Train-Case', 'kebab-case', 'PascalCase', 'camelCase', 'snake_case'],
+    components: ['PascalCase', 'camelCase', 'snake_case', 'kebab-case', 'Train-Case'],
+};
+
+const TARGET_DETAILS: Record<NamingTarget, { ruleId: string; label: string; plural: string }> = {
+    properties: { ruleId: 'naming.property-casing', label: 'Property', plural: 'properties' },
+    queryParameters: { ruleId: 'naming.query-parameter-casing', label: 'Query parameter', plural: 'query parameters' },
+    headers: { ruleId: 'naming.header-casing', label: 'Header', plural: 'headers' },
+    components: { ruleId: 'naming.component-casing', label: 'Component', plural: 'components' },
+};
+
+// Names that follow a casing of their own, like HAL's `_links` or `@odata.type`, keep their prefix
+const NAME_PREFIX = /^[_$@]+/;
+
+// A name as it is written in the document
+interface NamedElement {
+    target: NamingTarget;
+    // Names are compared within a group: one per target, and one per section for component names
+    group: string;
+    name: string;
+    path: string;
+    pointer: string;
+}
+
+export class NamingConventionRule implements Rule {
+    name = RULE_NAMES.naming;
+    description = RULE_DESCRIPTIONS.naming;
+    weight: number;
+
+    constructor(private settings: RuleSettings = {}) {
+        this.weight = settings.weight ?? CRITERIA_WEIGHTS.naming;
+    }
+
+    evaluate(spec: OpenAPIDocument): RuleResult {
+        const elements = this.collectNames(spec);
+        if (elements.length === 0) {
+            return {
+                score: this.weight,
+                maxScore: this.weight,
+                violations: [],
+                explanation: createExplanation('The document names no properties, parameters, headers or components, so the category scores full marks')
+            };
+        }
+
+        const groups = new Map<string, NamedElement[]>();
+        elements.forEach(element => groups.set(element.group, [...(groups.get(element.group) || []), element]));
+
+        const violations: RuleViolation[] = [];
+        groups.forEach(group => {
+            const target = group[0].target;
+            const configured = this.settings.naming?.[target];
+            const casing = configured ?? this.inferCasing(group, target);
+
+            group.filter(({ name }) => !CASINGS[casing].pattern.test(name.replace(NAME_PREFIX, '')))
+                .forEach(({ name, path, pointer }) => {
+                    const { ruleId, label, plural } = TARGET_DETAILS[target];
+                    const rename = this.rename(name, casing);
+                    const section = target === 'components' ? ` in components.${pointer.split('/')[2]}` : '';
+                    violations.push({
+                        ruleId,
+                        path,
+                        location: this.toLocation(pointer),
+                        pointer,
+                        message: `${label} '${name}'${section} is not ${casing}, the casing ${configured ? `configured for ${plural}` : `most ${plural}${section} use`}`,
+                        severity: target === 'headers' ? 'info' : 'warning',
+                        suggestion: rename
+                            ? `Rename '${name}' to '${rename}'`
+                            : `Rename '${name}' to follow ${casing}`
+                    });
+                });
+        });
+
+        const finalized = finalizeViolations(violations, spec, this.settings.checks);
+        const { score, explanation } = scoreBySeverity(
+            finalized.violations, elements.length, this.weight, this.settings.severityWeights, 'names');
+
+        return {
+            score,
+            maxScore: this.weight,
+            violations: finalized.violations,
+            suppressed: finalized.suppressed,
+            explanation
+        };
+    }
+
+    // The casing most names of the group follow. A name can follow several, e.g. 'name' is camelCase and snake_case.
+    private inferCasing(group: NamedElement[], target: NamingTarget): NamingCasing {
+        const order = INFERENCE_ORDER[target];
+        const counts = order.map(casing =>
+            group.filter(({ name }) => CASINGS[casing].pattern.test(name.replace(NAME_PREFIX, ''))).length);
+        return order[counts.indexOf(Math.max(...counts))];
+    }
+
+    // 'created_at', 'CreatedAt' and 'createdAT' -> 'createdAt' in camelCase; unset when the name cannot follow the casing
+    private rename(name: string, casing: NamingCasing): string | undefined {
+        const prefix = name.match(NAME_PREFIX)?.[0] || '';
+        const words = name.substring(prefix.length)
+            .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+            .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+            .split(/[^A-Za-z0-9]+/)
+            .filter(Boolean)
+            .map(word => word.toLowerCase());
+        const renamed = CASINGS[casing].format(words);
+        return words.length > 0 && CASINGS[casing].pattern.test(renamed) ? prefix + renamed : undefined;
+    }
+
+    // Every property, query parameter, header and component name where it is written; references are not followed,
+    // so schemas under components and inline schemas are each checked once
+    private collectNames(spec: OpenAPIDocument): NamedElement[] {
+        const elements: NamedElement[] = [];
+        const components = (spec.components || {}) as OpenAPIV3.ComponentsObject;
+
+        Object.entries(components as Record<string, unknown>)
+            .filter((entry): entry is [string, object] => !entry[0].startsWith('x-') && !!entry[1] && typeof entry[1] === 'object')
+            .forEach(([section, entries]) => {
+                Object.keys(entries).forEach(name => elements.push({
+                    target: 'components', group: `components/${section}`, name, path: '', pointer: toPointer('components', section, name),
+                }));
+            });
+
+        Object.entries(components.schemas || {}).forEach(([name, schema]) =>
+            this.collectSchemaNames(schema, toPointer('components', 'schemas', name), '', elements));
+        Object.entries(components.parameters || {}).forEach(([name, parameter]) =>
+            this.collectParameterNames(parameter, toPointer('components', 'parameters', name), '', elements));
+        Object.entries(components.requestBodies || {}).forEach(([name, requestBody]) => {
+            if (requestBody && !('$ref' in requestBody)) {
+                this.collectContentNames(requestBody.content, toPointer('components', 'requestBodies', name), '', elements);
+            }
+        });
+        Object.entries(components.responses || {}).forEach(([name, response]) =>
+            this.collectResponseNames(response, toPointer('components', 'responses', name), '', elements));
+        Object.entries(components.headers || {}).forEach(([name, header]) => {
+            if (header && !('$ref' in header) && header.schema) this.collectSchemaNames(header.schema, toPointer('components', 'headers', name, 'schema'), '', elements);
+        });
+
+        getPathItems(spec).forEach(({ path, pointer, pathItem }) => {
+            (pathItem.parameters || []).forEach((parameter, index) =>
+                this.collectParameterNames(parameter, pointer + toPointer('parameters', index), path, elements));
+
+            getOperationMethods(pathItem).forEach(method => {
+                const operation = pathItem[method as OpenAPIV3.HttpMethods] as OpenAPIV3.OperationObject;
+                const operationPointer = pointer + toPointer(method);
+                (operation.parameters || []).forEach((parameter, index) =>
+                    this.collectParameterNames(parameter, operationPointer + toPointer('parameters', index), path, elements));
+                if (operation.requestBody && !('$ref' in operation.requestBody)) {
+                    this.collectContentNames(operation.requestBody.content, operationPointer + toPointer('requestBody'), path, elements);
+                }
+                Object.entries(operation.responses || {}).forEach(([statusCode, response]) =>
+                    this.collectResponseNames(response, operationPointer + toPointer('responses', statusCode), path, elements));
+            });
+        });
+
+        return elements;
+    }
+
+    private collectParameterNames(parameter: OpenAPIV3.ReferenceObject | OpenAPIV3.ParameterObject | undefined, pointer: string, path: string, elements: NamedElement[]): void {
+        if (!parameter || typeof parameter !== 'object' || '$ref' in parameter) return;
+        if (typeof parameter.name === 'string' && (parameter.in === 'query' || parameter.in === 'header')) {
+            const target: NamingTarget = parameter.in === 'query' ? 'queryParameters' : 'headers';
+            elements.push({ target, group: target, name: parameter.name, path, pointer: pointer + toPointer('name') });
+        }
+        if (parameter.schema) this.collectSchemaNames(parameter.schema, pointer + toPointer('schema'), path, elements);
+        this.collectContentNames(parameter.content, pointer, path, elements);
+    }
+
+    private collectResponseNames(response: OpenAPIV3.ReferenceObject | OpenAPIV3.ResponseObject | undefined, pointer: string, path: string, elements: NamedElement[]): void {
+        if (!response || typeof response !== 'object' || '$ref' in response) return;
+        Object.entries(response.headers || {}).forEach(([name, header]) => {
+            elements.push({ target: 'headers', group: 'headers', name, path, pointer: pointer + toPointer('headers', name) });
+            if (header && !('$ref' in header) && header.schema) this.collectSchemaNames(header.schema, pointer + toPointer('headers', name, 'schema'), path, elements);
+        });
+        this.collectContentNames(response.content, pointer, path, elements);
+    }
+
+    private collectContentNames(content: Record<string, OpenAPIV3.MediaTypeObject> | undefined, pointer: string, path: string, elements: NamedElement[]): void {
+        Object.entries(content || {}).forEach(([mediaType, mediaTypeObject]) => {
+            if (mediaTypeObject?.schema) {
+                this.collectSchemaNames(mediaTypeObject.schema, pointer + toPointer('content', mediaType, 'schema'), path, elements);
+            }
+        });
+    }
+
+    private collectSchemaNames(schema: unknown, pointer: string, path: string, elements: NamedElement[]): void {
+        if (!schema || typeof schema !== 'object' || '$ref' in schema) return;
+        const keywords = schema as Record<string, unknown>;
+
+        Object.entries(keywords.properties || {}).forEach(([name, property]) => {
+            elements.push({ target: 'properties', group: 'properties', name, path, pointer: pointer + toPointer('properties', name) });
+            this.collectSchemaNames(property, pointer + toPointer('properties', name), path, elements);
+        });
+        ['items', 'additionalProperties', 'not'].forEach(keyword => {
+            if (!Array.isArray(keywords[keyword])) this.collectSchemaNames(keywords[keyword], pointer + toPointer(keyword), path, elements);
+        });
+        ['allOf', 'oneOf', 'anyOf', 'prefixItems'].forEach(keyword => {
+            const members = keywords[keyword];
+            if (Array.isArray(members)) {
+                members.forEach((member, index) =>
+                    this.collectSchemaNames(member, pointer + toPointer(keyword, index), path, elements));
+            }
+        });
+    }
+
+    // '/components/schemas/Pet/properties/created_at' -> 'components.schemas.Pet.properties.created_at'
+    private toLocation(pointer: string): string {
+        return pointer.split('/').slice(1).map(segment => segment.replace(/~1/g, '/').replace(/~0/g, '~')).join('.');
+    }
+}
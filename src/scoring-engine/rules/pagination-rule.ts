@@ -0,0 +1,255 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIDocument, PaginationStyle, Rule, RuleResult, RuleSettings, RuleViolation } from '../types';
+import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../constants";
+import { resolveParameter, resolveResponse, resolveSchema } from '../helper-functions';
+import { createExplanation, scoreBySeverity } from '../explanation';
+import { finalizeViolations, getPathItems, getTargetPointer, hasSchemaType, isCollectionPath, toPointer } from '../spec-utils';
+
+export const PAGINATION_STYLES: PaginationStyle[] = ['offset', 'page', 'cursor'];
+
+// Query parameters that give away the style, by name without case and separators, e.g. 'page[number]' -> 'pagenumber'
+const STYLE_PARAMETERS: Record<PaginationStyle, string[]> = {
+    cursor: ['cursor', 'pagecursor', 'after', 'before', 'pageafter', 'pagebefore', 'pagetoken', 'nexttoken', 'continuationtoken', 'startingafter', 'endingbefore'],
+    page: ['page', 'pagenumber', 'pageindex', 'pagenum', 'pageno'],
+    offset: ['offset', 'pageoffset', 'skip', 'start'],
+};
+// Styles in the order they are recognized when an operation mixes parameters of several
+const DETECTION_ORDER: PaginationStyle[] = ['cursor', 'page', 'offset'];
+const SIZE_PARAMETERS = ['limit', 'pagelimit', 'size', 'pagesize', 'perpage', 'maxresults', 'maxitems', 'maxpagesize', 'top', 'take', 'first'];
+// How the suggestions name the parameters of a style
+const STYLE_EXAMPLES: Record<PaginationStyle, string> = {
+    offset: '`offset` and `limit`',
+    page: '`page` and `size`',
+    cursor: '`cursor` and `limit`',
+};
+
+// Response fields that point at the next page or tell whether there is one, e.g. `next`, `nextCursor` or `@odata.nextLink`
+const NEXT_FIELD = /^(next|hasmore|hasnext)|nextlink$/;
+// Objects of the response the next-page fields are commonly nested in, e.g. `_links` or `meta`
+const ENVELOPE_FIELDS = ['links', 'meta', 'pagination', 'paging', 'page', 'pageinfo', 'cursor', 'cursors'];
+
+interface CollectionOperation {
+    path: string;
+    pointer: string;
+    operation: OpenAPIV3.OperationObject;
+    // Query parameters of the path item and the operation, with the pointer of their definition
+    parameters: { parameter: OpenAPIV3.ParameterObject; pointer: string }[];
+    style?: PaginationStyle;
+    signalsNextPage: boolean;
+}
+
+export class PaginationRule implements Rule {
+    name = RULE_NAMES.pagination;
+    description = RULE_DESCRIPTIONS.pagination;
+    weight: number;
+
+    constructor(private settings: RuleSettings = {}) {
+        this.weight = settings.weight ?? CRITERIA_WEIGHTS.pagination;
+    }
+
+    evaluate(spec: OpenAPIDocument): RuleResult {
+        const operations = this.getCollectionOperations(spec);
+        if (operations.length === 0) {
+            return {
+                score: this.weight,
+                maxScore: this.weight,
+                violations: [],
+                explanation: createExplanation('The document has no collection GET operations to paginate, so the category scores full marks')
+            };
+        }
+
+        const preferredStyle = this.settings.pagination?.style;
+        const expectedStyle = preferredStyle ?? this.getDominantStyle(operations);
+        const violations: RuleViolation[] = [];
+        // A shared page size parameter is reported once, at its definition
+        const checkedBounds = new Set<string>();
+
+        operations.forEach(collection => {
+            const { path, pointer, style } = collection;
+            const location = `${path}.get`;
+
+            if (!style) {
+                violations.push({
+                    ruleId: 'pagination.missing-parameters',
+                    path,
+                    operation: 'GET',
+                    location,
+                    pointer,
+                    message: `GET ${path} returns a collection but has no pagination parameters`,
+                    severity: 'warning',
+                    suggestion: expectedStyle
+                        ? `Add ${STYLE_EXAMPLES[expectedStyle]} query parameters like the other collection endpoints, so clients can fetch the collection in pages`
+                        : 'Add pagination query parameters, e.g. `cursor` and `limit`, so clients can fetch the collection in pages'
+                });
+                return;
+            }
+
+            if (expectedStyle && style !== expectedStyle) {
+                violations.push({
+                    ruleId: 'pagination.mixed-styles',
+                    path,
+                    operation: 'GET',
+                    location,
+                    pointer: pointer + toPointer('parameters'),
+                    message: `GET ${path} uses ${style} pagination, but ${preferredStyle
+                        ? `${preferredStyle} pagination is preferred`
+                        : `most collection endpoints use ${expectedStyle} pagination`}`,
+                    severity: 'warning',
+                    suggestion: `Page with ${STYLE_EXAMPLES[expectedStyle]}, so clients can page through every collection the same way`
+                });
+            }
+
+            collection.parameters
+                .filter(({ parameter }) => SIZE_PARAMETERS.includes(this.normalize(parameter.name)))
+                .forEach(({ parameter, pointer: parameterPointer }) => {
+                    const schemaPointer = parameterPointer + toPointer('schema');
+                    if (checkedBounds.has(schemaPointer)) return;
+                    checkedBounds.add(schemaPointer);
+
+                    const schema = parameter.schema ? resolveSchema(parameter.schema, spec) : undefined;
+                    const missing = ['minimum', 'maximum'].filter(bound => typeof (schema as Record<string, unknown> | undefined)?.[bound] !== 'number');
+                    if (missing.length === 0) return;
+                    violations.push({
+                        ruleId: 'pagination.limit-bounds',
+                        path,
+                        operation: 'GET',
+                        location: `${location}.parameters.${parameter.name}`,
+                        pointer: parameter.schema ? schemaPointer : parameterPointer,
+                        message: `Page size parameter '${parameter.name}' of GET ${path} has no ${missing.join(' or ')}`,
+                        severity: 'warning',
+                        suggestion: 'Declare a minimum of 1 and the largest page the server returns as maximum, so clients know how much they can ask for at once'
+                    });
+                });
+
+            if (!collection.signalsNextPage) {
+                violations.push({
+                    ruleId: 'pagination.missing-next-link',
+                    path,
+                    operation: 'GET',
+                    location: `${location}.responses`,
+                    pointer: pointer + toPointer('responses'),
+                    message: `GET ${path} is paginated, but its response signals the next page neither by a Link header nor by a next field`,
+                    severity: 'warning',
+                    suggestion: style === 'cursor'
+                        ? 'Return the cursor of the next page, e.g. in a `next_cursor` field, or a Link header with rel="next"'
+                        : 'Add a Link header with rel="next", or a `next` link or `has_more` flag to the response body'
+                });
+            }
+        });
+
+        const finalized = finalizeViolations(violations, spec, this.settings.checks);
+        const { score, explanation } = scoreBySeverity(
+            finalized.violations, operations.length, this.weight, this.settings.severityWeights, 'collection operations');
+
+        return {
+            score,
+            maxScore: this.weight,
+            violations: finalized.violations,
+            suppressed: finalized.suppressed,
+            explanation
+        };
+    }
+
+    // GET operations of collection paths whose success response is a list, or has no schema to tell
+    private getCollectionOperations(spec: OpenAPIDocument): CollectionOperation[] {
+        return getPathItems(spec, false)
+            .filter(({ path, pathItem }) => isCollectionPath(path) && pathItem.get)
+            .flatMap(({ path, pointer, pathItem }) => {
+                const operation = pathItem.get!;
+                const operationPointer = pointer + toPointer('get');
+                const response = this.getSuccessResponse(operation, spec);
+                const schema = response && this.getResponseSchema(response, spec);
+                if (schema && !this.isList(schema, spec)) return [];
+
+                const parameters = this.getQueryParameters(pathItem, pointer, operation, operationPointer, spec);
+                const names = parameters.map(({ parameter }) => this.normalize(parameter.name));
+                const signalsNextPage = !!response && this.signalsNextPage(response, schema, spec);
+                // Parameters only bounding the page size leave paging to the links of the response, which then work as cursors
+                const style = DETECTION_ORDER.find(candidate => STYLE_PARAMETERS[candidate].some(name => names.includes(name)))
+                    ?? (signalsNextPage && names.some(name => SIZE_PARAMETERS.includes(name)) ? 'cursor' : undefined);
+
+                return [{ path, pointer: operationPointer, operation, parameters, style, signalsNextPage }];
+            });
+    }
+
+    // Operation parameters override path item parameters of the same name and location
+    private getQueryParameters(
+        pathItem: OpenAPIV3.PathItemObject,
+        pathItemPointer: string,
+        operation: OpenAPIV3.OperationObject,
+        operationPointer: string,
+        spec: OpenAPIDocument
+    ): CollectionOperation['parameters'] {
+        const parameters = new Map<string, CollectionOperation['parameters'][number]>();
+        [
+            { list: pathItem.parameters || [], pointer: pathItemPointer },
+            { list: operation.parameters || [], pointer: operationPointer },
+        ].forEach(({ list, pointer }) => {
+            list.forEach((value, index) => {
+                const parameter = resolveParameter(value, spec);
+                if (!parameter || parameter.in !== 'query' || typeof parameter.name !== 'string') return;
+                parameters.set(parameter.name, { parameter, pointer: getTargetPointer(value, pointer + toPointer('parameters', index)) });
+            });
+        });
+        return [...parameters.values()];
+    }
+
+    // The style most collection endpoints use; on a tie, the one used first
+    private getDominantStyle(operations: CollectionOperation[]): PaginationStyle | undefined {
+        const counts = new Map<PaginationStyle, number>();
+        operations.forEach(({ style }) => {
+            if (style) counts.set(style, (counts.get(style) || 0) + 1);
+        });
+        let dominant: PaginationStyle | undefined;
+        counts.forEach((count, style) => {
+            if (!dominant || count > counts.get(dominant)!) dominant = style;
+        });
+        return dominant;
+    }
+
+    private getSuccessResponse(operation: OpenAPIV3.OperationObject, spec: OpenAPIDocument): OpenAPIV3.ResponseObject | undefined {
+        const responses = operation.responses || {};
+        const code = '200' in responses ? '200' : Object.keys(responses).find(key => /^2(\d\d|XX)$/i.test(key));
+        return code && responses[code] ? resolveResponse(responses[code], spec) : undefined;
+    }
+
+    // Schema of the JSON content of a response, or of its first media type
+    private getResponseSchema(response: OpenAPIV3.ResponseObject, spec: OpenAPIDocument): OpenAPIV3.SchemaObject | undefined {
+        const content = response.content || {};
+        const mediaType = Object.keys(content).find(type => type.includes('json')) ?? Object.keys(content)[0];
+        const schema = mediaType ? content[mediaType].schema : undefined;
+        return schema ? resolveSchema(schema, spec) : undefined;
+    }
+
+    // An array, or an envelope object with an array property
+    private isList(schema: OpenAPIV3.SchemaObject, spec: OpenAPIDocument): boolean {
+        if (hasSchemaType(schema, 'array')) return true;
+        return this.getProperties(schema, spec).some(([, property]) => hasSchemaType(property, 'array'));
+    }
+
+    private signalsNextPage(response: OpenAPIV3.ResponseObject, schema: OpenAPIV3.SchemaObject | undefined, spec: OpenAPIDocument): boolean {
+        const headers = Object.keys(response.headers || {}).map(name => name.toLowerCase());
+        if (headers.some(name => name === 'link' || name.includes('next'))) return true;
+        if (!schema) return false;
+
+        return this.getProperties(schema, spec).some(([name, property]) => {
+            const normalized = this.normalize(name);
+            return NEXT_FIELD.test(normalized) || (ENVELOPE_FIELDS.includes(normalized) &&
+                this.getProperties(property, spec).some(([nested]) => NEXT_FIELD.test(this.normalize(nested))));
+        });
+    }
+
+    // Properties of a schema and of the members of its allOf, resolved
+    private getProperties(schema: OpenAPIV3.SchemaObject, spec: OpenAPIDocument): [string, OpenAPIV3.SchemaObject][] {
+        const members = [schema, ...(schema.allOf || []).map(member => resolveSchema(member, spec))]
+            .filter((member): member is OpenAPIV3.SchemaObject => !!member);
+        return members.flatMap(member => Object.entries(member.properties || {}))
+            .map(([name, property]) => [name, resolveSchema(property, spec)] as [string, OpenAPIV3.SchemaObject | undefined])
+            .filter((entry): entry is [string, OpenAPIV3.SchemaObject] => !!entry[1]);
+    }
+
+    // 'page[size]', 'per_page' and 'maxResults' -> 'pagesize', 'perpage' and 'maxresults'
+    private normalize(name: string): string {
+        return name.toLowerCase().replace(/[^a-z0-9]/g, '');
+    }
+}
@@ -1,12 +1,14 @@
 import { OpenAPIV3 } from 'openapi-types';
-import { Rule, RuleResult, RuleViolation } from '../types';
+import { OpenAPIDocument, Rule, RuleResult, RuleSettings, RuleViolation } from '../types';
 import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../constants";
 import { calculateScore } from '../helper-functions';
+import { createExplanation, scoreBySeverity } from '../explanation';
+import { finalizeViolations, getPathItems, isCollectionPath, isOpenAPI31, toPointer } from '../spec-utils';
 
 export class PathsOperationsRule implements Rule {
     name = RULE_NAMES.paths_operations;
     description = RULE_DESCRIPTIONS.paths_operations;
-    weight = CRITERIA_WEIGHTS.paths_operations;
+    weight: number;
 
     // Common HTTP methods and their expected usage
     private readonly HTTP_METHODS = {
@@ -48,47 +50,70 @@ export class PathsOperationsRule implements Rule {
         trailingSlash: /\/$/
     };
 
-    evaluate(spec: OpenAPIV3.Document): RuleResult {
-        const violations: RuleViolation[] = [];
+    constructor(private settings: RuleSettings = {}) {
+        this.weight = settings.weight ?? CRITERIA_WEIGHTS.paths_operations;
+    }
+
+    evaluate(spec: OpenAPIDocument): RuleResult {
+        let violations: RuleViolation[] = [];
 
         if (!spec.paths || Object.keys(spec.paths).length === 0) {
+            // OpenAPI 3.1 allows documents that only describe webhooks or components
+            if (isOpenAPI31(spec) && (getPathItems(spec).length > 0 || spec.components)) {
+                return {
+                    score: this.weight,
+                    maxScore: this.weight,
+                    violations,
+                    explanation: createExplanation('The document has no paths to check, which OpenAPI 3.1 allows, so the category scores full marks')
+                };
+            }
             return {
                 score: 0,
                 maxScore: this.weight,
-                violations: [{
+                explanation: createExplanation('The document defines no paths, so the category scores 0'),
+                ...finalizeViolations([{
                     path: '',
                     location: 'paths',
+                    pointer: toPointer('paths'),
+                    ruleId: 'paths.no-paths',
                     message: 'No paths defined in the API specification',
                     severity: 'error',
                     suggestion: 'Define paths for your API endpoints'
-                }]
+                }], spec, this.settings.checks)
             };
         }
 
+        // Paths are present from here on, and naming conventions only apply to URL paths, not webhooks
+        const document = spec as OpenAPIV3.Document;
+
         // Check for path naming consistency
-        this.checkPathNamingConsistency(spec, violations);
+        this.checkPathNamingConsistency(document, violations);
 
         // Check for overlapping or redundant paths
-        this.checkOverlappingPaths(spec, violations);
+        this.checkOverlappingPaths(document, violations);
 
         // Check for CRUD convention consistency
-        this.checkCrudConsistency(spec, violations);
+        this.checkCrudConsistency(document, violations);
 
         // Check for HTTP method usage consistency
-        this.checkHttpMethodConsistency(spec, violations);
+        this.checkHttpMethodConsistency(document, violations);
 
         // Check for path parameter consistency
-        this.checkPathParameterConsistency(spec, violations);
+        this.checkPathParameterConsistency(document, violations);
 
 
         // Calculate a weighted score
-        const totalPaths = Object.keys(spec.paths).length;
-        const score = calculateScore(violations, totalPaths, this.weight)
+        const finalized = finalizeViolations(violations, spec, this.settings.checks);
+        violations = finalized.violations;
+        const totalPaths = Object.keys(document.paths).length;
+        const score = calculateScore(violations, totalPaths, this.weight, this.settings.severityWeights)
 
         return {
             score,
             maxScore: this.weight,
-            violations
+            violations,
+            suppressed: finalized.suppressed,
+            explanation: scoreBySeverity(violations, totalPaths, this.weight, this.settings.severityWeights, 'paths').explanation
         };
     }
 
@@ -103,6 +128,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
         violations.push({
             path: '',
             location: 'paths',
+            pointer: toPointer('paths'),
+            ruleId: 'paths.trailing-slash',
             message: 'Inconsistent use of trailing slashes in paths',
             severity: 'warning',
             suggestion: 'Use trailing slashes consistently across all paths or remove them all'
@@ -115,6 +142,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
         violations.push({
             path: nonKebabCasePaths[0],
             location: 'paths',
+            pointer: toPointer('paths', nonKebabCasePaths[0]),
+            ruleId: 'paths.kebab-case',
             message: 'Paths should follow kebab-case naming convention',
             severity: 'warning',
             suggestion: 'Use kebab-case for path segments (e.g., /user-profiles instead of /userProfiles or /user_profiles)'
@@ -128,6 +157,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
             violations.push({
                 path,
                 location: path,
+                pointer: toPointer('paths', path),
+                ruleId: 'paths.verb-in-path',
                 message: `Path contains verb "${match[1]}" which should be avoided in resource paths`,
                 severity: 'warning',
                 suggestion: 'Use nouns for resources and HTTP methods to indicate actions. For non-CRUD operations, consider using a dedicated "actions" resource'
@@ -136,33 +167,21 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
     });
 
     // Check for plural nouns for collection endpoints
-    const collectionPaths = paths.filter(p => {
-            // Paths that don't end with an ID parameter are likely collections
-            const segments = p.split('/').filter(Boolean);
+    paths.filter(isCollectionPath).forEach(path => {
+        if (!this.NAMING_CONVENTIONS.pluralCollections.test(path)) {
+            const segments = path.split('/').filter(Boolean);
             const lastSegment = segments[segments.length - 1];
-            return !lastSegment || !lastSegment.startsWith('{');
-        });
-
-        collectionPaths.forEach(path => {
-            if (!this.NAMING_CONVENTIONS.pluralCollections.test(path)) {
-                // Skip paths that are likely not collections (e.g., /status, /health)
-                const segments = path.split('/').filter(Boolean);
-                const lastSegment = segments[segments.length - 1];
-
-                // Skip common non-collection endpoints and those with path parameters
-                if (lastSegment && 
-                    !['status', 'health', 'ping', 'version', 'info', 'docs', 'metrics'].includes(lastSegment) &&
-                        !lastSegment.startsWith('{')) {
-                    violations.push({
-                        path,
-                        location: path,
-                        message: 'Collection endpoints should use plural nouns',
-                        severity: 'info',
-                        suggestion: `Consider renaming to use plural form (e.g., /${lastSegment}s)`
-                    });
-                }
-            }
-        });
+            violations.push({
+                path,
+                location: path,
+                pointer: toPointer('paths', path),
+                ruleId: 'paths.plural-collection',
+                message: 'Collection endpoints should use plural nouns',
+                severity: 'info',
+                suggestion: `Consider renaming to use plural form (e.g., /${lastSegment}s)`
+            });
+        }
+    });
     }
 
     private checkOverlappingPaths(spec: OpenAPIV3.Document, violations: RuleViolation[]): void {
@@ -174,6 +193,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
             violations.push({
                 path: '',
                 location: 'paths',
+                pointer: toPointer('paths'),
+                ruleId: 'paths.duplicate-path',
                 message: 'Duplicate paths detected in the specification',
                 severity: 'error',
                 suggestion: 'Remove duplicate path entries'
@@ -241,6 +262,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path: path1,
                             location: `paths["${path1}"] and paths["${path2}"]`,
+                            pointer: toPointer('paths', path1),
+                            ruleId: 'paths.path-conflict',
                             message: `Potential path conflict for ${method.toUpperCase()} method between "${path1}" and "${path2}"`,
                             severity: 'warning',
                             suggestion: 'Ensure these paths resolve to different resources or consider consolidating them'
@@ -285,6 +308,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                 violations.push({
                     path: topLevelPaths[0],
                     location: `paths with resource "${resourceType}"`,
+                    pointer: toPointer('paths', topLevelPaths[0]),
+                    ruleId: 'paths.nested-resource-duplicate',
                     message: `Resource "${resourceType}" appears both as top-level and nested resource`,
                     severity: 'info',
                     suggestion: 'Consider if this design is intentional or if the API structure could be simplified'
@@ -334,6 +359,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path: collectionPath,
                             location: `paths["${collectionPath}"]`,
+                            pointer: toPointer('paths', collectionPath),
+                            ruleId: 'paths.collection-missing-get',
                             message: `Collection endpoint for "${resourceType}" is missing GET operation for listing`,
                             severity: 'info',
                             suggestion: 'Consider adding GET method to retrieve a list of resources'
@@ -345,6 +372,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path: collectionPath,
                             location: `paths["${collectionPath}"]`,
+                            pointer: toPointer('paths', collectionPath),
+                            ruleId: 'paths.collection-missing-post',
                             message: `Collection endpoint for "${resourceType}" is missing POST operation for creation`,
                             severity: 'info',
                             suggestion: 'Consider adding POST method to create new resources'
@@ -356,6 +385,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path: collectionPath,
                             location: `paths["${collectionPath}"].put`,
+                            pointer: toPointer('paths', collectionPath, 'put'),
+                            ruleId: 'paths.collection-put',
                             message: `PUT method on collection endpoint "${collectionPath}" is unusual`,
                             severity: 'warning',
                             suggestion: 'PUT is typically used for replacing a specific resource, not for collections'
@@ -367,6 +398,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path: collectionPath,
                             location: `paths["${collectionPath}"].delete`,
+                            pointer: toPointer('paths', collectionPath, 'delete'),
+                            ruleId: 'paths.collection-delete',
                             message: `DELETE method on collection endpoint "${collectionPath}" should be used carefully`,
                             severity: 'info',
                             suggestion: 'Ensure DELETE on a collection is intentional (bulk delete) and has appropriate safeguards'
@@ -391,6 +424,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path: resourcePath,
                             location: `paths["${resourcePath}"]`,
+                            pointer: toPointer('paths', resourcePath),
+                            ruleId: 'paths.resource-missing-get',
                             message: `Resource endpoint "${resourcePath}" is missing GET operation for retrieval`,
                             severity: 'info',
                             suggestion: 'Consider adding GET method to retrieve the resource'
@@ -402,6 +437,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path: resourcePath,
                             location: `paths["${resourcePath}"]`,
+                            pointer: toPointer('paths', resourcePath),
+                            ruleId: 'paths.resource-missing-update',
                             message: `Resource endpoint "${resourcePath}" is missing PUT or PATCH operation for updates`,
                             severity: 'info',
                             suggestion: 'Consider adding PUT (full replacement) or PATCH (partial update) method'
@@ -413,6 +450,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path: resourcePath,
                             location: `paths["${resourcePath}"]`,
+                            pointer: toPointer('paths', resourcePath),
+                            ruleId: 'paths.resource-missing-delete',
                             message: `Resource endpoint "${resourcePath}" is missing DELETE operation for deletion`,
                             severity: 'info',
                             suggestion: 'Consider adding DELETE method to remove the resource'
@@ -427,6 +466,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                             violations.push({
                                 path: resourcePath,
                                 location: `paths["${resourcePath}"].post`,
+                                pointer: toPointer('paths', resourcePath, 'post'),
+                                ruleId: 'paths.resource-post',
                                 message: `POST method on resource endpoint "${resourcePath}" is unusual`,
                                 severity: 'info',
                                 suggestion: 'POST is typically used for creation or actions. Consider using PUT/PATCH for updates or adding a sub-resource or /actions segment'
@@ -457,6 +498,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                                 violations.push({
                                     path: resourcePath,
                                     location: `paths["${resourcePath}"]`,
+                                    pointer: toPointer('paths', resourcePath),
+                                    ruleId: 'paths.id-parameter-inconsistent',
                                     message: `Path parameter "${idParamName}" is not defined in all operations`,
                                     severity: 'error',
                                     suggestion: `Ensure the path parameter "${idParamName}" is properly defined in all operations`
@@ -485,6 +528,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                     violations.push({
                         path,
                         location: `paths["${path}"].${method}.requestBody`,
+                        pointer: toPointer('paths', path, method, 'requestBody'),
+                        ruleId: 'paths.unexpected-request-body',
                         message: `${method.toUpperCase()} method should not have a request body`,
                         severity: 'warning',
                         suggestion: `Remove the request body from the ${method.toUpperCase()} operation or change the HTTP method`
@@ -498,6 +543,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path,
                             location: `paths["${path}"].${method}`,
+                            pointer: toPointer('paths', path, method),
+                            ruleId: 'paths.missing-request-body',
                             message: `${method.toUpperCase()} method is missing a request body`,
                             severity: 'warning',
                             suggestion: `Add a request body to the ${method.toUpperCase()} operation or consider if another HTTP method is more appropriate`
@@ -515,6 +562,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path,
                             location: `paths["${path}"].${method}.responses`,
+                            pointer: toPointer('paths', path, method, 'responses'),
+                            ruleId: 'paths.missing-success-response',
                             message: `${method.toUpperCase()} operation is missing success response`,
                             severity: 'warning',
                             suggestion: 'Add appropriate success response codes (e.g., 200, 201, 204)'
@@ -526,6 +575,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path,
                             location: `paths["${path}"].${method}.responses`,
+                            pointer: toPointer('paths', path, method, 'responses'),
+                            ruleId: 'paths.post-201',
                             message: 'POST operation should typically return 201 Created for resource creation',
                             severity: 'info',
                             suggestion: 'Consider adding a 201 response for resource creation operations'
@@ -537,6 +588,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path,
                             location: `paths["${path}"].${method}.responses`,
+                            pointer: toPointer('paths', path, method, 'responses'),
+                            ruleId: 'paths.update-status',
                             message: `${method.toUpperCase()} operation should return 200 OK or 204 No Content`,
                             severity: 'info',
                             suggestion: 'Consider adding 200 (with response body) or 204 (without response body) for update operations'
@@ -547,6 +600,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                         violations.push({
                             path,
                             location: `paths["${path}"].${method}.responses`,
+                            pointer: toPointer('paths', path, method, 'responses'),
+                            ruleId: 'paths.delete-204',
                             message: 'DELETE operation should typically return 204 No Content',
                             severity: 'info',
                             suggestion: 'Consider using 204 No Content for successful deletion operations'
@@ -596,6 +651,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                 violations.push({
                     path: '',
                     location: 'paths',
+                    pointer: toPointer('paths'),
+                    ruleId: 'paths.id-naming',
                     message: 'Inconsistent ID parameter naming conventions',
                     severity: 'warning',
                     suggestion: `Standardize on either camelCase (${camelCaseIds[0]}) or snake_case (${snakeCaseIds[0]}) for ID parameters`
@@ -650,6 +707,8 @@ private checkPathNamingConsistency(spec: OpenAPIV3.Document, violations: RuleVio
                                 violations.push({
                                     path,
                                     location: `paths["${path}"].${method}`,
+                                    pointer: toPointer('paths', path, method),
+                                    ruleId: 'paths.path-parameter-undefined',
                                     message: `Path parameter {${paramName}} is not defined in ${method.toUpperCase()} operation`,
                                     severity: 'error',
                                     suggestion: `Add the path parameter "${paramName}" to the operation parameters`
@@ -1,12 +1,33 @@
 import { OpenAPIV3 } from 'openapi-types';
-import { Rule, RuleResult, RuleViolation } from '../types';
+import { OpenAPIDocument, Rule, RuleResult, RuleSettings, RuleViolation } from '../types';
 import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../constants";
-import { resolveResponse, calculateScore } from "../helper-functions";
+import { resolveResponse, resolveSchema, calculateScore } from "../helper-functions";
+import { createExplanation, scoreBySeverity } from "../explanation";
+import { finalizeViolations, getOperationMethods, getPathItems, getTargetPointer, isOpenAPI31, PathItemEntry, toPointer } from "../spec-utils";
+
+const PROBLEM_JSON = 'application/problem+json';
+// Members RFC 9457 defines for every problem details object
+const PROBLEM_MEMBERS = ['type', 'title', 'status', 'detail'];
+
+// The body of an error response of an operation
+interface ErrorResponse {
+    path: string;
+    method: string;
+    statusCode: string;
+    // Where the schema is written, inside the response component for referenced responses
+    schemaPointer: string;
+    mediaType: string;
+    schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject;
+    // Identifies the shape: the $ref of a shared schema, or the canonical JSON of an inline one
+    shape: string;
+    // Neither the response nor its schema is a shared component
+    inline: boolean;
+}
 
 export class ResponseCodesRule implements Rule {
     name = RULE_NAMES.response_codes;
     description = RULE_DESCRIPTIONS.response_codes;
-    weight = CRITERIA_WEIGHTS.response_codes;
+    weight: number;
 
     // Expected status codes by HTTP method
     private readonly EXPECTED_STATUS_CODES = {
@@ -51,85 +72,114 @@ export class ResponseCodesRule implements Rule {
         serverError: true // At least one server error code (5xx)
     };
 
-    evaluate(spec: OpenAPIV3.Document): RuleResult {
-        if (!spec.paths || Object.keys(spec.paths).length === 0) {
-            return this.noPathsViolation();
+    constructor(private settings: RuleSettings = {}) {
+        this.weight = settings.weight ?? CRITERIA_WEIGHTS.response_codes;
+    }
+
+    evaluate(spec: OpenAPIDocument): RuleResult {
+        // Webhooks are operations too, so a 3.1 document with only webhooks still gets evaluated
+        const pathItems = getPathItems(spec);
+        if (pathItems.length === 0) {
+            // OpenAPI 3.1 allows component-only documents (e.g. shared schema libraries)
+            if (isOpenAPI31(spec) && spec.components) {
+                return {
+                    score: this.weight,
+                    maxScore: this.weight,
+                    violations: [],
+                    explanation: createExplanation('The document only has components, which OpenAPI 3.1 allows, so the category scores full marks')
+                };
+            }
+            return this.noPathsViolation(spec);
         }
 
         let totalOperations = 0;
-        let operationsWithIssues = 0;
-        const violations: RuleViolation[] = [];
+        // Operations keyed by method and path
+        const operationsWithIssues = new Set<string>();
+        let violations: RuleViolation[] = [];
 
-        Object.entries(spec.paths).forEach(([path, pathItem]) => {
-            if (!pathItem) return;
-            const methods = this.getMethodsForPath(pathItem);
+        pathItems.forEach(({ path, pointer, pathItem }) => {
+            const methods = getOperationMethods(pathItem);
 
             methods.forEach(method => {
                 totalOperations++;
                 const operation = pathItem[method as keyof OpenAPIV3.PathItemObject] as OpenAPIV3.OperationObject;
                 const hasIssues = this.evaluateOperation(
-                    path, method, operation, spec, violations
+                    path, method, pointer + toPointer(method), operation, spec, violations
                 );
-                if (hasIssues) operationsWithIssues++;
+                if (hasIssues) operationsWithIssues.add(`${method} ${path}`);
             });
         });
 
+        this.checkErrorFormat(pathItems, spec, violations)
+            .forEach(operation => operationsWithIssues.add(operation));
+
+        const finalized = finalizeViolations(violations, spec, this.settings.checks);
+        violations = finalized.violations;
         const score = calculateScore(
-            violations, operationsWithIssues, this.weight
+            violations, operationsWithIssues.size, this.weight, this.settings.severityWeights
         );
 
         return {
             score,
             maxScore: this.weight,
-            violations
+            violations,
+            suppressed: finalized.suppressed,
+            explanation: {
+                ...scoreBySeverity(violations, operationsWithIssues.size, this.weight, this.settings.severityWeights, 'operations with issues').explanation,
+                items: [
+                    { label: 'operations', count: totalOperations },
+                    { label: 'operations with issues', count: operationsWithIssues.size },
+                ],
+            }
         };
     }
 
-    private noPathsViolation(): RuleResult {
+    private noPathsViolation(spec: OpenAPIDocument): RuleResult {
         return {
             score: this.weight,
             maxScore: this.weight,
-            violations: [{
+            explanation: createExplanation('The document defines no paths; that is reported, but the category keeps full marks'),
+            ...finalizeViolations([{
                 path: '',
                 location: 'paths',
+                pointer: toPointer('paths'),
+                ruleId: 'responses.no-paths',
                 message: 'No paths defined in the API specification',
                 severity: 'error',
                 suggestion: 'Define paths for your API endpoints'
-            }]
+            }], spec, this.settings.checks)
         };
     }
 
-    private getMethodsForPath(pathItem: OpenAPIV3.PathItemObject): string[] {
-        return Object.keys(pathItem).filter(key =>
-            ['get', 'post', 'put', 'delete', 'patch', 'head', 'options', 'trace'].includes(key)
-        );
-    }
-
     private evaluateOperation(
         path: string,
         method: string,
+        operationPointer: string,
         operation: OpenAPIV3.OperationObject,
-        spec: OpenAPIV3.Document,
+        spec: OpenAPIDocument,
         violations: RuleViolation[]
     ): boolean {
         if (!operation.responses || Object.keys(operation.responses).length === 0) {
             violations.push({
                 path,
                 location: `${path}.${method}`,
+                pointer: operationPointer,
+                ruleId: 'responses.missing-responses',
                 message: `${method.toUpperCase()} operation is missing response definitions`,
                 severity: 'error',
                 suggestion: 'Define expected response status codes and their content'
             });
             return true;
         }
-        return this.checkOperationResponses(path, method, operation, spec, violations);
+        return this.checkOperationResponses(path, method, operationPointer, operation, spec, violations);
     }
 
     private checkOperationResponses(
         path: string,
         method: string,
+        operationPointer: string,
         operation: OpenAPIV3.OperationObject,
-        spec: OpenAPIV3.Document,
+        spec: OpenAPIDocument,
         violations: RuleViolation[]
     ): boolean {
         let hasIssues = false;
@@ -139,30 +189,30 @@ export class ResponseCodesRule implements Rule {
         const statusCodes = Object.keys(responses);
 
         // 1. Success codes
-        if (this.checkSuccessCodes(path, method, statusCodes, violations)) {
+        if (this.checkSuccessCodes(path, method, operationPointer, statusCodes, violations)) {
             hasIssues = true;
         }
 
         // 2. Client error codes
-        if (this.checkClientErrorCodes(path, method, statusCodes, operation, spec, violations)) {
+        if (this.checkClientErrorCodes(path, method, operationPointer, statusCodes, operation, spec, violations)) {
             hasIssues = true;
         }
 
         // 3. Server error codes
-        if (this.checkServerErrorCodes(path, method, statusCodes, violations)) {
+        if (this.checkServerErrorCodes(path, method, operationPointer, statusCodes, violations)) {
             hasIssues = true;
         }
 
         // 4. Default response
-        this.checkDefaultResponse(path, method, statusCodes, violations);
+        this.checkDefaultResponse(path, method, operationPointer, statusCodes, violations);
 
         // 5. Response content and schema
-        if (this.checkResponseContentAndSchema(path, method, responses, operation, violations)) {
+        if (this.checkResponseContentAndSchema(path, method, operationPointer, responses, spec, violations)) {
             hasIssues = true;
         }
 
         // 6. Status code validity and uncommon codes
-        if (this.checkStatusCodeValidity(path, method, statusCodes, violations)) {
+        if (this.checkStatusCodeValidity(path, method, operationPointer, statusCodes, violations)) {
             hasIssues = true;
         }
 
@@ -172,6 +222,7 @@ export class ResponseCodesRule implements Rule {
     private checkSuccessCodes(
         path: string,
         method: string,
+        operationPointer: string,
         statusCodes: string[],
         violations: RuleViolation[]
     ): boolean {
@@ -184,6 +235,8 @@ export class ResponseCodesRule implements Rule {
             violations.push({
                 path,
                 location: `${path}.${method}.responses`,
+                pointer: operationPointer + toPointer('responses'),
+                ruleId: 'responses.missing-2xx',
                 message: `${method.toUpperCase()} operation is missing success response codes`,
                 severity: 'error',
                 suggestion: `Add appropriate success response codes (e.g., ${expectedSuccessCodes.join(', ')})`
@@ -195,6 +248,8 @@ export class ResponseCodesRule implements Rule {
                 violations.push({
                     path,
                     location: `${path}.${method}.responses`,
+                    pointer: operationPointer + toPointer('responses'),
+                    ruleId: 'responses.unusual-2xx',
                     message: `${method.toUpperCase()} operation has unusual success response codes`,
                     severity: 'warning',
                     suggestion: `Consider using standard success codes for ${method.toUpperCase()}: ${expectedSuccessCodes.join(', ')}`
@@ -208,9 +263,10 @@ export class ResponseCodesRule implements Rule {
     private checkClientErrorCodes(
         path: string,
         method: string,
+        operationPointer: string,
         statusCodes: string[],
         operation: OpenAPIV3.OperationObject,
-        spec: OpenAPIV3.Document,
+        spec: OpenAPIDocument,
         violations: RuleViolation[]
     ): boolean {
         let hasIssues = false;
@@ -220,6 +276,8 @@ export class ResponseCodesRule implements Rule {
             violations.push({
                 path,
                 location: `${path}.${method}.responses`,
+                pointer: operationPointer + toPointer('responses'),
+                ruleId: 'responses.missing-4xx',
                 message: `${method.toUpperCase()} operation is missing client error response codes`,
                 severity: 'warning',
                 suggestion: 'Add appropriate client error codes (e.g., 400, 401, 403, 404)'
@@ -234,6 +292,8 @@ export class ResponseCodesRule implements Rule {
                 violations.push({
                     path,
                     location: `${path}.${method}.responses`,
+                    pointer: operationPointer + toPointer('responses'),
+                    ruleId: 'responses.missing-auth-errors',
                     message: `${method.toUpperCase()} operation with security requirements is missing authentication/authorization error codes`,
                     severity: 'warning',
                     suggestion: 'Add 401 Unauthorized and/or 403 Forbidden response codes for secured endpoints'
@@ -248,6 +308,8 @@ export class ResponseCodesRule implements Rule {
             violations.push({
                 path,
                 location: `${path}.${method}.responses`,
+                pointer: operationPointer + toPointer('responses'),
+                ruleId: 'responses.missing-404',
                 message: `${method.toUpperCase()} operation on a resource should include a 404 Not Found response`,
                 severity: 'warning',
                 suggestion: 'Add a 404 Not Found response for when the requested resource does not exist'
@@ -262,6 +324,8 @@ export class ResponseCodesRule implements Rule {
             violations.push({
                 path,
                 location: `${path}.${method}.responses`,
+                pointer: operationPointer + toPointer('responses'),
+                ruleId: 'responses.missing-validation-error',
                 message: `${method.toUpperCase()} operation with request body should include validation error responses`,
                 severity: 'warning',
                 suggestion: 'Add 400 Bad Request and/or 422 Unprocessable Entity for request validation failures'
@@ -275,6 +339,7 @@ export class ResponseCodesRule implements Rule {
         private checkServerErrorCodes(
             path: string,
             method: string,
+            operationPointer: string,
             statusCodes: string[],
             violations: RuleViolation[]
         ): boolean {
@@ -284,9 +349,16 @@ export class ResponseCodesRule implements Rule {
                 violations.push({
                     path,
                     location: `${path}.${method}.responses`,
+                    pointer: operationPointer + toPointer('responses'),
+                    ruleId: 'responses.missing-5xx',
                     message: `${method.toUpperCase()} operation is missing server error response codes`,
                     severity: 'warning',
-                    suggestion: 'Add a 500 Internal Server Error response for unexpected server errors'
+                    suggestion: 'Add a 500 Internal Server Error response for unexpected server errors',
+                    fix: {
+                        description: `Add a 500 response to ${method.toUpperCase()} ${path}`,
+                        patch: [{ op: 'add', path: operationPointer + toPointer('responses', '500'), value: { description: 'Internal server error' } }],
+                        safe: true,
+                    }
                 });
             hasIssues = true;
             }
@@ -296,6 +368,7 @@ export class ResponseCodesRule implements Rule {
         private checkDefaultResponse(
             path: string,
             method: string,
+            operationPointer: string,
             statusCodes: string[],
             violations: RuleViolation[]
         ): void {
@@ -303,9 +376,16 @@ export class ResponseCodesRule implements Rule {
                 violations.push({
                     path,
                     location: `${path}.${method}.responses`,
+                    pointer: operationPointer + toPointer('responses'),
+                    ruleId: 'responses.missing-default',
                     message: `${method.toUpperCase()} operation is missing a default response`,
                     severity: 'info',
-                    suggestion: 'Consider adding a default response to handle unexpected status codes'
+                    suggestion: 'Consider adding a default response to handle unexpected status codes',
+                    fix: {
+                        description: `Add a default response to ${method.toUpperCase()} ${path}`,
+                        patch: [{ op: 'add', path: operationPointer + toPointer('responses', 'default'), value: { description: 'Unexpected error' } }],
+                        safe: true,
+                    }
                 });
             }
         }
@@ -313,17 +393,20 @@ export class ResponseCodesRule implements Rule {
         private checkResponseContentAndSchema(
             path: string,
             method: string,
+            operationPointer: string,
             responses: OpenAPIV3.ResponsesObject,
-            operation: OpenAPIV3.OperationObject,
+            spec: OpenAPIDocument,
             violations: RuleViolation[]
         ): boolean {
             let hasIssues = false;
             Object.entries(responses).forEach(([statusCode, responseOrRef]) => {
-                const response = resolveResponse(responseOrRef, operation as any); // Pass spec if needed
+                const response = resolveResponse(responseOrRef, spec);
                     if (!response) {
                         violations.push({
                             path,
                             location: `${path}.${method}.responses.${statusCode}`,
+                            pointer: operationPointer + toPointer('responses', statusCode),
+                            ruleId: 'responses.unresolved-reference',
                             message: `Could not resolve response reference`,
                             severity: 'error',
                             suggestion: 'Ensure the response reference is valid'
@@ -337,6 +420,8 @@ export class ResponseCodesRule implements Rule {
                         violations.push({
                             path,
                             location: `${path}.${method}.responses.${statusCode}`,
+                            pointer: operationPointer + toPointer('responses', statusCode),
+                            ruleId: 'responses.description',
                             message: `Response ${statusCode} is missing a description`,
                             severity: 'warning',
                             suggestion: 'Add a meaningful description explaining the response'
@@ -352,6 +437,8 @@ export class ResponseCodesRule implements Rule {
                             violations.push({
                                 path,
                                 location: `${path}.${method}.responses.${statusCode}`,
+                                pointer: operationPointer + toPointer('responses', statusCode),
+                                ruleId: 'responses.success-content',
                                 message: `Success response ${statusCode} is missing content definition`,
                                 severity: 'warning',
                                 suggestion: 'Define the response content structure or use 204 No Content if no response body is returned'
@@ -366,6 +453,8 @@ export class ResponseCodesRule implements Rule {
                         violations.push({
                             path,
                             location: `${path}.${method}.responses.${statusCode}`,
+                            pointer: operationPointer + toPointer('responses', statusCode),
+                            ruleId: 'responses.error-content',
                             message: `Error response ${statusCode} is missing content definition`,
                             severity: 'info',
                             suggestion: 'Consider defining the error response structure to help API consumers handle errors'
@@ -379,6 +468,8 @@ export class ResponseCodesRule implements Rule {
                                 violations.push({
                                     path,
                                     location: `${path}.${method}.responses.${statusCode}.content.${mediaType}`,
+                                    pointer: operationPointer + toPointer('responses', statusCode, 'content', mediaType),
+                                    ruleId: 'responses.content-schema',
                                     message: `Response content is missing a schema definition`,
                                     severity: 'warning',
                                     suggestion: 'Define a schema for the response content'
@@ -391,9 +482,147 @@ export class ResponseCodesRule implements Rule {
             return hasIssues;
         }
 
+        // Error responses should share one shape: the one most of them use, or problem details when the config asks
+        // for them. Returns the operations, keyed by method and path, whose error responses deviate.
+        private checkErrorFormat(pathItems: PathItemEntry[], spec: OpenAPIDocument, violations: RuleViolation[]): Set<string> {
+            const errorResponses = this.collectErrorResponses(pathItems, spec);
+            const problemDetails = this.settings.errorFormat?.problemDetails === true;
+            const dominantShape = this.getDominantShape(errorResponses);
+            const deviating = new Set<string>();
+            // Shared responses are used by many operations but reported once, where they are written
+            const reported = new Set<string>();
+
+            errorResponses.forEach(errorResponse => {
+                const { path, method, statusCode, schemaPointer, mediaType, schema, shape, inline } = errorResponse;
+                const location = `${path}.${method}.responses.${statusCode}`;
+                const operation = `${method.toUpperCase()} ${path}`;
+
+                if (problemDetails) {
+                    const missingMembers = this.getMissingProblemMembers(schema, spec);
+                    if (mediaType !== PROBLEM_JSON || missingMembers.length > 0) {
+                        deviating.add(`${method} ${path}`);
+                        if (!reported.has(`problem ${schemaPointer}`)) {
+                            reported.add(`problem ${schemaPointer}`);
+                            const problems = [
+                                ...mediaType !== PROBLEM_JSON ? [`is ${mediaType} instead of ${PROBLEM_JSON}`] : [],
+                                ...missingMembers.length > 0 ? [`lacks the ${missingMembers.map(member => `'${member}'`).join(', ')} member(s)`] : [],
+                            ];
+                            violations.push({
+                                path,
+                                location,
+                                pointer: schemaPointer,
+                                ruleId: 'responses.problem-details',
+                                message: `Error response ${statusCode} of ${operation} ${problems.join(' and ')}`,
+                                severity: 'warning',
+                                suggestion: `Return problem details (RFC 9457) as ${PROBLEM_JSON}, with a schema defining ${PROBLEM_MEMBERS.join(', ')}`
+                            });
+                        }
+                    }
+                } else if (dominantShape && shape !== dominantShape) {
+                    deviating.add(`${method} ${path}`);
+                    if (!reported.has(`shape ${schemaPointer}`)) {
+                        reported.add(`shape ${schemaPointer}`);
+                        violations.push({
+                            path,
+                            location,
+                            pointer: schemaPointer,
+                            ruleId: 'responses.error-schema-inconsistent',
+                            message: `Error response ${statusCode} of ${operation} uses another schema than most error responses (${this.describeShape(dominantShape)})`,
+                            severity: 'warning',
+                            suggestion: 'Give every error response the same schema, so clients can handle all errors in one place'
+                        });
+                    }
+                }
+
+                if (inline && !reported.has(`inline ${schemaPointer}`)) {
+                    reported.add(`inline ${schemaPointer}`);
+                    const sharedSchema = dominantShape?.startsWith('#/') ? dominantShape : undefined;
+                    violations.push({
+                        path,
+                        location,
+                        pointer: schemaPointer,
+                        ruleId: 'responses.inline-error-schema',
+                        message: `Error response ${statusCode} of ${operation} defines its schema inline`,
+                        severity: 'info',
+                        suggestion: sharedSchema
+                            ? `Reference the shared error schema ${sharedSchema} instead`
+                            : 'Define the error schema once in components.schemas, or the response in components.responses, and reference it'
+                    });
+                }
+            });
+
+            return deviating;
+        }
+
+        // 4xx, 5xx and default responses of all operations that describe a body, in document order
+        private collectErrorResponses(pathItems: PathItemEntry[], spec: OpenAPIDocument): ErrorResponse[] {
+            return pathItems.flatMap(({ path, pointer, pathItem }) => getOperationMethods(pathItem).flatMap(method => {
+                const operation = pathItem[method as keyof OpenAPIV3.PathItemObject] as OpenAPIV3.OperationObject;
+                return Object.entries(operation.responses || {})
+                    .filter(([statusCode]) => /^[45]/.test(statusCode) || statusCode === 'default')
+                    .flatMap(([statusCode, responseOrRef]): ErrorResponse[] => {
+                        const response = resolveResponse(responseOrRef, spec);
+                        const content = response?.content || {};
+                        const mediaTypes = Object.keys(content);
+                        const mediaType = mediaTypes.find(type => type === PROBLEM_JSON)
+                            ?? mediaTypes.find(type => type.includes('json'))
+                            ?? mediaTypes[0];
+                        const schema = mediaType ? content[mediaType].schema : undefined;
+                        if (!mediaType || !schema) return [];
+
+                        const responsePointer = getTargetPointer(responseOrRef, pointer + toPointer(method, 'responses', statusCode));
+                        const shape = '$ref' in schema && typeof schema.$ref === 'string' ? schema.$ref : this.canonicalize(schema);
+                        return [{
+                            path,
+                            method,
+                            statusCode,
+                            schemaPointer: responsePointer + toPointer('content', mediaType, 'schema'),
+                            mediaType,
+                            schema,
+                            shape,
+                            inline: !('$ref' in responseOrRef) && !('$ref' in schema),
+                        }];
+                    });
+            }));
+        }
+
+        // The shape most error responses use; on a tie, the one used first
+        private getDominantShape(errorResponses: ErrorResponse[]): string | undefined {
+            const counts = new Map<string, number>();
+            errorResponses.forEach(({ shape }) => counts.set(shape, (counts.get(shape) || 0) + 1));
+            let dominant: string | undefined;
+            counts.forEach((count, shape) => {
+                if (dominant === undefined || count > counts.get(dominant)!) dominant = shape;
+            });
+            return dominant;
+        }
+
+        private describeShape(shape: string): string {
+            return shape.startsWith('#/') ? shape : 'an inline schema';
+        }
+
+        // Problem details members the schema, or one of its allOf members, does not define
+        private getMissingProblemMembers(schemaOrRef: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, spec: OpenAPIDocument): string[] {
+            const schema = resolveSchema(schemaOrRef, spec);
+            const members = [schema, ...(schema?.allOf || []).map(member => resolveSchema(member, spec))];
+            const defined = members.flatMap(member => Object.keys(member?.properties || {}));
+            return PROBLEM_MEMBERS.filter(member => !defined.includes(member));
+        }
+
+        // JSON with sorted keys, so equal inline schemas get the same shape
+        private canonicalize(value: unknown): string {
+            if (Array.isArray(value)) return `[${value.map(item => this.canonicalize(item)).join(',')}]`;
+            if (value && typeof value === 'object') {
+                return `{${Object.keys(value).sort()
+                    .map(key => `${JSON.stringify(key)}:${this.canonicalize((value as Record<string, unknown>)[key])}`).join(',')}}`;
+            }
+            return JSON.stringify(value);
+        }
+
         private checkStatusCodeValidity(
             path: string,
             method: string,
+            operationPointer: string,
             statusCodes: string[],
             violations: RuleViolation[]
         ): boolean {
@@ -411,6 +640,8 @@ export class ResponseCodesRule implements Rule {
                     violations.push({
                         path,
                         location: `${path}.${method}.responses.${code}`,
+                        pointer: operationPointer + toPointer('responses', code),
+                        ruleId: 'responses.invalid-status-code',
                         message: `Invalid HTTP status code: ${code}`,
                         severity: 'error',
                         suggestion: 'Use standard HTTP status codes (100-599)'
@@ -423,6 +654,8 @@ export class ResponseCodesRule implements Rule {
                     violations.push({
                         path,
                         location: `${path}.${method}.responses.${code}`,
+                        pointer: operationPointer + toPointer('responses', code),
+                        ruleId: 'responses.informational-status',
                         message: `Unusual use of 1xx informational status code: ${code}`,
                         severity: 'info',
                         suggestion: '1xx codes are rarely used in REST APIs and may not be well-supported by clients'
@@ -432,6 +665,8 @@ export class ResponseCodesRule implements Rule {
                     violations.push({
                         path,
                         location: `${path}.${method}.responses.${code}`,
+                        pointer: operationPointer + toPointer('responses', code),
+                        ruleId: 'responses.uncommon-status',
                         message: `Uncommon HTTP status code: ${code}`,
                         severity: 'info',
                         suggestion: 'Consider using more common status codes for better client compatibility'
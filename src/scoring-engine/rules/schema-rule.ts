@@ -1,19 +1,32 @@
-import { OpenAPIV3 } from 'openapi-types';
-import { Rule, RuleResult, RuleViolation } from '../types';
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { OpenAPIDocument, Rule, RuleResult, RuleSettings, RuleViolation } from '../types';
 import { SEVERITY_SCORE_WEIGHTS, CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../constants";
 import { resolveHeader, resolveParameter, resolveRequestBody, resolveSchema, resolveResponse } from "../helper-functions";
+import { createExplanation, toPoints } from "../explanation";
+import { finalizeViolations, getOperationMethods, getPathItems, getSchemaTypes, getTargetPointer, isOpenAPI31, toPointer } from "../spec-utils";
+
+// A schema as it appears in either OpenAPI 3.0 or 3.1 (where booleans are valid schemas)
+type AnySchema = OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject | OpenAPIV3_1.SchemaObject | boolean;
+type ResolvedSchema = OpenAPIV3_1.BaseSchemaObject & { type?: string | string[]; items?: AnySchema; nullable?: boolean };
 
 export class SchemaTypesRule implements Rule {
     name = RULE_NAMES.schema_types;   
     description = RULE_DESCRIPTIONS.schema_types;
-    weight = CRITERIA_WEIGHTS.schema_types;
+    weight: number;
 
     private readonly PRIMITIVE_TYPES = ['string', 'number', 'integer', 'boolean', 'array', 'object', 'null'];
     private readonly STRING_FORMATS = ['date', 'date-time', 'password', 'byte', 'binary', 'email', 'uuid', 'uri', 'hostname', 'ipv4', 'ipv6'];
     private readonly NUMBER_FORMATS = ['float', 'double', 'int32', 'int64'];
+    // Additional formats defined by JSON Schema 2020-12, which OpenAPI 3.1 adopts
+    private readonly JSON_SCHEMA_STRING_FORMATS = ['time', 'duration', 'idn-email', 'idn-hostname', 'iri', 'iri-reference', 'uri-reference', 'uri-template', 'json-pointer', 'relative-json-pointer', 'regex'];
+    private readonly schemasInProgress = new Set<object>();
+
+    constructor(private settings: RuleSettings = {}) {
+        this.weight = settings.weight ?? CRITERIA_WEIGHTS.schema_types;
+    }
 
-    evaluate(spec: OpenAPIV3.Document): RuleResult {
-        const violations: RuleViolation[] = [];
+    evaluate(spec: OpenAPIDocument): RuleResult {
+        let violations: RuleViolation[] = [];
 
         let totalSchemas = 0;
         let schemasWithViolations = new Set<string>();
@@ -22,6 +35,9 @@ export class SchemaTypesRule implements Rule {
         totalSchemas += this.checkComponentsForSchemas(spec, violations, schemasWithViolations);
         totalSchemas += this.checkPathsForSchemas(spec, violations, schemasWithViolations);
 
+        const finalized = finalizeViolations(violations, spec, this.settings.checks);
+        violations = finalized.violations;
+
         // Calculate proportional score
         totalSchemas = Math.max(1, totalSchemas); // Avoid division by zero
         const violationPercentage = schemasWithViolations.size / totalSchemas;
@@ -32,40 +48,71 @@ export class SchemaTypesRule implements Rule {
         const infoViolations = violations.filter(v => v.severity === 'info').length;
 
         // Weight errors more heavily than warnings and info
+        const severityWeights = { ...SEVERITY_SCORE_WEIGHTS, ...this.settings.severityWeights };
         const weightedViolationScore = (
-            (errorViolations * SEVERITY_SCORE_WEIGHTS.error) + 
-            (warningViolations * SEVERITY_SCORE_WEIGHTS.warning) + 
-            (infoViolations * SEVERITY_SCORE_WEIGHTS.info)
+            (errorViolations * severityWeights.error) + 
+            (warningViolations * severityWeights.warning) + 
+            (infoViolations * severityWeights.info)
         ) / totalSchemas;
 
         // Calculate final score using a combination of percentage and weighted violations
         const combinedImpact = (violationPercentage + weightedViolationScore) / 2;
         let score = Math.round(this.weight * (1 - combinedImpact));
+        const caps: string[] = [];
 
         // Ensure minimum penalty for any errors
         if (errorViolations > 0 && score > this.weight - 2) {
             score = this.weight - 2;
+            caps.push(`Errors keep the score at most ${this.weight - 2}, 2 below the weight`);
         }
 
         // Ensure score doesn't go below 0
+        if (score < 0) caps.push('The penalties exceed the weight, so the score is 0');
         score = Math.max(0, score);
 
+        const severityCounts = { error: errorViolations, warning: warningViolations, info: infoViolations };
+        const severityPenalties = (['error', 'warning', 'info'] as const)
+            .filter(severity => severityCounts[severity] > 0)
+            .map(severity => ({
+                reason: `Half of: ${severityCounts[severity]} ${severity}(s) × ${severityWeights[severity]} per ${totalSchemas} schemas`,
+                points: toPoints(this.weight * severityCounts[severity] * severityWeights[severity] / totalSchemas / 2),
+            }));
+
         return {
             score,
             maxScore: this.weight,
-            violations
+            violations,
+            suppressed: finalized.suppressed,
+            explanation: createExplanation(
+                'The average of the share of schemas with violations and the severity-weighted violations per schema, taken from the weight',
+                {
+                    items: [
+                        { label: 'schemas', count: totalSchemas },
+                        { label: 'schemas with violations', count: schemasWithViolations.size },
+                    ],
+                    penalties: [
+                        ...(schemasWithViolations.size > 0 ? [{
+                            reason: `Half of: ${schemasWithViolations.size} of ${totalSchemas} schemas have violations`,
+                            points: toPoints(this.weight * violationPercentage / 2),
+                        }] : []),
+                        ...severityPenalties,
+                    ],
+                    caps,
+                }
+            )
         };
     }
 
-    private checkComponentsForSchemas(spec: OpenAPIV3.Document, violations: RuleViolation[], schemasWithViolations: Set<string>) {
+    private checkComponentsForSchemas(spec: OpenAPIDocument, violations: RuleViolation[], schemasWithViolations: Set<string>) {
         let totalSchemas = 0;
         // Check component schemas
         if (spec.components?.schemas) {
             Object.entries(spec.components.schemas).forEach(([schemaName, schema]) => {
                 totalSchemas++;
                 const schemaPath = `components.schemas.${schemaName}`;
+                const schemaPointer = toPointer('components', 'schemas', schemaName);
 
-                this.validateSchema(schema, schemaPath, spec, violations, schemasWithViolations);
+                this.validateSchema(schema, schemaPath, schemaPointer, spec, violations, schemasWithViolations);
             });
         }
 
@@ -76,7 +123,8 @@ export class SchemaTypesRule implements Rule {
                 if (resolvedParam?.schema) {
                     totalSchemas++;
                     const schemaPath = `components.parameters.${paramName}.schema`;
-                    this.validateSchema(resolvedParam.schema, schemaPath, spec, violations, schemasWithViolations);
+                    const schemaPointer = getTargetPointer(parameter, toPointer('components', 'parameters', paramName)) + toPointer('schema');
+                    this.validateSchema(resolvedParam.schema, schemaPath, schemaPointer, spec, violations, schemasWithViolations);
                 }
             });
         }
@@ -90,7 +138,9 @@ export class SchemaTypesRule implements Rule {
                         if (mediaTypeObject.schema) {
                             totalSchemas++;
                             const schemaPath = `components.requestBodies.${requestBodyName}.content.${mediaType}.schema`;
-                            this.validateSchema(mediaTypeObject.schema, schemaPath, spec, violations, schemasWithViolations);
+                            const schemaPointer = getTargetPointer(requestBody, toPointer('components', 'requestBodies', requestBodyName))
+                                + toPointer('content', mediaType, 'schema');
+                            this.validateSchema(mediaTypeObject.schema, schemaPath, schemaPointer, spec, violations, schemasWithViolations);
                         }
                     });
                 }
@@ -101,12 +151,14 @@ export class SchemaTypesRule implements Rule {
         if (spec.components?.responses) {
             Object.entries(spec.components.responses).forEach(([responseName, response]) => {
                 const resolvedResponse = resolveResponse(response, spec);
+                const responsePointer = getTargetPointer(response, toPointer('components', 'responses', responseName));
                 if (resolvedResponse?.content) {
                     Object.entries(resolvedResponse.content).forEach(([mediaType, mediaTypeObject]) => {
                         if (mediaTypeObject.schema) {
                             totalSchemas++;
                             const schemaPath = `components.responses.${responseName}.content.${mediaType}.schema`;
-                            this.validateSchema(mediaTypeObject.schema, schemaPath, spec, violations, schemasWithViolations);
+                            const schemaPointer = responsePointer + toPointer('content', mediaType, 'schema');
+                            this.validateSchema(mediaTypeObject.schema, schemaPath, schemaPointer, spec, violations, schemasWithViolations);
                         }
                     });
                 }
@@ -119,7 +171,8 @@ export class SchemaTypesRule implements Rule {
                         if (resolvedHeader?.schema) {
                             totalSchemas++;
                             const schemaPath = `components.responses.${responseName}.headers.${headerName}.schema`;
-                            this.validateSchema(resolvedHeader.schema, schemaPath, spec, violations, schemasWithViolations);
+                            const schemaPointer = getTargetPointer(header, responsePointer + toPointer('headers', headerName)) + toPointer('schema');
+                            this.validateSchema(resolvedHeader.schema, schemaPath, schemaPointer, spec, violations, schemasWithViolations);
                         }
                     });
                 }
@@ -134,7 +187,8 @@ export class SchemaTypesRule implements Rule {
                 if (resolvedHeader?.schema) {
                     totalSchemas++;
                     const schemaPath = `components.headers.${headerName}.schema`;
-                    this.validateSchema(resolvedHeader.schema, schemaPath, spec, violations, schemasWithViolations);
+                    const schemaPointer = getTargetPointer(header, toPointer('components', 'headers', headerName)) + toPointer('schema');
+                    this.validateSchema(resolvedHeader.schema, schemaPath, schemaPointer, spec, violations, schemasWithViolations);
                 }
             });
         }
@@ -142,19 +196,18 @@ export class SchemaTypesRule implements Rule {
         return totalSchemas;
     }
 
-    private checkPathsForSchemas(spec: OpenAPIV3.Document, violations: RuleViolation[], schemasWithViolations: Set<string>) : number {
+    private checkPathsForSchemas(spec: OpenAPIDocument, violations: RuleViolation[], schemasWithViolations: Set<string>) : number {
         let totalSchemas = 0;
-        // Check request/response schemas in paths
-        if (spec.paths) {
-            Object.entries(spec.paths).forEach(([pathName, pathItem]) => {
-                if (!pathItem) return; // Handle potential null/undefined path items
-
+        // Check request/response schemas in paths and webhooks
+        if (spec.paths || isOpenAPI31(spec)) {
+            getPathItems(spec).forEach(({ path: pathName, pointer: pathPointer, pathItem }) => {
                 // Check each operation (GET, POST, etc.)
-                const operations: [string, OpenAPIV3.OperationObject][] = Object.entries(pathItem)
-                .filter(([key]) => ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'].includes(key)) // Added all HTTP methods
-                .map(([key, op]) => [key, op as OpenAPIV3.OperationObject]);
+                const operations: [string, OpenAPIV3.OperationObject][] = getOperationMethods(pathItem)
+                .map(key => [key, pathItem[key as OpenAPIV3.HttpMethods] as OpenAPIV3.OperationObject]);
 
                 operations.forEach(([method, operation]) => {
+                    const operationPointer = pathPointer + toPointer(method);
+
                     // Check request body schemas
                     if (operation.requestBody) {
                         const requestBody = resolveRequestBody(operation.requestBody, spec);
@@ -163,8 +216,10 @@ export class SchemaTypesRule implements Rule {
                                 if (mediaTypeObject.schema) {
                                     totalSchemas++;
                                     const schemaPath = `${pathName}.${method}.requestBody.content.${mediaType}.schema`;
+                                    const schemaPointer = getTargetPointer(operation.requestBody!, operationPointer + toPointer('requestBody'))
+                                        + toPointer('content', mediaType, 'schema');
 
-                                    this.validateSchema(mediaTypeObject.schema, schemaPath, spec, violations, schemasWithViolations);
+                                    this.validateSchema(mediaTypeObject.schema, schemaPath, schemaPointer, spec, violations, schemasWithViolations);
                                 }
                             });
                         }
@@ -174,14 +229,16 @@ export class SchemaTypesRule implements Rule {
                     if (operation.responses) {
                         Object.entries(operation.responses).forEach(([statusCode, response]) => {
                             const resolvedResponse = resolveResponse(response, spec);
+                            const responsePointer = getTargetPointer(response, operationPointer + toPointer('responses', statusCode));
 
                             if (resolvedResponse?.content) {
                                 Object.entries(resolvedResponse.content).forEach(([mediaType, mediaTypeObject]) => {
                                     if (mediaTypeObject.schema) {
                                         totalSchemas++;
                                         const schemaPath = `${pathName}.${method}.responses.${statusCode}.content.${mediaType}.schema`;
+                                        const schemaPointer = responsePointer + toPointer('content', mediaType, 'schema');
 
-                                        this.validateSchema(mediaTypeObject.schema, schemaPath, spec, violations, schemasWithViolations);
+                                        this.validateSchema(mediaTypeObject.schema, schemaPath, schemaPointer, spec, violations, schemasWithViolations);
                                     }
                                 });
                             }
@@ -198,9 +255,12 @@ export class SchemaTypesRule implements Rule {
                                   if ((resolvedHeader as any)?.schema) {
                                     totalSchemas++;
                                     const schemaPath = `${pathName}.${method}.responses.${statusCode}.headers.${headerName}.schema`;
+                                    const schemaPointer = getTargetPointer(header as object, responsePointer + toPointer('headers', headerName))
+                                      + toPointer('schema');
                                     this.validateSchema(
                                       (resolvedHeader as any).schema,
                                       schemaPath,
+                                      schemaPointer,
                                       spec,
                                       violations,
                                       schemasWithViolations
@@ -221,7 +281,8 @@ export class SchemaTypesRule implements Rule {
                                 totalSchemas++;
                                 const paramName = resolvedParam.name || `index${index}`; // Use index if name is missing
                                 const schemaPath = `${pathName}.${method}.parameters.${paramName}.schema`;
-                                this.validateSchema(resolvedParam.schema, schemaPath, spec, violations, schemasWithViolations);
+                                const schemaPointer = getTargetPointer(parameter, operationPointer + toPointer('parameters', index)) + toPointer('schema');
+                                this.validateSchema(resolvedParam.schema, schemaPath, schemaPointer, spec, violations, schemasWithViolations);
                             }
                         });
                     }
@@ -232,22 +293,57 @@ export class SchemaTypesRule implements Rule {
     }
 
     private validateSchema(
-        schema: OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject,
+        schema: AnySchema,
+        path: string,
+        pointer: string,
+        spec: OpenAPIDocument,
+        violations: RuleViolation[],
+        schemasWithViolations: Set<string>
+    ): void {
+        // Recursive schemas (e.g. a tree node referencing itself) are only walked once per branch
+        const target = typeof schema === 'object'
+            ? resolveSchema(schema as OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject, spec) || schema
+            : schema;
+        if (typeof target === 'object') {
+            if (this.schemasInProgress.has(target)) return;
+            this.schemasInProgress.add(target);
+        }
+
+        try {
+            this.validateSchemaNode(schema, path, pointer, spec, violations, schemasWithViolations);
+        } finally {
+            if (typeof target === 'object') this.schemasInProgress.delete(target);
+        }
+    }
+
+    private validateSchemaNode(
+        schema: AnySchema,
         path: string, // Represents the path in the original spec
-        spec: OpenAPIV3.Document,
+        pointer: string,
+        spec: OpenAPIDocument,
         violations: RuleViolation[],
         schemasWithViolations: Set<string>
     ): void {
         const originalPath = path; // Keep the original path for violation location
 
+        // Boolean schemas (true/false) are valid in OpenAPI 3.1 and have nothing to check
+        if (typeof schema === 'boolean') return;
+        // Findings about a referenced schema point at its definition
+        const schemaPointer = getTargetPointer(schema, pointer);
+
+        const is31 = isOpenAPI31(spec);
+
         // Resolve schema reference if needed
-        const resolvedSchema = resolveSchema(schema, spec);
+        const resolvedSchema = resolveSchema(schema as OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject, spec) as ResolvedSchema | undefined;
+        const types = resolvedSchema ? getSchemaTypes(resolvedSchema) : [];
         if (!resolvedSchema) {
              // If a reference cannot be resolved, it's a significant error
             if ('$ref' in schema) {
                  violations.push({
                     path: originalPath.split('.')[0],
                     location: originalPath,
+                    pointer,
+                    ruleId: 'schema.unresolved-reference',
                     message: `Unresolved schema reference: ${schema.$ref}`,
                     severity: 'error',
                     suggestion: `Ensure the reference '${schema.$ref}' points to a valid schema in the components or elsewhere.`
@@ -259,23 +355,46 @@ export class SchemaTypesRule implements Rule {
 
 
         // Check 1: Schema has a type definition or composition
-        if (!this.isSchemaDefined(resolvedSchema)) {
+        if (!this.isSchemaDefined(resolvedSchema, is31)) {
             violations.push({
                 path: originalPath.split('.')[0],
                 location: originalPath,
+                pointer: schemaPointer,
+                ruleId: 'schema.missing-type',
                 message: 'Schema lacks a type definition or composition keyword (allOf, oneOf, anyOf)',
                 severity: 'error',
                 suggestion: 'Define an explicit type (string, number, object, etc.) or use a composition keyword.'
             });
             schemasWithViolations.add(originalPath);
-        } else if (resolvedSchema.type && !this.PRIMITIVE_TYPES.includes(resolvedSchema.type)) {
+        } else if (resolvedSchema.type && (
+            (Array.isArray(resolvedSchema.type) && !is31) ||
+            types.some(type => !this.PRIMITIVE_TYPES.includes(type))
+        )) {
              // Check 2: If type is defined, ensure it's a valid primitive type
              violations.push({
                 path: originalPath.split('.')[0],
                 location: originalPath,
+                pointer: schemaPointer,
+                ruleId: 'schema.invalid-type',
                 message: `Schema uses invalid type: '${resolvedSchema.type}'`,
                 severity: 'error',
-                suggestion: `Use standard OpenAPI types: ${this.PRIMITIVE_TYPES.join(', ')}`
+                suggestion: Array.isArray(resolvedSchema.type) && !is31
+                    ? 'Type arrays require OpenAPI 3.1. Use a single type with nullable: true, or upgrade the document to 3.1'
+                    : `Use standard OpenAPI types: ${this.PRIMITIVE_TYPES.join(', ')}`
+            });
+            schemasWithViolations.add(originalPath);
+        }
+
+        // Check 2.1: nullable was removed in OpenAPI 3.1 in favour of a "null" type
+        if (is31 && resolvedSchema.nullable !== undefined) {
+            violations.push({
+                path: originalPath.split('.')[0],
+                location: originalPath,
+                pointer: schemaPointer,
+                ruleId: 'schema.nullable-in-3-1',
+                message: "Schema uses 'nullable', which is not supported in OpenAPI 3.1",
+                severity: 'warning',
+                suggestion: `Replace nullable with a type array that includes "null" (e.g. type: [${types[0] || 'string'}, "null"])`
             });
             schemasWithViolations.add(originalPath);
         }
@@ -283,7 +402,7 @@ export class SchemaTypesRule implements Rule {
 
         const hasComposition = resolvedSchema.allOf || resolvedSchema.oneOf || resolvedSchema.anyOf;
         // Check 3: If type is 'object', it should have properties or additionalProperties (unless using composition)
-        if (resolvedSchema.type === 'object') {
+        if (types.includes('object')) {
             const hasPropertiesOrAdditional = !!resolvedSchema.properties ||
                                              resolvedSchema.additionalProperties === true ||
                                              typeof resolvedSchema.additionalProperties === 'object';
@@ -291,6 +410,8 @@ export class SchemaTypesRule implements Rule {
                  violations.push({
                     path: originalPath.split('.')[0],
                     location: originalPath,
+                    pointer: schemaPointer,
+                    ruleId: 'schema.object-without-properties',
                     message: 'Object schema has no properties or additionalProperties defined and is not using composition',
                     severity: 'warning', // Changed to warning as it might be intentional for fully free-form
                     suggestion: 'Define properties, use additionalProperties, or use composition keywords to specify object structure'
@@ -306,6 +427,7 @@ export class SchemaTypesRule implements Rule {
                     this.validateSchema(
                         propSchema as OpenAPIV3.ReferenceObject | OpenAPIV3.SchemaObject,
                         `${originalPath}.properties.${propName}`,
+                        schemaPointer + toPointer('properties', propName),
                         spec,
                         violations,
                         schemasWithViolations
@@ -318,6 +440,7 @@ export class SchemaTypesRule implements Rule {
                 this.validateSchema(
                     resolvedSchema.additionalProperties,
                     `${originalPath}.additionalProperties`,
+                    schemaPointer + toPointer('additionalProperties'),
                     spec,
                     violations,
                     schemasWithViolations
@@ -333,6 +456,8 @@ export class SchemaTypesRule implements Rule {
                 violations.push({
                     path: originalPath.split('.')[0],
                     location: originalPath,
+                    pointer: schemaPointer,
+                    ruleId: 'schema.no-required-properties',
                     message: 'Object schema has properties defined but none are marked as required',
                     severity: 'info', // Often just an informational suggestion
                     suggestion: 'Specify which properties are required for more precise validation'
@@ -341,22 +466,31 @@ export class SchemaTypesRule implements Rule {
             }
         }
 
-        // Check 4: If type is 'array', it should have items defined
-        if (resolvedSchema.type === 'array') {
-            if (!resolvedSchema.items) {
+        // Check 4: If type is 'array', it should have items (or 3.1 prefixItems) defined
+        const prefixItems: AnySchema[] | undefined = is31 ? (resolvedSchema as any).prefixItems : undefined;
+        if (Array.isArray(prefixItems)) {
+            prefixItems.forEach((itemSchema, index) => {
+                this.validateSchema(itemSchema, `${originalPath}.prefixItems[${index}]`, schemaPointer + toPointer('prefixItems', index), spec, violations, schemasWithViolations);
+            });
+        }
+        if (types.includes('array')) {
+            if (!resolvedSchema.items && !prefixItems) {
                  violations.push({
                     path: originalPath.split('.')[0],
                     location: originalPath,
+                    pointer: schemaPointer,
+                    ruleId: 'schema.array-missing-items',
                     message: 'Array schema is missing items definition',
                     severity: 'error',
                     suggestion: 'Define items schema to specify the type of array elements'
                  });
                 schemasWithViolations.add(originalPath);
-            } else {
+            } else if (resolvedSchema.items !== undefined) {
                 // Validate array items schema
                 this.validateSchema(
                     resolvedSchema.items,
                     `${originalPath}.items`,
+                    schemaPointer + toPointer('items'),
                     spec,
                     violations,
                     schemasWithViolations
@@ -366,25 +500,30 @@ export class SchemaTypesRule implements Rule {
 
 
         // Check 5: Validate string formats
-        if (resolvedSchema.type === 'string' && resolvedSchema.format) {
-            if (!this.STRING_FORMATS.includes(resolvedSchema.format)) {
+        const stringFormats = is31 ? [...this.STRING_FORMATS, ...this.JSON_SCHEMA_STRING_FORMATS] : this.STRING_FORMATS;
+        if (types.includes('string') && resolvedSchema.format) {
+            if (!stringFormats.includes(resolvedSchema.format)) {
                 violations.push({
                     path: originalPath.split('.')[0],
                     location: originalPath,
+                    pointer: schemaPointer,
+                    ruleId: 'schema.string-format',
                     message: `String uses non-standard format: '${resolvedSchema.format}'`,
                     severity: 'info',
-                    suggestion: `Consider using standard formats: ${this.STRING_FORMATS.join(', ')}`
+                    suggestion: `Consider using standard formats: ${stringFormats.join(', ')}`
                 });
             }
         }
 
         // Check 6: Validate number formats
-        if ((resolvedSchema.type === 'number' || resolvedSchema.type === 'integer') &&
+        if ((types.includes('number') || types.includes('integer')) &&
             resolvedSchema.format &&
             !this.NUMBER_FORMATS.includes(resolvedSchema.format)) {
             violations.push({
                 path: originalPath.split('.')[0],
                 location: originalPath,
+                pointer: schemaPointer,
+                ruleId: 'schema.number-format',
                 message: `Number uses non-standard format: '${resolvedSchema.format}'`,
                 severity: 'info',
                 suggestion: `Consider using standard formats: ${this.NUMBER_FORMATS.join(', ')}`
@@ -392,7 +531,7 @@ export class SchemaTypesRule implements Rule {
         }
 
          // Check 7: Explicitly checking for completely free-form objects (type: object with no properties and additionalProperties: true)
-        if (resolvedSchema.type === 'object' &&
+        if (types.includes('object') &&
             resolvedSchema.additionalProperties === true &&
             (!resolvedSchema.properties || Object.keys(resolvedSchema.properties).length === 0) &&
             !hasComposition // Ensure it's not just part of a composition that defines structure
@@ -400,6 +539,8 @@ export class SchemaTypesRule implements Rule {
             violations.push({
                 path: originalPath.split('.')[0],
                 location: originalPath,
+                pointer: schemaPointer,
+                ruleId: 'schema.free-form-object',
                 message: 'Schema defines a completely free-form object with no defined properties or composition',
                 severity: 'warning', // Consider this a warning as it lacks clarity
                 suggestion: 'Define specific properties or a schema for additionalProperties for better type safety and clarity.'
@@ -409,10 +550,11 @@ export class SchemaTypesRule implements Rule {
 
         // Check 8: Validate composition schemas (allOf, oneOf, anyOf)
         if (resolvedSchema.allOf) {
-            resolvedSchema.allOf.forEach((subSchema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, index: number) => {
+            resolvedSchema.allOf.forEach((subSchema: AnySchema, index: number) => {
                 this.validateSchema(
                     subSchema,
                     `${originalPath}.allOf[${index}]`,
+                    schemaPointer + toPointer('allOf', index),
                     spec,
                     violations,
                     schemasWithViolations
@@ -421,10 +563,11 @@ export class SchemaTypesRule implements Rule {
         }
 
         if (resolvedSchema.oneOf) {
-            resolvedSchema.oneOf.forEach((subSchema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, index: number) => {
+            resolvedSchema.oneOf.forEach((subSchema: AnySchema, index: number) => {
                 this.validateSchema(
                     subSchema,
                     `${originalPath}.oneOf[${index}]`,
+                    schemaPointer + toPointer('oneOf', index),
                     spec,
                     violations,
                     schemasWithViolations
@@ -433,10 +576,11 @@ export class SchemaTypesRule implements Rule {
         }
 
         if (resolvedSchema.anyOf) {
-            resolvedSchema.anyOf.forEach((subSchema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, index: number) => {
+            resolvedSchema.anyOf.forEach((subSchema: AnySchema, index: number) => {
                 this.validateSchema(
                     subSchema,
                     `${originalPath}.anyOf[${index}]`,
+                    schemaPointer + toPointer('anyOf', index),
                     spec,
                     violations,
                     schemasWithViolations
@@ -450,6 +594,8 @@ export class SchemaTypesRule implements Rule {
                 violations.push({
                     path: originalPath.split('.')[0],
                     location: originalPath,
+                    pointer: schemaPointer,
+                    ruleId: 'schema.empty-enum',
                     message: 'Schema has empty enum array',
                     severity: 'error',
                     suggestion: 'Add enum values or remove the enum keyword'
@@ -459,11 +605,15 @@ export class SchemaTypesRule implements Rule {
 
             // Check for null values in enums without explicitly allowing null in type or nullable
             if (resolvedSchema.enum.includes(null)) {
-                const allowsNullType = Array.isArray(resolvedSchema.type) && resolvedSchema.type.includes('null');
-                if (resolvedSchema.nullable !== true && !allowsNullType) {
+                const allowsNullType = types.includes('null');
+                // nullable has no meaning in OpenAPI 3.1, only the "null" type does
+                const allowsNullable = !is31 && resolvedSchema.nullable === true;
+                if (!allowsNullable && !allowsNullType) {
                      violations.push({
                         path: originalPath.split('.')[0],
                         location: originalPath,
+                        pointer: schemaPointer,
+                        ruleId: 'schema.enum-null-not-nullable',
                         message: 'Enum includes null but schema is not marked as nullable or does not include "null" in type array',
                         severity: 'warning',
                         suggestion: 'Add nullable: true or include "null" in the type array (for OpenAPI 3.1+).'
@@ -473,14 +623,39 @@ export class SchemaTypesRule implements Rule {
             }
         }
 
+        // Check 10: JSON Schema 2020-12 keywords used by OpenAPI 3.1
+        if (is31) {
+            const defs: Record<string, AnySchema> | undefined = (resolvedSchema as any).$defs;
+            if (defs && typeof defs === 'object') {
+                Object.entries(defs).forEach(([defName, defSchema]) => {
+                    this.validateSchema(defSchema, `${originalPath}.$defs.${defName}`, schemaPointer + toPointer('$defs', defName), spec, violations, schemasWithViolations);
+                });
+            }
+
+            if (resolvedSchema.const !== undefined && resolvedSchema.enum) {
+                violations.push({
+                    path: originalPath.split('.')[0],
+                    location: originalPath,
+                    pointer: schemaPointer,
+                    ruleId: 'schema.const-and-enum',
+                    message: 'Schema defines both const and enum',
+                    severity: 'info',
+                    suggestion: 'Use const for a single allowed value, or enum for a list of values, but not both'
+                });
+            }
+        }
+
          // If it's an object with properties, check for property descriptions (can be a separate loop if needed)
-        if (resolvedSchema.type === 'object' && resolvedSchema.properties) {
+        if (types.includes('object') && resolvedSchema.properties) {
              Object.entries(resolvedSchema.properties).forEach(([propName, propSchema]) => {
+                 if (typeof propSchema === 'boolean') return;
                  const resolvedPropSchema = resolveSchema(propSchema as OpenAPIV3.ReferenceObject, spec);
                  if (resolvedPropSchema && !resolvedPropSchema.description) {
                       violations.push({
                         path: originalPath.split('.')[0],
                         location: `${originalPath}.properties.${propName}`,
+                        pointer: schemaPointer + toPointer('properties', propName),
+                        ruleId: 'schema.property-description',
                         message: `Schema property '${propName}' is missing a description`,
                         severity: 'info',
                         suggestion: `Add a description for the '${propName}' property.`
@@ -490,8 +665,10 @@ export class SchemaTypesRule implements Rule {
          }
     }
 
-    private isSchemaDefined(schema: OpenAPIV3.SchemaObject): boolean {
-        return !!schema.type || !!schema.allOf || !!schema.oneOf || !!schema.anyOf;
+    private isSchemaDefined(schema: ResolvedSchema, is31: boolean): boolean {
+        if (!!schema.type || !!schema.allOf || !!schema.oneOf || !!schema.anyOf) return true;
+        // In 3.1 a schema can be fully constrained by JSON Schema keywords alone
+        return is31 && (schema.const !== undefined || !!schema.not || !!(schema as any).prefixItems || !!(schema as any).if);
     }
 
     private isRecord(value: unknown): value is Record<string, unknown> {
@@ -1,18 +1,24 @@
 import { OpenAPIV3 } from 'openapi-types';
-import { Rule, RuleResult, RuleViolation } from '../types';
+import { OpenAPIDocument, Rule, RuleResult, RuleSettings, RuleViolation, ScoreExplanation } from '../types';
 import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../constants";
+import { createExplanation, toPoints } from "../explanation";
+import { finalizeViolations, getOperationMethods, getPathItems, toPointer } from "../spec-utils";
 
 export class SecurityRule implements Rule {
     name = RULE_NAMES.security;
     description = RULE_DESCRIPTIONS.security;
-    weight = CRITERIA_WEIGHTS.security;
+    weight: number;
 
     private readonly MUTATING_METHODS = ['post', 'put', 'patch', 'delete'];
 
-    evaluate(spec: OpenAPIV3.Document): RuleResult {
+    constructor(private settings: RuleSettings = {}) {
+        this.weight = settings.weight ?? CRITERIA_WEIGHTS.security;
+    }
+
+    evaluate(spec: OpenAPIDocument): RuleResult {
         const definedSchemes = this.getDefinedSchemes(spec);
         const allReferencedSchemes = new Set<string>();
-        const violations: RuleViolation[] = [];
+        let violations: RuleViolation[] = [];
 
         const {
             hasMutatingOperations,
@@ -43,7 +49,10 @@ export class SecurityRule implements Rule {
             violations
         );
 
-        let score = this.calculateScore(
+        const finalized = finalizeViolations(violations, spec, this.settings.checks);
+        violations = finalized.violations;
+
+        const { score, explanation } = this.calculateScore(
             violations,
             potentialSecurityPoints,
             securedPoints,
@@ -56,18 +65,20 @@ export class SecurityRule implements Rule {
         return {
             score,
             maxScore: this.weight,
-            violations
+            violations,
+            suppressed: finalized.suppressed,
+            explanation
         };
     }
 
-    private getDefinedSchemes(spec: OpenAPIV3.Document): string[] {
+    private getDefinedSchemes(spec: OpenAPIDocument): string[] {
         return spec.components?.securitySchemes
             ? Object.keys(spec.components.securitySchemes)
             : [];
     }
 
     private analyzeOperations(
-        spec: OpenAPIV3.Document,
+        spec: OpenAPIDocument,
         definedSchemes: string[],
         allReferencedSchemes: Set<string>
     ) {
@@ -87,85 +98,84 @@ export class SecurityRule implements Rule {
             });
         }
 
-        if (spec.paths) {
-            Object.entries(spec.paths).forEach(([path, pathItem]) => {
-                if (!pathItem) return;
+        getPathItems(spec).forEach(({ path, pointer, pathItem, isWebhook }) => {
+            getOperationMethods(pathItem)
+                .forEach(method => {
+                    const operation = pathItem[method as OpenAPIV3.HttpMethods] as OpenAPIV3.OperationObject;
+                    const operationLocation = `${path}.${method}`;
+                    const operationPointer = pointer + toPointer(method);
 
-                Object.entries(pathItem)
-                    .filter(([key]) =>
-                        [
-                            'get',
-                            'post',
-                            'put',
-                            'delete',
-                            'patch',
-                            'options',
-                            'head',
-                            'trace'
-                        ].includes(key)
-                    )
-                    .forEach(([method, op]) => {
-                        const operation = op as OpenAPIV3.OperationObject;
-                        const operationLocation = `${path}.${method}`;
-                        operationsCheckedForSecurity++;
+                    // Webhooks are requests the API sends, so they only count towards scheme usage
+                    if (isWebhook) {
+                        operation.security?.forEach(secReq => {
+                            Object.keys(secReq).forEach(schemeName =>
+                                allReferencedSchemes.add(schemeName)
+                            );
+                        });
+                        return;
+                    }
+                    operationsCheckedForSecurity++;
 
-                        const isMutating = this.MUTATING_METHODS.includes(
-                            method.toLowerCase()
-                        );
-                        if (isMutating) {
-                            hasMutatingOperations = true;
-                            potentialSecurityPoints++;
-                        }
+                    const isMutating = this.MUTATING_METHODS.includes(
+                        method.toLowerCase()
+                    );
+                    if (isMutating) {
+                        hasMutatingOperations = true;
+                        potentialSecurityPoints++;
+                    }
 
-                        let operationIsSecured = false;
-                        if (operation.security !== undefined) {
-                            if (
-                                operation.security === null ||
-                                operation.security.length === 0
-                            ) {
-                                if (isMutating) {
-                                    violations.push({
-                                        path,
-                                        location: operationLocation,
-                                        message: `Mutating operation ${method.toUpperCase()} ${path} explicitly disables security (security: []).`,
-                                        severity: 'warning',
-                                        suggestion:
-                                            'Ensure this is intentional. Mutating operations should typically be secured.'
-                                    });
-                                }
-                            } else {
-                                operationIsSecured = true;
-                                operation.security.forEach(secReq => {
-                                    Object.keys(secReq).forEach(schemeName =>
-                                        allReferencedSchemes.add(schemeName)
-                                    );
-                                });
-                            }
-                        } else if (
-                            spec.security &&
-                            spec.security.length > 0
+                    let operationIsSecured = false;
+                    if (operation.security !== undefined) {
+                        if (
+                            operation.security === null ||
+                            operation.security.length === 0
                         ) {
-                            operationIsSecured = true;
-                        }
-
-                        if (isMutating) {
-                            if (operationIsSecured) {
-                                securedPoints++;
-                                mutatingOperationsSecured++;
-                            } else if (definedSchemes.length > 0) {
+                            if (isMutating) {
                                 violations.push({
                                     path,
                                     location: operationLocation,
-                                    message: `Mutating operation ${method.toUpperCase()} ${path} is not secured, but security schemes are defined.`,
+                                    pointer: operationPointer + toPointer('security'),
+                                    ruleId: 'security.mutating-security-disabled',
+                                    message: `Mutating operation ${method.toUpperCase()} ${path} explicitly disables security (security: []).`,
                                     severity: 'warning',
                                     suggestion:
-                                        'Apply a security requirement to this operation or define global security.'
+                                        'Ensure this is intentional. Mutating operations should typically be secured.'
                                 });
                             }
+                        } else {
+                            operationIsSecured = true;
+                            operation.security.forEach(secReq => {
+                                Object.keys(secReq).forEach(schemeName =>
+                                    allReferencedSchemes.add(schemeName)
+                                );
+                            });
                         }
-                    });
-            });
-        }
+                    } else if (
+                        spec.security &&
+                        spec.security.length > 0
+                    ) {
+                        operationIsSecured = true;
+                    }
+
+                    if (isMutating) {
+                        if (operationIsSecured) {
+                            securedPoints++;
+                            mutatingOperationsSecured++;
+                        } else if (definedSchemes.length > 0) {
+                            violations.push({
+                                path,
+                                location: operationLocation,
+                                pointer: operationPointer,
+                                ruleId: 'security.mutating-unsecured',
+                                message: `Mutating operation ${method.toUpperCase()} ${path} is not secured, but security schemes are defined.`,
+                                severity: 'warning',
+                                suggestion:
+                                    'Apply a security requirement to this operation or define global security.'
+                            });
+                        }
+                    }
+                });
+        });
 
         return {
             hasMutatingOperations,
@@ -187,6 +197,8 @@ export class SecurityRule implements Rule {
                 violations.push({
                     path: '',
                     location: `components.securitySchemes / security definitions`,
+                    pointer: toPointer('components', 'securitySchemes'),
+                    ruleId: 'security.undefined-scheme',
                     message: `Security scheme '${schemeName}' is referenced but not defined in components.securitySchemes.`,
                     severity: 'error',
                     suggestion: `Define '${schemeName}' in components.securitySchemes or remove the reference.`
@@ -205,6 +217,8 @@ export class SecurityRule implements Rule {
                 violations.push({
                     path: '',
                     location: `components.securitySchemes.${schemeName}`,
+                    pointer: toPointer('components', 'securitySchemes', schemeName),
+                    ruleId: 'security.unused-scheme',
                     message: `Security scheme '${schemeName}' is defined but never referenced.`,
                     severity: 'info',
                     suggestion:
@@ -223,6 +237,8 @@ export class SecurityRule implements Rule {
             violations.push({
                 path: '',
                 location: 'components.securitySchemes / security',
+                pointer: toPointer('components'),
+                ruleId: 'security.no-schemes',
                 message:
                     'API has mutating operations but no security schemes are defined.',
                 severity: 'error',
@@ -240,20 +256,28 @@ export class SecurityRule implements Rule {
         definedSchemes: string[],
         mutatingOperationsSecured: number,
         operationsCheckedForSecurity: number
-    ): number {
+    ): { score: number; explanation: ScoreExplanation } {
         let score = this.weight;
+        let method = 'No operation earns or misses security points, so the category keeps full marks unless warnings apply';
+        const penalties: ScoreExplanation['penalties'] = [];
+        const caps: string[] = [];
+        const errors = violations.filter(v => v.severity === 'error').length;
 
-        if (violations.some(v => v.severity === 'error')) {
-            score = Math.max(
-                0,
-                this.weight -
-                    violations.filter(v => v.severity === 'error').length *
-                        (this.weight / 2)
-            );
+        if (errors > 0) {
+            score = Math.max(0, this.weight - errors * (this.weight / 2));
+            method = 'Every error takes half of the weight';
+            penalties.push({ reason: `${errors} error(s) × half of ${this.weight}`, points: toPoints(errors * this.weight / 2) });
         } else if (potentialSecurityPoints > 0) {
             score = Math.round(
                 (securedPoints / potentialSecurityPoints) * this.weight
             );
+            method = 'The share of security points earned by the operations, scaled to the weight';
+            if (securedPoints < potentialSecurityPoints) {
+                penalties.push({
+                    reason: `${potentialSecurityPoints - securedPoints} of ${potentialSecurityPoints} security points missed`,
+                    points: toPoints(this.weight * (1 - securedPoints / potentialSecurityPoints)),
+                });
+            }
         } else if (
             !hasMutatingOperations &&
             definedSchemes.length === 0
@@ -266,18 +290,31 @@ export class SecurityRule implements Rule {
             operationsCheckedForSecurity > 0
         ) {
             score = Math.max(0, this.weight / 3);
+            method = 'Security schemes are defined but no mutating operation uses them, so the category gets a third of the weight';
+            penalties.push({ reason: 'No mutating operation is secured', points: toPoints(this.weight * 2 / 3) });
         }
 
-        if (
-            !violations.some(v => v.severity === 'error') &&
-            violations.some(v => v.severity === 'warning')
-        ) {
-            const warningPenalty =
-                violations.filter(v => v.severity === 'warning').length *
-                (this.weight * 0.1);
+        const warnings = violations.filter(v => v.severity === 'warning').length;
+        if (errors === 0 && warnings > 0) {
+            const warningPenalty = warnings * (this.weight * 0.1);
             score = Math.max(0, score - warningPenalty);
+            penalties.push({ reason: `${warnings} warning(s) × a tenth of ${this.weight}`, points: toPoints(warningPenalty) });
+        }
+        if (penalties.reduce((sum, { points }) => sum + points, 0) > this.weight) {
+            caps.push('The penalties exceed the weight, so the score is 0');
         }
 
-        return Math.round(Math.max(0, Math.min(this.weight, score)));
+        return {
+            score: Math.round(Math.max(0, Math.min(this.weight, score))),
+            explanation: createExplanation(method, {
+                items: [
+                    { label: 'operations checked for security', count: operationsCheckedForSecurity },
+                    { label: 'security points possible', count: potentialSecurityPoints },
+                    { label: 'security points earned', count: securedPoints },
+                ],
+                penalties,
+                caps,
+            }),
+        };
     }
 }
@@ -0,0 +1,177 @@
+import Ajv, { ErrorObject, ValidateFunction } from 'ajv';
+import Ajv2020 from 'ajv/dist/2020';
+import AjvDraft4 from 'ajv-draft-04';
+import { openapi } from '@apidevtools/openapi-schemas';
+import { OpenAPIDocument, Rule, RuleResult, RuleSettings, RuleViolation } from '../types';
+import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../constants";
+import { resolveReference } from "../helper-functions";
+import { createExplanation, toPoints } from "../explanation";
+import { finalizeViolations, isOpenAPI31 } from "../spec-utils";
+
+// Compiling the meta-schemas is expensive, so each one is compiled once per process
+const validators: { v30?: ValidateFunction; v31?: ValidateFunction } = {};
+
+function getValidator(is31: boolean): ValidateFunction {
+    const options = { allErrors: true, strict: false, validateFormats: false };
+
+    if (!is31) {
+        validators.v30 = validators.v30 || new AjvDraft4(options).compile(openapi.v3);
+        return validators.v30;
+    }
+
+    if (!validators.v31) {
+        // Ajv cannot follow the $dynamicRef the 3.1 meta-schema uses for schema objects,
+        // so those places point at the schema definition directly (the same workaround swagger-parser applies)
+        const schema = structuredClone(openapi.v31) as any;
+        const schemaDefinition = schema.$defs.schema;
+        delete schemaDefinition.$dynamicAnchor;
+        schema.$defs.components.properties.schemas.additionalProperties = schemaDefinition;
+        schema.$defs.header.dependentSchemas.schema.properties.schema = schemaDefinition;
+        schema.$defs['media-type'].properties.schema = schemaDefinition;
+        schema.$defs.parameter.properties.schema = schemaDefinition;
+        validators.v31 = (new Ajv2020(options) as Ajv).compile(schema);
+    }
+    return validators.v31;
+}
+
+export class ValidityRule implements Rule {
+    name = RULE_NAMES.validity;
+    description = RULE_DESCRIPTIONS.validity;
+    weight: number;
+
+    constructor(private settings: RuleSettings = {}) {
+        this.weight = settings.weight ?? CRITERIA_WEIGHTS.validity;
+    }
+
+    evaluate(spec: OpenAPIDocument): RuleResult {
+        const { violations, suppressed } = finalizeViolations([
+            ...this.checkMetaSchema(spec),
+            ...this.checkReferences(spec),
+        ], spec, this.settings.checks);
+
+        // Every structural error takes a fifth of the category, an invalid document can't score full marks
+        const score = Math.max(0, this.weight - violations.length * (this.weight / 5));
+
+        return {
+            score: Math.round(score),
+            maxScore: this.weight,
+            violations,
+            suppressed,
+            explanation: createExplanation('Every structural problem takes a fifth of the weight, whatever its severity', {
+                penalties: violations.length > 0
+                    ? [{ reason: `${violations.length} problem(s) × a fifth of ${this.weight}`, points: toPoints(violations.length * this.weight / 5) }]
+                    : [],
+                caps: violations.length > 5 ? ['The penalties exceed the weight, so the score is 0'] : [],
+            })
+        };
+    }
+
+    private checkMetaSchema(spec: OpenAPIDocument): RuleViolation[] {
+        const validate = getValidator(isOpenAPI31(spec));
+        if (validate(spec)) return [];
+
+        return this.getRelevantErrors(validate.errors || []).map(error => {
+            const pointer = error.instancePath;
+            return {
+                path: this.getPathName(pointer),
+                location: this.toLocation(pointer),
+                pointer,
+                ruleId: 'validity.schema',
+                message: `Document does not match the OpenAPI ${isOpenAPI31(spec) ? '3.1' : '3.0'} schema: ${this.describeError(error)}`,
+                severity: 'error',
+                suggestion: 'Fix the document structure so it conforms to the OpenAPI specification'
+            };
+        });
+    }
+
+    private checkReferences(spec: OpenAPIDocument): RuleViolation[] {
+        const violations: RuleViolation[] = [];
+
+        const visit = (node: unknown, pointer: string) => {
+            if (Array.isArray(node)) {
+                node.forEach((item, index) => visit(item, `${pointer}/${index}`));
+                return;
+            }
+            if (!node || typeof node !== 'object') return;
+
+            const ref = (node as { $ref?: unknown }).$ref;
+            if (typeof ref === 'string' && resolveReference(ref, spec) === undefined) {
+                violations.push({
+                    path: this.getPathName(pointer),
+                    location: this.toLocation(pointer),
+                    pointer,
+                    ruleId: 'validity.unresolved-reference',
+                    message: `Reference '${ref}' cannot be resolved`,
+                    severity: 'error',
+                    suggestion: ref.startsWith('#/')
+                        ? 'Point the $ref at an existing component or fix the typo in its path'
+                        : 'Make the referenced file available next to the specification, or inline the referenced content'
+                });
+            }
+
+            for (const [key, value] of Object.entries(node)) {
+                // Example values are free-form data, a $ref inside them is not a reference
+                if (key === 'example' || key === 'examples' && Array.isArray(value)) continue;
+                visit(value, `${pointer}/${key.replace(/~/g, '~0').replace(/\//g, '~1')}`);
+            }
+        };
+
+        visit(spec, '');
+        return violations;
+    }
+
+    // With allErrors, every failed oneOf/anyOf branch is reported as well; only the most specific error per node is kept
+    private getRelevantErrors(errors: ErrorObject[]): ErrorObject[] {
+        const relevant = errors.filter(error =>
+            !(error.keyword === 'required' && (error.params as { missingProperty?: string }).missingProperty === '$ref') &&
+            !(['oneOf', 'anyOf', 'if'].includes(error.keyword) &&
+                errors.some(other => other !== error && !['oneOf', 'anyOf', 'if'].includes(other.keyword) &&
+                    (other.instancePath === error.instancePath || other.instancePath.startsWith(`${error.instancePath}/`))))
+        );
+
+        // Each branch rejects an enum value with its own allowed values, these are merged into one error
+        const enums = new Map<string, ErrorObject>();
+        const merged = relevant.filter(error => {
+            if (error.keyword !== 'enum') return true;
+            const existing = enums.get(error.instancePath);
+            if (!existing) {
+                enums.set(error.instancePath, { ...error, params: { allowedValues: [...(error.params as { allowedValues: unknown[] }).allowedValues] } });
+                return true;
+            }
+            const allowedValues = (existing.params as { allowedValues: unknown[] }).allowedValues;
+            (error.params as { allowedValues: unknown[] }).allowedValues
+                .filter(value => !allowedValues.includes(value))
+                .forEach(value => allowedValues.push(value));
+            return false;
+        }).map(error => error.keyword === 'enum' ? enums.get(error.instancePath)! : error);
+
+        const seen = new Set<string>();
+        return merged.filter(error => {
+            const key = `${error.instancePath} ${this.describeError(error)}`;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
+
+    private describeError(error: ErrorObject): string {
+        const params = error.params as { additionalProperty?: string; allowedValues?: unknown[] };
+        if (error.keyword === 'additionalProperties' && params.additionalProperty) {
+            return `unexpected property '${params.additionalProperty}'`;
+        }
+        if (error.keyword === 'enum' && params.allowedValues) {
+            return `${error.message} (${params.allowedValues.join(', ')})`;
+        }
+        return error.message || error.keyword;
+    }
+
+    private getPathName(pointer: string): string {
+        const [section, name] = pointer.split('/').slice(1);
+        return section === 'paths' && name ? name.replace(/~1/g, '/').replace(/~0/g, '~') : '';
+    }
+
+    private toLocation(pointer: string): string {
+        if (!pointer) return 'document';
+        return pointer.split('/').slice(1).map(key => key.replace(/~1/g, '/').replace(/~0/g, '~')).join('.');
+    }
+}
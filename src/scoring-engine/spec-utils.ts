@@ -0,0 +1,170 @@
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { CheckSeverities, OpenAPIDocument, RuleViolation, SuppressedViolation } from './types';
+
+export const HTTP_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'trace'];
+
+export interface PathItemEntry {
+    // URL path for entries under `paths`, `webhooks.<name>` for webhooks
+    path: string;
+    // JSON pointer of the path item, e.g. '/paths/~1pets' or '/webhooks/newPet'
+    pointer: string;
+    pathItem: OpenAPIV3.PathItemObject;
+    isWebhook: boolean;
+}
+
+export function isOpenAPI31(spec: OpenAPIDocument): boolean {
+    return typeof spec.openapi === 'string' && spec.openapi.startsWith('3.1');
+}
+
+// Lists every path item the rules should treat as a set of operations: all `paths`,
+// followed by the OpenAPI 3.1 `webhooks` when requested.
+export function getPathItems(spec: OpenAPIDocument, includeWebhooks = true): PathItemEntry[] {
+    const entries: PathItemEntry[] = [];
+
+    for (const [path, pathItem] of Object.entries(spec.paths || {})) {
+        if (!pathItem) continue;
+        entries.push({ path, pointer: toPointer('paths', path), pathItem: pathItem as OpenAPIV3.PathItemObject, isWebhook: false });
+    }
+
+    const webhooks = (spec as OpenAPIV3_1.Document).webhooks;
+    if (includeWebhooks && webhooks) {
+        for (const [name, webhook] of Object.entries(webhooks)) {
+            const pathItem = resolvePathItem(webhook, spec);
+            if (!pathItem) continue;
+            entries.push({ path: `webhooks.${name}`, pointer: toPointer('webhooks', name), pathItem, isWebhook: true });
+        }
+    }
+
+    return entries;
+}
+
+// Builds an RFC 6901 JSON pointer from unescaped segments, e.g. ('paths', '/pets', 'get') -> '/paths/~1pets/get'
+export function toPointer(...segments: (string | number)[]): string {
+    return segments.map(segment => '/' + String(segment).replace(/~/g, '~0').replace(/\//g, '~1')).join('');
+}
+
+// Pointer of the node a value stands for: the target of an internal $ref, or its own position otherwise
+export function getTargetPointer(value: object, pointer: string): string {
+    const ref = (value as { $ref?: unknown }).$ref;
+    return typeof ref === 'string' && ref.startsWith('#/') ? ref.substring(1) : pointer;
+}
+
+export function getOperationMethods(pathItem: OpenAPIV3.PathItemObject): string[] {
+    return Object.keys(pathItem).filter(key => HTTP_METHODS.includes(key));
+}
+
+// Endpoints that are single resources by convention although their last segment is no path parameter
+const NON_COLLECTION_SEGMENTS = ['status', 'health', 'ping', 'version', 'info', 'docs', 'metrics'];
+
+// Whether a path likely addresses a collection: it ends with a resource name rather than a path parameter,
+// e.g. '/pets' or '/owners/{id}/pets' but not '/pets/{id}' or '/health'
+export function isCollectionPath(path: string): boolean {
+    const segments = path.split('/').filter(Boolean);
+    const lastSegment = segments[segments.length - 1];
+    return !!lastSegment && !lastSegment.startsWith('{') && !NON_COLLECTION_SEGMENTS.includes(lastSegment);
+}
+
+// `type` is a single string in OpenAPI 3.0 and may be an array in 3.1
+export function getSchemaTypes(schema: { type?: unknown }): string[] {
+    if (Array.isArray(schema.type)) return schema.type.filter(t => typeof t === 'string');
+    return typeof schema.type === 'string' ? [schema.type] : [];
+}
+
+export function hasSchemaType(schema: { type?: unknown }, type: string): boolean {
+    return getSchemaTypes(schema).includes(type);
+}
+
+function resolvePathItem(
+    pathItem: OpenAPIV3_1.PathItemObject | OpenAPIV3_1.ReferenceObject,
+    spec: OpenAPIDocument
+): OpenAPIV3.PathItemObject | undefined {
+    if (!('$ref' in pathItem) || typeof pathItem.$ref !== 'string') {
+        return pathItem as OpenAPIV3.PathItemObject;
+    }
+    const prefix = '#/components/pathItems/';
+    if (!pathItem.$ref.startsWith(prefix)) return undefined;
+
+    const components = spec.components as OpenAPIV3_1.ComponentsObject | undefined;
+    const target = components?.pathItems?.[pathItem.$ref.substring(prefix.length)];
+    return target && !('$ref' in target) ? target as OpenAPIV3.PathItemObject : undefined;
+}
+
+// Turns a rule ID pattern, in which '*' matches any text, into an anchored expression
+function toMatcher(pattern: string): RegExp {
+    const source = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${source}$`, 's');
+}
+
+// Applies the configured check severities, matched against rule IDs only; violations of checks switched off are dropped
+export function applyCheckSeverities(violations: RuleViolation[], checks: CheckSeverities = {}): RuleViolation[] {
+    const patterns = Object.entries(checks).map(([pattern, severity]) => ({ matcher: toMatcher(pattern), severity }));
+    if (patterns.length === 0) return violations;
+
+    return violations.flatMap(violation => {
+        const override = patterns.find(({ matcher }) => matcher.test(violation.ruleId));
+        if (!override) return [violation];
+        return override.severity === 'off' ? [] : [{ ...violation, severity: override.severity }];
+    });
+}
+
+export const IGNORE_EXTENSION = 'x-scorecard-ignore';
+
+interface Suppression {
+    matcher: RegExp;
+    reason?: string;
+}
+
+// Entries of an x-scorecard-ignore annotation: rule IDs, or `{ rule, reason }` objects
+function getSuppressions(node: unknown): Suppression[] {
+    if (!node || typeof node !== 'object') return [];
+    const annotation = (node as Record<string, unknown>)[IGNORE_EXTENSION];
+    const entries = Array.isArray(annotation) ? annotation : annotation === undefined ? [] : [annotation];
+
+    return entries.flatMap(entry => {
+        if (typeof entry === 'string') return [{ matcher: toMatcher(entry) }];
+        if (entry && typeof entry === 'object' && typeof entry.rule === 'string') {
+            return [{ matcher: toMatcher(entry.rule), reason: typeof entry.reason === 'string' ? entry.reason : undefined }];
+        }
+        return [];
+    });
+}
+
+// Takes out violations whose node, or one of its ancestors, lists their rule ID in x-scorecard-ignore
+export function applySuppressions(
+    violations: RuleViolation[],
+    spec: OpenAPIDocument
+): { violations: RuleViolation[]; suppressed: SuppressedViolation[] } {
+    const kept: RuleViolation[] = [];
+    const suppressed: SuppressedViolation[] = [];
+
+    violations.forEach(violation => {
+        let node: unknown = spec;
+        let pointer = '';
+        const segments = (violation.pointer || '').split('/').slice(1);
+
+        for (let index = 0; index <= segments.length; index++) {
+            const match = getSuppressions(node).find(({ matcher }) => matcher.test(violation.ruleId));
+            if (match) {
+                suppressed.push({ ...violation, suppressedBy: pointer, reason: match.reason });
+                return;
+            }
+            if (index === segments.length || !node || typeof node !== 'object') break;
+
+            const segment = segments[index];
+            node = (node as Record<string, unknown>)[segment.replace(/~1/g, '/').replace(/~0/g, '~')];
+            pointer += `/${segment}`;
+        }
+        kept.push(violation);
+    });
+
+    return { violations: kept, suppressed };
+}
+
+// Everything a rule does to its violations before scoring: configured severities, then in-spec suppressions
+export function finalizeViolations(
+    violations: RuleViolation[],
+    spec: OpenAPIDocument,
+    checks?: CheckSeverities
+): { violations: RuleViolation[]; suppressed: SuppressedViolation[] } {
+    return applySuppressions(applyCheckSeverities(violations, checks), spec);
+}
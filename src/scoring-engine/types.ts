@@ -1,26 +1,102 @@
-import { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { CRITERIA_WEIGHTS } from './constants';
+
+// Every rule accepts both OpenAPI 3.0 and 3.1 documents
+export type OpenAPIDocument = OpenAPIV3.Document | OpenAPIV3_1.Document;
+
+// 1-based position in a source file
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface SourceRange {
+  file: string;
+  start: SourcePosition;
+  end: SourcePosition;
+}
 
 // useful intefaces for rules and categories
 export interface RuleViolation {
+  // Stable identifier of the check that produced the violation, e.g. 'paths.verb-in-path'
+  ruleId: string;
   path: string;
+  // Upper case HTTP method of the operation the violation belongs to, e.g. 'GET'; `path` is then its URL path
   operation?: string;
   location: string;
+  // JSON pointer of the offending node in the evaluated document, e.g. '/paths/~1pets/get'
+  pointer?: string;
   message: string;
   severity: 'error' | 'warning' | 'info';
   suggestion: string;
+  // Referenced file the violating content was bundled from, unset for the root document
+  file?: string;
+  // Where the offending node is written, filled in when the source text is known
+  range?: SourceRange;
+  // Identifies the violation across runs, see fingerprintViolation
+  fingerprint?: string;
+  // Set when the run is compared against a baseline
+  baselineStatus?: 'new' | 'existing';
+  // Mechanical correction of the violation, applied by the `fix` command
+  fix?: ViolationFix;
+}
+
+// An RFC 6902 operation, with JSON pointers into the evaluated document
+export interface JsonPatchOperation {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  value?: unknown;
+}
+
+export interface ViolationFix {
+  description: string;
+  // Applied all or nothing
+  patch: JsonPatchOperation[];
+  // Safe fixes only add what is missing, without changing how the API behaves; `fix` applies no others
+  safe: boolean;
+}
+
+export type Severity = RuleViolation['severity'];
+
+// A violation taken out of scoring by an x-scorecard-ignore annotation, kept so reviewers can audit it
+export interface SuppressedViolation extends RuleViolation {
+  // JSON pointer of the object carrying the annotation
+  suppressedBy: string;
+  reason?: string;
 }
 
 export interface RuleResult {
   score: number;
   maxScore: number;
   violations: RuleViolation[];
+  suppressed?: SuppressedViolation[];
+  // Set when the rule failed; it then counts neither towards the score nor the category list
+  error?: string;
+  // How the score came about, unset for plugin rules that don't provide one
+  explanation?: ScoreExplanation;
+}
+
+// The arithmetic behind a category score, shown by --explain and the web UI
+export interface ScoreExplanation {
+  // The scoring method in one sentence
+  method: string;
+  // Counts the rule divides by, e.g. 12 schemas
+  items: { label: string; count: number }[];
+  // Checks scored on their own scale before being scaled to the weight
+  subChecks: { name: string; score: number; maxScore: number }[];
+  // Deductions from the weight, in category points before rounding
+  penalties: { reason: string; points: number }[];
+  // Limits that changed the score, e.g. the ceiling errors impose
+  caps: string[];
 }
 
 export interface Rule {
   name: string;
   description: string;
   weight: number;
-  evaluate(spec: OpenAPIV3.Document): RuleResult;
+  // Name of the plugin that contributed the rule, unset for built-in rules
+  plugin?: string;
+  evaluate(spec: OpenAPIDocument): RuleResult;
 }
 
 export interface CategoryScore {
@@ -28,13 +104,369 @@ export interface CategoryScore {
     score: number;
     maxScore: number;
     percentage: number;
+    // Name of the plugin that contributed the category
+    plugin?: string;
     ruleResult: { rule: Rule; result: RuleResult };
 }
 
+// Where a part of a multi-file specification was loaded from
+export interface ComponentSource {
+    // Path relative to the root document
+    file: string;
+    // JSON pointer inside that file, '' when the whole file was referenced
+    pointer: string;
+}
+
+export interface ParsedSpec {
+    document: OpenAPIDocument;
+    // Version declared by the input document, e.g. '2.0' or '3.0.3'
+    sourceVersion: string;
+    notes: string[];
+    // Bundled content keyed by its JSON pointer in the document, e.g. '/components/schemas/Pet'
+    componentSources?: Record<string, ComponentSource>;
+    sourceMap?: SourceLocator;
+}
+
+// Maps JSON pointers of the evaluated document back to the text they were parsed from
+export interface SourceLocator {
+    locate(pointer: string): SourceRange | undefined;
+}
+
 export interface ScoreCard {
     overallScore: number;
     grade: string;
+    // Scoring profile the report was made with, unset for the default scoring
+    profile?: string;
+    specVersion: string;
+    notes: string[];
+    // Problems with the configuration the report was made with, e.g. ruleset rules that could not be imported
+    warnings: string[];
     categoryScores: CategoryScore[];
+    // Every operation of the document, worst first
+    operationScores: OperationScore[];
+    // Rollups of the operations by tag and by owner, worst first; empty when no operation has one
+    tagScores: GroupScore[];
+    ownerScores: GroupScore[];
+    // Extension the owners were read from
+    ownerExtension: string;
+    // Outcome of every configured category minimum
+    policies: PolicyResult[];
     violations: RuleViolation[];
+    suppressed: SuppressedViolation[];
     ruleResults: { rule: Rule; result: RuleResult }[];
+    baseline?: BaselineComparison;
+    // Set when the document was checked for breaking changes against a previous version
+    breakingChanges?: BreakingChangeReport;
+}
+
+// How a single operation fares: scored like the whole document, with the operation as the only item of each category
+export interface OperationScore {
+    // Upper case HTTP method, e.g. 'GET'
+    method: string;
+    // URL path, or `webhooks.<name>` for webhooks
+    path: string;
+    score: number;
+    grade: string;
+    violationCount: number;
+    // Violations per category name, categories without violations are left out
+    categoryViolations: Record<string, number>;
+}
+
+// How a group of operations fares, e.g. all operations of a tag; scored with its operations as the items of each category
+export interface GroupScore {
+    name: string;
+    operationCount: number;
+    score: number;
+    grade: string;
+    violationCount: number;
+    // Checks with the most violations in the group, most frequent first
+    topChecks: { ruleId: string; count: number }[];
+}
+
+// A category minimum checked against the category score
+export interface PolicyResult {
+    category: string;
+    minimum: number;
+    percentage: number;
+    passed: boolean;
+    // Why the policy failed, unset when it passed
+    reason?: string;
+}
+
+// A known violation as stored in a baseline file
+export interface BaselineEntry {
+    fingerprint: string;
+    ruleId: string;
+    pointer: string;
+    message: string;
+    severity: Severity;
+}
+
+export interface BaselineComparison {
+    file: string;
+    newCount: number;
+    existingCount: number;
+    // Baseline entries that no longer occur
+    fixed: BaselineEntry[];
+}
+
+// One side of a comparison of two evaluated documents
+export interface ComparedSpec {
+    // File name or URL the document was read from
+    label: string;
+    overallScore: number;
+    grade: string;
+}
+
+export interface CategoryDelta {
+    name: string;
+    // Percentages, unset on the side that has no such category
+    previous?: number;
+    current?: number;
+    // Unset unless both sides have the category
+    delta?: number;
+}
+
+export interface SpecComparison {
+    previous: ComparedSpec;
+    current: ComparedSpec;
+    scoreDelta: number;
+    categoryDeltas: CategoryDelta[];
+    // Violations are matched across versions by fingerprint; unchanged ones are those of the current version
+    introduced: RuleViolation[];
+    resolved: RuleViolation[];
+    unchanged: RuleViolation[];
+}
+
+export type ChangeClassification = 'breaking' | 'potentially-breaking' | 'non-breaking';
+
+// A difference of the contract between two versions of a document
+export interface ApiChange {
+    // e.g. 'change.operation-removed'
+    id: string;
+    classification: ChangeClassification;
+    message: string;
+    // Upper case method and path of the operation the change was found in
+    operation?: string;
+    path?: string;
+    // Where the change is in either version; the previous pointer is unset for additions, the current one for removals
+    previousPointer?: string;
+    currentPointer?: string;
+}
+
+export interface BreakingChangeReport {
+    // Label of the previous version, e.g. its file name
+    previous: string;
+    // Breaking changes first, then potentially breaking and non-breaking ones
+    changes: ApiChange[];
+    breakingCount: number;
+    potentiallyBreakingCount: number;
+}
+
+export interface ChangelogEntry {
+    // Upper case HTTP method
+    method: string;
+    path: string;
+    // Taken from the current version, or the previous one for removed operations
+    summary?: string;
+    description?: string;
+    kind: 'added' | 'removed' | 'deprecated' | 'changed';
+    // Changes within the operation, e.g. to its parameters, responses or security
+    changes: ApiChange[];
+    breaking: boolean;
+}
+
+export interface ChangelogSection {
+    // '(untagged)' for operations without tags
+    tag: string;
+    description?: string;
+    entries: ChangelogEntry[];
+}
+
+// Release notes between two versions of a document, derived from the changes between them
+export interface Changelog {
+    previous: { label: string; version: string };
+    current: { label: string; version: string };
+    sections: ChangelogSection[];
+    // Changes of shared components such as schemas, keyed by component, e.g. 'schemas/Pet'
+    components: { name: string; changes: ApiChange[] }[];
+    breakingCount: number;
+}
+
+// Config keys of the built-in categories, e.g. 'security' or 'examples'
+export type RuleCategory = keyof typeof CRITERIA_WEIGHTS;
+
+// Severity per check, keyed by rule ID pattern in which '*' matches any text; 'off' drops the check
+export type CheckSeverities = Record<string, Severity | 'off'>;
+
+// How collection endpoints page through their items: `offset` and `limit`, `page` and `size`, or an opaque `cursor`
+export type PaginationStyle = 'offset' | 'page' | 'cursor';
+
+export interface PaginationConfig {
+    // Style every collection endpoint should use; without it the style most endpoints use is expected
+    style?: PaginationStyle;
+}
+
+export interface ErrorFormatConfig {
+    // Error responses must be problem details (RFC 9457) as application/problem+json instead of sharing the most common schema
+    problemDetails?: boolean;
+}
+
+export type NamingCasing = 'camelCase' | 'PascalCase' | 'snake_case' | 'kebab-case' | 'Train-Case';
+
+// Casing per kind of name; a kind left out is expected to follow the casing most of its names use
+export interface NamingConfig {
+    properties?: NamingCasing;
+    queryParameters?: NamingCasing;
+    headers?: NamingCasing;
+    components?: NamingCasing;
+}
+
+export interface CategoryConfig {
+    enabled?: boolean;
+    weight?: number;
+}
+
+// Project configuration, read from .openapi-scorecard.yml/.json or passed to the Judge directly
+export interface ScorecardConfig {
+    // Name of a built-in scoring profile the rest of the settings refine, see PROFILES
+    profile?: string;
+    // `false` disables a category, an object can also override its weight.
+    // Keyed by RuleCategory for built-in categories and by name for categories of declarative rules.
+    categories?: Partial<Record<RuleCategory, boolean | CategoryConfig>> & Record<string, boolean | CategoryConfig>;
+    // Overrides of SEVERITY_SCORE_WEIGHTS
+    severityWeights?: Partial<Record<Severity, number>>;
+    checks?: CheckSeverities;
+    validityGate?: boolean;
+    // Plugin modules: npm package names or paths relative to the config file
+    plugins?: (string | PluginConfig)[];
+    // Declarative rules keyed by rule ID
+    rules?: Record<string, DeclarativeRuleDefinition>;
+    // Spectral ruleset to import, relative to the config file
+    ruleset?: string;
+    // Extension naming the owner of an operation, for the owner rollup; 'x-owner' by default
+    ownerExtension?: string;
+    // Pagination conventions of the Pagination category
+    pagination?: PaginationConfig;
+    // Shape of the error responses checked by the Response Codes category
+    errorFormat?: ErrorFormatConfig;
+    // Casings of the Naming Conventions category
+    naming?: NamingConfig;
+    // Overrides of the grade bands of the profile, or of DEFAULT_GRADE_THRESHOLDS
+    grades?: Partial<GradeThresholds>;
+    policy?: PolicyConfig;
+}
+
+// Requirements the grade depends on beyond the overall score
+export interface PolicyConfig {
+    // Lowest percentage per category, keyed like `categories` or by the name of a plugin category
+    minimums?: Record<string, number>;
+    // Highest grade a specification that misses a minimum can get, 'F' by default
+    gradeCap?: Grade;
+}
+
+export interface PluginConfig {
+    module: string;
+    // Passed to the plugin as `context.options`
+    options?: Record<string, unknown>;
+}
+
+export type RuleFunctionName = 'truthy' | 'falsy' | 'defined' | 'undefined' | 'pattern' | 'enum' | 'length' | 'schema' | 'casing' | 'alphabetical';
+
+// A check applied to every node a declarative rule selects
+export interface RuleCondition {
+    // Property of the node to check: a dotted path, a JSONPath relative to the node, or '@key' for the node's key.
+    // The node itself when unset.
+    field?: string;
+    function: RuleFunctionName;
+    // pattern: { match?, notMatch? }, enum: { values }, length: { min?, max? }, schema: { schema },
+    // casing: { type: flat | camel | pascal | kebab | cobol | snake | macro, disallowDigits? }, alphabetical: { keyedBy? }
+    functionOptions?: Record<string, unknown>;
+}
+
+// A rule written in YAML or JSON instead of code
+export interface DeclarativeRuleDefinition {
+    description?: string;
+    // May use {{property}}, {{path}}, {{value}}, {{description}} and {{error}}; defaults to the error of the failed condition
+    message?: string;
+    suggestion?: string;
+    severity?: Severity;
+    // Name of the report category the rule is scored in, 'Custom Rules' by default
+    category?: string;
+    // JSONPath selectors of the nodes to check
+    given: string | string[];
+    then: RuleCondition | RuleCondition[];
+}
+
+// Lowest overall score that earns each grade, anything below D is an F
+export type GradeThresholds = Record<'S' | 'A' | 'B' | 'C' | 'D', number>;
+
+export type Grade = keyof GradeThresholds | 'F';
+
+// A bundle of settings for one kind of API audience
+export interface ScoringProfile {
+    name: string;
+    description: string;
+    // Settings of the config file take precedence over these
+    config: Omit<ScorecardConfig, 'profile'>;
+    grades: GradeThresholds;
+}
+
+// Rules of a Spectral ruleset translated into declarative rules
+export interface ImportedRuleset {
+    file: string;
+    rules: Record<string, DeclarativeRuleDefinition>;
+    // What could not be imported, e.g. rules using custom functions
+    warnings: string[];
+}
+
+// The part of the configuration a single rule applies while scoring
+export interface RuleSettings {
+    weight?: number;
+    severityWeights?: Partial<Record<Severity, number>>;
+    checks?: CheckSeverities;
+    pagination?: PaginationConfig;
+    errorFormat?: ErrorFormatConfig;
+    naming?: NamingConfig;
+}
+
+// Documentation of a check reported by a plugin rule, listed by --list-rules
+export interface PluginCheck {
+    id: string;
+    severity: Severity;
+    description: string;
+}
+
+// A rule contributed by a plugin: the Rule contract plus a stable ID and the checks it reports
+export interface PluginRule extends Rule {
+    // Prefix of the rule IDs of its violations, e.g. 'acme.ownership' for 'acme.ownership.missing-owner'
+    id: string;
+    checks?: PluginCheck[];
+}
+
+// What a plugin gets to build its rules with
+export interface PluginContext {
+    // Options configured for the plugin
+    options: Record<string, unknown>;
+    settings: RuleSettings;
+    // Applies configured check severities and x-scorecard-ignore suppressions, call it before scoring
+    finalizeViolations(violations: RuleViolation[], spec: OpenAPIDocument): { violations: RuleViolation[]; suppressed: SuppressedViolation[] };
+    // Severity-weighted score as the built-in rules compute it
+    calculateScore(violations: RuleViolation[], totalItems: number, weight: number): number;
+}
+
+// What a plugin module exports, as `module.exports` or `export default`
+export interface ScorecardPlugin {
+    name: string;
+    version?: string;
+    rules(context: PluginContext): PluginRule[];
+}
+
+export interface LoadedPlugin {
+    plugin: ScorecardPlugin;
+    options: Record<string, unknown>;
+    // Resolved file the plugin was loaded from
+    source?: string;
+    // Why the plugin could not be loaded; its `plugin` then only carries the configured module name
+    error?: string;
 }
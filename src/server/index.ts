@@ -5,10 +5,22 @@ import path from 'path';
 
 import { OpenAPIParser } from '../core/parser';
 import { Judge } from '../core/score-engine';
+import { ConfigLoader } from '../core/config';
+import { PluginLoader } from '../core/plugins';
+import { compareReports } from '../core/compare';
+import { ParsedSpec } from '../scoring-engine/types';
 
 const app = express();
 const port = process.env.PORT || 3000;
 
+// Uploaded specs have no project directory, so the config is looked up from where the server runs
+const { config, file: configFile, ruleset, warnings } = new ConfigLoader().resolve(
+  process.cwd(),
+  process.env.SCORECARD_CONFIG,
+  process.env.SCORECARD_RULESET
+);
+const plugins = new PluginLoader().load(config.plugins, configFile ? path.dirname(configFile) : process.cwd());
+
 // Set up disk storage for multer
 const storage = multer.diskStorage({
   destination: function (req, file, cb) {
@@ -22,31 +34,32 @@ const storage = multer.diskStorage({
 const upload = multer({ storage });
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '10mb' }));
 app.use(express.static(path.join(__dirname, '../../public')));
 
+// Reads a specification from an uploaded file, a URL or pasted content, in that order
+async function parseSpec(file: Express.Multer.File | undefined, url?: string, content?: string, format?: string): Promise<ParsedSpec | undefined> {
+  const parser = new OpenAPIParser();
+  if (file) {
+    // Uploads are parsed on their own: references to other files would read from the server's disk
+    return parser.parse(file.path, file.originalname, { bundle: false });
+  } else if (url) {
+    return parser.parse(url);
+  } else if (content) {
+    return parser.parseContent(content, format === 'json' || format === 'yaml' ? format : undefined);
+  }
+  return undefined;
+}
+
 app.post('/api/analyze', upload.single('spec'), async (req, res) => {
   try {
-    let fileAddress;
-
-    if (req.file) {
-      // Read the file from disk
-      // fileAddress = await fs.readFile(req.file.path, 'utf8');
-      fileAddress = req.file.path
-      // await fs.unlink(req.file.path);
-    } else if (req.body.url) {
-      fileAddress = req.body.url;
-    } else if (req.body.content) {
-      fileAddress = req.body.content;
-    } else {
+    const apiSpec = await parseSpec(req.file, req.body.url, req.body.content, req.body.format);
+    if (!apiSpec) {
       return res.status(400).json({ error: 'No specification provided' });
     }
-    console.log("file address is: ", fileAddress);
 
-    const parser = new OpenAPIParser();
-    const apiSpec = await parser.parse(fileAddress);
-
-    const judge = new Judge();
+    // An empty profile field keeps the profile of the server config
+    const judge = new Judge({ config, plugins, warnings, profile: req.body.profile || undefined });
     const report = judge.evaluate(apiSpec);
 
     res.json(report);
@@ -55,11 +68,39 @@ app.post('/api/analyze', upload.single('spec'), async (req, res) => {
   }
 });
 
+// Both versions are given like the spec of /api/analyze, with fields prefixed by 'old' and 'new': the files
+// `old` and `new`, or `oldUrl`/`newUrl`, or `oldContent`/`newContent` with `oldFormat`/`newFormat`
+app.post('/api/compare', upload.fields([{ name: 'old', maxCount: 1 }, { name: 'new', maxCount: 1 }]), async (req, res) => {
+  try {
+    const files = (req.files || {}) as Record<string, Express.Multer.File[]>;
+    const previous = await parseSpec(files.old?.[0], req.body.oldUrl, req.body.oldContent, req.body.oldFormat);
+    const current = await parseSpec(files.new?.[0], req.body.newUrl, req.body.newContent, req.body.newFormat);
+    if (!previous || !current) {
+      return res.status(400).json({ error: `No ${previous ? 'new' : 'old'} specification provided` });
+    }
+
+    const judge = new Judge({ config, plugins, warnings, profile: req.body.profile || undefined });
+    res.json(compareReports(
+      { label: files.old?.[0]?.originalname || req.body.oldUrl || 'old', report: judge.evaluate(previous) },
+      { label: files.new?.[0]?.originalname || req.body.newUrl || 'new', report: judge.evaluate(current) }
+    ));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || 'An unknown error occurred during comparison' });
+  }
+});
+
 app.get('/', (req, res) => {
   res.sendFile(path.join(__dirname, '../../public/index.html'));
 });
 
 app.listen(port, () => {
   console.log(`Server running at http://localhost:${port}`);
+  if (configFile) {
+    console.log(`Using config file: ${configFile}`);
+  }
+  if (ruleset) {
+    console.log(`Using ruleset: ${ruleset}`);
+  }
+  plugins.forEach(({ plugin }) => console.log(`Using plugin: ${plugin.name}`));
 });
 
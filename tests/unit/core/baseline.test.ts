@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OpenAPIV3 } from 'openapi-types';
+import { Baseline, fingerprintViolation } from '../../../src/core/baseline';
+import { Judge } from '../../../src/core/score-engine';
+
+describe('Baseline', () => {
+  let dir: string;
+
+  const spec = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: {
+          parameters: [
+            { name: 'limit', in: 'query', schema: { type: 'integer' } },
+            { name: 'offset', in: 'query', schema: { type: 'integer' } },
+          ],
+          responses: { '200': { description: 'OK' } }
+        }
+      },
+      '/owners': {
+        get: { responses: { '200': { description: 'OK' } } }
+      }
+    }
+  });
+
+  const allViolations = (report: ReturnType<Judge['evaluate']>) =>
+    report.ruleResults.flatMap(({ result }) => result.violations);
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'baseline-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should fingerprint violations independently of path and parameter order', () => {
+    const original = spec();
+    const { paths, ...rest } = spec();
+    const reordered: OpenAPIV3.Document = { ...rest, paths: { '/owners': paths['/owners'], '/pets': paths['/pets'] } };
+    (reordered.paths['/pets']!.get!.parameters as OpenAPIV3.ParameterObject[]).reverse();
+
+    const fingerprints = (document: OpenAPIV3.Document) =>
+      allViolations(new Judge().evaluate(document)).map(v => v.fingerprint).sort();
+
+    expect(fingerprints(reordered)).toEqual(fingerprints(original));
+
+    const violation = allViolations(new Judge().evaluate(original)).find(v => v.ruleId === 'docs.parameter-description')!;
+    expect(violation.pointer).toBe('/paths/~1pets/get/parameters/0');
+    expect(fingerprintViolation({ ...violation, pointer: '/paths/~1pets/get/parameters/1' }, reordered))
+      .toBe(violation.fingerprint);
+  });
+
+  it('should classify violations as new, existing or fixed', () => {
+    const file = path.join(dir, 'baseline.json');
+    Baseline.fromReport(new Judge().evaluate(spec())).save(file);
+
+    const changed = spec() as any;
+    changed.paths['/pets'].get.description = 'Lists all pets in the store';
+    changed.paths['/stores'] = { get: { responses: { '200': { description: 'OK' } } } };
+    const report = new Judge().evaluate(changed);
+    const comparison = Baseline.load(file).compare(report, file);
+
+    const newViolations = allViolations(report).filter(v => v.baselineStatus === 'new');
+    expect(newViolations.length).toBe(comparison.newCount);
+    expect(newViolations.every(v => v.pointer!.startsWith('/paths/~1stores'))).toBe(true);
+    expect(comparison.existingCount).toBeGreaterThan(0);
+    expect(comparison.fixed.map(entry => entry.ruleId)).toContain('docs.operation-description');
+    expect(report.baseline).toBe(comparison);
+  });
+
+  it('should reject files that are not baselines', () => {
+    const file = path.join(dir, 'report.json');
+    fs.writeFileSync(file, JSON.stringify({ overallScore: 80 }));
+
+    expect(() => Baseline.load(file)).toThrow('is not a baseline file');
+  });
+});
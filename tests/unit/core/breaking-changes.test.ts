@@ -0,0 +1,135 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { BreakingChangeAnalyzer } from '../../../src/core/breaking-changes';
+
+describe('BreakingChangeAnalyzer', () => {
+  const previous = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/pets/{id}': {
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        get: {
+          parameters: [{ name: 'fields', in: 'query', schema: { type: 'string' } }],
+          responses: {
+            '200': { description: 'The pet', content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+            '404': { description: 'Not found' },
+          }
+        },
+        put: {
+          requestBody: { content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } } },
+          responses: { '204': { description: 'Updated' } }
+        },
+        delete: { responses: { '204': { description: 'Deleted' } } }
+      }
+    },
+    components: {
+      schemas: {
+        Pet: {
+          type: 'object',
+          required: ['name'],
+          properties: {
+            name: { type: 'string' },
+            status: { type: 'string', enum: ['available', 'sold'] },
+            tags: { type: 'array', items: { type: 'string' } },
+          }
+        }
+      }
+    }
+  });
+
+  const analyze = (change: (spec: OpenAPIV3.Document) => void) => {
+    const current = previous();
+    change(current);
+    return new BreakingChangeAnalyzer().analyze(previous(), current, 'v1.yaml');
+  };
+  const pet = (spec: OpenAPIV3.Document) => spec.components!.schemas!.Pet as OpenAPIV3.SchemaObject;
+
+  it('should report nothing for the same document', () => {
+    const report = analyze(() => {});
+
+    expect(report).toEqual({ previous: 'v1.yaml', changes: [], breakingCount: 0, potentiallyBreakingCount: 0 });
+  });
+
+  it('should classify operation and parameter changes', () => {
+    const report = analyze(spec => {
+      const pathItem = spec.paths['/pets/{id}']!;
+      delete pathItem.delete;
+      // Renamed path parameters are the same parameter
+      spec.paths = { '/pets/{petId}': pathItem };
+      pathItem.parameters = [{ name: 'petId', in: 'path', required: true, schema: { type: 'string' } }];
+      pathItem.get!.parameters = [
+        { name: 'fields', in: 'query', required: true, schema: { type: 'string' } },
+        { name: 'lang', in: 'header', schema: { type: 'string' } },
+      ];
+      pathItem.get!.deprecated = true;
+    });
+
+    expect(report.changes.map(({ id, classification, operation }) => [id, classification, operation])).toEqual([
+      ['change.parameter-required', 'breaking', 'GET'],
+      ['change.operation-removed', 'breaking', 'DELETE'],
+      ['change.operation-deprecated', 'non-breaking', 'GET'],
+      ['change.parameter-added', 'non-breaking', 'GET'],
+    ]);
+    expect(report.changes[0]).toMatchObject({ path: '/pets/{petId}', currentPointer: '/paths/~1pets~1{petId}/get/parameters/0' });
+    expect(report.changes[1]).toMatchObject({ path: '/pets/{id}', previousPointer: '/paths/~1pets~1{id}/delete' });
+    expect(report.breakingCount).toBe(2);
+  });
+
+  it('should classify schema changes by whether they are sent or received', () => {
+    const report = analyze(spec => {
+      const schema = pet(spec);
+      schema.required = ['name', 'status'];
+      delete schema.properties!.tags;
+      (schema.properties!.status as OpenAPIV3.SchemaObject).enum = ['available'];
+    });
+
+    const changes = report.changes.map(({ id, classification, message }) => `${classification} ${id}: ${message}`);
+    // Pet is read from GET and sent to PUT, and each direction is reported against the shared component
+    expect(changes).toEqual(expect.arrayContaining([
+      "breaking change.property-removed: Property 'tags' was removed from the 200 response (application/json)",
+      "potentially-breaking change.property-removed: Property 'tags' was removed from the request body (application/json)",
+      "breaking change.property-required: Property 'status' of the request body (application/json) became required",
+      "breaking change.enum-narrowed: Property 'status' of the request body (application/json) no longer allows \"sold\"",
+      "non-breaking change.enum-narrowed: Property 'status' of the 200 response (application/json) no longer allows \"sold\"",
+    ]));
+    expect(report.changes.find(({ id }) => id === 'change.property-required')!.previousPointer).toBe('/components/schemas/Pet/properties/status');
+  });
+
+  it('should treat integer as a subset of number', () => {
+    // The request body is widened from integer to number and the response narrowed from number to integer
+    const withTypes = (requestType: 'integer' | 'number', responseType: 'integer' | 'number') => {
+      const spec = previous();
+      const operations = spec.paths['/pets/{id}']!;
+      operations.put!.requestBody = { content: { 'application/json': { schema: { type: requestType } } } };
+      operations.get!.responses['200'] = { description: 'The pet', content: { 'application/json': { schema: { type: responseType } } } };
+      return spec;
+    };
+
+    const report = new BreakingChangeAnalyzer().analyze(withTypes('integer', 'number'), withTypes('number', 'integer'), 'v1.yaml');
+
+    expect(report.changes.filter(({ id }) => id === 'change.type-changed').map(({ classification, message }) => `${classification}: ${message}`)).toEqual([
+      'non-breaking: The type of the 200 response (application/json) changed from number to integer',
+      'non-breaking: The type of the request body (application/json) changed from integer to number',
+    ]);
+    expect(report.breakingCount).toBe(0);
+  });
+
+  it('should classify response and security changes', () => {
+    const report = analyze(spec => {
+      const get = spec.paths['/pets/{id}']!.get!;
+      delete get.responses['200'];
+      delete get.responses['404'];
+      get.responses['201'] = { description: 'Created' };
+      spec.security = [{ apiKey: [] }];
+    });
+
+    const ids = report.changes.map(({ id, classification }) => `${classification} ${id}`);
+    expect(ids).toEqual(expect.arrayContaining([
+      'breaking change.response-removed',
+      'potentially-breaking change.response-removed',
+      'non-breaking change.response-added',
+      'breaking change.security-added',
+    ]));
+    expect(report.changes.filter(({ id }) => id === 'change.security-added')).toHaveLength(3);
+  });
+});
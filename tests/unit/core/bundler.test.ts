@@ -0,0 +1,164 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SpecBundler } from '../../../src/core/bundler';
+import { OpenAPIParser } from '../../../src/core/parser';
+import { Judge } from '../../../src/core/score-engine';
+
+describe('SpecBundler', () => {
+  let dir: string;
+
+  const write = (file: string, content: string) => {
+    const target = path.join(dir, file);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+    return target;
+  };
+
+  const rootDocument = () => ({
+    openapi: '3.0.3',
+    info: { title: 'Pets', version: '1.0.0' },
+    paths: {
+      '/pets': { $ref: './paths/pets.yaml' },
+    },
+    components: {
+      schemas: {
+        Owner: { type: 'object', properties: { name: { type: 'string' } } },
+      },
+    },
+  });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'bundler-'));
+    write('paths/pets.yaml', [
+      'get:',
+      '  parameters:',
+      "    - $ref: '../common.yaml#/parameters/Limit'",
+      '  responses:',
+      "    '200':",
+      '      description: OK',
+      '      content:',
+      '        application/json:',
+      '          schema:',
+      "            $ref: '../schemas/Pet.yaml'",
+    ].join('\n'));
+    write('schemas/Pet.yaml', [
+      'type: object',
+      'properties:',
+      '  owner:',
+      "    $ref: '../common.yaml#/schemas/Owner'",
+      '  parent:',
+      "    $ref: '#'",
+    ].join('\n'));
+    write('common.yaml', [
+      'parameters:',
+      '  Limit:',
+      '    name: limit',
+      '    in: query',
+      '    schema: { type: integer }',
+      'schemas:',
+      '  Owner:',
+      '    type: object',
+    ].join('\n'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should inline referenced path items and move other fragments into components', () => {
+    const rootFile = path.join(dir, 'openapi.yaml');
+    const { document } = new SpecBundler().bundle(rootFile, rootDocument() as any);
+
+    const operation = document.paths['/pets'].get;
+    expect(operation.parameters[0]).toEqual({ $ref: '#/components/parameters/Limit' });
+    expect(operation.responses['200'].content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Pet' });
+    expect(document.components.parameters.Limit.name).toBe('limit');
+    expect(document.components.schemas.Pet.type).toBe('object');
+  });
+
+  it('should keep existing component names and follow refs relative to the referencing file', () => {
+    const rootFile = path.join(dir, 'openapi.yaml');
+    const { document } = new SpecBundler().bundle(rootFile, rootDocument() as any);
+
+    const pet = document.components.schemas.Pet;
+    expect(pet.properties.owner).toEqual({ $ref: '#/components/schemas/Owner2' });
+    expect(pet.properties.parent).toEqual({ $ref: '#/components/schemas/Pet' });
+    expect(document.components.schemas.Owner.properties.name.type).toBe('string');
+  });
+
+  it('should record the file every bundled part came from', () => {
+    const rootFile = path.join(dir, 'openapi.yaml');
+    const { componentSources } = new SpecBundler().bundle(rootFile, rootDocument());
+
+    expect(componentSources['/paths/~1pets']).toEqual({ file: path.join('paths', 'pets.yaml'), pointer: '' });
+    expect(componentSources['/components/schemas/Pet']).toEqual({ file: path.join('schemas', 'Pet.yaml'), pointer: '' });
+    expect(componentSources['/components/parameters/Limit']).toEqual({ file: 'common.yaml', pointer: '/parameters/Limit' });
+  });
+
+  it('should leave internal and unresolvable refs untouched', () => {
+    const rootFile = path.join(dir, 'openapi.yaml');
+    const spec = rootDocument() as any;
+    spec.components.schemas.Alias = { $ref: '#/components/schemas/Owner' };
+    spec.components.schemas.Missing = { $ref: './common.yaml#/schemas/Unknown' };
+
+    const { document } = new SpecBundler().bundle(rootFile, spec);
+
+    expect(document.components.schemas.Alias).toEqual({ $ref: '#/components/schemas/Owner' });
+    expect(document.components.schemas.Missing).toEqual({ $ref: './common.yaml#/schemas/Unknown' });
+  });
+
+  it('should report referenced files that cannot be loaded', () => {
+    const rootFile = path.join(dir, 'openapi.yaml');
+    const spec = rootDocument() as any;
+    spec.paths['/owners'] = { $ref: './paths/owners.yaml' };
+
+    expect(() => new SpecBundler().bundle(rootFile, spec)).toThrow('Could not load referenced file');
+  });
+
+  it('should refuse refs to files outside the directory of the specification', () => {
+    const rootFile = path.join(dir, 'api', 'openapi.yaml');
+    const outside = rootDocument() as any;
+    outside.paths['/pets'] = { $ref: '../common.yaml#/parameters/Limit' };
+    const absolute = rootDocument() as any;
+    absolute.paths['/pets'] = { $ref: path.join(dir, 'paths', 'pets.yaml') };
+
+    expect(() => new SpecBundler().bundle(rootFile, outside)).toThrow("Referenced file '../common.yaml' is outside the directory of the specification");
+    expect(() => new SpecBundler().bundle(rootFile, absolute)).toThrow('must be given relative to the specification');
+  });
+
+  it('should keep refs between files that inline each other', () => {
+    write('paths/a.yaml', "$ref: './b.yaml'");
+    write('paths/b.yaml', "$ref: './a.yaml'");
+    const rootFile = path.join(dir, 'openapi.yaml');
+    const spec = rootDocument() as any;
+    spec.paths['/a'] = { $ref: './paths/a.yaml' };
+
+    const { document } = new SpecBundler().bundle(rootFile, spec);
+
+    expect(document.paths['/a']).toEqual({ $ref: './a.yaml' });
+  });
+
+  it('should not follow refs when bundling is turned off', async () => {
+    const rootFile = write('openapi.yaml', JSON.stringify(rootDocument()));
+    const parsed = await new OpenAPIParser().parse(rootFile, 'upload.yaml', { bundle: false });
+
+    expect(parsed.document.paths!['/pets']).toEqual({ $ref: './paths/pets.yaml' });
+    expect(parsed.componentSources).toEqual({});
+  });
+
+  it('should name the originating file on violations', async () => {
+    const rootFile = write('openapi.yaml', JSON.stringify(rootDocument()));
+    const parsed = await new OpenAPIParser().parse(rootFile);
+
+    expect(parsed.componentSources!['/components/schemas/Pet'].file).toBe(path.join('schemas', 'Pet.yaml'));
+
+    const report = new Judge().evaluate(parsed);
+    const petViolations = report.ruleResults
+      .flatMap(({ result }) => result.violations)
+      .filter(violation => violation.pointer?.startsWith('/components/schemas/Pet'));
+
+    expect(petViolations.length).toBeGreaterThan(0);
+    petViolations.forEach(violation => expect(violation.file).toBe(path.join('schemas', 'Pet.yaml')));
+  });
+});
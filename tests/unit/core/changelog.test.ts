@@ -0,0 +1,81 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { buildChangelog } from '../../../src/core/changelog';
+
+describe('buildChangelog', () => {
+  const previous = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    tags: [{ name: 'pets', description: 'Pets in the store' }, { name: 'owners' }],
+    paths: {
+      '/pets': {
+        get: {
+          tags: ['pets'],
+          summary: 'List pets',
+          responses: { '200': { description: 'OK', content: { 'application/json': { schema: { type: 'array', items: { $ref: '#/components/schemas/Pet' } } } } } }
+        }
+      },
+      '/owners': {
+        get: { tags: ['owners'], summary: 'List owners', responses: { '200': { description: 'OK' } } },
+        delete: { tags: ['owners'], summary: 'Remove all owners', responses: { '204': { description: 'Deleted' } } }
+      }
+    },
+    components: {
+      schemas: {
+        Pet: { type: 'object', properties: { name: { type: 'string' }, tag: { type: 'string' } } }
+      }
+    }
+  });
+
+  const changelog = (change: (spec: OpenAPIV3.Document) => void) => {
+    const current = previous();
+    current.info.version = '1.1.0';
+    change(current);
+    return buildChangelog({ label: 'v1.yaml', document: previous() }, { label: 'v2.yaml', document: current });
+  };
+
+  it('should have no sections for the same document', () => {
+    const result = changelog(() => {});
+
+    expect(result).toEqual({
+      previous: { label: 'v1.yaml', version: '1.0.0' },
+      current: { label: 'v2.yaml', version: '1.1.0' },
+      sections: [],
+      components: [],
+      breakingCount: 0,
+    });
+  });
+
+  it('should group operation changes by tag with their summaries', () => {
+    const result = changelog(spec => {
+      delete spec.paths['/owners']!.delete;
+      spec.paths['/owners']!.get!.deprecated = true;
+      spec.paths['/pets']!.get!.parameters = [{ name: 'limit', in: 'query', schema: { type: 'integer' } }];
+      spec.paths['/toys'] = { get: { summary: 'List toys', description: 'All toys in stock', responses: { '200': { description: 'OK' } } } };
+    });
+
+    expect(result.sections.map(({ tag, entries }) => [tag, entries.map(({ method, path, kind }) => `${kind} ${method} ${path}`)])).toEqual([
+      ['pets', ['changed GET /pets']],
+      ['owners', ['deprecated GET /owners', 'removed DELETE /owners']],
+      ['(untagged)', ['added GET /toys']],
+    ]);
+    expect(result.sections[0].description).toBe('Pets in the store');
+    expect(result.sections[0].entries[0].changes.map(({ id }) => id)).toEqual(['change.parameter-added']);
+    // A removed operation is described from the previous version
+    expect(result.sections[1].entries[1]).toMatchObject({ summary: 'Remove all owners', breaking: true, changes: [] });
+    expect(result.sections[2].entries[0]).toMatchObject({ summary: 'List toys', description: 'All toys in stock' });
+    expect(result.breakingCount).toBe(1);
+  });
+
+  it('should list changes of shared components once', () => {
+    const result = changelog(spec => {
+      const pet = spec.components!.schemas!.Pet as OpenAPIV3.SchemaObject;
+      delete pet.properties!.tag;
+      pet.properties!.age = { type: 'integer' };
+    });
+
+    expect(result.sections).toEqual([]);
+    expect(result.components.map(({ name, changes }) => [name, changes.map(({ id }) => id)])).toEqual([
+      ['schemas/Pet', ['change.property-removed', 'change.property-added']],
+    ]);
+  });
+});
@@ -0,0 +1,66 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { compareReports } from '../../../src/core/compare';
+import { Judge } from '../../../src/core/score-engine';
+
+describe('compareReports', () => {
+  const previous: OpenAPIV3.Document = {
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: { responses: { '200': { description: 'OK' } } }
+      },
+      '/owners': {
+        get: { responses: { '200': { description: 'OK' } } }
+      }
+    }
+  };
+
+  const current: OpenAPIV3.Document = {
+    ...previous,
+    info: { ...previous.info, version: '1.1.0' },
+    paths: {
+      // Reordered, and /pets got its operationId
+      '/owners': previous.paths['/owners'],
+      '/pets': { get: { ...previous.paths['/pets']!.get!, operationId: 'listPets' } },
+      '/toys': { get: { responses: { '200': { description: 'OK' } } } },
+    }
+  };
+
+  const judge = new Judge();
+  const compare = () => compareReports(
+    { label: 'v1.yaml', report: judge.evaluate(previous) },
+    { label: 'v2.yaml', report: judge.evaluate(current) }
+  );
+
+  it('should report the overall and per-category score changes', () => {
+    const previousReport = judge.evaluate(previous);
+    const currentReport = judge.evaluate(current);
+    const comparison = compare();
+
+    expect(comparison.previous).toEqual({ label: 'v1.yaml', overallScore: previousReport.overallScore, grade: previousReport.grade });
+    expect(comparison.scoreDelta).toBe(currentReport.overallScore - previousReport.overallScore);
+    expect(comparison.categoryDeltas.map(({ name }) => name)).toEqual(currentReport.categoryScores.map(({ name }) => name));
+    comparison.categoryDeltas.forEach(category => expect(category.delta).toBe(category.current! - category.previous!));
+  });
+
+  it('should match violations across versions', () => {
+    const comparison = compare();
+
+    const ids = (violations: typeof comparison.introduced) => violations.map(({ ruleId, path }) => `${ruleId} ${path}`);
+    expect(ids(comparison.resolved)).toContain('misc.operation-id-missing /pets');
+    expect(ids(comparison.introduced)).toContain('misc.operation-id-missing /toys');
+    expect(ids(comparison.unchanged)).toContain('misc.operation-id-missing /owners');
+    expect(ids(comparison.introduced)).not.toContain('misc.operation-id-missing /owners');
+  });
+
+  it('should report nothing as introduced or resolved for the same document', () => {
+    const report = judge.evaluate(previous);
+    const comparison = compareReports({ label: 'a', report }, { label: 'b', report: judge.evaluate(previous) });
+
+    expect(comparison.introduced).toEqual([]);
+    expect(comparison.resolved).toEqual([]);
+    expect(comparison.unchanged.length).toBe(report.ruleResults.flatMap(({ result }) => result.violations).length);
+    expect(comparison.scoreDelta).toBe(0);
+  });
+});
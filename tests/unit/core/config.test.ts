@@ -0,0 +1,185 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OpenAPIV3 } from 'openapi-types';
+import { ConfigLoader } from '../../../src/core/config';
+import { Judge } from '../../../src/core/score-engine';
+import { CRITERIA_WEIGHTS, RULE_NAMES } from '../../../src/scoring-engine/constants';
+
+describe('ConfigLoader', () => {
+  let dir: string;
+  const loader = new ConfigLoader();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+    fs.mkdirSync(path.join(dir, 'api', 'v1'), { recursive: true });
+    fs.writeFileSync(path.join(dir, 'api', 'v1', 'openapi.yaml'), 'openapi: 3.0.3\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should find the nearest config file above the spec', () => {
+    fs.writeFileSync(path.join(dir, '.openapi-scorecard.yml'), 'categories:\n  examples: false\n');
+
+    const { config, file } = loader.resolve(path.join(dir, 'api', 'v1', 'openapi.yaml'));
+
+    expect(file).toBe(path.join(dir, '.openapi-scorecard.yml'));
+    expect(config).toEqual({ categories: { examples: false } });
+  });
+
+  it('should prefer an explicitly passed config file', () => {
+    fs.writeFileSync(path.join(dir, '.openapi-scorecard.yml'), 'validityGate: true\n');
+    fs.writeFileSync(path.join(dir, 'ci.json'), JSON.stringify({ severityWeights: { warning: 0.5 } }));
+
+    const { config } = loader.resolve(path.join(dir, 'api', 'v1', 'openapi.yaml'), path.join(dir, 'ci.json'));
+
+    expect(config).toEqual({ severityWeights: { warning: 0.5 } });
+  });
+
+  it('should return an empty config when no file exists', () => {
+    expect(loader.find(path.join(dir, 'api', 'v1', 'openapi.yaml'))).toBeUndefined();
+    expect(loader.resolve(undefined)).toEqual({ config: {} });
+  });
+
+  it('should reject unknown categories and invalid values', () => {
+    const file = path.join(dir, '.openapi-scorecard.yml');
+    fs.writeFileSync(file, [
+      'categories:',
+      '  performance: false',
+      '  security:',
+      '    weight: -5',
+      'checks:',
+      "  'paths.*': critical",
+      'pagination:',
+      '  style: keyset',
+      'errorFormat:',
+      '  problemDetails: yes please',
+      'naming:',
+      '  properties: lowercase',
+    ].join('\n'));
+
+    expect(() => loader.load(file)).toThrow(/unknown category 'performance'/);
+    expect(() => loader.load(file)).toThrow(/'categories.security.weight' must be a positive number/);
+    expect(() => loader.load(file)).toThrow(/check 'paths.\*' must be set to error, warning, info or off/);
+    expect(() => loader.load(file)).toThrow(/'pagination.style' must be one of offset, page, cursor/);
+    expect(() => loader.load(file)).toThrow(/'errorFormat.problemDetails' must be true or false/);
+    expect(() => loader.load(file)).toThrow(/'naming.properties' must be one of camelCase, PascalCase, snake_case, kebab-case, Train-Case/);
+  });
+
+  it('should validate grade bands and the policy', () => {
+    const file = path.join(dir, '.openapi-scorecard.yml');
+    fs.writeFileSync(file, [
+      'grades:',
+      '  A: 120',
+      '  E: 40',
+      'policy:',
+      '  minimums:',
+      '    security: high',
+      '  gradeCap: E',
+    ].join('\n'));
+
+    expect(() => loader.load(file)).toThrow(/'grades.A' must be a number from 0 to 100/);
+    expect(() => loader.load(file)).toThrow(/unknown grade 'E'/);
+    expect(() => loader.load(file)).toThrow(/'policy.minimums.security' must be a percentage from 0 to 100/);
+    expect(() => loader.load(file)).toThrow(/'policy.gradeCap' must be one of S, A, B, C, D, F/);
+  });
+
+  it('should validate declarative rules and accept their categories', () => {
+    const file = path.join(dir, '.openapi-scorecard.yml');
+    fs.writeFileSync(file, [
+      'categories:',
+      '  Governance:',
+      '    weight: 20',
+      'rules:',
+      '  admin-security:',
+      '    category: Governance',
+      "    given: $.paths[*][get,post]",
+      '    then:',
+      '      field: security',
+      '      function: truthy',
+    ].join('\n'));
+    expect(loader.load(file).rules!['admin-security'].category).toBe('Governance');
+
+    fs.writeFileSync(file, 'rules:\n  admin-security:\n    given: $.paths[\n    then:\n      function: truthy\n');
+    expect(() => loader.load(file)).toThrow(/rule 'admin-security': Invalid JSONPath/);
+  });
+});
+
+describe('Judge with a config', () => {
+  const spec = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: {
+          responses: { '200': { description: 'OK' } }
+        }
+      }
+    }
+  });
+
+  it('should leave out disabled categories', () => {
+    const report = new Judge({ config: { categories: { examples: false, security: { enabled: false } } } }).evaluate(spec());
+    const names = report.categoryScores.map(category => category.name);
+
+    expect(names).not.toContain(RULE_NAMES.examples);
+    expect(names).not.toContain(RULE_NAMES.security);
+    expect(names).toContain(RULE_NAMES.schema_types);
+  });
+
+  it('should override category weights', () => {
+    const report = new Judge({ config: { categories: { security: { weight: 40 } } } }).evaluate(spec());
+    const security = report.categoryScores.find(category => category.name === RULE_NAMES.security)!;
+    const schema = report.categoryScores.find(category => category.name === RULE_NAMES.schema_types)!;
+
+    expect(security.maxScore).toBe(40);
+    expect(schema.maxScore).toBe(CRITERIA_WEIGHTS.schema_types);
+  });
+
+  it('should change the severity of matching checks and drop checks switched off', () => {
+    const defaults = new Judge().evaluate(spec());
+    expect(defaults.violations.some(v => v.ruleId === 'docs.operation-description')).toBe(true);
+
+    const downgraded = new Judge({ config: { checks: { 'docs.operation-description': 'info' } } }).evaluate(spec());
+    const switchedOff = new Judge({ config: { checks: { 'docs.operation-*': 'off' } } }).evaluate(spec());
+    const allViolations = (report: typeof defaults) => report.ruleResults.flatMap(({ result }) => result.violations);
+
+    expect(allViolations(downgraded).find(v => v.ruleId === 'docs.operation-description')!.severity).toBe('info');
+    expect(allViolations(switchedOff).some(v => v.ruleId.startsWith('docs.operation-'))).toBe(false);
+  });
+
+  it('should not match checks against violation messages', () => {
+    const report = new Judge({ config: { checks: { 'Operation is missing*': 'off' } } }).evaluate(spec());
+    const violations = report.ruleResults.flatMap(({ result }) => result.violations);
+
+    expect(violations.some(v => v.message.startsWith('Operation is missing'))).toBe(true);
+  });
+
+  it('should match checks by rule ID', () => {
+    const report = new Judge({ config: { checks: { 'docs.operation-description': 'off', 'responses.*': 'info' } } }).evaluate(spec());
+    const violations = report.ruleResults.flatMap(({ result }) => result.violations);
+
+    expect(violations.some(v => v.ruleId === 'docs.operation-description')).toBe(false);
+    expect(violations.filter(v => v.ruleId.startsWith('responses.')).every(v => v.severity === 'info')).toBe(true);
+  });
+
+  it('should score with the configured severity weights', () => {
+    const docsScore = (report: ReturnType<Judge['evaluate']>) =>
+      report.categoryScores.find(category => category.name === RULE_NAMES.description_docs)!.score;
+
+    const lenient = new Judge({ config: { severityWeights: { error: 0, warning: 0, info: 0 } } }).evaluate(spec());
+    const strict = new Judge({ config: { severityWeights: { error: 1, warning: 1, info: 1 } } }).evaluate(spec());
+
+    expect(docsScore(lenient)).toBeGreaterThan(docsScore(strict));
+  });
+
+  it('should take the validity gate from the config', () => {
+    const invalid = spec() as any;
+    delete invalid.info.title;
+
+    expect(new Judge({ config: { validityGate: true } }).evaluate(invalid).grade).toBe('F');
+    expect(new Judge({ validityGate: false, config: { validityGate: true } }).evaluate(invalid).notes).toHaveLength(0);
+  });
+});
@@ -0,0 +1,180 @@
+import { OpenAPIV2, OpenAPIV3 } from 'openapi-types';
+import { SwaggerConverter } from '../../../src/core/converter';
+
+describe('SwaggerConverter', () => {
+  let converter: SwaggerConverter;
+
+  const baseSpec = (overrides: Partial<OpenAPIV2.Document> = {}): OpenAPIV2.Document => ({
+    swagger: '2.0',
+    info: { title: 'Pet Store', version: '1.0.0' },
+    paths: {},
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    converter = new SwaggerConverter();
+  });
+
+  it('should build servers from host, basePath and schemes', () => {
+    const result = converter.convert(baseSpec({
+      host: 'api.example.com',
+      basePath: '/v1',
+      schemes: ['https', 'http'],
+    }));
+
+    expect(result.openapi).toBe('3.0.3');
+    expect(result.servers).toEqual([
+      { url: 'https://api.example.com/v1' },
+      { url: 'http://api.example.com/v1' },
+    ]);
+  });
+
+  it('should move definitions to components.schemas and rewrite references', () => {
+    const result = converter.convert(baseSpec({
+      definitions: {
+        Pet: {
+          type: 'object',
+          properties: {
+            owner: { $ref: '#/definitions/Owner' },
+            nickname: { type: 'string', 'x-nullable': true } as any,
+          },
+        },
+        Owner: { type: 'object', properties: { name: { type: 'string' } } },
+      },
+    }));
+
+    const pet = result.components!.schemas!.Pet as OpenAPIV3.SchemaObject;
+    expect(pet.properties!.owner).toEqual({ $ref: '#/components/schemas/Owner' });
+    expect(pet.properties!.nickname).toEqual({ type: 'string', nullable: true });
+  });
+
+  it('should turn body parameters into a request body for each consumed media type', () => {
+    const result = converter.convert(baseSpec({
+      consumes: ['application/json', 'application/xml'],
+      paths: {
+        '/pets': {
+          post: {
+            parameters: [
+              { in: 'body', name: 'pet', required: true, description: 'Pet to add', schema: { $ref: '#/definitions/Pet' } },
+              { in: 'query', name: 'dryRun', type: 'boolean' },
+            ],
+            responses: { '201': { description: 'Created' } },
+          },
+        },
+      },
+    }));
+
+    const operation = result.paths['/pets']!.post!;
+    const requestBody = operation.requestBody as OpenAPIV3.RequestBodyObject;
+    expect(requestBody.required).toBe(true);
+    expect(requestBody.description).toBe('Pet to add');
+    expect(Object.keys(requestBody.content)).toEqual(['application/json', 'application/xml']);
+    expect(requestBody.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/Pet' });
+    expect(operation.parameters).toEqual([
+      { name: 'dryRun', in: 'query', schema: { type: 'boolean' } },
+    ]);
+  });
+
+  it('should only give query arrays a serialization style', () => {
+    const result = converter.convert(baseSpec({
+      paths: {
+        '/pets/{ids}': {
+          get: {
+            parameters: [
+              { in: 'path', name: 'ids', required: true, type: 'array', items: { type: 'string' }, collectionFormat: 'csv' },
+              { in: 'header', name: 'X-Tags', type: 'array', items: { type: 'string' }, collectionFormat: 'csv' },
+              { in: 'query', name: 'status', type: 'array', items: { type: 'string' }, collectionFormat: 'multi' },
+            ],
+            responses: { '200': { description: 'OK' } },
+          },
+        },
+      },
+    }));
+
+    const [ids, tags, status] = result.paths['/pets/{ids}']!.get!.parameters as OpenAPIV3.ParameterObject[];
+    expect(ids.style).toBeUndefined();
+    expect(tags).toEqual({ name: 'X-Tags', in: 'header', schema: { type: 'array', items: { type: 'string' } } });
+    expect(status).toMatchObject({ style: 'form', explode: true });
+  });
+
+  it('should merge formData parameters into a single form request body', () => {
+    const result = converter.convert(baseSpec({
+      paths: {
+        '/pets/{petId}/photo': {
+          post: {
+            parameters: [
+              { in: 'path', name: 'petId', required: true, type: 'string' },
+              { in: 'formData', name: 'file', required: true, type: 'file' },
+              { in: 'formData', name: 'caption', type: 'string' },
+            ],
+            responses: { '200': { description: 'Uploaded' } },
+          },
+        },
+      },
+    }));
+
+    const requestBody = result.paths['/pets/{petId}/photo']!.post!.requestBody as OpenAPIV3.RequestBodyObject;
+    const schema = requestBody.content['multipart/form-data'].schema as OpenAPIV3.SchemaObject;
+    expect(schema.properties!.file).toEqual({ type: 'string', format: 'binary' });
+    expect(schema.required).toEqual(['file']);
+  });
+
+  it('should convert response schemas and headers using the produced media types', () => {
+    const result = converter.convert(baseSpec({
+      produces: ['application/json'],
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              '200': {
+                description: 'A list of pets',
+                schema: { type: 'array', items: { $ref: '#/definitions/Pet' } },
+                headers: { 'X-Rate-Limit': { type: 'integer', description: 'Calls per hour' } },
+              },
+              '404': { $ref: '#/responses/NotFound' },
+            },
+          },
+        },
+      },
+    }));
+
+    const responses = result.paths['/pets']!.get!.responses;
+    const ok = responses['200'] as OpenAPIV3.ResponseObject;
+    expect(ok.content!['application/json'].schema).toEqual({
+      type: 'array',
+      items: { $ref: '#/components/schemas/Pet' },
+    });
+    expect(ok.headers!['X-Rate-Limit']).toEqual({ description: 'Calls per hour', schema: { type: 'integer' } });
+    expect(responses['404']).toEqual({ $ref: '#/components/responses/NotFound' });
+  });
+
+  it('should convert security definitions to security schemes', () => {
+    const result = converter.convert(baseSpec({
+      securityDefinitions: {
+        basicAuth: { type: 'basic' },
+        apiKey: { type: 'apiKey', name: 'X-API-Key', in: 'header' },
+        oauth: {
+          type: 'oauth2',
+          flow: 'accessCode',
+          authorizationUrl: 'https://auth.example.com/authorize',
+          tokenUrl: 'https://auth.example.com/token',
+          scopes: { read: 'Read access' },
+        },
+      },
+    }));
+
+    const schemes = result.components!.securitySchemes!;
+    expect(schemes.basicAuth).toEqual({ type: 'http', scheme: 'basic' });
+    expect(schemes.apiKey).toEqual({ type: 'apiKey', name: 'X-API-Key', in: 'header' });
+    expect(schemes.oauth).toEqual({
+      type: 'oauth2',
+      flows: {
+        authorizationCode: {
+          authorizationUrl: 'https://auth.example.com/authorize',
+          tokenUrl: 'https://auth.example.com/token',
+          scopes: { read: 'Read access' },
+        },
+      },
+    });
+  });
+});
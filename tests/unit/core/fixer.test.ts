@@ -0,0 +1,129 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import YAML from 'yaml';
+import { OpenAPIParser } from '../../../src/core/parser';
+import { SpecFixer } from '../../../src/core/fixer';
+import { Judge } from '../../../src/core/score-engine';
+
+describe('SpecFixer', () => {
+  let dir: string;
+
+  const source = [
+    'openapi: 3.0.3',
+    '# Pets and their owners',
+    'info:',
+    '  title: Test API',
+    '  version: 1.0.0',
+    'paths:',
+    '  /pets/{id}:',
+    '    get:',
+    '      tags: [pets]',
+    '      responses:',
+    '        200:',
+    '          description: The pet # a comment',
+    '    delete:',
+    '      operationId: getPetsById',
+    '      responses:',
+    "        '204':",
+    '          description: Deleted',
+    '',
+  ].join('\n');
+
+  const fix = async (file: string) => {
+    const parsed = await new OpenAPIParser().parse(file);
+    const report = new Judge().evaluate(parsed);
+    return { report, result: new SpecFixer().fix(fs.readFileSync(file, 'utf8'), parsed, report) };
+  };
+
+  const write = (name: string, content: string) => {
+    const file = path.join(dir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'fixer-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should apply the safe fixes and keep comments and formatting', async () => {
+    const { result } = await fix(write('api.yaml', source));
+
+    expect(result.applied.map(({ ruleId }) => ruleId).sort()).toEqual([
+      'misc.operation-id-missing', 'misc.tag-undefined',
+      'responses.missing-5xx', 'responses.missing-5xx', 'responses.missing-default', 'responses.missing-default',
+    ]);
+    expect(result.skipped).toEqual([]);
+    expect(result.content).toContain('# Pets and their owners');
+    expect(result.content).toContain('description: The pet # a comment');
+    expect(result.content).toContain('tags: [pets]');
+    expect(result.content).toMatch(/^ {8}500:$/m);
+    expect(result.content).toMatch(/^ {8}'500':$/m);
+
+    const fixed = YAML.parse(result.content);
+    expect(fixed.tags).toEqual([{ name: 'pets' }]);
+    // The id of DELETE is taken, so the generated one is numbered
+    expect(fixed.paths['/pets/{id}'].get.operationId).toBe('getPetsById2');
+    expect(fixed.paths['/pets/{id}'].delete.responses.default).toEqual({ description: 'Unexpected error' });
+
+    const { result: again } = await fix(write('fixed.yaml', result.content));
+    expect(again.applied).toEqual([]);
+  });
+
+  it('should keep the indentation of JSON documents', async () => {
+    const { result } = await fix(write('api.json', JSON.stringify(YAML.parse(source), null, 4)));
+
+    expect(result.applied.length).toBeGreaterThan(0);
+    expect(result.content).toMatch(/^ {4}"openapi": "3.0.3",$/m);
+    expect(JSON.parse(result.content).paths['/pets/{id}'].get.responses['500']).toEqual({ description: 'Internal server error' });
+  });
+
+  it('should keep the key order of JSON documents', async () => {
+    const json = [
+      '{',
+      '  "openapi": "3.0.3",',
+      '  "info": { "title": "Test API", "version": "1.0.0" },',
+      '  "paths": {',
+      '    "/pets": {',
+      '      "get": {',
+      '        "responses": {',
+      '          "default": { "description": "Unexpected error" },',
+      '          "404": { "description": "Not found" },',
+      '          "200": { "description": "OK" }',
+      '        }',
+      '      }',
+      '    }',
+      '  }',
+      '}',
+    ].join('\n');
+
+    const { result } = await fix(write('api.json', json));
+
+    expect(result.applied.length).toBeGreaterThan(0);
+    // JSON.parse would list integer-like keys first again, so the order is read from the text
+    const responses = result.content.match(/^ {10}"[^"]+"/gm)!.map(key => key.trim());
+    expect(responses).toEqual(['"default"', '"404"', '"200"', '"500"']);
+  });
+
+  it('should skip fixes of content in referenced files', async () => {
+    write('pets.yaml', source.split('\n').slice(7).map(line => line.substring(4)).join('\n'));
+    const file = write('api.yaml', source.split('\n').slice(0, 7).join('\n') + '\n    $ref: ./pets.yaml\n');
+
+    const { result } = await fix(file);
+
+    const responseFixes = result.skipped.filter(({ ruleId }) => ruleId.startsWith('responses.'));
+    expect(responseFixes).toHaveLength(4);
+    expect(responseFixes[0].reason).toContain('pets.yaml');
+    expect(result.applied.map(({ ruleId }) => ruleId)).toEqual(['misc.tag-undefined']);
+  });
+
+  it('should refuse Swagger 2.0 documents', async () => {
+    const file = write('swagger.yaml', 'swagger: "2.0"\ninfo:\n  title: Test API\n  version: 1.0.0\npaths: {}\n');
+
+    await expect(fix(file)).rejects.toThrow('only be applied to OpenAPI 3 documents');
+  });
+});
@@ -0,0 +1,103 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { listOperations, normalizeOperation } from '../../../src/core/operations';
+import { Judge } from '../../../src/core/score-engine';
+import { RuleViolation } from '../../../src/scoring-engine/types';
+
+describe('Operation scores', () => {
+  const spec: OpenAPIV3.Document = {
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0', description: 'Pets and their owners' },
+    paths: {
+      '/pets/{id}': {
+        get: {
+          summary: 'Get a pet',
+          description: 'Returns a single pet by its ID',
+          parameters: [{ name: 'id', in: 'path', required: true, description: 'ID of the pet', schema: { type: 'string' } }],
+          responses: {
+            '200': { description: 'The pet', content: { 'application/json': { schema: { type: 'object' }, example: {} } } },
+            '400': { description: 'Invalid ID' },
+            '404': { description: 'Pet not found' },
+            '500': { description: 'Server error' },
+          }
+        },
+        delete: {
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+          responses: { '204': { description: '' } }
+        }
+      }
+    }
+  };
+
+  const violation = (fields: Partial<RuleViolation>): RuleViolation => ({
+    ruleId: 'test.check', path: '', location: 'test', message: 'Test', severity: 'warning', suggestion: 'Fix it', ...fields
+  });
+
+  it('should tie violations to a normalized method and path', () => {
+    const operations = listOperations(spec);
+
+    const fromPointer = violation({ pointer: '/paths/~1pets~1{id}/delete/responses/204' });
+    normalizeOperation(fromPointer, operations);
+    expect(fromPointer).toMatchObject({ operation: 'DELETE', path: '/pets/{id}' });
+
+    const reported = violation({ path: '/pets/{id}', operation: 'get', pointer: '/components/parameters/Id' });
+    normalizeOperation(reported, operations);
+    expect(reported.operation).toBe('GET');
+
+    const unknown = violation({ path: '/owners', operation: 'get' });
+    normalizeOperation(unknown, operations);
+    expect(unknown.operation).toBeUndefined();
+  });
+
+  it('should give every violation of an operation its upper case method', () => {
+    const report = new Judge().evaluate(spec);
+    const violations = report.ruleResults.flatMap(({ result }) => result.violations)
+      .filter(v => v.pointer?.startsWith('/paths/~1pets~1{id}/delete'));
+
+    expect(violations.length).toBeGreaterThan(0);
+    violations.forEach(v => expect(v).toMatchObject({ operation: 'DELETE', path: '/pets/{id}' }));
+  });
+
+  it('should score every operation and rank the worst first', () => {
+    const report = new Judge().evaluate(spec);
+
+    expect(report.operationScores.map(({ method, path }) => `${method} ${path}`)).toEqual(['DELETE /pets/{id}', 'GET /pets/{id}']);
+    const [worst, best] = report.operationScores;
+    expect(worst.score).toBeLessThan(best.score);
+    expect(worst.violationCount).toBeGreaterThan(0);
+    expect(worst.categoryViolations['Description & Documentation']).toBeGreaterThan(0);
+    expect(Object.values(worst.categoryViolations).reduce((sum, count) => sum + count, 0)).toBe(worst.violationCount);
+    expect(worst.grade).toMatch(/^[SABCDF]$/);
+  });
+
+  it('should roll operations up by tag and by owner', () => {
+    const tagged: OpenAPIV3.Document = {
+      ...spec,
+      tags: [{ name: 'pets', 'x-team': 'zoo' } as OpenAPIV3.TagObject],
+      paths: {
+        '/pets/{id}': {
+          get: { ...spec.paths['/pets/{id}']!.get!, tags: ['pets'] },
+          delete: { ...spec.paths['/pets/{id}']!.delete!, 'x-team': 'admin' } as OpenAPIV3.OperationObject,
+        }
+      }
+    };
+
+    const report = new Judge({ config: { ownerExtension: 'x-team' } }).evaluate(tagged);
+
+    expect(report.ownerExtension).toBe('x-team');
+    expect(report.tagScores.map(({ name, operationCount }) => [name, operationCount])).toEqual([['(untagged)', 1], ['pets', 1]]);
+    expect(report.ownerScores.map(({ name }) => name)).toEqual(['admin', 'zoo']);
+
+    const [admin] = report.ownerScores;
+    const deleteScore = report.operationScores.find(({ method }) => method === 'DELETE')!;
+    expect(admin).toMatchObject({ score: deleteScore.score, grade: deleteScore.grade, violationCount: deleteScore.violationCount });
+    expect(admin.topChecks.length).toBeGreaterThan(0);
+    expect(admin.topChecks[0].count).toBeGreaterThanOrEqual(admin.topChecks[admin.topChecks.length - 1].count);
+  });
+
+  it('should leave out rollups when no operation has tags or owners', () => {
+    const report = new Judge().evaluate(spec);
+
+    expect(report.tagScores).toEqual([]);
+    expect(report.ownerScores).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+import { OpenAPIParser } from '../../../src/core/parser';
+
+describe('OpenAPIParser.parseContent', () => {
+  let parser: OpenAPIParser;
+
+  const yamlSpec = [
+    'openapi: 3.0.3',
+    'info:',
+    '  title: Pets',
+    '  version: 1.0.0',
+    'paths:',
+    '  /pets:',
+    '    get:',
+    '      responses:',
+    "        '200':",
+    '          description: OK',
+  ].join('\n');
+
+  beforeEach(() => {
+    parser = new OpenAPIParser();
+  });
+
+  it('should parse YAML content held in memory', async () => {
+    const result = await parser.parseContent(yamlSpec);
+
+    expect(result.sourceVersion).toBe('3.0.3');
+    expect(result.document.paths!['/pets']!.get).toBeDefined();
+    expect(result.notes).toEqual([]);
+  });
+
+  it('should detect JSON content', async () => {
+    const json = JSON.stringify({
+      openapi: '3.1.0',
+      info: { title: 'Pets', version: '1.0.0' },
+      paths: {},
+    });
+
+    const result = await parser.parseContent(`  ${json}`);
+    expect(result.sourceVersion).toBe('3.1.0');
+  });
+
+  it('should honour an explicit format', async () => {
+    await expect(parser.parseContent(yamlSpec, 'json')).rejects.toThrow('Failed to parse OpenAPI spec');
+  });
+
+  it('should convert pasted Swagger 2.0 content', async () => {
+    const result = await parser.parseContent('swagger: "2.0"\ninfo: {title: Pets, version: 1.0.0}\npaths: {}\n');
+
+    expect(result.sourceVersion).toBe('2.0');
+    expect(result.document.openapi).toBe('3.0.3');
+    expect(result.notes[0]).toContain('converted');
+  });
+
+  it('should reject empty content', async () => {
+    await expect(parser.parseContent('   ')).rejects.toThrow('Specification content is empty');
+  });
+
+  it('should reject content that is not an object', async () => {
+    await expect(parser.parseContent('just a sentence')).rejects.toThrow('is not a YAML object');
+  });
+});
@@ -0,0 +1,200 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OpenAPIV3 } from 'openapi-types';
+import { PluginLoader } from '../../../src/core/plugins';
+import { Judge } from '../../../src/core/score-engine';
+import { LoadedPlugin, PluginContext, ScorecardPlugin } from '../../../src/scoring-engine/types';
+
+// Requires x-owner on every operation, like a house rule kept outside the repository would
+const ownershipPlugin: ScorecardPlugin = {
+  name: 'house-rules',
+  rules: (context: PluginContext) => [{
+    id: 'house.ownership',
+    name: 'Ownership',
+    description: 'Every operation names its owning team',
+    weight: 10,
+    checks: [{ id: 'house.ownership.missing-owner', severity: 'error', description: 'An operation has no x-owner.' }],
+    evaluate(spec) {
+      const operations = Object.entries(spec.paths || {}).flatMap(([pathName, pathItem]) =>
+        Object.entries(pathItem || {}).map(([method, operation]) => ({ pathName, method, operation: operation as any })));
+      const found = operations
+        .filter(({ operation }) => !operation[String(context.options.extension || 'x-owner')])
+        .map(({ pathName, method }) => ({
+          ruleId: 'house.ownership.missing-owner',
+          path: pathName,
+          operation: method.toUpperCase(),
+          location: `paths.${pathName}.${method}`,
+          pointer: `/paths/${pathName.replace(/\//g, '~1')}/${method}`,
+          message: 'Operation has no owner',
+          severity: 'error' as const,
+          suggestion: 'Add x-owner with the name of the owning team',
+        }));
+      const { violations, suppressed } = context.finalizeViolations(found, spec);
+      return { score: context.calculateScore(violations, operations.length, 10), maxScore: 10, violations, suppressed };
+    }
+  }]
+};
+
+const throwingPlugin: ScorecardPlugin = {
+  name: 'broken',
+  rules: () => [{
+    id: 'broken.rule',
+    name: 'Broken',
+    description: 'Always throws',
+    weight: 10,
+    evaluate() {
+      throw new Error('boom');
+    }
+  }]
+};
+
+describe('Plugins', () => {
+  const spec = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: { responses: { '200': { description: 'OK' } } },
+        post: { 'x-owner': 'pets-team', responses: { '201': { description: 'Created' } } } as OpenAPIV3.OperationObject
+      }
+    }
+  });
+
+  const load = (plugin: ScorecardPlugin, options = {}): LoadedPlugin => ({ plugin, options });
+
+  it('should add the rules of a plugin as categories and violations', () => {
+    const report = new Judge({ plugins: [load(ownershipPlugin)] }).evaluate(spec());
+    const category = report.categoryScores.find(c => c.name === 'Ownership')!;
+
+    expect(category.plugin).toBe('house-rules');
+    expect(category.maxScore).toBe(10);
+    expect(report.violations.filter(v => v.ruleId === 'house.ownership.missing-owner').map(v => v.operation)).toEqual(['GET']);
+  });
+
+  it('should pass plugin options and apply check settings and suppressions to plugin violations', () => {
+    const ignored = spec() as any;
+    ignored.paths['/pets'].get['x-scorecard-ignore'] = ['house.*'];
+
+    const withOptions = new Judge({ plugins: [load(ownershipPlugin, { extension: 'x-team' })] }).evaluate(spec());
+    const downgraded = new Judge({
+      config: { checks: { 'house.ownership.missing-owner': 'info' } },
+      plugins: [load(ownershipPlugin)]
+    }).evaluate(spec());
+    const suppressed = new Judge({ plugins: [load(ownershipPlugin)] }).evaluate(ignored);
+
+    expect(withOptions.violations.filter(v => v.ruleId.startsWith('house.'))).toHaveLength(2);
+    expect(downgraded.violations.some(v => v.ruleId.startsWith('house.'))).toBe(false);
+    expect(suppressed.suppressed.map(v => v.ruleId)).toContain('house.ownership.missing-owner');
+    expect(suppressed.categoryScores.find(c => c.name === 'Ownership')!.score).toBe(10);
+  });
+
+  it('should report a throwing plugin instead of aborting the evaluation', () => {
+    const withoutPlugins = new Judge().evaluate(spec());
+    const report = new Judge({ plugins: [load(throwingPlugin), load(ownershipPlugin)] }).evaluate(spec());
+
+    expect(report.notes).toContainEqual(expect.stringContaining("Rule 'broken.rule' of plugin 'broken' threw an error: boom"));
+    expect(report.categoryScores.map(c => c.name)).not.toContain('Broken');
+    expect(report.categoryScores.map(c => c.name)).toContain('Ownership');
+    expect(report.categoryScores.length).toBe(withoutPlugins.categoryScores.length + 1);
+  });
+
+  it('should report a rule returning malformed violations or explanations', () => {
+    const rule = (id: string, result: object) => ({ id, name: id, description: '', weight: 5, evaluate: () => result as any });
+    const malformed: ScorecardPlugin = {
+      name: 'malformed',
+      rules: () => [
+        rule('malformed.violation', { score: 5, maxScore: 5, violations: [{ path: '/a' }] }),
+        rule('malformed.explanation', { score: 5, maxScore: 5, violations: [], explanation: { method: 'Counted' } }),
+      ]
+    };
+
+    const report = new Judge({ plugins: [load(malformed), load(ownershipPlugin)] }).evaluate(spec());
+
+    expect(report.notes).toContainEqual(expect.stringContaining("Rule 'malformed.violation' of plugin 'malformed' returned an invalid result"));
+    expect(report.notes).toContainEqual(expect.stringContaining("Rule 'malformed.explanation' of plugin 'malformed' returned an invalid result"));
+    expect(report.categoryScores.map(c => c.name)).toContain('Ownership');
+  });
+
+  it('should report a rule that returns a Promise and swallow its rejection', async () => {
+    let rejected!: Promise<never>;
+    const asyncPlugin: ScorecardPlugin = {
+      name: 'async',
+      rules: () => [{
+        id: 'async.rule',
+        name: 'Async',
+        description: 'Evaluates asynchronously',
+        weight: 10,
+        evaluate: () => (rejected = Promise.reject(new Error('late'))) as any
+      }]
+    };
+
+    const report = new Judge({ plugins: [load(asyncPlugin)] }).evaluate(spec());
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(report.notes).toContainEqual(expect.stringContaining("Rule 'async.rule' of plugin 'async' returned a Promise"));
+    await expect(rejected).rejects.toThrow('late');
+  });
+
+  it('should report a plugin whose rules cannot be created', () => {
+    const invalid: ScorecardPlugin = { name: 'invalid', rules: () => [{ name: 'No ID' } as any] };
+
+    const report = new Judge({ plugins: [load(invalid)] }).evaluate(spec());
+
+    expect(report.notes).toContainEqual(expect.stringContaining("Plugin 'invalid' failed to create its rules"));
+  });
+});
+
+describe('PluginLoader', () => {
+  let dir: string;
+  const loader = new PluginLoader();
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'plugins-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should load local plugin files relative to the base directory with their options', () => {
+    fs.mkdirSync(path.join(dir, 'rules'));
+    fs.writeFileSync(path.join(dir, 'rules', 'tenant.js'), 'module.exports = { name: "tenant", rules: () => [] };');
+
+    const [loaded] = loader.load([{ module: './rules/tenant.js', options: { header: 'X-Tenant-Id' } }], dir);
+
+    expect(loaded.plugin.name).toBe('tenant');
+    expect(loaded.options).toEqual({ header: 'X-Tenant-Id' });
+    expect(loaded.source).toBe(path.join(dir, 'rules', 'tenant.js'));
+  });
+
+  it('should load npm packages and default exports', () => {
+    const packageDir = path.join(dir, 'node_modules', 'scorecard-plugin-acme');
+    fs.mkdirSync(packageDir, { recursive: true });
+    fs.writeFileSync(path.join(packageDir, 'index.js'), 'exports.default = { name: "acme", rules: () => [] };');
+
+    expect(loader.load(['scorecard-plugin-acme'], dir)[0].plugin.name).toBe('acme');
+  });
+
+  it('should return missing modules and modules that are not plugins with their error', () => {
+    fs.writeFileSync(path.join(dir, 'empty.js'), 'module.exports = {};');
+    fs.writeFileSync(path.join(dir, 'throwing.js'), 'throw new Error("broken on import");');
+    fs.writeFileSync(path.join(dir, 'valid.js'), 'module.exports = { name: "valid", rules: () => [] };');
+
+    const [missing, empty, throwing, valid] = loader.load(['./missing.js', './empty.js', './throwing.js', './valid.js'], dir);
+
+    expect(missing.plugin.name).toBe('./missing.js');
+    expect(missing.error).toContain("Failed to load plugin './missing.js'");
+    expect(empty.error).toBe("Plugin './empty.js' must export an object with a name and a rules(context) function");
+    expect(throwing.error).toBe("Failed to load plugin './throwing.js': broken on import");
+    expect(valid.error).toBeUndefined();
+  });
+
+  it('should report plugins that could not be loaded instead of aborting the evaluation', () => {
+    const plugins = loader.load(['./missing.js'], dir);
+
+    const report = new Judge({ plugins }).evaluate({ openapi: '3.0.3', info: { title: 'Test API', version: '1.0.0' }, paths: {} });
+
+    expect(report.notes).toContainEqual(expect.stringContaining("Failed to load plugin './missing.js'"));
+  });
+});
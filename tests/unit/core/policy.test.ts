@@ -0,0 +1,62 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { Judge } from '../../../src/core/score-engine';
+import { RULE_NAMES } from '../../../src/scoring-engine/constants';
+
+describe('Grade scale and policy', () => {
+  const spec = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: {
+          summary: 'List pets',
+          responses: { '200': { description: 'OK' } }
+        }
+      }
+    }
+  });
+
+  const percentage = (report: ReturnType<Judge['evaluate']>, name: string) =>
+    report.categoryScores.find(category => category.name === name)!.percentage;
+
+  it('should grade with the configured bands', () => {
+    const score = new Judge().evaluate(spec()).overallScore;
+
+    expect(new Judge({ config: { grades: { S: score, A: 0, B: 0, C: 0, D: 0 } } }).evaluate(spec()).grade).toBe('S');
+    expect(new Judge({ config: { grades: { S: 100, A: 100, B: 100, C: 100, D: score + 1 } } }).evaluate(spec()).grade).toBe('F');
+    expect(() => new Judge({ config: { grades: { A: 95 } } })).toThrow(/must not increase from S to D/);
+  });
+
+  it('should cap the grade and list the failed policies when a category misses its minimum', () => {
+    const baseline = new Judge().evaluate(spec());
+    const responseCodes = percentage(baseline, RULE_NAMES.response_codes);
+
+    const report = new Judge({
+      config: {
+        grades: { S: 0, A: 0, B: 0, C: 0, D: 0 },
+        policy: { minimums: { response_codes: responseCodes + 1, security: 0 }, gradeCap: 'C' },
+      },
+    }).evaluate(spec());
+
+    expect(report.grade).toBe('C');
+    expect(report.policies).toEqual([
+      {
+        category: RULE_NAMES.response_codes,
+        minimum: responseCodes + 1,
+        percentage: responseCodes,
+        passed: false,
+        reason: `${RULE_NAMES.response_codes} scored ${responseCodes}%, below its minimum of ${responseCodes + 1}%`,
+      },
+      { category: RULE_NAMES.security, minimum: 0, percentage: percentage(baseline, RULE_NAMES.security), passed: true },
+    ]);
+    expect(report.notes).toContain('Grade capped at C because a category is below the policy minimum.');
+  });
+
+  it('should keep the grade when every minimum is met and warn about unknown categories', () => {
+    const report = new Judge({ config: { policy: { minimums: { security: 0, performance: 50 } } } }).evaluate(spec());
+
+    expect(report.grade).toBe(new Judge().evaluate(spec()).grade);
+    expect(report.policies.every(policy => policy.passed)).toBe(true);
+    expect(report.warnings).toEqual(["The policy minimum for 'performance' was ignored because no category of that name was scored"]);
+  });
+});
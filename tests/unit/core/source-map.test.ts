@@ -0,0 +1,100 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SourceMap } from '../../../src/core/source-map';
+import { OpenAPIParser } from '../../../src/core/parser';
+import { Judge } from '../../../src/core/score-engine';
+
+describe('SourceMap', () => {
+  const yamlSpec = [
+    'openapi: 3.0.3',
+    'info:',
+    '  title: Pets',
+    '  version: 1.0.0',
+    'paths:',
+    '  /pets:',
+    '    get:',
+    '      responses:',
+    "        '200':",
+    '          description: OK',
+  ].join('\n');
+
+  it('should map JSON pointers to the line and column of their key', () => {
+    const sourceMap = SourceMap.build('openapi.yaml', yamlSpec);
+
+    expect(sourceMap.locate('/paths/~1pets/get')).toEqual({
+      file: 'openapi.yaml',
+      start: { line: 7, column: 5 },
+      end: { line: 10, column: 26 },
+    });
+    expect(sourceMap.locate('/info/title')!.start).toEqual({ line: 3, column: 3 });
+  });
+
+  it('should fall back to the closest ancestor that exists in the source', () => {
+    const sourceMap = SourceMap.build('openapi.yaml', yamlSpec);
+
+    expect(sourceMap.locate('/paths/~1pets/get/parameters/0')!.start.line).toBe(7);
+    expect(sourceMap.locate('/components/schemas/Pet')!.start.line).toBe(1);
+  });
+
+  it('should locate nodes in JSON text', () => {
+    const json = '{\n  "openapi": "3.1.0",\n  "info": {\n    "title": "Pets"\n  }\n}';
+    const sourceMap = SourceMap.build('openapi.json', json);
+
+    expect(sourceMap.locate('/info/title')!.start).toEqual({ line: 4, column: 5 });
+  });
+
+  it('should look up aliased pointers', () => {
+    const sourceMap = SourceMap.build('swagger.yaml', 'swagger: "2.0"\ndefinitions:\n  Pet:\n    type: object\n');
+    sourceMap.alias('/components/schemas', '/definitions');
+
+    expect(sourceMap.locate('/components/schemas/Pet/type')!.start).toEqual({ line: 4, column: 5 });
+  });
+
+  describe('with bundled files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'source-map-'));
+      fs.mkdirSync(path.join(dir, 'schemas'));
+      fs.writeFileSync(path.join(dir, 'schemas', 'Pet.yaml'), 'type: object\nproperties:\n  name:\n    type: string\n');
+      fs.writeFileSync(path.join(dir, 'openapi.yaml'), [
+        yamlSpec,
+        '          content:',
+        '            application/json:',
+        '              schema:',
+        "                $ref: './schemas/Pet.yaml'",
+      ].join('\n'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should map bundled components to the file they were loaded from', async () => {
+      const rootFile = path.join(dir, 'openapi.yaml');
+      const parsed = await new OpenAPIParser().parse(rootFile);
+
+      expect(parsed.sourceMap!.locate('/components/schemas/Pet/properties/name')).toEqual({
+        file: path.join(dir, 'schemas', 'Pet.yaml'),
+        start: { line: 3, column: 3 },
+        end: { line: 5, column: 1 },
+      });
+    });
+
+    it('should attach pointers and ranges to violations', async () => {
+      const parsed = await new OpenAPIParser().parse(path.join(dir, 'openapi.yaml'), 'openapi.yaml');
+      const report = new Judge().evaluate(parsed);
+      const violations = report.ruleResults.flatMap(({ result }) => result.violations);
+
+      const missingDescription = violations.find(v => v.message === 'Operation is missing both a meaningful description and summary');
+      expect(missingDescription).toEqual(expect.objectContaining({
+        pointer: '/paths/~1pets/get',
+        range: expect.objectContaining({ file: 'openapi.yaml', start: { line: 7, column: 5 } }),
+      }));
+
+      const petViolation = violations.find(v => v.pointer?.startsWith('/components/schemas/Pet'));
+      expect(petViolation!.range!.file).toBe(path.join('schemas', 'Pet.yaml'));
+    });
+  });
+});
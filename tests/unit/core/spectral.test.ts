@@ -0,0 +1,159 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { OpenAPIV3 } from 'openapi-types';
+import { ConfigLoader } from '../../../src/core/config';
+import { SpectralRulesetLoader } from '../../../src/core/spectral';
+import { Judge } from '../../../src/core/score-engine';
+import { SPECTRAL_CATEGORY_NAME } from '../../../src/scoring-engine/constants';
+
+describe('SpectralRulesetLoader', () => {
+  let dir: string;
+  const loader = new SpectralRulesetLoader();
+
+  const write = (name: string, lines: string[]) => {
+    fs.writeFileSync(path.join(dir, name), lines.join('\n'));
+    return path.join(dir, name);
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'spectral-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should translate rules using the core functions', () => {
+    const file = write('.spectral.yaml', [
+      'rules:',
+      '  info-contact:',
+      '    description: Info object must have a contact',
+      '    severity: error',
+      '    given: $.info',
+      '    then:',
+      '      field: contact',
+      '      function: truthy',
+      '  openapi-version:',
+      '    severity: hint',
+      '    message: "{{error}}"',
+      '    given: $',
+      '    then:',
+      '      field: openapi',
+      '      function: enumeration',
+      '      functionOptions:',
+      '        values: [3.0.3, 3.1.0]',
+    ]);
+
+    const { rules, warnings } = loader.load(file);
+
+    expect(warnings).toEqual([]);
+    expect(rules['info-contact']).toEqual({
+      description: 'Info object must have a contact',
+      severity: 'error',
+      category: SPECTRAL_CATEGORY_NAME,
+      given: ['$.info'],
+      then: [{ field: 'contact', function: 'truthy' }],
+    });
+    expect(rules['openapi-version']).toEqual(expect.objectContaining({
+      severity: 'info',
+      message: '{{error}}',
+      then: [{ field: 'openapi', function: 'enum', functionOptions: { values: ['3.0.3', '3.1.0'] } }],
+    }));
+  });
+
+  it('should extend local rulesets and apply severity overrides', () => {
+    write('base.yaml', [
+      'aliases:',
+      '  Operation:',
+      '    - $.paths[*][get,put,post,delete,patch]',
+      'rules:',
+      '  operation-summary:',
+      '    given: "#Operation"',
+      '    then: { field: summary, function: truthy }',
+      '  operation-tags:',
+      '    given: "#Operation.tags"',
+      '    then: { function: length, functionOptions: { min: 1 } }',
+      '  tags-sorted:',
+      '    recommended: false',
+      '    given: $.tags',
+      '    then: { function: alphabetical, functionOptions: { keyedBy: name } }',
+    ]);
+    const file = write('.spectral.yaml', [
+      'extends: ./base.yaml',
+      'rules:',
+      '  operation-summary: error',
+      '  operation-tags: off',
+    ]);
+
+    const { rules, warnings } = loader.load(file);
+
+    expect(warnings).toEqual([]);
+    expect(Object.keys(rules)).toEqual(['operation-summary']);
+    expect(rules['operation-summary']).toEqual(expect.objectContaining({
+      severity: 'error',
+      given: ['$.paths[*][get,put,post,delete,patch]'],
+    }));
+
+    write('all.yaml', ['extends: [[./base.yaml, all]]']);
+    expect(Object.keys(loader.load(path.join(dir, 'all.yaml')).rules)).toEqual(['operation-summary', 'operation-tags', 'tags-sorted']);
+  });
+
+  it('should warn about everything it cannot import instead of skipping it silently', () => {
+    const file = write('.spectral.yaml', [
+      'extends: [spectral:oas]',
+      'overrides:',
+      '  - files: ["*.yaml"]',
+      'rules:',
+      '  operation-success-response:',
+      '    given: $.paths[*][*]',
+      '    then:',
+      '      function: oasOpSuccessResponse',
+      '  path-casing:',
+      '    given: $.paths',
+      '    then:',
+      '      field: "@key"',
+      '      function: casing',
+      '      functionOptions: { type: kebab, separator: { char: "/" } }',
+      '  info-description: warn',
+    ]);
+
+    const { rules, warnings } = loader.load(file);
+
+    expect(Object.keys(rules)).toEqual(['path-casing']);
+    expect(rules['path-casing'].then).toEqual([{ field: '@key', function: 'casing', functionOptions: { type: 'kebab' } }]);
+    expect(warnings).toEqual([
+      ".spectral.yaml: extending 'spectral:oas' is not supported, only local ruleset files can be extended",
+      ".spectral.yaml: 'overrides' are not supported and were ignored",
+      ".spectral.yaml: rule 'operation-success-response' uses the unsupported function 'oasOpSuccessResponse' and was skipped",
+      ".spectral.yaml: rule 'path-casing': option 'separator' of 'casing' is not supported and was ignored",
+      ".spectral.yaml: rule 'info-description' is not defined by an extended ruleset and was ignored",
+    ]);
+  });
+
+  it('should score the imported rules as an extra category and report the warnings', () => {
+    write('.spectral.yaml', [
+      'rules:',
+      '  info-contact:',
+      '    given: $.info',
+      '    then: { field: contact, function: truthy }',
+      '  custom:',
+      '    given: $',
+      '    then: { function: myFunction }',
+    ]);
+    write('.openapi-scorecard.yml', ['ruleset: ./.spectral.yaml']);
+    const spec: OpenAPIV3.Document = {
+      openapi: '3.0.3',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: {}
+    };
+
+    const { config, ruleset, warnings } = new ConfigLoader().resolve(dir);
+    const report = new Judge({ config, warnings }).evaluate(spec);
+
+    expect(ruleset).toBe(path.join(dir, '.spectral.yaml'));
+    expect(report.categoryScores.map(category => category.name)).toContain(SPECTRAL_CATEGORY_NAME);
+    expect(report.violations.map(v => v.ruleId)).toContain('info-contact');
+    expect(report.warnings).toEqual([".spectral.yaml: rule 'custom' uses the unsupported function 'myFunction' and was skipped"]);
+  });
+});
@@ -0,0 +1,116 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { DeclarativeRule, validateRuleDefinition } from '../../../src/scoring-engine/declarative-rules';
+import { DeclarativeRuleDefinition } from '../../../src/scoring-engine/types';
+import { CUSTOM_CATEGORY_WEIGHT } from '../../../src/scoring-engine/constants';
+import { Judge } from '../../../src/core/score-engine';
+
+describe('DeclarativeRule', () => {
+  const spec = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/admin/users': {
+        get: { operationId: 'listUsers', security: [{ apiKey: [] }], responses: { '200': { description: 'OK' } } },
+        delete: { operationId: 'delete_users', responses: { '204': { description: 'Deleted' } } }
+      },
+      '/pets': {
+        get: { operationId: 'listPets', responses: { '200': { description: 'OK' } } }
+      }
+    }
+  });
+
+  const adminSecurity: DeclarativeRuleDefinition = {
+    description: 'Every operation under /admin must have security',
+    message: '{{path}} has no security',
+    severity: 'error',
+    category: 'Governance',
+    given: '$.paths[?(@property.match(/^\\/admin/))][get,put,post,patch,delete]',
+    then: { field: 'security', function: 'truthy' }
+  };
+
+  const evaluate = (definitions: Record<string, DeclarativeRuleDefinition>, document: OpenAPIV3.Document = spec()) =>
+    new DeclarativeRule('Governance', definitions).evaluate(document);
+
+  it('should report nodes failing the condition with their pointer and templated message', () => {
+    const result = evaluate({ 'admin-security': adminSecurity });
+
+    expect(result.maxScore).toBe(CUSTOM_CATEGORY_WEIGHT);
+    expect(result.violations).toEqual([expect.objectContaining({
+      ruleId: 'admin-security',
+      path: '/admin/users',
+      operation: 'DELETE',
+      pointer: '/paths/~1admin~1users/delete/security',
+      message: 'paths./admin/users.delete has no security',
+      severity: 'error',
+      suggestion: 'Every operation under /admin must have security'
+    })]);
+    expect(result.score).toBeLessThan(result.maxScore);
+  });
+
+  it('should support the pattern, enum, length, schema, casing and alphabetical functions', () => {
+    const document = spec();
+    document.info.title = 'x';
+    const result = evaluate({
+      'operation-id-casing': { given: '$.paths[*][*].operationId', then: { function: 'casing', functionOptions: { type: 'camel' } } },
+      'no-users-path': { given: '$.paths', then: { field: '@key', function: 'pattern', functionOptions: { notMatch: '^users' } } },
+      'version-format': { given: '$.info', then: { field: 'version', function: 'pattern', functionOptions: { match: '/^\\d+\\.\\d+\\.\\d+$/' } } },
+      'openapi-version': { given: '$', then: { field: 'openapi', function: 'enum', functionOptions: { values: ['3.1.0'] } } },
+      'title-length': { given: '$.info.title', then: { function: 'length', functionOptions: { min: 3 } } },
+      'info-schema': {
+        given: '$.info',
+        then: { function: 'schema', functionOptions: { schema: { type: 'object', required: ['contact'] } } }
+      },
+      'paths-sorted': { given: '$.paths', then: { function: 'alphabetical' } },
+      'methods-sorted': { given: "$.paths['/admin/users']", then: { function: 'alphabetical' } },
+    }, document);
+
+    expect(result.violations.map(v => `${v.ruleId}: ${v.message}`)).toEqual([
+      "operation-id-casing: 'operationId' must be camel case",
+      "openapi-version: 'openapi' must be one of 3.1.0",
+      "title-length: 'title' must have a length of at least 3",
+      "info-schema: 'info' must have required property 'contact'",
+      "methods-sorted: '/admin/users' must be sorted alphabetically, 'delete' comes before 'get'",
+    ]);
+  });
+
+  it('should be scored in its own category by the Judge, honouring category and check settings', () => {
+    const report = new Judge({ config: { rules: { 'admin-security': adminSecurity } } }).evaluate(spec());
+    const category = report.categoryScores.find(c => c.name === 'Governance')!;
+    const reweighted = new Judge({
+      config: { rules: { 'admin-security': adminSecurity }, categories: { Governance: { weight: 30 } } }
+    }).evaluate(spec());
+    const disabled = new Judge({
+      config: { rules: { 'admin-security': adminSecurity }, checks: { 'admin-security': 'off' } }
+    }).evaluate(spec());
+
+    expect(category.maxScore).toBe(CUSTOM_CATEGORY_WEIGHT);
+    expect(report.violations.map(v => v.ruleId)).toContain('admin-security');
+    expect(reweighted.categoryScores.find(c => c.name === 'Governance')!.maxScore).toBe(30);
+    expect(disabled.categoryScores.find(c => c.name === 'Governance')!.percentage).toBe(100);
+  });
+});
+
+describe('validateRuleDefinition', () => {
+  it('should accept a valid rule', () => {
+    expect(validateRuleDefinition('admin-security', {
+      given: ['$.paths[*].get', '$.paths[*].post'],
+      then: [{ field: 'security', function: 'truthy' }, { field: 'summary', function: 'length', functionOptions: { max: 80 } }]
+    })).toEqual([]);
+  });
+
+  it('should list every problem of an invalid rule', () => {
+    const errors = validateRuleDefinition('bad rule', {
+      given: 'paths',
+      then: [{ function: 'magic' }, { function: 'casing', functionOptions: { type: 'sponge' } }],
+      severity: 'fatal'
+    });
+
+    expect(errors).toEqual([
+      "rule ID 'bad rule' may only contain letters, digits, '.', '-' and '_'",
+      "rule 'bad rule': Invalid JSONPath 'paths': it must start with '$'",
+      "rule 'bad rule': unknown function 'magic', expected truthy, falsy, defined, undefined, pattern, enum, length, schema, casing, alphabetical",
+      "rule 'bad rule': the casing function needs a 'type' of flat, camel, pascal, kebab, cobol, snake, macro",
+      "rule 'bad rule': 'severity' must be error, warning or info",
+    ]);
+  });
+});
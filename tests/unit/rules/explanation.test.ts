@@ -0,0 +1,48 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { scoreBySeverity } from '../../../src/scoring-engine/explanation';
+import { calculateScore } from '../../../src/scoring-engine/helper-functions';
+import { Judge } from '../../../src/core/score-engine';
+import { RULE_NAMES } from '../../../src/scoring-engine/constants';
+import { RuleViolation, Severity } from '../../../src/scoring-engine/types';
+
+describe('Score explanations', () => {
+  const violation = (severity: Severity): RuleViolation => ({
+    ruleId: 'test.check', path: '/pets', location: 'test', message: 'Test', severity, suggestion: 'Fix it'
+  });
+
+  it('should explain the severity-weighted score it computes', () => {
+    const violations = [violation('error'), violation('warning'), violation('warning')];
+    const { score, explanation } = scoreBySeverity(violations, 4, 20, {}, 'paths');
+
+    expect(score).toBe(calculateScore(violations, 4, 20));
+    expect(explanation.items).toEqual([{ label: 'paths', count: 4 }]);
+    expect(explanation.penalties).toEqual([
+      { reason: '1 error × 0.7 per 4 paths', points: 3.5 },
+      { reason: '2 warnings × 0.2 per 4 paths', points: 2 },
+    ]);
+    expect(explanation.caps).toEqual([]);
+  });
+
+  it('should name the caps it applies', () => {
+    expect(scoreBySeverity([violation('error')], 100, 10).explanation.caps)
+      .toEqual(['Errors keep the score at most 8, 2 below the weight']);
+    expect(scoreBySeverity([violation('error'), violation('error')], 0, 10).explanation.caps)
+      .toEqual(['No items were counted, so penalties are divided by 1', 'The penalties exceed the weight, so the score is 0']);
+  });
+
+  it('should explain every built-in category', () => {
+    const spec: OpenAPIV3.Document = {
+      openapi: '3.0.3',
+      info: { title: 'Test API', version: '1.0.0' },
+      tags: [{ name: 'pets' }],
+      paths: {
+        '/pets': { get: { tags: ['pets'], responses: { '200': { description: 'OK' } } } }
+      }
+    };
+    const report = new Judge().evaluate(spec);
+
+    report.categoryScores.forEach(({ ruleResult }) => expect(ruleResult.result.explanation?.method).toBeTruthy());
+    const misc = report.categoryScores.find(category => category.name === RULE_NAMES.miscellaneous)!;
+    expect(misc.ruleResult.result.explanation!.subChecks.map(check => check.name)).toContain('Servers');
+  });
+});
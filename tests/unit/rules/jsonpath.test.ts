@@ -0,0 +1,62 @@
+import { queryJsonPath } from '../../../src/scoring-engine/jsonpath';
+
+describe('queryJsonPath', () => {
+  const document = {
+    info: { title: 'Pets' },
+    paths: {
+      '/admin/users': {
+        parameters: [{ name: 'tenant', in: 'header' }],
+        get: { security: [] },
+        post: { tags: ['admin'] }
+      },
+      '/pets': {
+        get: { tags: ['pets'], parameters: [{ name: 'limit', in: 'query' }, { name: 'offset', in: 'query' }] }
+      }
+    }
+  };
+
+  const pointers = (expression: string) => queryJsonPath(document, expression).map(match => match.pointer);
+
+  it('should select children by name, index, wildcard and union', () => {
+    expect(queryJsonPath(document, '$.info.title')).toEqual([{ value: 'Pets', path: ['info', 'title'], pointer: '/info/title' }]);
+    expect(pointers("$.paths['/pets'].get.parameters[1]")).toEqual(['/paths/~1pets/get/parameters/1']);
+    expect(pointers('$.paths[*][get,post]')).toEqual([
+      '/paths/~1admin~1users/get',
+      '/paths/~1admin~1users/post',
+      '/paths/~1pets/get',
+    ]);
+    expect(pointers('$.paths.*.get.parameters[-1:]')).toEqual(['/paths/~1pets/get/parameters/1']);
+  });
+
+  it('should select descendants', () => {
+    expect(pointers('$..parameters[*]')).toEqual([
+      '/paths/~1admin~1users/parameters/0',
+      '/paths/~1pets/get/parameters/0',
+      '/paths/~1pets/get/parameters/1',
+    ]);
+    expect(pointers('$..tags')).toHaveLength(2);
+  });
+
+  it('should filter with comparisons, regular expressions and @property', () => {
+    expect(pointers("$..[?(@.in == 'query' && @.name != 'offset')]")).toEqual(['/paths/~1pets/get/parameters/0']);
+    expect(pointers('$.paths[?(@property.match(/^\\/admin/))][get,post]')).toEqual([
+      '/paths/~1admin~1users/get',
+      '/paths/~1admin~1users/post',
+    ]);
+    expect(pointers("$.paths[?(@property =~ /^\\/pets/)].*")).toEqual(['/paths/~1pets/get']);
+    expect(pointers('$.paths[*][?(@.tags && @.tags.length > 0)]')).toEqual([
+      '/paths/~1admin~1users/post',
+      '/paths/~1pets/get',
+    ]);
+    expect(pointers("$.paths[*][?(!(@property === 'parameters') && !@.security)]")).toEqual([
+      '/paths/~1admin~1users/post',
+      '/paths/~1pets/get',
+    ]);
+  });
+
+  it('should reject invalid expressions', () => {
+    expect(() => queryJsonPath(document, 'paths')).toThrow("Invalid JSONPath 'paths': it must start with '$'");
+    expect(() => queryJsonPath(document, '$.paths[*')).toThrow("unclosed '['");
+    expect(() => queryJsonPath(document, '$.paths[?(@.get.constructor())]')).toThrow("unsupported method 'constructor'");
+  });
+});
@@ -0,0 +1,112 @@
+import { NamingConventionRule } from '../../../src/scoring-engine/rules/naming-rule';
+import { OpenAPIV3 } from 'openapi-types';
+import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from '../../../src/scoring-engine/constants';
+
+describe('NamingConventionRule', () => {
+  const document = (overrides: Partial<OpenAPIV3.Document>): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {},
+    ...overrides,
+  });
+
+  const object = (...names: string[]): OpenAPIV3.SchemaObject =>
+    ({ type: 'object', properties: Object.fromEntries(names.map(name => [name, { type: 'string' }])) });
+
+  const found = (violations: { ruleId: string; suggestion: string }[]) => violations.map(({ ruleId, suggestion }) => `${ruleId}: ${suggestion}`);
+
+  test('should have correct name, description and weight', () => {
+    const rule = new NamingConventionRule();
+    expect(rule.name).toBe(RULE_NAMES.naming);
+    expect(rule.description).toBe(RULE_DESCRIPTIONS.naming);
+    expect(rule.weight).toBe(CRITERIA_WEIGHTS.naming);
+  });
+
+  test('should score full marks for consistently named documents', () => {
+    const result = new NamingConventionRule().evaluate(document({
+      paths: {
+        '/pets': {
+          get: {
+            parameters: [
+              { name: 'pageSize', in: 'query', schema: { type: 'integer' } },
+              { name: 'X-Request-ID', in: 'header', schema: { type: 'string' } },
+            ],
+            responses: { '200': { description: 'OK', content: { 'application/json': { schema: object('items', '_links') } } } }
+          }
+        }
+      },
+      components: { schemas: { Pet: object('name', 'createdAt'), PetStatus: { type: 'string' } } },
+    }));
+
+    expect(result.violations).toEqual([]);
+    expect(result.score).toBe(CRITERIA_WEIGHTS.naming);
+  });
+
+  test('should infer the casing from the majority and treat component and inline schemas alike', () => {
+    const result = new NamingConventionRule().evaluate(document({
+      paths: {
+        '/pets': {
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                content: { 'application/json': { schema: { type: 'array', items: object('petId', 'CreatedAt') } } }
+              }
+            }
+          }
+        }
+      },
+      components: { schemas: { Pet: object('petName', 'ownerId', 'created_at') } },
+    }));
+
+    expect(found(result.violations)).toEqual([
+      "naming.property-casing: Rename 'created_at' to 'createdAt'",
+      "naming.property-casing: Rename 'CreatedAt' to 'createdAt'",
+    ]);
+    expect(result.violations[1]).toMatchObject({
+      path: '/pets',
+      pointer: '/paths/~1pets/get/responses/200/content/application~1json/schema/items/properties/CreatedAt',
+      message: "Property 'CreatedAt' is not camelCase, the casing most properties use",
+    });
+    expect(result.score).toBeLessThan(CRITERIA_WEIGHTS.naming);
+  });
+
+  test('should apply the configured casings', () => {
+    const result = new NamingConventionRule({ naming: { properties: 'snake_case', queryParameters: 'snake_case', headers: 'kebab-case' } }).evaluate(document({
+      paths: {
+        '/pets': {
+          parameters: [{ name: 'sortBy', in: 'query', schema: { type: 'string' } }],
+          get: {
+            responses: {
+              '200': {
+                description: 'OK',
+                headers: { 'X-Rate-Limit': { schema: { type: 'integer' } } },
+                content: { 'application/json': { schema: object('petName', 'owner_id') } }
+              }
+            }
+          }
+        }
+      },
+    }));
+
+    expect(found(result.violations)).toEqual([
+      "naming.query-parameter-casing: Rename 'sortBy' to 'sort_by'",
+      "naming.header-casing: Rename 'X-Rate-Limit' to 'x-rate-limit'",
+      "naming.property-casing: Rename 'petName' to 'pet_name'",
+    ]);
+    expect(result.violations[0].message).toBe("Query parameter 'sortBy' is not snake_case, the casing configured for query parameters");
+    expect(result.violations[1].severity).toBe('info');
+  });
+
+  test('should compare component names within their section', () => {
+    const result = new NamingConventionRule().evaluate(document({
+      components: {
+        schemas: { Pet: { type: 'string' }, Owner: { type: 'string' }, pet_status: { type: 'string' } },
+        securitySchemes: { api_key: { type: 'apiKey', name: 'api_key', in: 'header' } },
+      },
+    }));
+
+    expect(found(result.violations)).toEqual(["naming.component-casing: Rename 'pet_status' to 'PetStatus'"]);
+    expect(result.violations[0].message).toBe("Component 'pet_status' in components.schemas is not PascalCase, the casing most components in components.schemas use");
+  });
+});
@@ -0,0 +1,100 @@
+import { PaginationRule } from '../../../src/scoring-engine/rules/pagination-rule';
+import { OpenAPIV3 } from 'openapi-types';
+import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from '../../../src/scoring-engine/constants';
+
+describe('PaginationRule', () => {
+  const list = (properties: Record<string, OpenAPIV3.SchemaObject> = {}): OpenAPIV3.ResponsesObject => ({
+    '200': {
+      description: 'A page of items',
+      content: {
+        'application/json': {
+          schema: { type: 'object', properties: { items: { type: 'array', items: { type: 'string' } }, ...properties } }
+        }
+      }
+    }
+  });
+  const query = (name: string, schema: OpenAPIV3.SchemaObject = { type: 'integer', minimum: 1, maximum: 100 }): OpenAPIV3.ParameterObject =>
+    ({ name, in: 'query', schema });
+
+  const document = (paths: OpenAPIV3.PathsObject): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths,
+  });
+
+  const ids = (violations: { ruleId: string; path: string }[]) => violations.map(({ ruleId, path }) => `${ruleId} ${path}`);
+
+  test('should have correct name, description and weight', () => {
+    const rule = new PaginationRule();
+    expect(rule.name).toBe(RULE_NAMES.pagination);
+    expect(rule.description).toBe(RULE_DESCRIPTIONS.pagination);
+    expect(rule.weight).toBe(CRITERIA_WEIGHTS.pagination);
+  });
+
+  test('should score full marks for consistently paginated collections', () => {
+    const result = new PaginationRule().evaluate(document({
+      '/pets': { get: { parameters: [query('cursor', { type: 'string' }), query('limit')], responses: list({ next_cursor: { type: 'string' } }) } },
+      '/owners': { get: { parameters: [query('after', { type: 'string' }), query('limit')], responses: list({ _links: { type: 'object', properties: { next: { type: 'string' } } } }) } },
+      // Single resources and lists without a page are left alone
+      '/pets/{id}': { get: { responses: list() } },
+      '/me': { get: { responses: { '200': { description: 'OK', content: { 'application/json': { schema: { type: 'object', properties: { name: { type: 'string' } } } } } } } } },
+    }));
+
+    expect(result.violations).toEqual([]);
+    expect(result.score).toBe(CRITERIA_WEIGHTS.pagination);
+  });
+
+  test('should flag collections without pagination parameters, bounds or next-page signalling', () => {
+    const result = new PaginationRule().evaluate(document({
+      '/pets': { get: { responses: list() } },
+      '/owners': { get: { parameters: [query('offset'), query('limit', { type: 'integer' })], responses: list() } },
+    }));
+
+    expect(ids(result.violations)).toEqual([
+      'pagination.missing-parameters /pets',
+      'pagination.limit-bounds /owners',
+      'pagination.missing-next-link /owners',
+    ]);
+    expect(result.violations[0].suggestion).toContain('`offset` and `limit`');
+    expect(result.violations[1]).toMatchObject({
+      operation: 'GET',
+      pointer: '/paths/~1owners/get/parameters/1/schema',
+      message: "Page size parameter 'limit' of GET /owners has no minimum or maximum",
+    });
+    expect(result.score).toBeLessThan(CRITERIA_WEIGHTS.pagination);
+  });
+
+  test('should accept a Link header and treat a lone page size with links as cursor pagination', () => {
+    const result = new PaginationRule().evaluate(document({
+      '/pets': {
+        get: {
+          parameters: [query('per_page')],
+          responses: { '200': { description: 'OK', headers: { Link: { schema: { type: 'string' } } }, content: { 'application/json': { schema: { type: 'array', items: { type: 'string' } } } } } }
+        }
+      },
+    }));
+
+    expect(result.violations).toEqual([]);
+  });
+
+  test('should flag styles other than the most common one', () => {
+    const result = new PaginationRule().evaluate(document({
+      '/pets': { get: { parameters: [query('offset'), query('limit')], responses: list({ next: { type: 'string' } }) } },
+      '/owners': { get: { parameters: [query('offset'), query('limit')], responses: list({ next: { type: 'string' } }) } },
+      '/toys': { get: { parameters: [query('page'), query('page_size')], responses: list({ has_more: { type: 'boolean' } }) } },
+    }));
+
+    expect(ids(result.violations)).toEqual(['pagination.mixed-styles /toys']);
+    expect(result.violations[0].message).toBe('GET /toys uses page pagination, but most collection endpoints use offset pagination');
+  });
+
+  test('should flag styles other than the configured one', () => {
+    const result = new PaginationRule({ pagination: { style: 'cursor' } }).evaluate(document({
+      '/pets': { get: { parameters: [query('offset'), query('limit')], responses: list({ next: { type: 'string' } }) } },
+      '/owners': { get: { parameters: [query('cursor', { type: 'string' }), query('limit')], responses: list({ next: { type: 'string' } }) } },
+    }));
+
+    expect(ids(result.violations)).toEqual(['pagination.mixed-styles /pets']);
+    expect(result.violations[0].message).toBe('GET /pets uses offset pagination, but cursor pagination is preferred');
+  });
+});
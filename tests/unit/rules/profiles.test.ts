@@ -0,0 +1,65 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { applyProfile, getProfile, PROFILES } from '../../../src/scoring-engine/profiles';
+import { Judge } from '../../../src/core/score-engine';
+import { CRITERIA_WEIGHTS, RULE_NAMES } from '../../../src/scoring-engine/constants';
+
+describe('Scoring profiles', () => {
+  const spec = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: {
+          summary: 'List pets',
+          parameters: [{ name: 'limit', in: 'query', schema: { type: 'integer' } }],
+          responses: { '200': { description: 'OK' } }
+        }
+      }
+    }
+  });
+
+  const maxScore = (report: ReturnType<Judge['evaluate']>, name: string) =>
+    report.categoryScores.find(category => category.name === name)?.maxScore;
+
+  it('should record the profile and apply its weights and checks', () => {
+    const report = new Judge({ profile: 'public' }).evaluate(spec());
+
+    expect(report.profile).toBe('public');
+    expect(maxScore(report, RULE_NAMES.description_docs)).toBe(25);
+    expect(maxScore(report, RULE_NAMES.schema_types)).toBe(CRITERIA_WEIGHTS.schema_types);
+    expect(report.violations.find(v => v.ruleId === 'examples.parameter')!.severity).toBe('warning');
+    expect(new Judge().evaluate(spec()).profile).toBeUndefined();
+  });
+
+  it('should grade with the thresholds of the profile', () => {
+    const scores = ['prototype', 'strict'].map(profile => new Judge({ profile }).evaluate(spec()));
+    const [prototype, strict] = scores;
+
+    expect(maxScore(prototype, RULE_NAMES.examples)).toBeUndefined();
+    expect(prototype.overallScore).toBeGreaterThan(strict.overallScore);
+    expect(['S', 'A', 'B', 'C', 'D', 'F'].indexOf(prototype.grade))
+      .toBeLessThan(['S', 'A', 'B', 'C', 'D', 'F'].indexOf(strict.grade));
+  });
+
+  it('should let the config refine the profile and the option override the config', () => {
+    const config = applyProfile(PROFILES.internal, {
+      categories: { examples: { enabled: false } },
+      checks: { 'misc.contact-missing': 'warning' },
+      severityWeights: { warning: 0.3 },
+    });
+
+    expect(config.categories!.examples).toEqual({ weight: 5, enabled: false });
+    expect(config.categories!.description_docs).toEqual({ weight: 15 });
+    expect(Object.entries(config.checks!)[0]).toEqual(['misc.contact-missing', 'warning']);
+    expect(config.checks!['misc.license-missing']).toBe('off');
+    expect(config.severityWeights).toEqual({ warning: 0.3 });
+
+    expect(new Judge({ profile: 'internal', config: { profile: 'strict' } }).evaluate(spec()).profile).toBe('internal');
+    expect(new Judge({ config: { profile: 'strict' } }).evaluate(spec()).profile).toBe('strict');
+  });
+
+  it('should reject unknown profiles', () => {
+    expect(() => getProfile('partner')).toThrow("Unknown profile 'partner', expected one of public, internal, prototype, strict");
+    expect(() => new Judge({ profile: 'partner' })).toThrow("Unknown profile 'partner'");
+  });
+});
@@ -6,6 +6,7 @@ import * as helperFunctions from '../../../src/scoring-engine/helper-functions';
 // Mock the helper functions
 jest.mock('../../../src/scoring-engine/helper-functions', () => ({
   resolveResponse: jest.fn((response) => response),
+  resolveSchema: jest.fn((schema, spec) => schema.$ref ? spec.components.schemas[schema.$ref.split('/').pop()] : schema),
   calculateScore: jest.fn().mockReturnValue(10) // Default mock return value
 }));
 
@@ -660,9 +661,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Bad Request',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -670,9 +669,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Unauthorized',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -680,9 +677,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Internal Server Error',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -690,9 +685,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Unexpected error',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               }
@@ -723,9 +716,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Bad Request',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -733,9 +724,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Validation Error',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -743,9 +732,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Internal Server Error',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -753,9 +740,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Unexpected error',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               }
@@ -779,9 +764,7 @@ describe('ResponseCodesRule', () => {
                 description: 'User not found',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -789,9 +772,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Internal Server Error',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -799,9 +780,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Unexpected error',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               }
@@ -816,9 +795,7 @@ describe('ResponseCodesRule', () => {
                 description: 'User not found',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -826,9 +803,7 @@ describe('ResponseCodesRule', () => {
                 description: 'Internal Server Error',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               },
@@ -836,15 +811,18 @@ describe('ResponseCodesRule', () => {
                 description: 'Unexpected error',
                 content: {
                   'application/json': {
-                    schema: {
-                      type: 'object'
-                    }
+                    schema: { $ref: '#/components/schemas/Error' }
                   }
                 }
               }
             }
           }
         }
+      },
+      components: {
+        schemas: {
+          Error: { type: 'object' }
+        }
       }
     };
 
@@ -853,4 +831,102 @@ describe('ResponseCodesRule', () => {
     expect(result.violations).toHaveLength(0);
     expect(helperFunctions.calculateScore).toHaveBeenCalled();
   });
+
+  test('should evaluate OpenAPI 3.1 webhooks as operations', () => {
+    const spec = {
+      openapi: '3.1.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      webhooks: {
+        newPet: {
+          post: {
+            requestBody: {
+              content: { 'application/json': { schema: { type: 'object' } } }
+            },
+            responses: {
+              '200': { description: 'Webhook received' }
+            }
+          }
+        }
+      }
+    } as unknown as OpenAPIV3.Document;
+
+    const result = rule.evaluate(spec);
+    expect(result.violations).not.toContainEqual(expect.objectContaining({
+      message: 'No paths defined in the API specification'
+    }));
+    expect(result.violations).toContainEqual(expect.objectContaining({
+      path: 'webhooks.newPet',
+      message: 'POST operation is missing server error response codes'
+    }));
+  });
+
+  describe('error format', () => {
+    const json = (schema: OpenAPIV3.SchemaObject | OpenAPIV3.ReferenceObject, mediaType = 'application/json') =>
+      ({ [mediaType]: { schema } });
+    const document = (responses: Record<string, OpenAPIV3.ResponsesObject>, schemas: Record<string, OpenAPIV3.SchemaObject> = {}): OpenAPIV3.Document => ({
+      openapi: '3.0.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      paths: Object.fromEntries(Object.entries(responses).map(([path, operationResponses]) => [path, { get: { responses: operationResponses } }])),
+      components: { schemas },
+    });
+    const errorFormatViolations = (result: ReturnType<ResponseCodesRule['evaluate']>) => result.violations
+      .filter(({ ruleId }) => ['responses.error-schema-inconsistent', 'responses.problem-details', 'responses.inline-error-schema'].includes(ruleId));
+
+    test('should flag error responses that deviate from the most common error schema', () => {
+      const error = { $ref: '#/components/schemas/Error' };
+      const spec = document({
+        '/pets': { '200': { description: 'OK' }, '404': { description: 'Not found', content: json(error) }, '500': { description: 'Failed', content: json(error) } },
+        '/owners': { '200': { description: 'OK' }, '400': { description: 'Bad request', content: json({ type: 'object', properties: { message: { type: 'string' } } }) } },
+      }, { Error: { type: 'object', properties: { code: { type: 'string' } } } });
+
+      const violations = errorFormatViolations(rule.evaluate(spec));
+      expect(violations.map(({ ruleId, path }) => `${ruleId} ${path}`)).toEqual([
+        'responses.error-schema-inconsistent /owners',
+        'responses.inline-error-schema /owners',
+      ]);
+      expect(violations[0]).toMatchObject({
+        pointer: '/paths/~1owners/get/responses/400/content/application~1json/schema',
+        message: 'Error response 400 of GET /owners uses another schema than most error responses (#/components/schemas/Error)',
+      });
+      expect(violations[1].suggestion).toBe('Reference the shared error schema #/components/schemas/Error instead');
+    });
+
+    test('should report a shared error response once', () => {
+      const spec = document({
+        '/pets': { '200': { description: 'OK' }, '404': { $ref: '#/components/responses/NotFound' }, '500': { description: 'Failed', content: json({ $ref: '#/components/schemas/Error' }) } },
+        '/owners': { '200': { description: 'OK' }, '404': { $ref: '#/components/responses/NotFound' }, '500': { description: 'Failed', content: json({ $ref: '#/components/schemas/Error' }) } },
+        '/toys': { '200': { description: 'OK' }, '500': { description: 'Failed', content: json({ $ref: '#/components/schemas/Error' }) } },
+      }, { Error: { type: 'object' } });
+      spec.components!.responses = { NotFound: { description: 'Not found', content: json({ type: 'string' }) } };
+      // The mocked resolveResponse returns references unchanged
+      (helperFunctions.resolveResponse as jest.Mock).mockImplementation(response =>
+        response.$ref ? spec.components!.responses![response.$ref.split('/').pop()] : response);
+
+      const violations = errorFormatViolations(rule.evaluate(spec));
+      (helperFunctions.resolveResponse as jest.Mock).mockImplementation(response => response);
+      expect(violations).toHaveLength(1);
+      expect(violations[0]).toMatchObject({
+        ruleId: 'responses.error-schema-inconsistent',
+        pointer: '/components/responses/NotFound/content/application~1json/schema',
+      });
+    });
+
+    test('should enforce problem details when configured', () => {
+      const problem = { type: 'object' as const, properties: { type: { type: 'string' as const }, title: { type: 'string' as const }, status: { type: 'integer' as const }, detail: { type: 'string' as const } } };
+      const spec = document({
+        '/pets': {
+          '200': { description: 'OK' },
+          '400': { description: 'Bad request', content: json({ $ref: '#/components/schemas/Problem' }, 'application/problem+json') },
+          '404': { description: 'Not found', content: json({ $ref: '#/components/schemas/Problem' }) },
+          '500': { description: 'Failed', content: json({ $ref: '#/components/schemas/Error' }, 'application/problem+json') },
+        },
+      }, { Problem: problem, Error: { type: 'object', properties: { title: { type: 'string' } } } });
+
+      const result = new ResponseCodesRule({ errorFormat: { problemDetails: true } }).evaluate(spec);
+      expect(errorFormatViolations(result).map(({ ruleId, message }) => `${ruleId}: ${message}`)).toEqual([
+        'responses.problem-details: Error response 404 of GET /pets is application/json instead of application/problem+json',
+        "responses.problem-details: Error response 500 of GET /pets lacks the 'type', 'status', 'detail' member(s)",
+      ]);
+    });
+  });
 });
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import path from 'path';
+import { RULE_REGISTRY, getCheck } from '../../../src/scoring-engine/rule-registry';
+import { OpenAPIParser } from '../../../src/core/parser';
+import { Judge } from '../../../src/core/score-engine';
+
+describe('RULE_REGISTRY', () => {
+  const rulesDir = path.join(__dirname, '../../../src/scoring-engine/rules');
+  const usedIds = fs.readdirSync(rulesDir)
+    .flatMap(file => [...fs.readFileSync(path.join(rulesDir, file), 'utf8').matchAll(/ruleId: '([^']+)'/g)])
+    .map(match => match[1]);
+
+  it('should register every check once', () => {
+    const ids = RULE_REGISTRY.map(check => check.id);
+
+    expect(new Set(ids).size).toBe(ids.length);
+    expect([...new Set(usedIds)].sort()).toEqual([...ids].sort());
+  });
+
+  it('should prefix IDs by category', () => {
+    const prefixes = new Map<string, Set<string>>();
+    RULE_REGISTRY.forEach(check => {
+      const prefix = check.id.split('.')[0];
+      prefixes.set(check.category, (prefixes.get(check.category) || new Set()).add(prefix));
+    });
+
+    prefixes.forEach(categoryPrefixes => expect(categoryPrefixes.size).toBe(1));
+    expect(getCheck('paths.verb-in-path')).toEqual(expect.objectContaining({ category: 'paths_operations', severity: 'warning' }));
+  });
+
+  it('should tag violations with registered IDs and their default severity', async () => {
+    const parsed = await new OpenAPIParser().parse(path.join(__dirname, '../../../samples/onepassword.yaml'));
+    const violations = new Judge().evaluate(parsed).ruleResults.flatMap(({ result }) => result.violations);
+
+    expect(violations.length).toBeGreaterThan(0);
+    violations.forEach(violation => {
+      expect(getCheck(violation.ruleId)).toBeDefined();
+      expect(violation.severity).toBe(getCheck(violation.ruleId)!.severity);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { SchemaTypesRule } from '../../../src/scoring-engine/rules/schema-rule';
-import { OpenAPIV3 } from 'openapi-types';
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
 import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from '../../../src/scoring-engine/constants';
 
 describe('SchemaTypesRule', () => {
@@ -598,4 +598,132 @@ describe('SchemaTypesRule', () => {
     expect(result.violations).toHaveLength(1);
     expect(result.violations[0].message).toContain('lacks a type definition');
   });
+
+  describe('OpenAPI 3.1', () => {
+    test('should accept type arrays that include null', () => {
+      const spec: OpenAPIV3_1.Document = {
+        openapi: '3.1.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        components: {
+          schemas: {
+            Nickname: {
+              type: ['string', 'null'],
+              description: 'Optional nickname'
+            }
+          }
+        }
+      };
+
+      const result = rule.evaluate(spec);
+      expect(result.violations).toHaveLength(0);
+      expect(result.score).toBe(rule.weight);
+    });
+
+    test('should still flag type arrays in OpenAPI 3.0 documents', () => {
+      const spec = {
+        openapi: '3.0.3',
+        info: { title: 'Test API', version: '1.0.0' },
+        paths: {},
+        components: {
+          schemas: {
+            Nickname: { type: ['string', 'null'], description: 'Optional nickname' }
+          }
+        }
+      } as unknown as OpenAPIV3.Document;
+
+      const result = rule.evaluate(spec);
+      expect(result.violations).toContainEqual(expect.objectContaining({
+        message: expect.stringContaining('invalid type'),
+        suggestion: expect.stringContaining('require OpenAPI 3.1')
+      }));
+    });
+
+    test('should flag nullable, which 3.1 no longer supports', () => {
+      const spec = {
+        openapi: '3.1.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        components: {
+          schemas: {
+            Nickname: { type: 'string', nullable: true, description: 'Optional nickname' }
+          }
+        }
+      } as unknown as OpenAPIV3_1.Document;
+
+      const result = rule.evaluate(spec);
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].message).toContain("'nullable'");
+      expect(result.violations[0].severity).toBe('warning');
+    });
+
+    test('should require a null type rather than nullable for null enum values', () => {
+      const spec = {
+        openapi: '3.1.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        components: {
+          schemas: {
+            WithNullType: { type: ['string', 'null'], enum: ['active', null], description: 'Status' }
+          }
+        }
+      } as unknown as OpenAPIV3_1.Document;
+
+      const result = rule.evaluate(spec);
+      expect(result.violations).toHaveLength(0);
+    });
+
+    test('should understand const, prefixItems and $defs', () => {
+      const spec = {
+        openapi: '3.1.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        components: {
+          schemas: {
+            Kind: { const: 'pet', description: 'Discriminating kind' },
+            Coordinates: {
+              type: 'array',
+              prefixItems: [{ type: 'number' }, { type: 'number' }],
+              items: false,
+              description: 'Latitude and longitude'
+            },
+            Owner: {
+              type: 'object',
+              required: ['address'],
+              properties: {
+                address: { $ref: '#/components/schemas/Owner/$defs/Address', description: 'Home address' }
+              },
+              $defs: {
+                Address: { type: 'object', properties: { street: { type: 'string', description: 'Street' } }, required: ['street'], description: 'Address' }
+              },
+              description: 'Pet owner'
+            }
+          }
+        }
+      } as unknown as OpenAPIV3_1.Document;
+
+      const result = rule.evaluate(spec);
+      expect(result.violations).toHaveLength(0);
+    });
+
+    test('should check schemas used by webhooks', () => {
+      const spec = {
+        openapi: '3.1.0',
+        info: { title: 'Test API', version: '1.0.0' },
+        webhooks: {
+          newPet: {
+            post: {
+              requestBody: {
+                content: {
+                  'application/json': { schema: { type: 'array' } }
+                }
+              },
+              responses: { '200': { description: 'Received' } }
+            }
+          }
+        }
+      } as unknown as OpenAPIV3_1.Document;
+
+      const result = rule.evaluate(spec);
+      expect(result.violations).toHaveLength(1);
+      expect(result.violations[0].location).toBe('webhooks.newPet.post.requestBody.content.application/json.schema');
+      expect(result.violations[0].message).toContain('missing items definition');
+    });
+  });
 });
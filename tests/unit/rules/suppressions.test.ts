@@ -0,0 +1,88 @@
+import { OpenAPIV3 } from 'openapi-types';
+import { Judge } from '../../../src/core/score-engine';
+import { RULE_NAMES } from '../../../src/scoring-engine/constants';
+
+describe('x-scorecard-ignore suppressions', () => {
+  const spec = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0', description: 'API used to test suppressions' },
+    paths: {
+      '/login': {
+        post: {
+          summary: 'Log in',
+          description: 'Exchanges credentials for a session token',
+          responses: { '200': { description: 'Logged in' } }
+        }
+      },
+      '/pets': {
+        get: {
+          summary: 'List pets',
+          description: 'Lists every pet',
+          responses: { '200': { description: 'The pets' } }
+        }
+      }
+    },
+    components: {
+      securitySchemes: { bearer: { type: 'http', scheme: 'bearer' } },
+      schemas: {
+        Metadata: { type: 'object', description: 'Free-form metadata' }
+      }
+    },
+    security: []
+  });
+
+  const allViolations = (report: ReturnType<Judge['evaluate']>) =>
+    report.ruleResults.flatMap(({ result }) => result.violations);
+
+  it('should move violations ignored on an operation to the suppressed list with their reason', () => {
+    const document = spec() as any;
+    document.paths['/login'].post['x-scorecard-ignore'] = [
+      { rule: 'security.mutating-unsecured', reason: 'Login is called before a token exists' }
+    ];
+
+    const report = new Judge().evaluate(document);
+
+    expect(allViolations(report).some(v => v.ruleId === 'security.mutating-unsecured')).toBe(false);
+    expect(report.suppressed).toContainEqual(expect.objectContaining({
+      ruleId: 'security.mutating-unsecured',
+      suppressedBy: '/paths/~1login/post',
+      reason: 'Login is called before a token exists',
+    }));
+  });
+
+  it('should not count suppressed violations against the score', () => {
+    const baseline = new Judge().evaluate(spec());
+    const document = spec() as any;
+    document.paths['/login']['x-scorecard-ignore'] = ['responses.*'];
+    document.paths['/pets']['x-scorecard-ignore'] = ['responses.*'];
+
+    const report = new Judge().evaluate(document);
+    const responseScore = (card: typeof report) =>
+      card.categoryScores.find(category => category.name === RULE_NAMES.response_codes)!.score;
+
+    expect(allViolations(report).some(v => v.ruleId.startsWith('responses.'))).toBe(false);
+    expect(responseScore(report)).toBeGreaterThan(responseScore(baseline));
+  });
+
+  it('should apply ignores on the root and on schemas to everything below them', () => {
+    const document = spec() as any;
+    document['x-scorecard-ignore'] = 'misc.servers-missing';
+    document.components.schemas.Metadata['x-scorecard-ignore'] = ['schema.object-without-properties'];
+
+    const report = new Judge().evaluate(document);
+    const suppressedIds = report.suppressed.map(v => v.ruleId);
+
+    expect(suppressedIds).toContain('misc.servers-missing');
+    expect(suppressedIds).toContain('schema.object-without-properties');
+    expect(report.suppressed.find(v => v.ruleId === 'misc.servers-missing')!.suppressedBy).toBe('');
+  });
+
+  it('should keep violations of other rules', () => {
+    const document = spec() as any;
+    document.paths['/pets'].get['x-scorecard-ignore'] = ['examples.response-body'];
+
+    const report = new Judge().evaluate(document);
+
+    expect(allViolations(report).some(v => v.pointer?.startsWith('/paths/~1pets/get') && v.ruleId === 'responses.missing-4xx')).toBe(true);
+  });
+});
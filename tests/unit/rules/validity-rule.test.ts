@@ -0,0 +1,147 @@
+import { OpenAPIV3, OpenAPIV3_1 } from 'openapi-types';
+import { ValidityRule } from '../../../src/scoring-engine/rules/validity-rule';
+import { CRITERIA_WEIGHTS, RULE_NAMES, RULE_DESCRIPTIONS } from "../../../src/scoring-engine/constants";
+import { Judge } from '../../../src/core/score-engine';
+
+describe('ValidityRule', () => {
+  let rule: ValidityRule;
+
+  const validSpec = (): OpenAPIV3.Document => ({
+    openapi: '3.0.3',
+    info: { title: 'Test API', version: '1.0.0' },
+    paths: {
+      '/pets': {
+        get: {
+          responses: {
+            '200': {
+              description: 'OK',
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/Pet' } } }
+            }
+          }
+        }
+      }
+    },
+    components: {
+      schemas: { Pet: { type: 'object', properties: { name: { type: 'string' } } } }
+    }
+  });
+
+  beforeEach(() => {
+    rule = new ValidityRule();
+  });
+
+  it('should initialize with correct properties', () => {
+    expect(rule.name).toBe(RULE_NAMES.validity);
+    expect(rule.description).toBe(RULE_DESCRIPTIONS.validity);
+    expect(rule.weight).toBe(CRITERIA_WEIGHTS.validity);
+  });
+
+  it('should give full score for a valid document', () => {
+    const result = rule.evaluate(validSpec());
+
+    expect(result.score).toBe(rule.weight);
+    expect(result.violations).toHaveLength(0);
+  });
+
+  it('should report meta-schema errors with a JSON pointer', () => {
+    const spec = validSpec() as any;
+    delete spec.info.title;
+
+    const result = rule.evaluate(spec);
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        pointer: '/info',
+        location: 'info',
+        severity: 'error',
+        message: expect.stringContaining("must have required property 'title'"),
+      })
+    ]);
+    expect(result.score).toBeLessThan(rule.weight);
+  });
+
+  it('should name unexpected properties instead of reporting every oneOf branch', () => {
+    const spec = validSpec() as any;
+    spec.paths['/pets'].get.responses['200'].descripton = 'typo';
+
+    const result = rule.evaluate(spec);
+    const pointers = result.violations.map(v => v.pointer);
+
+    expect(result.violations.some(v => v.message.includes("unexpected property 'descripton'"))).toBe(true);
+    expect(pointers.every(pointer => pointer!.startsWith('/paths/~1pets/get/responses/200'))).toBe(true);
+    expect(result.violations.every(v => v.path === '/pets')).toBe(true);
+  });
+
+  it('should merge enum errors from alternative branches into one violation', () => {
+    const spec = validSpec() as any;
+    spec.paths['/pets'].parameters = [{ name: 'id', in: 'body', required: true, schema: { type: 'string' } }];
+
+    const enumViolations = rule.evaluate(spec).violations.filter(v => v.pointer === '/paths/~1pets/parameters/0/in');
+
+    expect(enumViolations).toHaveLength(1);
+    expect(enumViolations[0].message).toContain('(path, query, header, cookie)');
+  });
+
+  it('should report references that cannot be resolved', () => {
+    const spec = validSpec() as any;
+    spec.paths['/pets'].get.responses['200'].content['application/json'].schema = { $ref: '#/components/schemas/Pets' };
+
+    const result = rule.evaluate(spec);
+
+    expect(result.violations).toEqual([
+      expect.objectContaining({
+        pointer: '/paths/~1pets/get/responses/200/content/application~1json/schema',
+        message: "Reference '#/components/schemas/Pets' cannot be resolved",
+        severity: 'error',
+      })
+    ]);
+  });
+
+  it('should validate OpenAPI 3.1 documents against the 3.1 schema', () => {
+    const spec: OpenAPIV3_1.Document = {
+      openapi: '3.1.0',
+      info: { title: 'Test API', version: '1.0.0' },
+      webhooks: {
+        newPet: {
+          post: { responses: { '200': { description: 'OK' } } }
+        }
+      },
+      components: {
+        schemas: { Pet: { type: ['object', 'null'], properties: { name: { type: 'string' } } } }
+      }
+    };
+
+    expect(rule.evaluate(spec).violations).toHaveLength(0);
+
+    (spec.webhooks!.newPet as any).post.responses = 'none';
+    expect(rule.evaluate(spec).violations[0].pointer).toBe('/webhooks/newPet/post/responses');
+  });
+
+  describe('validity gate', () => {
+    const invalidSpec = () => {
+      const spec = validSpec() as any;
+      delete spec.info.title;
+      return spec;
+    };
+
+    it('should leave the grade alone by default', () => {
+      const report = new Judge().evaluate(invalidSpec());
+
+      expect(report.categoryScores.map(c => c.name)).toContain(RULE_NAMES.validity);
+      expect(report.notes).toHaveLength(0);
+    });
+
+    it('should cap the grade at F when enabled', () => {
+      const report = new Judge({ validityGate: true }).evaluate(invalidSpec());
+
+      expect(report.grade).toBe('F');
+      expect(report.notes[0]).toContain('not structurally valid');
+    });
+
+    it('should not affect valid documents', () => {
+      const report = new Judge({ validityGate: true }).evaluate(validSpec());
+
+      expect(report.notes).toHaveLength(0);
+    });
+  });
+});